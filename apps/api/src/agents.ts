@@ -3,185 +3,213 @@
  *
  * Each agent receives a job and returns a Receipt.  In Phase 1 all execution
  * is simulated with randomised distributions that clearly differentiate the
- * three strategies on the leaderboard.
+ * strategies on the leaderboard.  Every draw comes from a seeded PRNG and the
+ * seed is recorded on the receipt, so a sim outcome can be reproduced exactly.
+ * A market scenario (lib/scenarios.ts) reshapes the distributions first.
+ * Agent definitions (sim profiles, policies, default constraints) come from
+ * the runtime registry in lib/agentRegistry.ts.
+ *
+ * Remote agents (kind === "remote") are not simulated: runRemoteAgent POSTs
+ * the job to the agent's endpoint and records its signed outcome.
  *
  * Phase 2 hook: set EXECUTION_MODE=real and wire in the real executors at the
  * bottom of each handler.
  */
 
 import { v4 as uuidv4 } from "uuid";
+import { createRng } from "@agent-aqi/shared";
 import type {
+  AgentDefinition,
   AgentId,
-  AgentPolicy,
+  FailureKind,
   JobConstraints,
+  MarketScenario,
   Receipt,
   OutcomeMetrics,
+  PaidCallParams,
+  SwapParams,
 } from "@agent-aqi/shared";
+import { getAgent } from "./lib/agentRegistry";
+import { callRemoteAgent } from "./integrations/remoteAgent";
+import { DEFAULT_SCENARIO, applyScenario } from "./lib/scenarios";
+import { jobFailure } from "./lib/failures";
+import { paymentDefault } from "./lib/constraints";
+import type { RemoteFailure } from "./integrations/remoteAgent";
 
 // ─── Simulation helpers ───────────────────────────────────────────────────────
 
+type Rng = () => number;
+
 /** Uniform random in [min, max] */
-function rnd(min: number, max: number): number {
-  return min + Math.random() * (max - min);
+function rnd(rand: Rng, min: number, max: number): number {
+  return min + rand() * (max - min);
 }
 
 /** Weighted boolean: returns true with probability p */
-function chance(p: number): boolean {
-  return Math.random() < p;
-}
-
-// ─── Agent definitions ────────────────────────────────────────────────────────
-
-export interface AgentMeta {
-  agentId: AgentId;
-  displayName: string;
-  description: string;
+function chance(rand: Rng, p: number): boolean {
+  return rand() < p;
 }
 
-export const AGENT_META: Record<AgentId, AgentMeta> = {
-  safe: {
-    agentId: "safe",
-    displayName: "SafeGuard",
-    description:
-      "Strict slippage limits, simulation-first, low unsafe-approval rate. Slower but highly reliable.",
-  },
-  fast: {
-    agentId: "fast",
-    displayName: "SpeedRunner",
-    description:
-      "Minimal pre-checks, targets sub-second execution. Higher failure rate in adverse conditions.",
-  },
-  cheap: {
-    agentId: "cheap",
-    displayName: "GasOptimizer",
-    description:
-      "Batches & delays to hit lowest gas cost. Medium reliability, occasionally misses deadlines.",
-  },
-};
-
-// ─── Simulation profiles ──────────────────────────────────────────────────────
-
-interface SimProfile {
-  successRate: number;          // probability of fulfillment
-  latencyMs: [number, number];  // uniform range
-  gasUsedUsd: [number, number]; // uniform range
-  slippageBps: [number, number]; // uniform range
-  flagProbability: number;      // probability of attaching a safety flag
-  possibleFlags: string[];
+/** Outcome of a job aborted at its deadline — it spent nothing and reports nothing. */
+export function timedOutOutcome(deadlineMs: number): OutcomeMetrics {
+  return { status: "timed_out", latencyMs: deadlineMs, gasUsedUsd: 0, slippageBps: 0, safetyFlags: [] };
 }
 
-const PROFILES: Record<AgentId, SimProfile> = {
-  safe: {
-    successRate:      0.96,
-    latencyMs:        [800,  2400],
-    gasUsedUsd:       [0.40,  0.80],
-    slippageBps:      [5,    30],
-    flagProbability:  0.05,
-    possibleFlags:    ["price_impact_warning"],
-  },
-  fast: {
-    successRate:      0.78,
-    latencyMs:        [120,   600],
-    gasUsedUsd:       [0.55,  1.10],
-    slippageBps:      [20,   120],
-    flagProbability:  0.30,
-    possibleFlags:    ["high_slippage", "unaudited_contract", "mempool_race"],
-  },
-  cheap: {
-    successRate:      0.85,
-    latencyMs:        [1200, 4000],
-    gasUsedUsd:       [0.12,  0.38],
-    slippageBps:      [8,    60],
-    flagProbability:  0.15,
-    possibleFlags:    ["deadline_risk", "price_impact_warning"],
-  },
-};
-
-// ─── Per-agent Uniswap routing policies ──────────────────────────────────────
-//
-// These policies are applied in quote/real mode to send distinct parameters
-// to the Uniswap Trading API, producing genuinely different outcomes per agent.
-//
-//   SafeGuard  – tight 0.5 % slippage; prefer routes with ≤2 hops to reduce risk
-//   SpeedRunner – loose 1.5 % slippage; no hop limit; optimises for fastest path
-//   GasOptimizer– very tight 0.3 % slippage; prefers gas-efficient multi-hop routes
-
-export const AGENT_POLICY: Record<AgentId, AgentPolicy> = {
-  safe: {
-    slippageBps: 50,   // 0.5 %
-    maxHops:     2,
-    preference:  "safest",
-  },
-  fast: {
-    slippageBps: 150,  // 1.5 %
-    preference:  "fastest",
-  },
-  cheap: {
-    slippageBps: 30,   // 0.3 %
-    maxHops:     4,
-    preference:  "cheapest",
-  },
-};
-
-// ─── Default constraints per objective ───────────────────────────────────────
+// ─── Default constraints per agent ───────────────────────────────────────────
 
 export function defaultConstraints(
   jobType: JobConstraints["jobType"],
   agentId: AgentId,
 ): JobConstraints {
-  const map: Record<AgentId, Omit<JobConstraints, "jobType">> = {
-    safe:  { objective: "safest",   maxSlippageBps: 50,  maxGasUsd: 1.00, deadlineMs: 3000 },
-    fast:  { objective: "fastest",  maxSlippageBps: 150, maxGasUsd: 2.00, deadlineMs: 800  },
-    cheap: { objective: "cheapest", maxSlippageBps: 80,  maxGasUsd: 0.50, deadlineMs: 5000 },
-  };
-  return { jobType, ...map[agentId] };
+  return { jobType, ...paymentDefault(jobType), ...requireAgent(agentId).constraints };
+}
+
+function requireAgent(agentId: AgentId): AgentDefinition {
+  const agent = getAgent(agentId);
+  if (!agent) throw new Error(`Unknown agentId "${agentId}"`);
+  return agent;
 }
 
 // ─── Core executor ───────────────────────────────────────────────────────────
 
+/**
+ * Simulate one job.  The outcome depends only on the agent's sim profile,
+ * `scenario` and `seed` — draws happen in a fixed order, never on wall-clock
+ * timing.  A simulated latency past constraints.deadlineMs is "timed_out".
+ *
+ * `constraints` are the job's (caller-supplied or defaultConstraints).
+ * `signal` cancels the simulated wait; it rejects with `signal.reason`.
+ */
 export async function runAgent(
-  agentId: AgentId,
-  jobType: JobConstraints["jobType"],
+  agentId:     AgentId,
+  constraints: JobConstraints,
+  seed:        number,
+  scenario:    MarketScenario = DEFAULT_SCENARIO,
+  signal?:     AbortSignal,
 ): Promise<Receipt> {
-  const profile = PROFILES[agentId];
-  const constraints = defaultConstraints(jobType, agentId);
+  const agent = requireAgent(agentId);
+  if (!agent.simProfile) throw new Error(`Agent "${agentId}" has no sim profile`);
+  const profile = applyScenario(agent.simProfile, scenario, agent.policy.preference);
+  const rand = createRng(seed);
 
   // Simulate network / execution delay
-  const latencyMs = Math.round(rnd(...profile.latencyMs));
-  await sleep(Math.min(latencyMs, 400)); // cap demo wait at 400 ms
+  const latencyMs = Math.round(rnd(rand, ...profile.latencyMs));
+  await sleep(Math.min(latencyMs, constraints.deadlineMs, 400), signal); // cap demo wait at 400 ms
 
-  const status = chance(profile.successRate) ? "fulfilled" : "failed";
+  const status = chance(rand, profile.successRate) ? "fulfilled" : "failed";
 
   const safetyFlags: string[] = [];
-  if (chance(profile.flagProbability)) {
+  if (chance(rand, profile.flagProbability)) {
     const flag =
       profile.possibleFlags[
-        Math.floor(Math.random() * profile.possibleFlags.length)
+        Math.floor(rand() * profile.possibleFlags.length)
       ];
     safetyFlags.push(flag);
   }
 
-  const outcome: OutcomeMetrics = {
-    status,
-    latencyMs,
-    gasUsedUsd: Math.round(rnd(...profile.gasUsedUsd) * 1000) / 1000,
-    slippageBps: Math.round(rnd(...profile.slippageBps)),
-    safetyFlags,
-  };
+  const gasUsedUsd  = Math.round(rnd(rand, ...profile.gasUsedUsd) * 1000) / 1000;
+  const slippageBps = Math.round(rnd(rand, ...profile.slippageBps));
+
+  // Every draw above still happens, so a seed reproduces the same outcome
+  const timedOut = latencyMs > constraints.deadlineMs;
+  const outcome: OutcomeMetrics = timedOut
+    ? timedOutOutcome(constraints.deadlineMs)
+    : { status, latencyMs, gasUsedUsd, slippageBps, safetyFlags };
+  const failure =
+    timedOut             ? jobFailure("timeout", "agent", `simulated latency ${latencyMs} ms passed the ${constraints.deadlineMs} ms deadline`) :
+    status === "failed"  ? jobFailure("reverted", "agent", "simulated swap reverted") :
+    undefined;
 
   const now = Date.now();
 
   return {
     jobId:       uuidv4(),
     agentId,
-    submittedAt: now - latencyMs,
+    submittedAt: now - outcome.latencyMs,
     completedAt: now,
     constraints,
     outcome,
+    seed,
+    scenario,
+    ...(failure && { failure }),
     // onChain: undefined  ← Phase 2: populate with real tx data
   };
 }
 
+// ─── Remote executor ─────────────────────────────────────────────────────────
+
+const REMOTE_FAILURE_KINDS: Record<RemoteFailure, FailureKind> = {
+  deadline_exceeded: "timeout",
+  agent_unreachable: "network",
+  invalid_response:  "protocol_error",
+  invalid_signature: "protocol_error",
+};
+
+/**
+ * Run one job on a remote agent.  Transport and signature failures still
+ * produce a receipt — status "failed" with a JobFailure saying what broke — so
+ * an unreliable agent is penalised on reliability rather than silently
+ * skipped.  No answer before the deadline is "timed_out".  A reported tx that
+ * reverted fails the job whatever outcome the agent claimed.
+ *
+ * `signal` cancels the call; it rejects with `signal.reason`.
+ */
+export async function runRemoteAgent(
+  agent:       AgentDefinition,
+  jobId:       string,
+  constraints: JobConstraints,
+  swapParams?: SwapParams,
+  paidCall?:   PaidCallParams,
+  signal?:     AbortSignal,
+): Promise<Receipt> {
+  const submittedAt = Date.now();
+
+  const result = await callRemoteAgent(agent, {
+    jobId,
+    agentId: agent.agentId,
+    jobType: constraints.jobType,
+    constraints,
+    ...(swapParams && { swapParams }),
+    ...(paidCall && { paidCall }),
+  }, signal);
+
+  const outcome: OutcomeMetrics = result.ok
+    ? { ...result.outcome, latencyMs: result.latencyMs }
+    : result.failure === "deadline_exceeded"
+    ? timedOutOutcome(constraints.deadlineMs)
+    : {
+        status:      "failed",
+        latencyMs:   result.latencyMs,
+        gasUsedUsd:  0,
+        slippageBps: 0,
+        safetyFlags: [],
+      };
+
+  const onChain  = result.ok ? result.onChain : undefined;
+  const reverted = onChain?.status === "reverted";
+  if (reverted) outcome.status = "failed";
+
+  const failure = !result.ok
+    ? jobFailure(REMOTE_FAILURE_KINDS[result.failure], "agent", `${result.failure}: ${result.evidence.error ?? "no detail"}`)
+    : reverted
+    ? jobFailure("reverted", "base_confirm_tx", `tx ${onChain.txHash} reverted`)
+    : outcome.status === "failed"
+    ? jobFailure("reverted", "agent", "agent reported a failed execution")
+    : undefined;
+
+  return {
+    jobId,
+    agentId:     agent.agentId,
+    submittedAt,
+    completedAt: submittedAt + result.latencyMs,
+    constraints,
+    outcome,
+    ...(onChain && { onChain }),
+    remote:      result.evidence,
+    ...(failure && { failure }),
+  };
+}
+
 // ─── Phase 2 stub: real execution ────────────────────────────────────────────
 // TODO(phase2): when EXECUTION_MODE=real:
 //   1. Call Uniswap API to build swap calldata
@@ -189,6 +217,17 @@ export async function runAgent(
 //   3. Subscribe to QuickNode Streams webhook for tx confirmation
 //   4. Wrap behind x402 paywall if X402_ENABLED=true
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((res) => setTimeout(res, ms));
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((res, rej) => {
+    if (signal?.aborted) return rej(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      res();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      rej(signal!.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 }
@@ -16,6 +16,27 @@
  *   QUICKNODE_STREAMS_WEBHOOK_SECRET required for POST /webhooks/quicknode
  *   QUICKNODE_STREAM_ID              optional — validates incoming streamId
  *   QUICKNODE_NETWORK                informational (e.g. "base-sepolia")
+ *   STORAGE_DRIVER=memory|sqlite     persistence backend (default: memory)
+ *   SQLITE_PATH                      database file for the sqlite driver
+ *   AQI_MIN_SAMPLES                  receipts below which an AQI is provisional (default: 10)
+ *   AQI_SNAPSHOT_INTERVAL_MS         how often AQI history is recorded (default: 300000; 0 = off)
+ *   AQI_SNAPSHOT_RETENTION_DAYS      how long AQI snapshots are kept (default: 30)
+ *   JOB_CONCURRENCY                  jobs running at once (default: 8)
+ *   JOB_AGENT_CONCURRENCY            jobs running at once per agent (default: 2)
+ *   JOB_QUEUE_MAX                    waiting jobs before POST /jobs returns 503 (default: 100)
+ *   JOB_AGENT_QUEUE_MAX              waiting jobs per agent before 429 (default: 25)
+ *   QUOTE_RATE_PER_SEC               quote-mode job starts per second (default: 5)
+ *   REAL_RATE_PER_SEC                real-mode job starts per second (default: 1)
+ *   BATCH_MAX_JOBS                   most jobs one POST /jobs/batch (or schedule run) may submit (default: 200)
+ *   ROUTER_EPSILON                   exploration rate for routing=epsilon_greedy (default: 0.1)
+ *   ROUTER_LAST_N                    receipts per agent AQI routing scores (default: 100)
+ *   IDEMPOTENCY_TTL_HOURS            how long Idempotency-Key responses are kept (default: 24)
+ *   PAID_CALL_DEFAULT_URL            endpoint paid_call jobs call when none is given (default: GET /x402/demo)
+ *   PAID_CALL_ALLOWED_HOSTS          extra hosts non-admin jobs may name in paidCall.url (comma-separated)
+ *   X402_PAYER_PRIVATE_KEY           dedicated key that signs paid_call payments (default: a throwaway key)
+ *   X402_ALLOW_MAINNET               "true" to let paid_call jobs pay on base mainnet (default: testnet only)
+ *   X402_MAX_PAYMENT_USD             most one paid_call job may pay, whatever its maxPaymentUsd (default: 1)
+ *   X402_DEMO_PRICE_USD              price of GET /x402/demo in USDC (default: 0.001)
  */
 
 // Load .env from apps/api/.env (ignored when vars are already set via shell)
@@ -37,11 +58,23 @@ import meRouter            from "./routes/me";
 import participationRouter from "./routes/participation";
 import quoteRouter         from "./routes/quote";
 import paperbetsRouter     from "./routes/paperbets";
+import aqiRouter           from "./routes/aqi";
+import receiptsRouter      from "./routes/receipts";
+import schedulesRouter     from "./routes/schedules";
+import x402Router          from "./routes/x402";
+import tournamentsRouter   from "./routes/tournaments";
 import {
   addSSEClient,
   removeSSEClient,
   events,
 } from "./store";
+import { storage } from "./storage";
+import { startAQISnapshots } from "./lib/aqiSnapshots";
+import { startScheduler } from "./lib/scheduler";
+import { resumeTournaments } from "./lib/tournaments";
+import { cancelInterruptedBattles } from "./lib/battleRunner";
+import { resumeLobbies } from "./lib/lobbies";
+import { getQueueStats } from "./lib/jobQueue";
 
 const PORT       = process.env["PORT"] ?? 4000;
 const APP_ORIGIN = process.env["APP_ORIGIN"] ?? "http://localhost:3000";
@@ -65,6 +98,7 @@ app.get("/health", (_req: Request, res: Response) => {
   res.json({
     status: "ok",
     executionMode: mode,
+    storageDriver: storage.driver,
     ...(mode !== "sim" && {
       uniswapApiKeySet: Boolean(process.env["UNISWAP_API_KEY"]),
     }),
@@ -77,6 +111,7 @@ app.get("/health", (_req: Request, res: Response) => {
     x402Enabled:                process.env["X402_ENABLED"] === "true",
     predictionEnabled:          process.env["PREDICTION_ENABLED"] === "true",
     predictionContract:         process.env["PREDICTION_CONTRACT_ADDRESS"] ?? null,
+    jobQueue:                   getQueueStats(),
     ts: Date.now(),
   });
 });
@@ -115,6 +150,7 @@ app.use("/jobs",          jobsRouter);
 app.use("/agents",        agentsRouter);
 app.use("/streams",       streamsRouter);
 app.use("/arena",         arenaRouter);
+app.use("/arena",         tournamentsRouter);
 app.use("/skybox",        skyboxRouter);
 app.use("/prediction",    predictionRouter);
 app.use("/auth",          authRouter);
@@ -122,9 +158,19 @@ app.use("/me",            meRouter);
 app.use("/participation", participationRouter);
 app.use("/quote",         quoteRouter);
 app.use("/paperbets",    paperbetsRouter);
+app.use("/aqi",          aqiRouter);
+app.use("/receipts",     receiptsRouter);
+app.use("/schedules",    schedulesRouter);
+app.use("/x402",         x402Router);
 
 // ─── Start ────────────────────────────────────────────────────────────────────
 
+startAQISnapshots();
+startScheduler();
+cancelInterruptedBattles();
+resumeTournaments();
+resumeLobbies();
+
 app.listen(PORT, () => {
   const mode    = process.env["EXECUTION_MODE"] ?? "sim";
   const qnSet   = Boolean(process.env["QUICKNODE_STREAMS_WEBHOOK_SECRET"]);
@@ -137,6 +183,7 @@ app.listen(PORT, () => {
 ║   Agent AQI  —  API server               ║
 ║   http://localhost:${PORT}                   ║
 ║   Mode:       ${mode.padEnd(5)}                     ║
+║   Storage:    ${storage.driver.padEnd(11)}                 ║
 ║   Streams:    ${qnSet    ? "configured " : "not set    "}                 ║
 ║   Skybox:     ${blSet    ? "configured " : "not set    "}                 ║
 ║   x402:       ${x402     ? "enabled    " : "disabled   "}                 ║
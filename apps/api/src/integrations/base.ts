@@ -52,22 +52,45 @@ function chainForId(chainId: number) {
   return baseSepolia;
 }
 
+/** Settle with `promise`, or reject with `signal.reason` if it aborts first. */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) return onAbort();
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
 // ─── sendTx ───────────────────────────────────────────────────────────────────
 
 /**
  * Sign and broadcast a swap transaction, then wait for confirmation.
  *
- * @param tx - Fields from a SwapTxRequest (value is a decimal integer string).
+ * An aborted `signal` stops the job before broadcast; once the tx is out it
+ * can only stop waiting for the receipt — the tx itself may still be mined.
+ * `onBroadcast` hands the caller the txHash first, so it is not lost then.
+ *
+ * @param tx          - Fields from a SwapTxRequest (value is a decimal integer string).
+ * @param signal      - Aborts the job (cancelled or past its deadline).
+ * @param onBroadcast - Called with the txHash as soon as the tx is sent.
  * @returns On-chain receipt data once the tx is mined.
- * @throws If BASE_RPC_URL or AGENT_PRIVATE_KEY are missing, or if the tx fails.
+ * @throws If BASE_RPC_URL or AGENT_PRIVATE_KEY are missing, or if the tx fails
+ *         (the viem error is kept as `cause`).
+ * @throws signal.reason, unwrapped, when aborted.
  */
-export async function sendTx(tx: {
-  to:      string;   // 0x-prefixed Ethereum address
-  data:    string;   // 0x-prefixed calldata
-  value:   string;   // decimal integer string (e.g. "0" or "1000000000000000")
-  chainId: number;
-  gas?:    string;   // decimal integer string gas limit
-}): Promise<SendTxResult> {
+export async function sendTx(
+  tx: {
+    to:      string;   // 0x-prefixed Ethereum address
+    data:    string;   // 0x-prefixed calldata
+    value:   string;   // decimal integer string (e.g. "0" or "1000000000000000")
+    chainId: number;
+    gas?:    string;   // decimal integer string gas limit
+  },
+  signal?:      AbortSignal,
+  onBroadcast?: (txHash: string) => void,
+): Promise<SendTxResult> {
   const rpcUrl    = requireEnv("BASE_RPC_URL");
   const rawKey    = requireEnv("AGENT_PRIVATE_KEY");
 
@@ -95,6 +118,7 @@ export async function sendTx(tx: {
   const gasLimit = tx.gas !== undefined ? BigInt(tx.gas) : undefined;
 
   // ── Broadcast ──────────────────────────────────────────────────────────────
+  signal?.throwIfAborted();
   let txHash: Hash;
   try {
     txHash = await walletClient.sendTransaction({
@@ -104,16 +128,25 @@ export async function sendTx(tx: {
       ...(gasLimit !== undefined && { gas: gasLimit }),
     });
   } catch (err) {
-    throw new Error(`sendTransaction failed: ${String(err)}`);
+    throw new Error(`sendTransaction failed: ${String(err)}`, { cause: err });
   }
+  onBroadcast?.(txHash);
 
   // ── Wait for receipt ───────────────────────────────────────────────────────
   let receipt;
   try {
-    receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    receipt = await untilAborted(
+      publicClient.waitForTransactionReceipt({ hash: txHash }),
+      signal,
+    );
   } catch (err) {
+    if (signal?.aborted) {
+      console.warn(`[base] stopped waiting for ${txHash}: job aborted`);
+      throw signal.reason;
+    }
     throw new Error(
       `waitForTransactionReceipt failed for ${txHash}: ${String(err)}`,
+      { cause: err },
     );
   }
 
@@ -0,0 +1,186 @@
+/**
+ * Remote agent protocol client (agent-aqi/1)
+ *
+ * A remote agent is any HTTP service that accepts a RemoteJobRequest and
+ * answers with a RemoteJobResponse before the request's deadline.  The
+ * response must carry an EIP-191 signature over
+ * remoteEvidenceMessage(jobId, outcome) from the agent's registered
+ * signerAddress — unsigned or mis-signed outcomes are never scored as
+ * fulfilled.
+ *
+ * Latency is always measured here, never taken from the agent.
+ *
+ * See apps/reference-agent for a minimal implementation.
+ */
+
+import { verifyMessage } from "viem";
+import { REMOTE_AGENT_PROTOCOL, remoteEvidenceMessage } from "@agent-aqi/shared";
+import type {
+  AgentDefinition,
+  OnChainEvidence,
+  RemoteAgentEvidence,
+  RemoteJobRequest,
+  RemoteJobResponse,
+  RemoteOutcome,
+} from "@agent-aqi/shared";
+
+/**
+ * Why a call was rejected.  The outcome is forced to "timed_out" for
+ * deadline_exceeded and to "failed" (with the failure as a safety flag)
+ * for everything else.
+ */
+export type RemoteFailure =
+  | "deadline_exceeded"
+  | "agent_unreachable"
+  | "invalid_response"
+  | "invalid_signature";
+
+export type RemoteCallResult =
+  | { ok: true;  latencyMs: number; outcome: RemoteOutcome; onChain?: OnChainEvidence; evidence: RemoteAgentEvidence }
+  | { ok: false; latencyMs: number; failure: RemoteFailure; evidence: RemoteAgentEvidence };
+
+// ─── Response validation ──────────────────────────────────────────────────────
+
+function isNonNegative(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v >= 0;
+}
+
+function isNonNegativeInt(v: unknown): v is number {
+  return typeof v === "number" && Number.isSafeInteger(v) && v >= 0;
+}
+
+function isHex(v: unknown): v is `0x${string}` {
+  return typeof v === "string" && /^0x[0-9a-fA-F]+$/.test(v);
+}
+
+/** Returns an error string, or null when the body is a well-formed response. */
+function validateResponse(body: unknown, jobId: string): string | null {
+  if (typeof body !== "object" || body === null) return "response is not a JSON object";
+  const r = body as Record<string, unknown>;
+
+  if (r["jobId"] !== jobId) return "jobId does not match the request";
+
+  const o = r["outcome"] as Record<string, unknown> | undefined;
+  if (typeof o !== "object" || o === null)                  return "outcome is missing";
+  if (o["status"] !== "fulfilled" && o["status"] !== "failed") return "outcome.status must be fulfilled | failed";
+  if (!isNonNegative(o["gasUsedUsd"]))                      return "outcome.gasUsedUsd must be a non-negative number";
+  if (!isNonNegative(o["slippageBps"]))                     return "outcome.slippageBps must be a non-negative number";
+  if (!Array.isArray(o["safetyFlags"]) || !o["safetyFlags"].every((f) => typeof f === "string")) {
+    return "outcome.safetyFlags must be an array of strings";
+  }
+
+  const c = r["onChain"] as Record<string, unknown> | undefined;
+  if (c !== undefined) {
+    if (typeof c !== "object" || c === null)                   return "onChain must be an object";
+    if (!isHex(c["txHash"]) || c["txHash"].length !== 66)      return "onChain.txHash must be a 32-byte hex string";
+    if (!isNonNegativeInt(c["chainId"]) || c["chainId"] === 0) return "onChain.chainId must be a positive integer";
+    if (!isNonNegativeInt(c["blockNumber"]))                   return "onChain.blockNumber must be a non-negative integer";
+    if (typeof c["gasUsed"] !== "string" || !/^\d+$/.test(c["gasUsed"])) return "onChain.gasUsed must be a decimal string";
+    if (c["status"] !== "success" && c["status"] !== "reverted") return "onChain.status must be success | reverted";
+  }
+
+  const e = r["evidence"] as Record<string, unknown> | undefined;
+  if (typeof e !== "object" || e === null) return "evidence is missing";
+  if (!isHex(e["signer"]) || !isHex(e["signature"])) return "evidence.signer and evidence.signature must be hex strings";
+
+  return null;
+}
+
+// ─── Client ───────────────────────────────────────────────────────────────────
+
+/**
+ * POST one job to a remote agent and verify its signed outcome.
+ * Every failure mode is reported in the result; the only throw is
+ * `signal.reason` when the caller aborts the job.
+ */
+export async function callRemoteAgent(
+  agent:   AgentDefinition,
+  request: Omit<RemoteJobRequest, "protocol" | "deadline">,
+  signal?: AbortSignal,
+): Promise<RemoteCallResult> {
+  const endpoint = agent.endpoint ?? "";
+  const timeoutMs = request.constraints.deadlineMs;
+  const body: RemoteJobRequest = {
+    protocol: REMOTE_AGENT_PROTOCOL,
+    ...request,
+    deadline: Date.now() + timeoutMs,
+  };
+
+  const startedAt = Date.now();
+  const fail = (failure: RemoteFailure, error: string, extra: Partial<RemoteAgentEvidence> = {}): RemoteCallResult => {
+    console.warn(`[RemoteAgent] agent=${agent.agentId} job=${request.jobId} ${failure}: ${error}`);
+    return {
+      ok:        false,
+      latencyMs: Date.now() - startedAt,
+      failure,
+      evidence:  { endpoint, verified: false, error, ...extra },
+    };
+  };
+
+  const timeout = AbortSignal.timeout(timeoutMs);
+  let json: unknown;
+  try {
+    const res = await fetch(endpoint, {
+      method:  "POST",
+      headers: { "Content-Type": "application/json" },
+      body:    JSON.stringify(body),
+      signal:  signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    if (!res.ok) return fail("agent_unreachable", `HTTP ${res.status}`);
+    json = await res.json().catch(() => undefined);
+  } catch (err) {
+    if (signal?.aborted) throw signal.reason;
+    const name = (err as { name?: string }).name;
+    if (name === "TimeoutError" || name === "AbortError") {
+      return fail("deadline_exceeded", `no response within ${timeoutMs} ms`);
+    }
+    return fail("agent_unreachable", String(err));
+  }
+
+  const latencyMs = Date.now() - startedAt;
+
+  const invalid = validateResponse(json, request.jobId);
+  if (invalid) return fail("invalid_response", invalid);
+  const response = json as RemoteJobResponse;
+
+  const outcome: RemoteOutcome = {
+    status:      response.outcome.status,
+    gasUsedUsd:  response.outcome.gasUsedUsd,
+    slippageBps: response.outcome.slippageBps,
+    safetyFlags: response.outcome.safetyFlags,
+  };
+  // Only the signed fields are kept (never a remote-claimed verifiedBy)
+  const onChain: OnChainEvidence | undefined = response.onChain && {
+    txHash:      response.onChain.txHash,
+    chainId:     response.onChain.chainId,
+    blockNumber: response.onChain.blockNumber,
+    gasUsed:     response.onChain.gasUsed,
+    status:      response.onChain.status,
+  };
+  const { signer, signature } = response.evidence;
+  const signed = { signer, signature };
+
+  if (signer.toLowerCase() !== agent.signerAddress?.toLowerCase()) {
+    return fail("invalid_signature", "evidence.signer is not the registered signerAddress", signed);
+  }
+
+  let verified = false;
+  try {
+    verified = await verifyMessage({
+      address:   signer as `0x${string}`,
+      message:   remoteEvidenceMessage(request.jobId, outcome, onChain),
+      signature: signature as `0x${string}`,
+    });
+  } catch {
+    verified = false;
+  }
+  if (!verified) return fail("invalid_signature", "signature does not match the outcome and onChain", signed);
+
+  return {
+    ok: true,
+    latencyMs,
+    outcome,
+    ...(onChain && { onChain }),
+    evidence: { endpoint, ...signed, verified: true },
+  };
+}
@@ -31,6 +31,18 @@ export interface SwapQuoteWithMeta extends SwapQuote {
   hopCount: number;
 }
 
+/**
+ * Thrown for every failed Uniswap API call.  `status` is the HTTP status, or
+ * undefined when the API answered 2xx with a payload we could not use.
+ * lib/failures.ts classifies it (429 → rate_limited, 404 → quote_unavailable, …).
+ */
+export class UniswapApiError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = "UniswapApiError";
+  }
+}
+
 // ─── API endpoints ────────────────────────────────────────────────────────────
 
 const BASE_URL   = "https://trade-api.gateway.uniswap.org/v1" as const;
@@ -65,13 +77,15 @@ function isEthAddress(v: unknown): v is string {
  * @param params             - Token pair, amount, and chain.
  * @param slippageTolerancePct - Agent-specific slippage tolerance in percent
  *                              (e.g. 0.5 for 0.5 %). Defaults to DEFAULT_SLIPPAGE_PCT.
+ * @param signal             - Aborts the request (job cancelled or past its deadline).
  *
  * @throws "UNISWAP_API_KEY not set" — set the env var and retry.
- * @throws Error with HTTP status + body on non-2xx responses.
+ * @throws UniswapApiError with HTTP status + body on non-2xx responses.
  */
 export async function getSwapQuote(
   params: SwapParams,
   slippageTolerancePct?: number,
+  signal?: AbortSignal,
 ): Promise<SwapQuoteWithMeta> {
   const apiKey  = requireApiKey();
   const swapper =
@@ -96,13 +110,15 @@ export async function getSwapQuote(
     method:  "POST",
     headers: { "Content-Type": "application/json", "x-api-key": apiKey },
     body:    JSON.stringify(requestBody),
+    ...(signal && { signal }),
   });
   const latencyMs = Date.now() - startMs;
 
   if (!response.ok) {
     const text = await response.text();
-    throw new Error(
+    throw new UniswapApiError(
       `Uniswap /quote responded ${response.status} after ${latencyMs}ms: ${text}`,
+      response.status,
     );
   }
 
@@ -130,15 +146,17 @@ export async function getSwapQuote(
  * @param params          - Original swap parameters (for error context).
  * @param rawQuoteResponse - The full raw object from a previous /quote call
  *                           (i.e. SwapQuote.rawQuote).
+ * @param signal          - Aborts the request (job cancelled or past its deadline).
  *
  * @throws "UNISWAP_API_KEY not set"
- * @throws Error on non-2xx API response.
- * @throws Error if the response is missing the expected `swap` field.
- * @throws Error if `to` or `data` in the response fail basic validation.
+ * @throws UniswapApiError on non-2xx API response.
+ * @throws UniswapApiError if the response is missing the expected `swap` field.
+ * @throws UniswapApiError if `to` or `data` in the response fail basic validation.
  */
 export async function buildSwapTx(
   params: SwapParams,
   rawQuoteResponse: Record<string, unknown>,
+  signal?: AbortSignal,
 ): Promise<SwapTxRequest> {
   const apiKey = requireApiKey();
 
@@ -165,13 +183,15 @@ export async function buildSwapTx(
     method:  "POST",
     headers: { "Content-Type": "application/json", "x-api-key": apiKey },
     body:    JSON.stringify(requestBody),
+    ...(signal && { signal }),
   });
   const latencyMs = Date.now() - startMs;
 
   if (!response.ok) {
     const text = await response.text();
-    throw new Error(
+    throw new UniswapApiError(
       `Uniswap /swap responded ${response.status} after ${latencyMs}ms: ${text}`,
+      response.status,
     );
   }
 
@@ -260,7 +280,7 @@ function parseSwapTxResponse(
 ): SwapTxRequest {
   const swapObj = raw["swap"] as Record<string, unknown> | undefined;
   if (!swapObj) {
-    throw new Error(
+    throw new UniswapApiError(
       "Uniswap /swap response is missing the 'swap' field — " +
       `full response: ${JSON.stringify(raw).slice(0, 300)}`,
     );
@@ -275,17 +295,17 @@ function parseSwapTxResponse(
   // ── Validate required fields ───────────────────────────────────────────────
 
   if (!isEthAddress(to)) {
-    throw new Error(
+    throw new UniswapApiError(
       `Uniswap /swap 'to' is not a valid Ethereum address: "${String(to)}"`,
     );
   }
   if (typeof data !== "string" || !data.startsWith("0x")) {
-    throw new Error(
+    throw new UniswapApiError(
       `Uniswap /swap 'data' must be a 0x-prefixed hex string, got: "${String(data).slice(0, 40)}"`,
     );
   }
   if (!valueRaw) {
-    throw new Error("Uniswap /swap response missing 'value' field");
+    throw new UniswapApiError("Uniswap /swap response missing 'value' field");
   }
 
   // ── Normalise value: hex string → decimal integer string ──────────────────
@@ -295,7 +315,7 @@ function parseSwapTxResponse(
   try {
     value = BigInt(valueRaw).toString();
   } catch {
-    throw new Error(
+    throw new UniswapApiError(
       `Uniswap /swap 'value' is not a valid hex integer: "${valueRaw}"`,
     );
   }
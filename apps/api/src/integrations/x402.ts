@@ -0,0 +1,304 @@
+/**
+ * x402 client — paid_call jobs
+ *
+ * Calls an HTTP endpoint that may be behind an x402 paywall:
+ *   1. send the request
+ *   2. on 402, pick an "exact" payment requirement from the `accepts` list
+ *      and check its price against the job's budget
+ *   3. sign an EIP-3009 TransferWithAuthorization for that price and resend
+ *      the request with it in the X-PAYMENT header
+ *   4. read the settlement from the X-PAYMENT-RESPONSE header
+ *
+ * Prices are read as a USD stablecoin with 6 decimals (USDC).  The payment
+ * is only an authorization: the endpoint's facilitator settles it.  The
+ * server's own demo endpoint (routes/x402.ts) uses the mock facilitator in
+ * lib/x402Facilitator.ts, which checks the signature but moves no funds.
+ *
+ * Only testnet requirements (base-sepolia) are paid unless mainnet is
+ * enabled, and a caller-supplied `paidCall.url` must be on the allowlist
+ * (checked by POST /jobs; admins may call any URL).
+ *
+ * Optional env vars:
+ *   X402_PAYER_PRIVATE_KEY  – key that signs payments; its own key, never the
+ *                             agent's (default: a throwaway key generated at
+ *                             startup)
+ *   X402_ALLOW_MAINNET      – "true" to also pay on base mainnet
+ *   PAID_CALL_DEFAULT_URL   – endpoint for paid_call jobs without one
+ *                             (default: this server's GET /x402/demo)
+ *   PAID_CALL_ALLOWED_HOSTS – comma-separated hosts (host or host:port) jobs
+ *                             may name in paidCall.url, besides the default's
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { toHex, type Hex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import type {
+  FailureKind,
+  PaidCallEvidence,
+  PaidCallParams,
+  PaymentEvidence,
+  X402PaymentRequirements,
+} from "@agent-aqi/shared";
+
+export const X402_VERSION = 1;
+
+/** Networks payments can be signed for, by x402 network name. */
+export const X402_CHAIN_IDS: Record<string, number> = {
+  "base":         8453,
+  "base-sepolia": 84532,
+};
+
+/** Networks paid only when X402_ALLOW_MAINNET=true. */
+const MAINNETS = new Set(["base"]);
+
+/** Whether payments may be signed on `network` (testnets, or any with mainnet enabled). */
+export function isPayableNetwork(network: string): boolean {
+  if (!(network in X402_CHAIN_IDS)) return false;
+  return !MAINNETS.has(network) || process.env["X402_ALLOW_MAINNET"] === "true";
+}
+
+/** Smallest units per USD for the 6-decimal stablecoins x402 prices in. */
+const UNITS_PER_USD = 1_000_000;
+
+/** EIP-3009 transferWithAuthorization, as signed in the X-PAYMENT payload. */
+export const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  TransferWithAuthorization: [
+    { name: "from",        type: "address" },
+    { name: "to",          type: "address" },
+    { name: "value",       type: "uint256" },
+    { name: "validAfter",  type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce",       type: "bytes32" },
+  ],
+} as const;
+
+export interface X402Authorization {
+  from:        Hex;
+  to:          Hex;
+  value:       string;
+  validAfter:  string;
+  validBefore: string;
+  nonce:       Hex;
+}
+
+/** Decoded X-PAYMENT header. */
+export interface X402PaymentPayload {
+  x402Version: number;
+  scheme:      string;
+  network:     string;
+  payload:     { signature: Hex; authorization: X402Authorization };
+}
+
+/** Decoded X-PAYMENT-RESPONSE header. */
+export interface X402SettlementResponse {
+  success:      boolean;
+  transaction?: string;
+  network:      string;
+  payer:        string;
+}
+
+/** A paid call that did not succeed, with the FailureKind to record. */
+export class X402Error extends Error {
+  constructor(message: string, readonly kind: FailureKind, readonly httpStatus?: number) {
+    super(message);
+    this.name = "X402Error";
+  }
+}
+
+// ─── Encoding helpers ─────────────────────────────────────────────────────────
+
+export function encodeHeader(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64");
+}
+
+/** Decode a base64 JSON header, or undefined when it is not one. */
+export function decodeHeader<T>(value: string | null | undefined): T | undefined {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(Buffer.from(value, "base64").toString("utf8")) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Price in USD of an amount in smallest units. */
+export function unitsToUsd(amount: string): number {
+  return Number(amount) / UNITS_PER_USD;
+}
+
+export function usdToUnits(usd: number): string {
+  return String(Math.round(usd * UNITS_PER_USD));
+}
+
+/** EIP-712 domain of the asset a requirement prices in. */
+export function assetDomain(req: X402PaymentRequirements) {
+  return {
+    name:              req.extra?.name    ?? "USD Coin",
+    version:           req.extra?.version ?? "2",
+    chainId:           X402_CHAIN_IDS[req.network]!,
+    verifyingContract: req.asset as Hex,
+  };
+}
+
+function sha256(data: string | Buffer): string {
+  return `0x${createHash("sha256").update(data).digest("hex")}`;
+}
+
+// ─── Payer ────────────────────────────────────────────────────────────────────
+
+let payer: ReturnType<typeof privateKeyToAccount> | undefined;
+
+function payerAccount() {
+  if (payer) return payer;
+  const key = process.env["X402_PAYER_PRIVATE_KEY"];
+  if (!key) console.warn("[x402] no X402_PAYER_PRIVATE_KEY — signing payments with a throwaway key");
+  payer = privateKeyToAccount((key as Hex | undefined) ?? generatePrivateKey());
+  return payer;
+}
+
+/** Endpoint paid_call jobs call when the caller names none. */
+export function defaultPaidCall(): PaidCallParams {
+  const url = process.env["PAID_CALL_DEFAULT_URL"] ?? `http://127.0.0.1:${process.env["PORT"] ?? 4000}/x402/demo`;
+  return { url, method: "GET" };
+}
+
+/**
+ * Whether a job may name `url` as its paid-call endpoint: the default
+ * endpoint's host, or one listed in PAID_CALL_ALLOWED_HOSTS.
+ */
+export function isAllowedPaidCallUrl(url: URL): boolean {
+  const allowed = (process.env["PAID_CALL_ALLOWED_HOSTS"] ?? "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+  allowed.push(new URL(defaultPaidCall().url).host.toLowerCase());
+  return allowed.includes(url.host.toLowerCase()) || allowed.includes(url.hostname.toLowerCase());
+}
+
+// ─── Client ───────────────────────────────────────────────────────────────────
+
+function httpKind(status: number): FailureKind {
+  if (status === 429) return "rate_limited";
+  if (status >= 500)  return "network";
+  return "bad_input";
+}
+
+/** The first requirement this client can pay: "exact" on a known network. */
+function payableRequirement(body: unknown): X402PaymentRequirements | undefined {
+  const accepts = (body as { accepts?: unknown } | null)?.accepts;
+  if (!Array.isArray(accepts)) return undefined;
+  return (accepts as X402PaymentRequirements[]).find((a) =>
+    a?.scheme === "exact" &&
+    isPayableNetwork(a.network) &&
+    /^\d+$/.test(String(a.maxAmountRequired)) &&
+    /^0x[0-9a-fA-F]{40}$/.test(String(a.payTo)) &&
+    /^0x[0-9a-fA-F]{40}$/.test(String(a.asset)),
+  );
+}
+
+async function signPayment(req: X402PaymentRequirements): Promise<X402PaymentPayload> {
+  const account = payerAccount();
+  const now = Math.floor(Date.now() / 1000);
+  const authorization: X402Authorization = {
+    from:        account.address,
+    to:          req.payTo as Hex,
+    value:       req.maxAmountRequired,
+    validAfter:  String(now - 60),
+    validBefore: String(now + (req.maxTimeoutSeconds || 60)),
+    nonce:       toHex(randomBytes(32)),
+  };
+  const signature = await account.signTypedData({
+    domain:      assetDomain(req),
+    types:       TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: "TransferWithAuthorization",
+    message: {
+      ...authorization,
+      value:       BigInt(authorization.value),
+      validAfter:  BigInt(authorization.validAfter),
+      validBefore: BigInt(authorization.validBefore),
+    },
+  });
+  return {
+    x402Version: X402_VERSION,
+    scheme:      req.scheme,
+    network:     req.network,
+    payload:     { signature, authorization },
+  };
+}
+
+/**
+ * Make one paid call, paying at most `budgetUsd`.
+ *
+ * @returns What was sent, received and paid.  A 2xx answer with or without
+ *          payment; the evidence has no `payment` when no 402 came back.
+ * @throws X402Error for a non-2xx answer (redirects included), an unpayable
+ *         or over-budget challenge, or a refused payment.
+ * @throws signal.reason when aborted; fetch errors as-is (network).
+ */
+export async function callPaidEndpoint(
+  params:    PaidCallParams,
+  budgetUsd: number,
+  signal?:   AbortSignal,
+): Promise<PaidCallEvidence> {
+  const startedAt = Date.now();
+  const body = params.method === "POST" && params.body !== undefined ? JSON.stringify(params.body) : undefined;
+  // Redirects are not followed: the X-PAYMENT header must only reach the
+  // allowlisted host, so a 3xx fails the call like any other non-2xx
+  const send = (headers: Record<string, string>) =>
+    fetch(params.url, {
+      method:   params.method,
+      headers:  { accept: "application/json", ...(body && { "content-type": "application/json" }), ...headers },
+      body,
+      redirect: "manual",
+      signal,
+    });
+
+  let res = await send({});
+  let payment: PaymentEvidence | undefined;
+
+  if (res.status === 402) {
+    const challenge   = await res.json().catch(() => null) as unknown;
+    const requirement = payableRequirement(challenge);
+    if (!requirement) {
+      throw new X402Error("402 challenge has no payable requirement (exact scheme on an enabled network)", "payment_rejected", 402);
+    }
+    const amountUsd = unitsToUsd(requirement.maxAmountRequired);
+    if (amountUsd > budgetUsd) {
+      throw new X402Error(`price $${amountUsd} is over the $${budgetUsd} budget`, "payment_rejected", 402);
+    }
+
+    const signed = await signPayment(requirement);
+    res = await send({ "x-payment": encodeHeader(signed) });
+    if (res.status === 402) {
+      const refused = await res.json().catch(() => null) as { error?: unknown } | null;
+      throw new X402Error(`payment refused: ${String(refused?.error ?? "402 after payment")}`, "payment_rejected", 402);
+    }
+
+    const settlement = decodeHeader<X402SettlementResponse>(res.headers.get("x-payment-response"));
+    payment = {
+      scheme:  requirement.scheme,
+      network: requirement.network,
+      asset:   requirement.asset,
+      payTo:   requirement.payTo,
+      payer:   signed.payload.authorization.from,
+      amount:  requirement.maxAmountRequired,
+      amountUsd,
+      ...(settlement?.transaction && { transaction: settlement.transaction }),
+    };
+  }
+
+  const responseBody = Buffer.from(await res.arrayBuffer());
+  if (!res.ok) {
+    throw new X402Error(`${params.method} ${params.url} answered ${res.status}`, httpKind(res.status), res.status);
+  }
+
+  return {
+    url:          params.url,
+    method:       params.method,
+    requestHash:  sha256(`${params.method} ${params.url}\n${body ?? ""}`),
+    responseHash: sha256(responseBody),
+    httpStatus:   res.status,
+    latencyMs:    Date.now() - startedAt,
+    ...(payment && { payment }),
+  };
+}
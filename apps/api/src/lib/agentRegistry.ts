@@ -0,0 +1,385 @@
+/**
+ * agentRegistry.ts — runtime agent registry.
+ *
+ * The three built-in agents (safe / fast / cheap) are defined here in code and
+ * are always present.  Custom agents are registered via POST /agents (admin)
+ * and persisted through the storage driver, so they survive restarts when
+ * STORAGE_DRIVER=sqlite.
+ *
+ * Everything that used to hard-code the three ids (sim profiles, routing
+ * policies, default constraints, route validation, prediction indices, skybox
+ * prompts) reads from here instead.
+ */
+
+import type {
+  AgentConstraintDefaults,
+  AgentDefinition,
+  AgentId,
+  AgentKind,
+  AgentPolicy,
+  BuiltinAgentId,
+  FailureKind,
+  Objective,
+  RetryPolicy,
+  SimProfile,
+} from "@agent-aqi/shared";
+import { storage } from "../storage";
+import { FAILURE_KINDS } from "./failures";
+import { MAX_PAYMENT_USD } from "./constraints";
+
+// ─── Built-in agents ──────────────────────────────────────────────────────────
+//
+// Routing policies (applied in quote/real mode):
+//   SafeGuard   – tight 0.5 % slippage; prefer routes with ≤2 hops to reduce risk
+//   SpeedRunner – loose 1.5 % slippage; no hop limit; optimises for fastest path
+//   GasOptimizer– very tight 0.3 % slippage; prefers gas-efficient multi-hop routes
+//
+// Retry policies (Uniswap calls in quote/real mode, see lib/failures.ts):
+//   SafeGuard   – 3 attempts, also waits out "no quote" answers
+//   SpeedRunner – 2 quick attempts; its 800 ms deadline leaves no room for more
+//   GasOptimizer– 4 patient attempts with long backoff
+//
+// Skybox prompts must be plain scene descriptions — do NOT add "360°",
+// "equirectangular", or other format terms; Blockade Labs handles projection.
+
+const BUILTIN_AGENTS: AgentDefinition[] = [
+  {
+    agentId:     "safe",
+    displayName: "SafeGuard",
+    kind:        "sim",
+    description:
+      "Strict slippage limits, simulation-first, low unsafe-approval rate. Slower but highly reliable.",
+    simProfile: {
+      successRate:      0.96,
+      latencyMs:        [800,  2400],
+      gasUsedUsd:       [0.40,  0.80],
+      slippageBps:      [5,    30],
+      flagProbability:  0.05,
+      possibleFlags:    ["price_impact_warning"],
+    },
+    policy:      { slippageBps: 50, maxHops: 2, preference: "safest" },  // 0.5 %
+    constraints: { objective: "safest", maxSlippageBps: 50, maxGasUsd: 1.00, deadlineMs: 3000 },
+    retryPolicy: { maxAttempts: 3, baseDelayMs: 200, maxDelayMs: 800, retryOn: ["network", "rate_limited", "quote_unavailable"] },
+    skyboxPrompt:
+      "Protective sci-fi fortress interior, glowing blue energy shields, golden ambient light, floating defensive crystals, serene sanctuary, cinematic",
+    predictionIndex: 0,
+    builtin:     true,
+    createdAt:   0,
+  },
+  {
+    agentId:     "fast",
+    displayName: "SpeedRunner",
+    kind:        "sim",
+    description:
+      "Minimal pre-checks, targets sub-second execution. Higher failure rate in adverse conditions.",
+    simProfile: {
+      successRate:      0.78,
+      latencyMs:        [120,   600],
+      gasUsedUsd:       [0.55,  1.10],
+      slippageBps:      [20,   120],
+      flagProbability:  0.30,
+      possibleFlags:    ["high_slippage", "unaudited_contract", "mempool_race"],
+    },
+    policy:      { slippageBps: 150, preference: "fastest" },             // 1.5 %
+    constraints: { objective: "fastest", maxSlippageBps: 150, maxGasUsd: 2.00, deadlineMs: 800 },
+    retryPolicy: { maxAttempts: 2, baseDelayMs: 50, maxDelayMs: 50, retryOn: ["network", "rate_limited"] },
+    skyboxPrompt:
+      "Neon cyberpunk highway at night, electric speed light trails, purple and gold storm sky, lightning, high velocity energy, cinematic",
+    predictionIndex: 1,
+    builtin:     true,
+    createdAt:   0,
+  },
+  {
+    agentId:     "cheap",
+    displayName: "GasOptimizer",
+    kind:        "sim",
+    description:
+      "Batches & delays to hit lowest gas cost. Medium reliability, occasionally misses deadlines.",
+    simProfile: {
+      successRate:      0.85,
+      latencyMs:        [1200, 4000],
+      gasUsedUsd:       [0.12,  0.38],
+      slippageBps:      [8,    60],
+      flagProbability:  0.15,
+      possibleFlags:    ["deadline_risk", "price_impact_warning"],
+    },
+    policy:      { slippageBps: 30, maxHops: 4, preference: "cheapest" }, // 0.3 %
+    constraints: { objective: "cheapest", maxSlippageBps: 80, maxGasUsd: 0.50, deadlineMs: 5000 },
+    retryPolicy: { maxAttempts: 4, baseDelayMs: 400, maxDelayMs: 1600, retryOn: ["network", "rate_limited", "quote_unavailable"] },
+    skyboxPrompt:
+      "Futuristic eco greenhouse interior, lush green garden, solar technology panels, warm sunlight through glass, clean sustainable architecture, cinematic",
+    predictionIndex: 2,
+    builtin:     true,
+    createdAt:   0,
+  },
+];
+
+export const BUILTIN_AGENT_IDS: BuiltinAgentId[] = ["safe", "fast", "cheap"];
+
+// ─── Lookups ──────────────────────────────────────────────────────────────────
+
+/** Built-ins first, then custom agents in registration order. */
+export function listAgents(): AgentDefinition[] {
+  return [...BUILTIN_AGENTS, ...storage.listAgents()];
+}
+
+export function listAgentIds(): AgentId[] {
+  return listAgents().map((a) => a.agentId);
+}
+
+export function getAgent(agentId: string): AgentDefinition | undefined {
+  return (
+    BUILTIN_AGENTS.find((a) => a.agentId === agentId) ??
+    storage.listAgents().find((a) => a.agentId === agentId)
+  );
+}
+
+export function isRegisteredAgent(agentId: unknown): agentId is AgentId {
+  return typeof agentId === "string" && getAgent(agentId) !== undefined;
+}
+
+export function isBuiltinAgent(agentId: string): boolean {
+  return (BUILTIN_AGENT_IDS as string[]).includes(agentId);
+}
+
+/** Agents that have an outcome slot in the on-chain prediction contract. */
+export function listPredictionAgents(): AgentDefinition[] {
+  return listAgents().filter((a) => a.predictionIndex !== undefined);
+}
+
+// ─── Mutations ────────────────────────────────────────────────────────────────
+
+/** Insert or replace a custom agent. Built-ins are rejected by the caller. */
+export function registerAgent(definition: AgentDefinition): AgentDefinition {
+  storage.saveAgent(definition);
+  console.log(`[Registry] registered agent=${definition.agentId} name="${definition.displayName}"`);
+  return definition;
+}
+
+/** Remove a custom agent. Returns false if it was not registered. */
+export function removeAgent(agentId: string): boolean {
+  if (isBuiltinAgent(agentId) || !getAgent(agentId)) return false;
+  storage.deleteAgent(agentId);
+  console.log(`[Registry] removed agent=${agentId}`);
+  return true;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+const OBJECTIVES: Objective[] = ["safest", "fastest", "cheapest"];
+const KINDS:      AgentKind[] = ["sim", "remote"];
+const AGENT_ID_RE = /^[a-z0-9][a-z0-9_-]{1,31}$/;
+
+function isHttpUrl(v: unknown): v is string {
+  if (typeof v !== "string") return false;
+  try {
+    const url = new URL(v);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+function isProbability(v: unknown): v is number {
+  return typeof v === "number" && v >= 0 && v <= 1;
+}
+
+function isRange(v: unknown): v is [number, number] {
+  return (
+    Array.isArray(v) && v.length === 2 &&
+    typeof v[0] === "number" && typeof v[1] === "number" &&
+    v[0] >= 0 && v[0] <= v[1]
+  );
+}
+
+function isPositive(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v) && v > 0;
+}
+
+function parseSimProfile(raw: unknown): { value: SimProfile } | { error: string } {
+  if (typeof raw !== "object" || raw === null) return { error: "simProfile is required" };
+  const p = raw as Record<string, unknown>;
+
+  if (!isProbability(p["successRate"]))     return { error: "simProfile.successRate must be between 0 and 1" };
+  if (!isRange(p["latencyMs"]))             return { error: "simProfile.latencyMs must be a [min, max] range" };
+  if (!isRange(p["gasUsedUsd"]))            return { error: "simProfile.gasUsedUsd must be a [min, max] range" };
+  if (!isRange(p["slippageBps"]))           return { error: "simProfile.slippageBps must be a [min, max] range" };
+  if (!isProbability(p["flagProbability"])) return { error: "simProfile.flagProbability must be between 0 and 1" };
+
+  const flags = p["possibleFlags"] ?? [];
+  if (!Array.isArray(flags) || !flags.every((f) => typeof f === "string" && f.length > 0)) {
+    return { error: "simProfile.possibleFlags must be an array of strings" };
+  }
+  if (p["flagProbability"] > 0 && flags.length === 0) {
+    return { error: "simProfile.possibleFlags must not be empty when flagProbability > 0" };
+  }
+
+  return {
+    value: {
+      successRate:     p["successRate"],
+      latencyMs:       p["latencyMs"],
+      gasUsedUsd:      p["gasUsedUsd"],
+      slippageBps:     p["slippageBps"],
+      flagProbability: p["flagProbability"],
+      possibleFlags:   flags as string[],
+    },
+  };
+}
+
+function parsePolicy(raw: unknown): { value: AgentPolicy } | { error: string } {
+  if (typeof raw !== "object" || raw === null) return { error: "policy is required" };
+  const p = raw as Record<string, unknown>;
+
+  const slippageBps = p["slippageBps"];
+  if (!Number.isInteger(slippageBps) || (slippageBps as number) < 1 || (slippageBps as number) > 10_000) {
+    return { error: "policy.slippageBps must be an integer between 1 and 10000" };
+  }
+  const maxHops = p["maxHops"];
+  if (maxHops !== undefined && (!Number.isInteger(maxHops) || (maxHops as number) < 1)) {
+    return { error: "policy.maxHops must be a positive integer when set" };
+  }
+  if (!OBJECTIVES.includes(p["preference"] as Objective)) {
+    return { error: `policy.preference must be one of: ${OBJECTIVES.join(", ")}` };
+  }
+
+  return {
+    value: {
+      slippageBps: slippageBps as number,
+      ...(maxHops !== undefined && { maxHops: maxHops as number }),
+      preference:  p["preference"] as Objective,
+    },
+  };
+}
+
+function parseConstraints(raw: unknown): { value: AgentConstraintDefaults } | { error: string } {
+  if (typeof raw !== "object" || raw === null) return { error: "constraints is required" };
+  const c = raw as Record<string, unknown>;
+
+  if (!OBJECTIVES.includes(c["objective"] as Objective)) {
+    return { error: `constraints.objective must be one of: ${OBJECTIVES.join(", ")}` };
+  }
+  if (!isPositive(c["maxSlippageBps"])) return { error: "constraints.maxSlippageBps must be > 0" };
+  if (!isPositive(c["maxGasUsd"]))      return { error: "constraints.maxGasUsd must be > 0" };
+  if (!isPositive(c["deadlineMs"]))     return { error: "constraints.deadlineMs must be > 0" };
+  if (c["maxPaymentUsd"] !== undefined && (!isPositive(c["maxPaymentUsd"]) || c["maxPaymentUsd"] > MAX_PAYMENT_USD)) {
+    return { error: `constraints.maxPaymentUsd must be > 0 and at most ${MAX_PAYMENT_USD}` };
+  }
+
+  return {
+    value: {
+      objective:      c["objective"] as Objective,
+      maxSlippageBps: c["maxSlippageBps"],
+      maxGasUsd:      c["maxGasUsd"],
+      deadlineMs:     c["deadlineMs"],
+      ...(c["maxPaymentUsd"] !== undefined && { maxPaymentUsd: c["maxPaymentUsd"] as number }),
+    },
+  };
+}
+
+/** Upper bound on maxAttempts; retries count against the deadline anyway. */
+const MAX_RETRY_ATTEMPTS = 5;
+
+function parseRetryPolicy(raw: unknown): { value: RetryPolicy } | { error: string } {
+  if (typeof raw !== "object" || raw === null) return { error: "retryPolicy must be an object" };
+  const r = raw as Record<string, unknown>;
+
+  const maxAttempts = r["maxAttempts"];
+  if (!Number.isInteger(maxAttempts) || (maxAttempts as number) < 1 || (maxAttempts as number) > MAX_RETRY_ATTEMPTS) {
+    return { error: `retryPolicy.maxAttempts must be an integer between 1 and ${MAX_RETRY_ATTEMPTS}` };
+  }
+  if (!isPositive(r["baseDelayMs"])) return { error: "retryPolicy.baseDelayMs must be > 0" };
+  if (!isPositive(r["maxDelayMs"]) || r["maxDelayMs"] < r["baseDelayMs"]) {
+    return { error: "retryPolicy.maxDelayMs must be ≥ baseDelayMs" };
+  }
+  const retryOn = r["retryOn"];
+  if (!Array.isArray(retryOn) || !retryOn.every((k) => FAILURE_KINDS.includes(k as FailureKind))) {
+    return { error: `retryPolicy.retryOn must be an array of: ${FAILURE_KINDS.join(", ")}` };
+  }
+
+  return {
+    value: {
+      maxAttempts: maxAttempts as number,
+      baseDelayMs: r["baseDelayMs"],
+      maxDelayMs:  r["maxDelayMs"] as number,
+      retryOn:     [...new Set(retryOn as FailureKind[])],
+    },
+  };
+}
+
+/**
+ * Validate a custom agent definition from a request body.
+ * `existing` is passed on update so createdAt is preserved.
+ */
+export function parseAgentDefinition(
+  body:      Record<string, unknown>,
+  existing?: AgentDefinition,
+): { definition: AgentDefinition } | { error: string } {
+  const { agentId, displayName, description, skyboxPrompt, endpoint, signerAddress } = body;
+  const kind = (body["kind"] ?? "sim") as AgentKind;
+
+  if (typeof agentId !== "string" || !AGENT_ID_RE.test(agentId)) {
+    return { error: "agentId must be 2-32 chars of lowercase letters, digits, '-' or '_'" };
+  }
+  if (isBuiltinAgent(agentId)) {
+    return { error: `"${agentId}" is a built-in agent and cannot be redefined` };
+  }
+  if (typeof displayName !== "string" || !displayName.trim() || displayName.length > 40) {
+    return { error: "displayName is required (max 40 chars)" };
+  }
+  if (typeof description !== "string" || description.length > 280) {
+    return { error: "description must be a string (max 280 chars)" };
+  }
+  if (skyboxPrompt !== undefined && (typeof skyboxPrompt !== "string" || skyboxPrompt.length > 700)) {
+    return { error: "skyboxPrompt must be a string (max 700 chars)" };
+  }
+
+  if (!KINDS.includes(kind)) {
+    return { error: `kind must be one of: ${KINDS.join(", ")}` };
+  }
+  if (kind === "remote") {
+    if (!isHttpUrl(endpoint)) {
+      return { error: "endpoint must be an http(s) URL for remote agents" };
+    }
+    if (typeof signerAddress !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(signerAddress)) {
+      return { error: "signerAddress must be a 0x-prefixed Ethereum address for remote agents" };
+    }
+  }
+
+  // Remote agents run their own logic, so a sim profile is optional for them
+  let simProfile: SimProfile | undefined;
+  if (kind === "sim" || body["simProfile"] !== undefined) {
+    const parsedProfile = parseSimProfile(body["simProfile"]);
+    if ("error" in parsedProfile) return parsedProfile;
+    simProfile = parsedProfile.value;
+  }
+  const policy = parsePolicy(body["policy"]);
+  if ("error" in policy) return policy;
+  const constraints = parseConstraints(body["constraints"]);
+  if ("error" in constraints) return constraints;
+  let retryPolicy: RetryPolicy | undefined;
+  if (body["retryPolicy"] !== undefined) {
+    const parsedRetry = parseRetryPolicy(body["retryPolicy"]);
+    if ("error" in parsedRetry) return parsedRetry;
+    retryPolicy = parsedRetry.value;
+  }
+
+  return {
+    definition: {
+      agentId,
+      displayName:  displayName.trim(),
+      description,
+      kind,
+      ...(simProfile && { simProfile }),
+      ...(kind === "remote" && {
+        endpoint:      endpoint as string,
+        signerAddress: (signerAddress as string).toLowerCase(),
+      }),
+      policy:       policy.value,
+      constraints:  constraints.value,
+      ...(retryPolicy && { retryPolicy }),
+      skyboxPrompt: (skyboxPrompt as string | undefined) ?? description,
+      builtin:      false,
+      createdAt:    existing?.createdAt ?? Date.now(),
+    },
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * aqiQuery.ts — parse AQI windowing / decay query params.
+ *
+ * Shared by GET /agents and GET /agents/:id:
+ *   window=24h|7d|all   rolling time window (any "<n>m|h|d" duration works)
+ *   lastN=50            only the 50 most recent receipts
+ *   halfLife=6h         exponential time decay
+ *   minSamples=20       provisional threshold (default: AQI_MIN_SAMPLES env, else 10)
+ *   profile=fastest     weight profile (built-in or saved via /aqi/profiles)
+ *   scenario=volatile   only receipts simulated under that market scenario
+ *   faults=all          also score infrastructure failures (default: agent —
+ *                       only failures that were the agent's fault count)
+ *
+ * Durations may also be plain milliseconds ("86400000").
+ */
+
+import { DEFAULT_MIN_SAMPLES, DEFAULT_WEIGHT_PROFILE } from "@agent-aqi/shared";
+import type { AQIOptions, WeightProfile } from "@agent-aqi/shared";
+import { getWeightProfile } from "./weightProfiles";
+import { parseScenario } from "./scenarios";
+
+const UNIT_MS: Record<string, number> = {
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/** Shortest half-life accepted; anything smaller decays every receipt to ~0. */
+const MIN_HALF_LIFE_MS = 60_000;
+
+/** "90m" | "24h" | "7d" | plain ms → milliseconds; undefined if invalid or ≤ 0. */
+export function parseDuration(raw: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)(m|h|d)?$/.exec(raw.trim());
+  if (!match) return undefined;
+  const ms = Number(match[1]) * (match[2] ? UNIT_MS[match[2]]! : 1);
+  return ms > 0 ? ms : undefined;
+}
+
+function single(v: unknown): string | undefined {
+  return typeof v === "string" && v !== "" ? v : undefined;
+}
+
+function envMinSamples(): number {
+  const n = Number(process.env["AQI_MIN_SAMPLES"]);
+  return Number.isInteger(n) && n >= 0 ? n : DEFAULT_MIN_SAMPLES;
+}
+
+/**
+ * `scoped` is true when a window or decay param was given, so callers can
+ * tell "all-time" apart from an explicit window.
+ */
+export function parseAQIQuery(
+  query: Record<string, unknown>,
+): { options: AQIOptions; scoped: boolean; profile: WeightProfile } | { error: string } {
+  const window     = single(query["window"]);
+  const lastN      = single(query["lastN"]);
+  const halfLife   = single(query["halfLife"]);
+  const minSamples = single(query["minSamples"]);
+  const profileName = single(query["profile"]);
+
+  const profile = profileName === undefined ? DEFAULT_WEIGHT_PROFILE : getWeightProfile(profileName);
+  if (!profile) return { error: `Unknown profile "${profileName}" — see GET /aqi/profiles` };
+
+  const options: AQIOptions = {};
+
+  const scenario = single(query["scenario"]);
+  if (scenario !== undefined) {
+    const parsed = parseScenario(scenario);
+    if ("error" in parsed) return parsed;
+    options.scenario = parsed.scenario;
+  }
+
+  const faults = single(query["faults"]);
+  if (faults !== undefined) {
+    if (faults !== "agent" && faults !== "all") return { error: 'faults must be "agent" or "all"' };
+    options.faults = faults;
+  }
+
+  if (window !== undefined && window !== "all") {
+    const ms = parseDuration(window);
+    if (ms === undefined) return { error: 'window must be "all" or a duration like 24h, 7d, 90m' };
+    options.maxAgeMs = ms;
+  }
+
+  if (lastN !== undefined) {
+    const n = Number(lastN);
+    if (!Number.isInteger(n) || n < 1) return { error: "lastN must be a positive integer" };
+    options.lastN = n;
+  }
+
+  if (halfLife !== undefined) {
+    const ms = parseDuration(halfLife);
+    if (ms === undefined || ms < MIN_HALF_LIFE_MS) {
+      return { error: "halfLife must be a duration of at least 1m (e.g. 6h, 2d)" };
+    }
+    options.halfLifeMs = ms;
+  }
+
+  const scoped = Object.keys(options).length > 0;
+
+  if (minSamples !== undefined) {
+    const n = Number(minSamples);
+    if (!Number.isInteger(n) || n < 0) return { error: "minSamples must be a non-negative integer" };
+    options.minSamples = n;
+  } else {
+    options.minSamples = envMinSamples();
+  }
+
+  return { options, scoped, profile };
+}
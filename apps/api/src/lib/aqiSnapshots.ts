@@ -0,0 +1,76 @@
+/**
+ * aqiSnapshots.ts — periodic AQI snapshots per agent.
+ *
+ * Every AQI_SNAPSHOT_INTERVAL_MS (default 5 min) the all-time "balanced" AQI
+ * of each agent with at least one receipt is recorded through the storage
+ * driver, so score history survives restarts when STORAGE_DRIVER=sqlite.
+ * Snapshots older than AQI_SNAPSHOT_RETENTION_DAYS (default 30) are pruned.
+ *
+ * GET /agents/:id/history buckets these into a time series.
+ */
+
+import { computeAQI, DEFAULT_WEIGHT_PROFILE } from "@agent-aqi/shared";
+import type { AQISnapshot } from "@agent-aqi/shared";
+import { storage } from "../storage";
+import { getReceiptsByAgent } from "../store";
+import { listAgents } from "./agentRegistry";
+
+const DAY_MS = 86_400_000;
+
+const INTERVAL_MS    = Number(process.env["AQI_SNAPSHOT_INTERVAL_MS"] ?? 5 * 60_000);
+const RETENTION_DAYS = Number(process.env["AQI_SNAPSHOT_RETENTION_DAYS"] ?? 30);
+
+let timer: NodeJS.Timeout | undefined;
+
+/** Snapshot every agent that has receipts. Returns the snapshots written. */
+export function takeAQISnapshots(now = Date.now()): AQISnapshot[] {
+  const snapshots: AQISnapshot[] = [];
+  for (const agent of listAgents()) {
+    const receipts = getReceiptsByAgent(agent.agentId);
+    if (receipts.length === 0) continue;
+    const aqi = computeAQI(receipts, DEFAULT_WEIGHT_PROFILE, { bootstrapSamples: 0 });
+    snapshots.push({
+      agentId:    agent.agentId,
+      takenAt:    now,
+      score:      aqi.score,
+      components: aqi.components,
+      sampleSize: aqi.sampleSize,
+      profile:    aqi.profile,
+    });
+  }
+  if (snapshots.length > 0) storage.insertAQISnapshots(snapshots);
+  storage.pruneAQISnapshots(now - RETENTION_DAYS * DAY_MS);
+  return snapshots;
+}
+
+/** Start the snapshot timer (idempotent). Set AQI_SNAPSHOT_INTERVAL_MS=0 to disable. */
+export function startAQISnapshots(): void {
+  if (timer || !(INTERVAL_MS > 0)) return;
+  timer = setInterval(() => {
+    try {
+      takeAQISnapshots();
+    } catch (err) {
+      console.error("[AQISnapshots] snapshot failed:", err);
+    }
+  }, INTERVAL_MS);
+  timer.unref();
+  console.log(`[AQISnapshots] every ${Math.round(INTERVAL_MS / 1000)} s, keeping ${RETENTION_DAYS} d`);
+}
+
+/**
+ * Bucket an agent's snapshots into fixed intervals over `rangeMs`, keeping
+ * the latest snapshot in each bucket.  Buckets without a snapshot are omitted.
+ */
+export function getAQIHistory(
+  agentId:    string,
+  intervalMs: number,
+  rangeMs:    number,
+  now = Date.now(),
+): AQISnapshot[] {
+  const since   = now - rangeMs;
+  const buckets = new Map<number, AQISnapshot>();
+  for (const s of storage.listAQISnapshots(agentId, since)) {
+    buckets.set(Math.floor((s.takenAt - since) / intervalMs), s);
+  }
+  return [...buckets.values()];
+}
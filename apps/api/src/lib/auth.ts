@@ -6,8 +6,9 @@
  * Required environment variable:
  *   JWT_SECRET              — HS256 signing secret (developer must set)
  *
- * Optional environment variable:
+ * Optional environment variables:
  *   AUTH_TOKEN_TTL_HOURS    — token lifetime in hours (default: 24)
+ *   ADMIN_TOKEN             — shared secret for admin-only routes (x-admin-token header)
  */
 
 import { randomBytes }  from "crypto";
@@ -185,3 +186,28 @@ export function optionalAuth(
   }
   next();
 }
+
+/** Requires the x-admin-token header to match ADMIN_TOKEN. 503 if unset, 403 on mismatch. */
+export function requireAdmin(
+  req:  Request,
+  res:  Response,
+  next: NextFunction
+): void {
+  const expected = process.env["ADMIN_TOKEN"];
+  if (!expected) {
+    res.status(503).json({ error: "ADMIN_TOKEN not configured on server" });
+    return;
+  }
+  if (!isAdmin(req)) {
+    res.status(403).json({ error: "Forbidden — invalid admin token" });
+    return;
+  }
+  next();
+}
+
+/** Whether the request carries the admin token (for routes open to all that grant admins more). */
+export function isAdmin(req: Request): boolean {
+  const expected = process.env["ADMIN_TOKEN"];
+  const provided = req.headers["x-admin-token"] as string | undefined;
+  return Boolean(expected) && provided === expected;
+}
@@ -0,0 +1,132 @@
+/**
+ * batches.ts — submit many jobs at once (POST /jobs/batch, schedules).
+ *
+ * A batch runs `count` jobs for every agent × job type in its BatchSpec,
+ * interleaved so each agent gets work early, with `staggerMs` between
+ * submissions.  Jobs go through the normal queue; when it pushes back
+ * (429 / 503) the batch waits out the Retry-After and tries the same job
+ * again, so a large batch never overruns the queue limits.
+ *
+ * Progress is emitted as "batch_progress" SSE events (one when the batch
+ * starts and one per finished job) and "batch_complete" at the end.  Batch
+ * records are held in memory, like queued job state.
+ *
+ * Specs are validated by parseBatchSpec in routes/jobs.ts.
+ */
+
+import { setTimeout as delay } from "node:timers/promises";
+import { v4 as uuidv4 } from "uuid";
+import { deriveSeed, randomSeed } from "@agent-aqi/shared";
+import type { AgentId, BatchRecord, BatchSpec, JobState, JobType } from "@agent-aqi/shared";
+import { emitEvent } from "../store";
+import { enqueueJob } from "./jobQueue";
+
+/** Batches kept for GET /jobs/batch/:id; oldest evicted first. */
+const MAX_TRACKED_BATCHES = 100;
+
+const batches = new Map<string, BatchRecord>();
+
+type Mode = "sim" | "quote" | "real";
+
+function executionMode(): Mode {
+  return (process.env["EXECUTION_MODE"] ?? "sim") as Mode;
+}
+
+// ─── Running ──────────────────────────────────────────────────────────────────
+
+export function getBatch(batchId: string): BatchRecord | undefined {
+  return batches.get(batchId);
+}
+
+function progressPayload(batch: BatchRecord) {
+  return {
+    batchId:   batch.batchId,
+    ...(batch.scheduleId && { scheduleId: batch.scheduleId }),
+    status:    batch.status,
+    total:     batch.total,
+    submitted: batch.submitted,
+    finished:  batch.finished,
+  };
+}
+
+function finishedCount(batch: BatchRecord): number {
+  return Object.values(batch.finished).reduce((s, n) => s + (n ?? 0), 0);
+}
+
+function recordFinished(batch: BatchRecord, state: JobState): void {
+  batch.finished[state] = (batch.finished[state] ?? 0) + 1;
+  const done = finishedCount(batch) === batch.total;
+  if (done) {
+    batch.status      = "completed";
+    batch.completedAt = Date.now();
+  }
+  emitEvent(done ? "batch_complete" : "batch_progress", progressPayload(batch));
+}
+
+/** Queue one job, waiting out Retry-After for as long as the queue pushes back. */
+async function submit(batch: BatchRecord, agentId: AgentId, jobType: JobType, n: number): Promise<void> {
+  const { spec } = batch;
+  const jobId = uuidv4();
+  const params = {
+    jobId,
+    agentId,
+    jobType,
+    mode:  executionMode(),
+    seed:  spec.seed !== undefined ? deriveSeed(spec.seed, `${agentId}:${jobType}:${n}`) : randomSeed(),
+    ...(spec.scenario && { scenario: spec.scenario }),
+    ...(jobType === "swap" && spec.swapParams && { swapParams: spec.swapParams }),
+    ...(jobType === "paid_call" && spec.paidCall && { paidCall: spec.paidCall }),
+  };
+
+  for (;;) {
+    const queued = enqueueJob(params);
+    if (queued.ok) {
+      batch.jobIds.push(jobId);
+      batch.submitted++;
+      queued.done.then(
+        (receipt) => recordFinished(batch, receipt.outcome.status),
+        (err) => recordFinished(batch, (err as { name?: string }).name === "AbortError" ? "cancelled" : "failed"),
+      );
+      return;
+    }
+    await delay(queued.rejection.retryAfterSec * 1000);
+  }
+}
+
+/**
+ * Start a batch.  Returns its record immediately; jobs are submitted in the
+ * background in agent-interleaved order.
+ */
+export function startBatch(spec: BatchSpec, scheduleId?: string): BatchRecord {
+  const batch: BatchRecord = {
+    batchId:   uuidv4(),
+    spec,
+    ...(scheduleId && { scheduleId }),
+    status:    "submitting",
+    total:     spec.count * spec.agentIds.length * spec.jobTypes.length,
+    submitted: 0,
+    finished:  {},
+    jobIds:    [],
+    createdAt: Date.now(),
+  };
+  batches.set(batch.batchId, batch);
+  if (batches.size > MAX_TRACKED_BATCHES) batches.delete(batches.keys().next().value!);
+
+  emitEvent("batch_progress", progressPayload(batch));
+
+  void (async () => {
+    let first = true;
+    for (let n = 0; n < spec.count; n++) {
+      for (const jobType of spec.jobTypes) {
+        for (const agentId of spec.agentIds) {
+          if (!first && spec.staggerMs > 0) await delay(spec.staggerMs);
+          first = false;
+          await submit(batch, agentId, jobType, n);
+        }
+      }
+    }
+    if (batch.status === "submitting") batch.status = "running";
+  })();
+
+  return batch;
+}
@@ -0,0 +1,351 @@
+/**
+ * battleDecision.ts — decide an Arena battle's winner.
+ *
+ * Each battle type ranks agents by an ordered list of criteria.  Every
+ * criterion keeps only the agents with the best value (missing data ranks
+ * last); the first criterion that leaves a single agent decides the battle.
+ * If several agents survive every criterion the battle is a tie and has no
+ * winner — callers refund bets instead of picking one arbitrarily.
+ * If no agent fulfilled its job (or, for custom types, qualified) there is no
+ * winner either, and no tie.
+ * A timed_out agent was aborted, so its latency / gas / slippage count as missing.
+ *
+ *   speed       – fulfilled this battle → lowest latencyMs  → lowest gasUsedUsd
+ *   gas         – fulfilled this battle → lowest gasUsedUsd → lowest latencyMs
+ *   slippage    – fulfilled this battle → lowest slippageBps → lowest latencyMs
+ *   reliability – highest success rate over the last 10 receipts (including
+ *                 this battle's) → fulfilled this battle → lowest latencyMs
+ *
+ * A best-of-N series (lib/battleStats.ts) compares the rounds instead of one
+ * value: "fulfilled" becomes the share of rounds fulfilled (two-proportion
+ * z-test) and a metric its per-round mean (Welch's t-test).  Every agent not
+ * significantly worse than the leader stays in contention, so a series only
+ * has a winner when some criterion separates it at the 95 % level.
+ *
+ * Custom battle types (lib/battleTypes.ts) use two criteria:
+ *
+ *   qualified – not ruled out by the type's disqualification rules (failed
+ *               job, safety flags on the receipt, metric limits)
+ *   score     – Σ weight × term over the type's weighted terms, each 0-100:
+ *               a metric scores 100 × (best qualifying value) / (own value),
+ *               "aqi" is the run's own AQI under the type's weight profile
+ */
+
+import type {
+  AgentId,
+  BattleCriterionResult,
+  BattleDecision,
+  BattleRecord,
+  BattleScorecard,
+  BuiltinBattleType,
+  CustomBattleType,
+} from "@agent-aqi/shared";
+import { computeAQI, DEFAULT_WEIGHT_PROFILE } from "@agent-aqi/shared";
+import { getReceipt, getReceiptsByAgent } from "../store";
+import { BATTLE_METRICS, agentRounds, mean, meansDiffer, metricValue, proportionsDiffer } from "./battleStats";
+import { getCustomBattleType, isBuiltinBattleType } from "./battleTypes";
+import { getWeightProfile } from "./weightProfiles";
+
+/** Receipts per agent considered by the reliability battle. */
+export const RELIABILITY_WINDOW = 10;
+
+interface Criterion {
+  name:      string;
+  direction: "higher" | "lower";
+  /** `field` is every scorecard of the same run (the battle, or one round of a series) */
+  value:     (card: BattleScorecard, field: BattleScorecard[]) => number | null;
+  /** How a series tests the per-round values; absent = compare `value` of the aggregate card */
+  test?:     NonNullable<BattleCriterionResult["test"]>;
+}
+
+const fulfilled: Criterion = {
+  name:      "fulfilled",
+  direction: "higher",
+  value:     (c) => (c.status === "fulfilled" ? 1 : 0),
+  test:      "two_proportion_z",
+};
+
+const latency: Criterion = {
+  name:      "latencyMs",
+  direction: "lower",
+  value:     (c) => metricValue(c, "latencyMs"),
+  test:      "welch_t",
+};
+
+const gas: Criterion = {
+  name:      "gasUsedUsd",
+  direction: "lower",
+  value:     (c) => metricValue(c, "gasUsedUsd"),
+  test:      "welch_t",
+};
+
+const slippage: Criterion = {
+  name:      "slippageBps",
+  direction: "lower",
+  value:     (c) => metricValue(c, "slippageBps"),
+  test:      "welch_t",
+};
+
+const successRate: Criterion = {
+  name:      "successRate",
+  direction: "higher",
+  value:     (c) => {
+    const hist = getReceiptsByAgent(c.agentId).slice(-RELIABILITY_WINDOW);
+    if (hist.length === 0) return null;
+    const ok = hist.filter((r) => r.outcome.status === "fulfilled").length;
+    return Math.round((ok / hist.length) * 1000) / 10;
+  },
+};
+
+/**
+ * Gate criteria: when every remaining agent scores 0 (or nothing) on one,
+ * nobody completed the battle and it has no winner — later criteria would
+ * otherwise rank failed runs against each other.
+ */
+const NO_WINNER_SUMMARY: Record<string, string> = {
+  fulfilled:   "No agent fulfilled its job",
+  successRate: "No agent fulfilled its job",
+  qualified:   "No agent qualified",
+};
+
+const CRITERIA: Record<BuiltinBattleType, Criterion[]> = {
+  speed:       [fulfilled, latency, gas],
+  gas:         [fulfilled, gas, latency],
+  slippage:    [fulfilled, slippage, latency],
+  reliability: [successRate, fulfilled, latency],
+};
+
+// ─── Custom battle types ──────────────────────────────────────────────────────
+
+/** Why a run is ruled out under `type`'s rules, or null when it qualifies. */
+function disqualification(card: BattleScorecard, type: CustomBattleType): string | null {
+  const rules = type.disqualify;
+  if (rules.failedJobs && card.status !== "fulfilled") return `job ${card.status}`;
+
+  if (rules.safetyFlags.length > 0) {
+    const flags = (card.jobId && getReceipt(card.jobId)?.outcome.safetyFlags) || [];
+    const hit   = flags.find((f) => rules.safetyFlags.includes("*") || rules.safetyFlags.includes(f));
+    if (hit) return `safety flag ${hit}`;
+  }
+
+  const limits = { latencyMs: rules.maxLatencyMs, gasUsedUsd: rules.maxGasUsd, slippageBps: rules.maxSlippageBps };
+  for (const key of BATTLE_METRICS) {
+    const [v, limit] = [metricValue(card, key), limits[key]];
+    if (v !== null && limit !== undefined && v > limit) return `${key} ${v} over the ${limit} limit`;
+  }
+  return null;
+}
+
+/** Weighted 0-100 score of a qualifying run; null when it is disqualified. */
+function compositeScore(card: BattleScorecard, field: BattleScorecard[], type: CustomBattleType): number | null {
+  if (disqualification(card, type)) return null;
+  const qualifying = field.filter((c) => !disqualification(c, type));
+
+  let score = 0;
+  for (const [term, weight] of Object.entries(type.weights) as [keyof CustomBattleType["weights"], number][]) {
+    let points = 0;
+    if (term === "aqi") {
+      const receipt = card.jobId ? getReceipt(card.jobId) : undefined;
+      const profile = (type.aqiProfile && getWeightProfile(type.aqiProfile)) || DEFAULT_WEIGHT_PROFILE;
+      if (receipt) points = computeAQI([receipt], profile, { bootstrapSamples: 0, faults: "all" }).score;
+    } else {
+      const v    = metricValue(card, term);
+      const best = Math.min(...qualifying.map((c) => metricValue(c, term)).filter((x): x is number => x !== null));
+      if (v !== null) points = v <= best ? 100 : best > 0 ? (100 * best) / v : 0;
+    }
+    score += weight * points;
+  }
+  return Math.round(score * 100) / 100;
+}
+
+function customCriteria(type: CustomBattleType): Criterion[] {
+  return [
+    {
+      name:      "qualified",
+      direction: "higher",
+      value:     (c) => (disqualification(c, type) ? 0 : 1),
+      test:      "two_proportion_z",
+    },
+    {
+      name:      "score",
+      direction: "higher",
+      value:     (c, field) => compositeScore(c, field, type),
+      test:      "welch_t",
+    },
+  ];
+}
+
+/** The battle's custom type: its own copy, else the saved definition. */
+function customTypeOf(battle: BattleRecord): CustomBattleType | undefined {
+  return battle.customType ?? getCustomBattleType(battle.battleType);
+}
+
+function isBetter(a: number, b: number, direction: Criterion["direction"]): boolean {
+  return direction === "higher" ? a > b : a < b;
+}
+
+/** Per-round values of one criterion for each contender (series only). */
+function roundValues(
+  battle:     BattleRecord,
+  criterion:  Criterion,
+  contenders: AgentId[],
+): Map<AgentId, number[]> {
+  const rounds = battle.roundResults ?? [];
+  return new Map(contenders.map((id) => [
+    id,
+    rounds
+      .flatMap((r) => agentRounds([r], id).map((c) => criterion.value(c, r.scorecards)))
+      .filter((v): v is number => v !== null),
+  ]));
+}
+
+/**
+ * Series step: leaders are the agent with the best mean plus every agent the
+ * criterion's test cannot tell apart from it.  Agents without values rank last.
+ */
+function seriesStep(
+  battle:     BattleRecord,
+  criterion:  Criterion,
+  contenders: AgentId[],
+): BattleCriterionResult {
+  const samples = roundValues(battle, criterion, contenders);
+  const rounds  = battle.roundResults?.length ?? 0;
+  const values: Record<AgentId, number | null> = {};
+  let best: AgentId | undefined;
+  for (const id of contenders) {
+    const s = samples.get(id)!;
+    values[id] = s.length ? Math.round(mean(s) * 10_000) / 10_000 : null;
+    if (values[id] !== null && (best === undefined || isBetter(values[id]!, values[best]!, criterion.direction))) {
+      best = id;
+    }
+  }
+
+  const sum = (xs: number[]) => xs.reduce((a, b) => a + b, 0);
+  const differs = (id: AgentId) => {
+    const [mine, theirs] = [samples.get(id)!, samples.get(best!)!];
+    return criterion.test === "two_proportion_z"
+      ? proportionsDiffer(sum(mine), rounds, sum(theirs), rounds)
+      : meansDiffer(mine, theirs);
+  };
+  const leaders = best === undefined
+    ? contenders
+    : contenders.filter((id) => values[id] !== null && (id === best || !differs(id)));
+
+  return { criterion: criterion.name, direction: criterion.direction, values, leaders, test: criterion.test };
+}
+
+function describe(
+  winner: AgentId,
+  step:   BattleCriterionResult,
+  rounds: number,
+): string {
+  const others = Object.entries(step.values)
+    .filter(([id]) => id !== winner)
+    .map(([, v]) => v)
+    .filter((v): v is number => v !== null)
+    .sort((a, b) => (step.direction === "higher" ? b - a : a - b));
+  const mine = step.values[winner];
+
+  if (step.test) {
+    const what =
+      step.criterion === "fulfilled" ? "share of rounds fulfilled" :
+      step.criterion === "qualified" ? "share of rounds qualified" :
+      `mean ${step.criterion}`;
+    return others[0] === undefined
+      ? `${winner} wins on ${what} over ${rounds} rounds: ${mine} (no other agent reported one)`
+      : `${winner} wins on ${what} over ${rounds} rounds: ${mine} vs ${others[0]} (significant at 95 %)`;
+  }
+  if (step.criterion === "fulfilled") {
+    return `${winner} wins as the only agent that fulfilled its job`;
+  }
+  if (step.criterion === "qualified") {
+    return `${winner} wins as the only agent that qualified`;
+  }
+  const runnerUp = others[0];
+  return runnerUp === undefined
+    ? `${winner} wins on ${step.criterion}: ${mine} (no other agent reported one)`
+    : `${winner} wins on ${step.criterion}: ${mine} vs ${runnerUp}`;
+}
+
+/** Single-run step: leaders are the agents with exactly the best value. */
+function exactStep(
+  criterion:  Criterion,
+  battle:     BattleRecord,
+  contenders: AgentId[],
+): BattleCriterionResult {
+  const cards = new Map(battle.scorecards.map((c) => [c.agentId, c]));
+  const values: Record<AgentId, number | null> = {};
+  let best: number | null = null;
+  for (const id of contenders) {
+    const v = criterion.value(cards.get(id)!, battle.scorecards);
+    values[id] = v;
+    if (v !== null && (best === null || isBetter(v, best, criterion.direction))) best = v;
+  }
+  // With no data at all the criterion cannot separate anyone
+  const leaders = best === null ? contenders : contenders.filter((id) => values[id] === best);
+  return { criterion: criterion.name, direction: criterion.direction, values, leaders };
+}
+
+export function decideBattle(battle: BattleRecord): BattleDecision {
+  let contenders: AgentId[] = battle.scorecards.map((c) => c.agentId);
+  const steps: BattleCriterionResult[] = [];
+  const rounds = battle.roundResults?.length ?? 1;
+
+  const custom   = isBuiltinBattleType(battle.battleType) ? undefined : customTypeOf(battle);
+  const criteria = isBuiltinBattleType(battle.battleType) ? CRITERIA[battle.battleType] : custom && customCriteria(custom);
+  if (!criteria) {
+    return noWinner(steps, `Unknown battle type "${battle.battleType}"`);
+  }
+
+  // Single-run custom battles report why each ruled-out agent was disqualified
+  let disqualified: Record<AgentId, string> | undefined;
+  if (custom && rounds === 1) {
+    for (const card of battle.scorecards) {
+      const reason = disqualification(card, custom);
+      if (reason) (disqualified ??= {})[card.agentId] = reason;
+    }
+  }
+
+  for (const criterion of criteria) {
+    const step = rounds > 1 && criterion.test
+      ? seriesStep(battle, criterion, contenders)
+      : exactStep(criterion, battle, contenders);
+    steps.push(step);
+    contenders = step.leaders;
+
+    const nobody = NO_WINNER_SUMMARY[criterion.name];
+    if (nobody && contenders.every((id) => !step.values[id])) {
+      return { ...noWinner(steps, nobody), ...(disqualified && { disqualified }) };
+    }
+
+    if (contenders.length === 1) {
+      const winner = contenders[0]!;
+      return {
+        winnerAgentId: winner,
+        tie:           false,
+        tiedAgentIds:  [],
+        decidedBy:     criterion.name,
+        steps,
+        summary:       describe(winner, step, rounds),
+        ...(disqualified && { disqualified }),
+      };
+    }
+  }
+
+  return {
+    winnerAgentId: null,
+    tie:           true,
+    tiedAgentIds:  contenders,
+    decidedBy:     null,
+    steps,
+    summary:       contenders.length === 0
+      ? "No agents competed"
+      : `Tie between ${contenders.join(", ")} after ${steps.map((s) => s.criterion).join(" → ")}`,
+    ...(disqualified && { disqualified }),
+  };
+}
+
+/** A decision without a winner that is not a tie (nobody could win). */
+function noWinner(steps: BattleCriterionResult[], summary: string): BattleDecision {
+  return { winnerAgentId: null, tie: false, tiedAgentIds: [], decidedBy: null, steps, summary };
+}
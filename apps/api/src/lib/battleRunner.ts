@@ -0,0 +1,231 @@
+/**
+ * battleRunner.ts — run an Arena battle's jobs and settle the result.
+ *
+ * Shared by routes/arena.ts (POST /battle, replays, the admin lobby) and the
+ * tournament runner (lib/tournaments.ts).  One swap job per agent is queued,
+ * each seeded with deriveSeed(battle.seed, agentId); when they have all
+ * finished the battle is decided (lib/battleDecision.ts), `battle_complete` is
+ * emitted and paper bets / the prediction pool are settled.
+ *
+ * A best-of-N battle (`rounds` > 1) runs that many rounds in turn, seeding
+ * round r > 1 with deriveSeed(seed, "<agentId>:<r>").  Each finished round is
+ * stored on `roundResults`, folded into the scorecards (lib/battleStats.ts)
+ * and announced with a `battle_round` event.
+ *
+ * Jobs do not survive a restart: battles still "running" at startup are
+ * cancelled by cancelInterruptedBattles and their paper bets voided.
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import { deriveSeed } from "@agent-aqi/shared";
+import type {
+  AgentId,
+  BattleDecision,
+  BattleRecord,
+  BattleScorecard,
+  BattleType,
+  MarketScenario,
+} from "@agent-aqi/shared";
+import {
+  addBattle,
+  cancelBattle,
+  getBattle,
+  getBattlesByStatus,
+  updateBattleScorecard,
+  finalizeBattle,
+  emitEvent,
+  recordBattleRound,
+  setBattleResolveTxHash,
+} from "../store";
+import { enqueueJob } from "./jobQueue";
+import { canAutoResolve, resolvePredictionBattle } from "./predictionPool";
+import { refundPaperBets, resolvePaperBets, voidPaperBets } from "./paperBets";
+import { decideBattle } from "./battleDecision";
+import { getCustomBattleType } from "./battleTypes";
+
+/** Optional battle fields: series length and what started it (a replayed battle or a tournament match). */
+export type BattleOptions = Pick<BattleRecord, "rounds" | "replayOf" | "tournamentId" | "matchId">;
+
+// ─── Jobs ─────────────────────────────────────────────────────────────────────
+
+/** Job seed of one agent in one round; round 1 matches a single-run battle. */
+function roundSeed(seed: number, agentId: AgentId, round: number): number {
+  return deriveSeed(seed, round === 1 ? agentId : `${agentId}:${round}`);
+}
+
+/** Run one agent's job for one round; the live scorecard follows it unless `series`. */
+async function runAgentJob(
+  battle:  BattleRecord,
+  agentId: AgentId,
+  round:   number,
+  series:  boolean,
+): Promise<BattleScorecard> {
+  const mode = (process.env["EXECUTION_MODE"] ?? "sim") as "sim" | "quote" | "real";
+  const { battleId, seed, scenario } = battle;
+  const jobId = uuidv4();
+  updateBattleScorecard(battleId, agentId, { jobId, status: "running" });
+
+  let card: BattleScorecard;
+  try {
+    const queued = enqueueJob({
+      jobId,
+      agentId,
+      jobType: "swap",
+      mode,
+      battleId,
+      ...(seed !== undefined && { seed: roundSeed(seed, agentId, round) }),
+      ...(scenario && { scenario }),
+    });
+    if (!queued.ok) throw new Error(queued.rejection.error);
+    const receipt = await queued.done;
+    card = {
+      agentId,
+      jobId,
+      status:      receipt.outcome.status,
+      latencyMs:   receipt.outcome.latencyMs,
+      gasUsedUsd:  receipt.outcome.gasUsedUsd,
+      slippageBps: receipt.outcome.slippageBps,
+      quotedOut:   receipt.quoteResult?.quotedOut,
+    };
+  } catch {
+    card = { agentId, jobId, status: "failed" };
+  }
+  if (!series) updateBattleScorecard(battleId, agentId, card);
+  return card;
+}
+
+/**
+ * Run a battle's jobs: one per agent, or `rounds` rounds of them one after
+ * another for a best-of-N series, folding each round into the scorecards.
+ */
+export async function runBattleJobs(battle: BattleRecord): Promise<void> {
+  const { battleId, agentIds } = battle;
+  const rounds = battle.rounds ?? 1;
+
+  for (let round = 1; round <= rounds; round++) {
+    const results = await Promise.allSettled(
+      agentIds.map((agentId) => runAgentJob(battle, agentId, round, rounds > 1)),
+    );
+    if (rounds === 1) return;
+
+    const scorecards = results.map((r, i): BattleScorecard =>
+      r.status === "fulfilled" ? r.value : { agentId: agentIds[i]!, status: "failed" },
+    );
+    const recorded = recordBattleRound(battleId, { round, scorecards });
+    emitEvent("battle_round", {
+      battleId,
+      round,
+      rounds,
+      scorecards:  recorded?.scorecards ?? [],
+      roundScores: scorecards,
+    });
+  }
+}
+
+/** A custom battle type's definition to keep on the battle record ({} for built-ins). */
+export function withCustomType(battleType: BattleType): Pick<BattleRecord, "customType"> {
+  const customType = getCustomBattleType(battleType);
+  return customType ? { customType } : {};
+}
+
+/** Record a battle that starts running immediately (POST /battle, replays, tournament matches). */
+export function addRunningBattle(
+  battleType: BattleType,
+  agentIds:   AgentId[],
+  seed:       number,
+  scenario:   MarketScenario,
+  options:    BattleOptions = {},
+): BattleRecord {
+  const battle: BattleRecord = {
+    battleId:   uuidv4(),
+    createdAt:  Date.now(),
+    battleType,
+    agentIds,
+    scorecards: agentIds.map((id) => ({ agentId: id, status: "pending" as const })),
+    status:     "running",
+    seed,
+    scenario,
+    ...withCustomType(battleType),
+    ...options,
+  };
+  addBattle(battle);
+  return battle;
+}
+
+// ─── Completion (winner / tie → SSE, paper bets, prediction pool) ─────────────
+
+/** Decide a battle whose jobs have finished and settle it.  Returns the decision. */
+export function completeBattle(battleId: string): BattleDecision | undefined {
+  const battle = getBattle(battleId);
+  if (!battle) return undefined;
+
+  const decision = decideBattle(battle);
+  const winner   = decision.winnerAgentId;
+  finalizeBattle(battleId, decision);
+
+  emitEvent("battle_complete", {
+    battleId,
+    battleType:    battle.battleType,
+    ...(battle.tournamentId && { tournamentId: battle.tournamentId, matchId: battle.matchId }),
+    seed:          battle.seed,
+    scenario:      battle.scenario,
+    winnerAgentId: winner,
+    tie:           decision.tie,
+    tiedAgentIds:  decision.tiedAgentIds,
+    decidedBy:     decision.decidedBy,
+    summary:       decision.summary,
+    decision,
+    scorecards:    getBattle(battleId)?.scorecards ?? [],
+  });
+
+  console.log(`[Arena] battle=${battleId} type=${battle.battleType} — ${decision.summary}`);
+
+  // ── Paper bets: pay out the winner, or refund everyone on a tie ─────────────
+  try {
+    if (winner) resolvePaperBets(battleId, winner);
+    else        refundPaperBets(battleId);
+  } catch (err: unknown) {
+    console.error(`[PaperBets] auto-resolve failed battle=${battleId}:`, err);
+  }
+
+  // ── Auto-resolve prediction pool (fire-and-forget; skipped on a tie) ────────
+  if (winner && canAutoResolve()) {
+    resolvePredictionBattle(battleId, winner)
+      .then((result) => {
+        if (!result) return;
+        setBattleResolveTxHash(battleId, result.txHash);
+        emitEvent("prediction_resolved", {
+          battleId,
+          winnerAgentId: winner,
+          resolveTxHash: result.txHash,
+        });
+      })
+      .catch((err: unknown) => {
+        console.error(`[Prediction] auto-resolve failed battle=${battleId}:`, err);
+      });
+  }
+
+  return decision;
+}
+
+/** Run a recorded battle's jobs, then decide and settle it. */
+export async function runBattle(battle: BattleRecord): Promise<BattleDecision | undefined> {
+  await runBattleJobs(battle);
+  return completeBattle(battle.battleId);
+}
+
+// ─── Restart ──────────────────────────────────────────────────────────────────
+
+/**
+ * Cancel the battles a restart left "running" — their jobs died with the old
+ * process — voiding their paper bets.  Runs before resumeTournaments, which
+ * replays interrupted matches as new battles.
+ */
+export function cancelInterruptedBattles(): void {
+  for (const { battleId } of getBattlesByStatus(["running"])) {
+    cancelBattle(battleId);
+    const voided = voidPaperBets(battleId);
+    emitEvent("battle_cancelled", { battleId, voidedBets: voided.length });
+    console.log(`[Arena] battle=${battleId} interrupted by a restart — cancelled, voided=${voided.length} bets`);
+  }
+}
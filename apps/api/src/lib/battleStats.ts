@@ -0,0 +1,122 @@
+/**
+ * battleStats.ts — best-of-N battle series.
+ *
+ * A series runs every agent `rounds` times.  aggregateRounds folds the
+ * per-round scorecards into one scorecard per agent (mean / median / p95 per
+ * metric), and the two tests below let lib/battleDecision.ts keep every agent
+ * that is not significantly worse than the leader at the 95 % level:
+ *
+ *   meansDiffer       – Welch's t-test on a metric's per-round values
+ *   proportionsDiffer – two-proportion z-test on fulfilled rounds
+ */
+
+import type {
+  AgentId,
+  BattleMetric,
+  BattleRound,
+  BattleScorecard,
+  MetricSummary,
+} from "@agent-aqi/shared";
+
+/** Most rounds one battle may run per agent. */
+export const MAX_BATTLE_ROUNDS = 25;
+
+export const BATTLE_METRICS: BattleMetric[] = ["latencyMs", "gasUsedUsd", "slippageBps"];
+
+const Z_95 = 1.96;
+
+/** Two-sided 95 % critical values of Student's t for 1–30 degrees of freedom. */
+const T_95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228,
+  2.201, 2.179, 2.160, 2.145, 2.131, 2.120, 2.110, 2.101, 2.093, 2.086,
+  2.080, 2.074, 2.069, 2.064, 2.060, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+
+function round4(v: number): number {
+  return Math.round(v * 10_000) / 10_000;
+}
+
+export function mean(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+function variance(values: number[]): number {
+  const m = mean(values);
+  return values.reduce((a, v) => a + (v - m) ** 2, 0) / (values.length - 1);
+}
+
+/** Nearest-rank percentile of sorted values. */
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]!;
+}
+
+export function summarize(values: number[]): MetricSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid    = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+  return {
+    n:      values.length,
+    mean:   round4(mean(values)),
+    median: round4(median),
+    p95:    round4(percentile(sorted, 95)),
+  };
+}
+
+/**
+ * Welch's t-test: do the two samples' means differ at the 95 % level?
+ * Samples of fewer than two values cannot be tested and never differ.
+ */
+export function meansDiffer(a: number[], b: number[]): boolean {
+  if (a.length < 2 || b.length < 2) return false;
+  const [va, vb] = [variance(a) / a.length, variance(b) / b.length];
+  const diff = Math.abs(mean(a) - mean(b));
+  const se   = Math.sqrt(va + vb);
+  if (se === 0) return diff > 0;
+
+  // Welch–Satterthwaite degrees of freedom
+  const df = (va + vb) ** 2 / (va ** 2 / (a.length - 1) + vb ** 2 / (b.length - 1));
+  const critical = T_95[Math.max(1, Math.floor(df)) - 1] ?? Z_95;
+  return diff / se > critical;
+}
+
+/** Two-proportion z-test: do k1/n1 and k2/n2 differ at the 95 % level? */
+export function proportionsDiffer(k1: number, n1: number, k2: number, n2: number): boolean {
+  if (n1 === 0 || n2 === 0) return false;
+  const pooled = (k1 + k2) / (n1 + n2);
+  if (pooled === 0 || pooled === 1) return false;
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  return Math.abs(k1 / n1 - k2 / n2) / se > Z_95;
+}
+
+/** One agent's scorecards across the rounds played so far. */
+export function agentRounds(rounds: BattleRound[], agentId: AgentId): BattleScorecard[] {
+  return rounds.flatMap((r) => r.scorecards.filter((c) => c.agentId === agentId));
+}
+
+/** A scorecard metric, or null when missing or the job timed out. */
+export function metricValue(c: BattleScorecard, key: BattleMetric): number | null {
+  return c.status === "timed_out" ? null : c[key] ?? null;
+}
+
+/** Fold a series' rounds into one scorecard per agent. */
+export function aggregateRounds(agentIds: AgentId[], rounds: BattleRound[]): BattleScorecard[] {
+  return agentIds.map((agentId) => {
+    const cards = agentRounds(rounds, agentId);
+    const fulfilledRounds = cards.filter((c) => c.status === "fulfilled").length;
+    const card: BattleScorecard = {
+      agentId,
+      status:       fulfilledRounds > 0 ? "fulfilled" : cards[cards.length - 1]?.status ?? "pending",
+      roundsPlayed: cards.length,
+      fulfilledRounds,
+      stats:        {},
+    };
+    for (const key of BATTLE_METRICS) {
+      const values = cards.map((c) => metricValue(c, key)).filter((v): v is number => v !== null);
+      if (values.length === 0) continue;
+      const summary = summarize(values);
+      card.stats![key] = summary;
+      card[key] = summary.mean;
+    }
+    return card;
+  });
+}
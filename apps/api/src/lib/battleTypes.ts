@@ -0,0 +1,174 @@
+/**
+ * battleTypes.ts — built-in and admin-defined Arena battle types.
+ *
+ * The built-ins (speed / gas / reliability / slippage) each rank agents on
+ * fixed criteria (lib/battleDecision.ts).  Custom types are saved via
+ * POST /arena/battle-types (admin) and persisted through the storage driver:
+ * they disqualify runs by rule, then score the rest on weighted terms.  A
+ * battle keeps a copy of its custom type, so later edits do not change how
+ * it is decided.
+ */
+
+import type {
+  BattleDisqualification,
+  BattleScoreTerm,
+  BattleType,
+  BuiltinBattleType,
+  CustomBattleType,
+} from "@agent-aqi/shared";
+import { storage } from "../storage";
+import { getWeightProfile } from "./weightProfiles";
+
+export const BUILTIN_BATTLE_TYPES: BuiltinBattleType[] = ["speed", "gas", "reliability", "slippage"];
+
+export const BATTLE_SCORE_TERMS: BattleScoreTerm[] = ["latencyMs", "gasUsedUsd", "slippageBps", "aqi"];
+
+const TYPE_NAME_RE = /^[a-z0-9][a-z0-9_-]{1,31}$/;
+
+/** Allowed drift from 1.0 when checking that weights sum to one. */
+const SUM_TOLERANCE = 0.001;
+
+const LIMITS: [keyof BattleDisqualification & `max${string}`, string][] = [
+  ["maxLatencyMs",   "ms"],
+  ["maxGasUsd",      "USD"],
+  ["maxSlippageBps", "bps"],
+];
+
+// ─── Lookups ──────────────────────────────────────────────────────────────────
+
+/** Custom types in creation order. */
+export function listCustomBattleTypes(): CustomBattleType[] {
+  return storage.listBattleTypes();
+}
+
+export function getCustomBattleType(name: string): CustomBattleType | undefined {
+  return listCustomBattleTypes().find((t) => t.name === name);
+}
+
+export function isBuiltinBattleType(name: string): name is BuiltinBattleType {
+  return (BUILTIN_BATTLE_TYPES as string[]).includes(name);
+}
+
+export function isBattleType(name: unknown): name is BattleType {
+  return typeof name === "string" && (isBuiltinBattleType(name) || getCustomBattleType(name) !== undefined);
+}
+
+/** Every battle type name, built-ins first. */
+export function listBattleTypeNames(): BattleType[] {
+  return [...BUILTIN_BATTLE_TYPES, ...listCustomBattleTypes().map((t) => t.name)];
+}
+
+// ─── Mutations ────────────────────────────────────────────────────────────────
+
+export function saveBattleType(type: CustomBattleType): CustomBattleType {
+  storage.saveBattleType(type);
+  console.log(`[BattleTypes] saved type=${type.name}`);
+  return type;
+}
+
+/** Remove a custom type. Returns false if it was not saved. */
+export function removeBattleType(name: string): boolean {
+  if (!getCustomBattleType(name)) return false;
+  storage.deleteBattleType(name);
+  console.log(`[BattleTypes] removed type=${name}`);
+  return true;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+function parseDisqualification(raw: unknown): { rules: BattleDisqualification } | { error: string } {
+  if (raw === undefined) return { rules: { failedJobs: true, safetyFlags: [] } };
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return { error: "disqualify must be an object" };
+  const d = raw as Record<string, unknown>;
+
+  const failedJobs = d["failedJobs"] ?? true;
+  if (typeof failedJobs !== "boolean") return { error: "disqualify.failedJobs must be a boolean" };
+
+  const flags = d["safetyFlags"] ?? [];
+  if (
+    !Array.isArray(flags) ||
+    flags.length > 20 ||
+    !flags.every((f) => typeof f === "string" && f.length > 0 && f.length <= 64)
+  ) {
+    return { error: "disqualify.safetyFlags must be an array of up to 20 flag names (\"*\" = any flag)" };
+  }
+
+  const rules: BattleDisqualification = { failedJobs, safetyFlags: flags as string[] };
+  for (const [key, unit] of LIMITS) {
+    const v = d[key];
+    if (v === undefined) continue;
+    if (typeof v !== "number" || !Number.isFinite(v) || v < 0) {
+      return { error: `disqualify.${key} must be a non-negative number (${unit})` };
+    }
+    rules[key] = v;
+  }
+  return { rules };
+}
+
+/**
+ * Validate a custom battle type from a request body.
+ * `existing` is passed on update so createdAt is preserved.
+ */
+export function parseCustomBattleType(
+  body:      Record<string, unknown>,
+  existing?: CustomBattleType,
+): { type: CustomBattleType } | { error: string } {
+  const { name, label, description, aqiProfile } = body;
+
+  if (typeof name !== "string" || !TYPE_NAME_RE.test(name)) {
+    return { error: "name must be 2-32 chars of lowercase letters, digits, '-' or '_'" };
+  }
+  if (isBuiltinBattleType(name)) {
+    return { error: `"${name}" is a built-in battle type and cannot be redefined` };
+  }
+  if (label !== undefined && (typeof label !== "string" || label.trim().length === 0 || label.length > 40)) {
+    return { error: "label must be a non-empty string (max 40 chars)" };
+  }
+  if (description !== undefined && (typeof description !== "string" || description.length > 280)) {
+    return { error: "description must be a string (max 280 chars)" };
+  }
+
+  const raw = body["weights"];
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) return { error: "weights is required" };
+  const w = raw as Record<string, unknown>;
+
+  const unknownTerm = Object.keys(w).find((k) => !(BATTLE_SCORE_TERMS as string[]).includes(k));
+  if (unknownTerm) {
+    return { error: `weights.${unknownTerm} is not a score term (${BATTLE_SCORE_TERMS.join(", ")})` };
+  }
+  const weights: CustomBattleType["weights"] = {};
+  for (const term of BATTLE_SCORE_TERMS) {
+    const v = w[term];
+    if (v === undefined) continue;
+    if (typeof v !== "number" || !Number.isFinite(v) || v < 0 || v > 1) {
+      return { error: `weights.${term} must be a number between 0 and 1` };
+    }
+    if (v > 0) weights[term] = v;
+  }
+  const sum = Object.values(weights).reduce((s, v) => s + v, 0);
+  if (Math.abs(sum - 1) > SUM_TOLERANCE) {
+    return { error: `weights must sum to 1 (got ${Math.round(sum * 1000) / 1000})` };
+  }
+
+  if (aqiProfile !== undefined) {
+    if (typeof aqiProfile !== "string" || !getWeightProfile(aqiProfile)) {
+      return { error: `Unknown aqiProfile "${String(aqiProfile)}"` };
+    }
+    if (!weights.aqi) return { error: "aqiProfile only applies when weights.aqi is set" };
+  }
+
+  const parsed = parseDisqualification(body["disqualify"]);
+  if ("error" in parsed) return parsed;
+
+  return {
+    type: {
+      name,
+      label:       typeof label === "string" ? label.trim() : name,
+      description: (description as string | undefined) ?? "",
+      weights,
+      ...(typeof aqiProfile === "string" && { aqiProfile }),
+      disqualify:  parsed.rules,
+      createdAt:   existing?.createdAt ?? Date.now(),
+    },
+  };
+}
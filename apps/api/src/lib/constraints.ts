@@ -0,0 +1,177 @@
+/**
+ * constraints.ts — caller-supplied JobConstraints for POST /jobs.
+ *
+ * A caller may pass `constraints` ("≤ 30 bps slippage, 1 s deadline").  Any
+ * field left out falls back to the chosen agent's defaults.  The result is
+ * what the job runs under:
+ *   deadlineMs     – enforced by runJob (and the sim / remote agent)
+ *   maxSlippageBps – caps the agent's Uniswap slippage tolerance; a caller can
+ *                    tighten the agent's policy but never loosen it
+ *   maxGasUsd      – the budget the economics score is measured against
+ *   maxPaymentUsd  – paid_call only: the most the agent pays the endpoint, and
+ *                    the economics budget in place of maxGasUsd; never over
+ *                    X402_MAX_PAYMENT_USD (default: 1).  Unset, it is
+ *                    DEFAULT_PAYMENT_USD — never the gas budget
+ *
+ * Sim agents whose distributions cannot meet the constraints at all (their
+ * best case under the job's scenario is already out of bounds) are rejected
+ * up front with the reason.  Remote agents publish no distributions, so they
+ * are only held to the deadline at run time.  Neither are paid calls, which
+ * make a real HTTP call instead of drawing from the distributions.
+ */
+
+import type {
+  AgentConstraintDefaults,
+  AgentDefinition,
+  JobConstraints,
+  JobType,
+  MarketScenario,
+  Objective,
+} from "@agent-aqi/shared";
+import { applyScenario } from "./scenarios";
+
+export type ConstraintOverrides = Partial<AgentConstraintDefaults>;
+
+const MIN_DEADLINE_MS   = 100;
+const MAX_DEADLINE_MS   = 300_000;
+const MAX_SLIPPAGE_BPS  = 5_000;
+
+/** A paid_call job's maxPaymentUsd when neither the caller nor the agent sets one. */
+export const DEFAULT_PAYMENT_USD = 0.01;
+
+/** Server-side cap on what one paid call may pay, whatever the job asks (X402_MAX_PAYMENT_USD, default 1). */
+export const MAX_PAYMENT_USD = (() => {
+  const n = Number(process.env["X402_MAX_PAYMENT_USD"]);
+  return Number.isFinite(n) && n > 0 ? n : 1;
+})();
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/**
+ * Validate the `constraints` object of a POST /jobs body.  `jobType` and
+ * `objective` may be repeated inside it, but must then match the top-level
+ * fields.
+ */
+export function parseConstraintOverrides(
+  raw:       unknown,
+  jobType:   JobType,
+  objective: Objective | undefined,
+): { overrides: ConstraintOverrides } | { error: string } {
+  if (raw === undefined) return { overrides: {} };
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { error: "constraints must be an object" };
+  }
+  const c = raw as Record<string, unknown>;
+  const overrides: ConstraintOverrides = {};
+
+  if (c["jobType"] !== undefined && c["jobType"] !== jobType) {
+    return { error: "constraints.jobType must match jobType" };
+  }
+  if (c["objective"] !== undefined) {
+    if (!["safest", "fastest", "cheapest"].includes(c["objective"] as string)) {
+      return { error: "constraints.objective must be 'safest' | 'fastest' | 'cheapest'" };
+    }
+    if (objective !== undefined && c["objective"] !== objective) {
+      return { error: "constraints.objective must match objective" };
+    }
+    overrides.objective = c["objective"] as Objective;
+  }
+
+  const slippage = c["maxSlippageBps"];
+  if (slippage !== undefined) {
+    if (!isFiniteNumber(slippage) || slippage <= 0 || slippage > MAX_SLIPPAGE_BPS) {
+      return { error: `constraints.maxSlippageBps must be > 0 and ≤ ${MAX_SLIPPAGE_BPS}` };
+    }
+    overrides.maxSlippageBps = slippage;
+  }
+
+  const gas = c["maxGasUsd"];
+  if (gas !== undefined) {
+    if (!isFiniteNumber(gas) || gas <= 0) return { error: "constraints.maxGasUsd must be > 0" };
+    overrides.maxGasUsd = gas;
+  }
+
+  const payment = c["maxPaymentUsd"];
+  if (payment !== undefined) {
+    if (jobType !== "paid_call") return { error: "constraints.maxPaymentUsd only applies to paid_call jobs" };
+    if (!isFiniteNumber(payment) || payment <= 0 || payment > MAX_PAYMENT_USD) {
+      return { error: `constraints.maxPaymentUsd must be > 0 and at most ${MAX_PAYMENT_USD}` };
+    }
+    overrides.maxPaymentUsd = payment;
+  }
+
+  const deadline = c["deadlineMs"];
+  if (deadline !== undefined) {
+    if (!Number.isInteger(deadline) || (deadline as number) < MIN_DEADLINE_MS || (deadline as number) > MAX_DEADLINE_MS) {
+      return { error: `constraints.deadlineMs must be an integer between ${MIN_DEADLINE_MS} and ${MAX_DEADLINE_MS}` };
+    }
+    overrides.deadlineMs = deadline as number;
+  }
+
+  return { overrides };
+}
+
+// ─── Resolution + feasibility ─────────────────────────────────────────────────
+
+/** The constraints a job runs under: agent defaults, then the caller's overrides. */
+export function resolveConstraints(
+  agent:     AgentDefinition,
+  jobType:   JobType,
+  objective: Objective | undefined,
+  overrides: ConstraintOverrides,
+): JobConstraints {
+  return {
+    jobType,
+    ...paymentDefault(jobType),
+    ...agent.constraints,
+    ...(objective && { objective }),
+    ...overrides,
+  };
+}
+
+/** The payment budget a paid_call job starts from ({} for other job types). */
+export function paymentDefault(jobType: JobType): Pick<JobConstraints, "maxPaymentUsd"> {
+  return jobType === "paid_call" ? { maxPaymentUsd: DEFAULT_PAYMENT_USD } : {};
+}
+
+/** The most a paid_call job pays per call, capped at MAX_PAYMENT_USD. */
+export function paymentBudgetUsd(constraints: JobConstraints): number {
+  return Math.min(constraints.maxPaymentUsd ?? DEFAULT_PAYMENT_USD, MAX_PAYMENT_USD);
+}
+
+/** Slippage tolerance sent to Uniswap: the agent's policy, capped by the job. */
+export function effectiveSlippageBps(agent: AgentDefinition, constraints: JobConstraints): number {
+  return Math.min(agent.policy.slippageBps, constraints.maxSlippageBps);
+}
+
+/**
+ * Why `agent` cannot meet `constraints` under `scenario`, or null when it
+ * can.  Only impossible combinations are rejected — a sim agent whose best
+ * case is already out of bounds.  Paid calls are never rejected up front.
+ */
+export function constraintViolation(
+  agent:       AgentDefinition,
+  constraints: JobConstraints,
+  scenario:    MarketScenario,
+): string | null {
+  if (!agent.simProfile || constraints.jobType === "paid_call") return null;
+  const profile = applyScenario(agent.simProfile, scenario, agent.policy.preference);
+  const id = `Agent "${agent.agentId}"`;
+
+  const [latency, slippage, gas] = [profile.latencyMs[0], profile.slippageBps[0], profile.gasUsedUsd[0]];
+
+  if (latency > constraints.deadlineMs) {
+    return `${id} cannot finish within ${constraints.deadlineMs} ms (fastest ${scenario} run: ${Math.round(latency)} ms)`;
+  }
+  if (slippage > constraints.maxSlippageBps) {
+    return `${id} cannot stay within ${constraints.maxSlippageBps} bps slippage (best ${scenario} run: ${Math.round(slippage)} bps)`;
+  }
+  if (gas > constraints.maxGasUsd) {
+    return `${id} cannot stay within $${constraints.maxGasUsd} gas (cheapest ${scenario} run: $${Math.round(gas * 1000) / 1000})`;
+  }
+  return null;
+}
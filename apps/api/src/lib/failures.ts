@@ -0,0 +1,119 @@
+/**
+ * failures.ts — classify job failures and retry the transient ones.
+ *
+ * Every receipt that is not fulfilled carries a JobFailure: what went wrong
+ * (FailureKind) and whose fault it was.  A failure is the agent's fault when
+ * it happened in the agent phase (sim / remote call) or the swap reverted;
+ * anything that broke in Uniswap, the RPC or the caller's input is an
+ * infrastructure fault, which AQI leaves out by default (AQIOptions.faults).
+ *
+ * Classification:
+ *   UniswapApiError 429                    → rate_limited
+ *   UniswapApiError 404 / unusable payload → quote_unavailable
+ *   UniswapApiError 5xx                    → network
+ *   UniswapApiError other 4xx              → bad_input
+ *   X402Error                              → its kind (payment_rejected, or by HTTP status)
+ *   fetch / viem transport errors          → network
+ *   viem revert errors                     → reverted
+ *   anything else                          → unknown
+ *
+ * Retries only wrap the Uniswap calls.  sendTx is never retried — a broadcast
+ * that errored may still have landed — and neither are paid calls, which may
+ * have been charged.
+ */
+
+import { setTimeout as delay } from "node:timers/promises";
+import type { FailureFault, FailureKind, JobFailure, RetryPolicy } from "@agent-aqi/shared";
+import { UniswapApiError } from "../integrations/uniswap";
+import { X402Error } from "../integrations/x402";
+
+export const FAILURE_KINDS: FailureKind[] = [
+  "network", "rate_limited", "bad_input", "quote_unavailable",
+  "reverted", "timeout", "protocol_error", "payment_rejected", "unknown",
+];
+
+/** Used for agents without a retryPolicy. */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 2,
+  baseDelayMs: 250,
+  maxDelayMs:  2_000,
+  retryOn:     ["network", "rate_limited"],
+};
+
+/** Kinds that are the agent's fault whichever phase they happen in. */
+const AGENT_KINDS: FailureKind[] = ["reverted", "protocol_error"];
+
+const NETWORK_ERRORS = new Set([
+  "HttpRequestError", "WebSocketRequestError", "SocketClosedError", "TimeoutError",
+]);
+const REVERT_ERRORS = new Set(["ExecutionRevertedError", "ContractFunctionRevertedError"]);
+
+/** Max depth followed through `cause` chains. */
+const MAX_CAUSE_DEPTH = 5;
+
+// ─── Classification ───────────────────────────────────────────────────────────
+
+export function jobFailure(kind: FailureKind, phase: string, message: string): JobFailure {
+  const fault: FailureFault = phase === "agent" || AGENT_KINDS.includes(kind) ? "agent" : "infrastructure";
+  return { kind, fault, phase, message };
+}
+
+function uniswapKind(status: number | undefined): FailureKind {
+  if (status === undefined) return "quote_unavailable";
+  if (status === 429)       return "rate_limited";
+  if (status === 404)       return "quote_unavailable";
+  if (status >= 500)        return "network";
+  return "bad_input";
+}
+
+function kindOf(err: unknown): FailureKind {
+  let e: unknown = err;
+  for (let depth = 0; e && depth < MAX_CAUSE_DEPTH; depth++) {
+    if (e instanceof UniswapApiError) return uniswapKind(e.status);
+    if (e instanceof X402Error)       return e.kind;
+    const { name, message, status } = e as { name?: string; message?: string; status?: unknown };
+    if (status === 429 || name === "LimitExceededRpcError")  return "rate_limited";
+    if (name && REVERT_ERRORS.has(name))                     return "reverted";
+    if (name && NETWORK_ERRORS.has(name))                    return "network";
+    if (name === "TypeError" && message === "fetch failed")  return "network";
+    e = (e as { cause?: unknown }).cause;
+  }
+  return "unknown";
+}
+
+/** Classify an error thrown while a job was in `phase`. */
+export function classifyError(err: unknown, phase: string): JobFailure {
+  return jobFailure(kindOf(err), phase, err instanceof Error ? err.message : String(err));
+}
+
+// ─── Retries ──────────────────────────────────────────────────────────────────
+
+/** Delay before retry `attempt` (1 = first retry). */
+export function backoffMs(policy: RetryPolicy, attempt: number): number {
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+}
+
+/**
+ * Run `call`, retrying the failures `policy` allows with exponential backoff.
+ * Backoff waits are aborted with `signal`.  The last error is rethrown.
+ */
+export async function withRetry<T>(
+  phase:   string,
+  policy:  RetryPolicy,
+  signal:  AbortSignal,
+  call:    () => Promise<T>,
+  onRetry: (attempt: number, failure: JobFailure, delayMs: number) => void,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      if (signal.aborted || attempt >= policy.maxAttempts) throw err;
+      const failure = classifyError(err, phase);
+      if (!policy.retryOn.includes(failure.kind)) throw err;
+      const delayMs = backoffMs(policy, attempt);
+      onRetry(attempt, failure, delayMs);
+      await delay(delayMs, undefined, { signal });
+    }
+  }
+}
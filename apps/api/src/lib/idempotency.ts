@@ -0,0 +1,120 @@
+/**
+ * idempotency.ts — Idempotency-Key support for the POST routes that start work.
+ *
+ * A client that retries POST /jobs, /jobs/batch or /arena/battle after a
+ * dropped connection sends the same `Idempotency-Key` header.  The first 2xx
+ * response is stored with a fingerprint of the request body; a replay with the
+ * same key and body gets that response back (same jobId / batchId / battleId)
+ * with an `Idempotent-Replayed: true` header, and nothing is started twice.
+ * Reusing a key with a different body is a client bug and is rejected (422).
+ *
+ * Error responses are not stored, so a request refused with 400 / 429 / 503
+ * can be retried under the same key.  Keys are scoped per route and expire
+ * after IDEMPOTENCY_TTL_HOURS.
+ *
+ * Optional environment variables:
+ *   IDEMPOTENCY_TTL_HOURS — how long a key is remembered (default: 24)
+ */
+
+import { createHash } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "../storage";
+
+export type IdempotencyScope = "jobs" | "batch" | "battle";
+
+export interface IdempotencyRecord {
+  scope:       IdempotencyScope;
+  key:         string;
+  /** sha256 of the request body, keys sorted */
+  fingerprint: string;
+  status:      number;
+  response:    unknown;
+  createdAt:   number;
+}
+
+const TTL_HOURS = Number(process.env["IDEMPOTENCY_TTL_HOURS"]);
+const TTL_MS    = (Number.isFinite(TTL_HOURS) && TTL_HOURS > 0 ? TTL_HOURS : 24) * 60 * 60 * 1000;
+
+/** Printable ASCII, 1–255 chars. */
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/** Keys whose first request has not answered yet (per process). */
+const inFlight = new Set<string>();
+
+// ── Fingerprint ────────────────────────────────────────────────────────────────
+
+/** JSON with object keys sorted, so key order does not change the fingerprint. */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${canonicalJson((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+export function requestFingerprint(body: unknown): string {
+  return createHash("sha256").update(canonicalJson(body ?? {})).digest("hex");
+}
+
+// ── Middleware ─────────────────────────────────────────────────────────────────
+
+/**
+ * Express middleware for one route.  Requests without the header pass
+ * straight through.
+ */
+export function idempotent(scope: IdempotencyScope) {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = req.header("idempotency-key");
+    if (key === undefined) {
+      next();
+      return;
+    }
+    if (!KEY_PATTERN.test(key)) {
+      res.status(400).json({ error: "Idempotency-Key must be 1–255 printable ASCII characters" });
+      return;
+    }
+
+    const fingerprint = requestFingerprint(req.body);
+    const stored = storage.getIdempotencyRecord(scope, key);
+
+    if (stored && stored.createdAt >= Date.now() - TTL_MS) {
+      if (stored.fingerprint !== fingerprint) {
+        res.status(422).json({ error: "Idempotency-Key was already used with a different request body" });
+        return;
+      }
+      res.setHeader("Idempotent-Replayed", "true");
+      res.status(stored.status).json(stored.response);
+      return;
+    }
+
+    const slot = `${scope}:${key}`;
+    if (inFlight.has(slot)) {
+      res.status(409).json({ error: "A request with this Idempotency-Key is still in progress" });
+      return;
+    }
+    inFlight.add(slot);
+    res.on("close", () => inFlight.delete(slot));
+
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (res.statusCode >= 200 && res.statusCode < 300) {
+        const now = Date.now();
+        storage.pruneIdempotencyRecords(now - TTL_MS);
+        storage.saveIdempotencyRecord({
+          scope, key, fingerprint,
+          status:    res.statusCode,
+          response:  body,
+          createdAt: now,
+        });
+      }
+      inFlight.delete(slot);
+      return json(body);
+    };
+
+    next();
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * jobQueue.ts — bounded FIFO queue in front of runJob.
+ *
+ * Every job (POST /jobs and Arena battles) is enqueued here.  A job starts
+ * only when all of these allow it:
+ *
+ *   JOB_CONCURRENCY         jobs running at once, all agents (default: 8)
+ *   JOB_AGENT_CONCURRENCY   jobs running at once per agent (default: 2)
+ *   QUOTE_RATE_PER_SEC      job starts per second that call the Uniswap API
+ *                           in quote mode (default: 5)
+ *   REAL_RATE_PER_SEC       job starts per second that sign + broadcast in
+ *                           real mode (default: 1)
+ *
+ * Waiting jobs are bounded too:
+ *
+ *   JOB_QUEUE_MAX           waiting jobs, all agents (default: 100) → 503
+ *   JOB_AGENT_QUEUE_MAX     waiting jobs per agent (default: 25)    → 429
+ *
+ * Rate limits only apply to jobs that reach Uniswap / Base — sim jobs and
+ * remote agents are limited by concurrency alone.  The scheduler scans the
+ * whole queue, so one agent at its limit does not hold up the others.
+ *
+ * cancelJob() drops a waiting job or aborts a running one (DELETE /jobs/:id).
+ */
+
+import type { AgentId, Receipt } from "@agent-aqi/shared";
+import { getAgent } from "./agentRegistry";
+import { announceCancelled, announceQueued, runJob } from "./runJob";
+import type { RunJobParams } from "./runJob";
+
+function envInt(name: string, fallback: number): number {
+  const n = Number(process.env[name]);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+const LIMITS = {
+  concurrency:      envInt("JOB_CONCURRENCY", 8),
+  agentConcurrency: envInt("JOB_AGENT_CONCURRENCY", 2),
+  queueMax:         envInt("JOB_QUEUE_MAX", 100),
+  agentQueueMax:    envInt("JOB_AGENT_QUEUE_MAX", 25),
+  ratePerSec: {
+    quote: envInt("QUOTE_RATE_PER_SEC", 5),
+    real:  envInt("REAL_RATE_PER_SEC", 1),
+  },
+};
+
+/** Suggested Retry-After (seconds) for each rejection. */
+const RETRY_AFTER_SEC = { 429: 2, 503: 5 } as const;
+
+type RateKey = keyof typeof LIMITS.ratePerSec;
+
+export interface QueueRejection {
+  status:        429 | 503;
+  error:         string;
+  retryAfterSec: number;
+}
+
+interface QueueEntry {
+  params:     RunJobParams;
+  enqueuedAt: number;
+  controller: AbortController;
+  resolve:    (receipt: Receipt) => void;
+  reject:     (err: unknown) => void;
+}
+
+const waiting: QueueEntry[] = [];
+const running = new Map<AgentId, number>();
+/** Running entries by jobId, so they can be cancelled */
+const active  = new Map<string, QueueEntry>();
+let runningTotal = 0;
+
+// ─── Rate limiting (token bucket per mode) ────────────────────────────────────
+
+const buckets: Record<RateKey, { tokens: number; refilledAt: number }> = {
+  quote: { tokens: LIMITS.ratePerSec.quote, refilledAt: Date.now() },
+  real:  { tokens: LIMITS.ratePerSec.real,  refilledAt: Date.now() },
+};
+
+/** Which rate limit a job counts against, or null when it makes no external calls. */
+function rateKeyOf(params: RunJobParams): RateKey | null {
+  if (params.mode === "sim" || !params.swapParams) return null;
+  if (getAgent(params.agentId)?.kind === "remote") return null;
+  return params.mode;
+}
+
+function refill(key: RateKey, now: number): void {
+  const b    = buckets[key];
+  const rate = LIMITS.ratePerSec[key];
+  b.tokens     = Math.min(rate, b.tokens + ((now - b.refilledAt) / 1000) * rate);
+  b.refilledAt = now;
+}
+
+// ─── Scheduler ────────────────────────────────────────────────────────────────
+
+let wakeTimer: NodeJS.Timeout | undefined;
+
+/** Start every waiting job that fits the current limits, oldest first. */
+function pump(): void {
+  const now = Date.now();
+  let rateBlockedMs: number | undefined;
+
+  for (let i = 0; i < waiting.length && runningTotal < LIMITS.concurrency; ) {
+    const entry   = waiting[i]!;
+    const agentId = entry.params.agentId;
+    if ((running.get(agentId) ?? 0) >= LIMITS.agentConcurrency) { i++; continue; }
+
+    const key = rateKeyOf(entry.params);
+    if (key) {
+      refill(key, now);
+      if (buckets[key].tokens < 1) {
+        const waitMs = ((1 - buckets[key].tokens) / LIMITS.ratePerSec[key]) * 1000;
+        rateBlockedMs = Math.min(rateBlockedMs ?? Infinity, waitMs);
+        i++;
+        continue;
+      }
+      buckets[key].tokens -= 1;
+    }
+
+    waiting.splice(i, 1);
+    start(entry);
+  }
+
+  // Rate-limited jobs need a wake-up; everything else is woken by a job finishing
+  if (rateBlockedMs !== undefined && !wakeTimer) {
+    wakeTimer = setTimeout(() => {
+      wakeTimer = undefined;
+      pump();
+    }, Math.ceil(rateBlockedMs));
+  }
+}
+
+function start(entry: QueueEntry): void {
+  const agentId = entry.params.agentId;
+  running.set(agentId, (running.get(agentId) ?? 0) + 1);
+  runningTotal++;
+  active.set(entry.params.jobId, entry);
+
+  runJob({ ...entry.params, signal: entry.controller.signal })
+    .then(entry.resolve, entry.reject)
+    .finally(() => {
+      running.set(agentId, (running.get(agentId) ?? 1) - 1);
+      runningTotal--;
+      active.delete(entry.params.jobId);
+      pump();
+    });
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+function waitingFor(agentId: AgentId): number {
+  return waiting.filter((e) => e.params.agentId === agentId).length;
+}
+
+/**
+ * Can `agentIds.length` more jobs (one per listed agent) be queued right now?
+ * Battles check this up front so they are never half-enqueued.
+ */
+export function checkCapacity(agentIds: AgentId[]): QueueRejection | null {
+  if (waiting.length + agentIds.length > LIMITS.queueMax) {
+    return {
+      status:        503,
+      error:         `Job queue is full (${waiting.length}/${LIMITS.queueMax} waiting) — retry shortly`,
+      retryAfterSec: RETRY_AFTER_SEC[503],
+    };
+  }
+  for (const agentId of new Set(agentIds)) {
+    const extra = agentIds.filter((id) => id === agentId).length;
+    if (waitingFor(agentId) + extra > LIMITS.agentQueueMax) {
+      return {
+        status:        429,
+        error:         `Too many jobs waiting for agent "${agentId}" (max ${LIMITS.agentQueueMax}) — retry shortly`,
+        retryAfterSec: RETRY_AFTER_SEC[429],
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Queue a job.  Rejected synchronously when the queue is full; otherwise
+ * `done` settles with runJob's result once the job has run.
+ */
+export function enqueueJob(
+  params: RunJobParams,
+): { ok: true; done: Promise<Receipt> } | { ok: false; rejection: QueueRejection } {
+  const rejection = checkCapacity([params.agentId]);
+  if (rejection) return { ok: false, rejection };
+
+  const controller = new AbortController();
+  const done = new Promise<Receipt>((resolve, reject) => {
+    waiting.push({ params, enqueuedAt: Date.now(), controller, resolve, reject });
+  });
+  announceQueued(params, waiting.length);
+  pump();
+  return { ok: true, done };
+}
+
+/**
+ * Cancel a job that has not finished.  A waiting job is removed from the
+ * queue and marked cancelled right away; a running job is aborted and runJob
+ * marks it cancelled once the in-flight phase stops.  Either way `done`
+ * rejects.  Returns false when the job is neither waiting nor running.
+ */
+export function cancelJob(jobId: string): boolean {
+  const i = waiting.findIndex((e) => e.params.jobId === jobId);
+  if (i !== -1) {
+    const [entry] = waiting.splice(i, 1);
+    entry!.controller.abort();
+    announceCancelled(entry!.params);
+    entry!.reject(entry!.controller.signal.reason);
+    return true;
+  }
+
+  const entry = active.get(jobId);
+  if (!entry || entry.controller.signal.aborted) return false;
+  entry.controller.abort();
+  return true;
+}
+
+/** Queue depth + limits for GET /health. */
+export function getQueueStats() {
+  const agents: Record<AgentId, { waiting: number; running: number }> = {};
+  for (const e of waiting) {
+    const a = (agents[e.params.agentId] ??= { waiting: 0, running: 0 });
+    a.waiting++;
+  }
+  for (const [agentId, n] of running) {
+    if (n === 0) continue;
+    (agents[agentId] ??= { waiting: 0, running: 0 }).running = n;
+  }
+  const oldest = waiting[0];
+  return {
+    waiting:         waiting.length,
+    running:         runningTotal,
+    oldestWaitingMs: oldest ? Date.now() - oldest.enqueuedAt : 0,
+    agents,
+    limits:          LIMITS,
+  };
+}
@@ -0,0 +1,217 @@
+/**
+ * jobRouter.ts — pick the agent that runs a POST /jobs job.
+ *
+ * `routing` in the request body selects the mode (see RoutingMode):
+ *   fixed          – OBJECTIVE_TO_AGENT, the built-in agent per objective (default)
+ *   aqi            – every registered agent is scored under the objective's
+ *                    weight profile and the best one wins
+ *   epsilon_greedy – aqi, but with probability `epsilon` a random candidate
+ *   thompson       – each agent's score is drawn from a normal fitted to its
+ *                    95 % AQI interval; the highest draw wins, so uncertain
+ *                    agents get tried in proportion to how good they might be
+ *
+ * Both exploring modes try agents with no scored receipts first (cold start).
+ * Agents that cannot meet the job's constraints (lib/constraints.ts) are
+ * never candidates; a fixed or pinned agent that cannot is an error.
+ * A caller that names an `agentId` bypasses routing ("pinned").  Every
+ * decision, with the scores of the agents that were not picked, is recorded
+ * on the receipt.
+ *
+ * Optional environment variables:
+ *   ROUTER_EPSILON — default exploration rate for epsilon_greedy (default: 0.1)
+ *   ROUTER_LAST_N  — most recent receipts per agent the router scores (default: 100)
+ */
+
+import { computeAQI } from "@agent-aqi/shared";
+import type {
+  AgentDefinition,
+  AgentId,
+  Objective,
+  RoutingCandidate,
+  RoutingDecision,
+  RoutingExclusion,
+  RoutingMode,
+} from "@agent-aqi/shared";
+import { getReceiptsByAgent } from "../store";
+import { getAgent, listAgents } from "./agentRegistry";
+import { getWeightProfile } from "./weightProfiles";
+
+export const OBJECTIVE_TO_AGENT: Record<Objective, AgentId> = {
+  safest:   "safe",
+  fastest:  "fast",
+  cheapest: "cheap",
+};
+
+/** Modes a caller can ask for; "pinned" follows from passing agentId. */
+export const ROUTING_MODES = ["fixed", "aqi", "epsilon_greedy", "thompson"] as const;
+export type RequestedRouting = (typeof ROUTING_MODES)[number];
+
+function envNumber(name: string, fallback: number, valid: (n: number) => boolean): number {
+  const raw = process.env[name];
+  const n = Number(raw);
+  return raw !== undefined && raw !== "" && valid(n) ? n : fallback;
+}
+
+const DEFAULT_EPSILON = envNumber("ROUTER_EPSILON", 0.1, (n) => n >= 0 && n <= 1);
+const LAST_N          = envNumber("ROUTER_LAST_N", 100, (n) => Number.isInteger(n) && n > 0);
+
+/** z for a two-sided 95 % interval — turns an AQI interval back into a std dev. */
+const Z_95 = 1.96;
+
+export interface RoutingRequest {
+  mode:     RequestedRouting;
+  agentId?: AgentId;
+  epsilon:  number;
+}
+
+// ─── Parsing ──────────────────────────────────────────────────────────────────
+
+/** Read `routing`, `agentId` and `epsilon` from a POST /jobs body. */
+export function parseRoutingRequest(
+  body: Record<string, unknown>,
+): { routing: RoutingRequest } | { error: string } {
+  const mode    = body["routing"] ?? "fixed";
+  const agentId = body["agentId"];
+  const epsilon = body["epsilon"] ?? DEFAULT_EPSILON;
+
+  if (!ROUTING_MODES.includes(mode as RequestedRouting)) {
+    return { error: `routing must be one of: ${ROUTING_MODES.join(", ")}` };
+  }
+  if (agentId !== undefined) {
+    if (typeof agentId !== "string" || !getAgent(agentId)) {
+      return { error: `Unknown agentId "${String(agentId)}" — see GET /agents/registry` };
+    }
+    if (mode !== "fixed") return { error: "agentId pins the agent; omit routing" };
+  }
+  if (typeof epsilon !== "number" || !(epsilon >= 0 && epsilon <= 1)) {
+    return { error: "epsilon must be a number between 0 and 1" };
+  }
+
+  return {
+    routing: {
+      mode: mode as RequestedRouting,
+      ...(agentId !== undefined && { agentId: agentId as AgentId }),
+      epsilon,
+    },
+  };
+}
+
+// ─── Routing ──────────────────────────────────────────────────────────────────
+
+interface Scored extends RoutingCandidate {
+  /** Std dev of the score, from its 95 % interval (Thompson only) */
+  sd: number;
+}
+
+function scoreCandidates(
+  objective:    Objective,
+  agents:       AgentDefinition[],
+  withInterval: boolean,
+): { profile: string; scored: Scored[] } {
+  const profile = getWeightProfile(objective)!;
+  const scored = agents.map((agent): Scored => {
+    const aqi = computeAQI(getReceiptsByAgent(agent.agentId), profile, {
+      lastN: LAST_N,
+      ...(!withInterval && { bootstrapSamples: 0 }),
+    });
+    const { lower, upper } = aqi.confidence.score;
+    return {
+      agentId:    agent.agentId,
+      score:      aqi.score,
+      sampleSize: aqi.sampleSize,
+      sd:         (upper - lower) / (2 * Z_95),
+    };
+  });
+  return { profile: profile.name, scored };
+}
+
+/** Standard normal draw (Box–Muller). */
+function gaussian(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function pickRandom<T>(items: T[]): T {
+  return items[Math.floor(Math.random() * items.length)]!;
+}
+
+function candidate({ sd: _sd, ...c }: Scored): RoutingCandidate {
+  return c;
+}
+
+/**
+ * Choose the agent for one job.  `objective` is required unless the request
+ * pins an agent.  `violation` says why an agent cannot run the job (null when
+ * it can); an error comes back when no acceptable agent is left.
+ */
+export function routeJob(
+  objective: Objective | undefined,
+  request:   RoutingRequest,
+  violation: (agent: AgentDefinition) => string | null = () => null,
+): RoutingDecision | { error: string; excluded: RoutingExclusion[] } {
+  const base = objective ? { objective } : {};
+
+  if (request.agentId || request.mode === "fixed" || !objective) {
+    const pinned  = request.agentId !== undefined;
+    const agentId = request.agentId ?? OBJECTIVE_TO_AGENT[objective!];
+    const reason  = violation(getAgent(agentId)!);
+    if (reason) return { error: reason, excluded: [{ agentId, reason }] };
+    return {
+      mode:     pinned ? "pinned" : "fixed",
+      ...base,
+      agentId,
+      explored: false,
+      reason:   pinned ? "agentId pinned by caller" : `built-in agent for ${objective}`,
+      alternatives: [],
+    };
+  }
+
+  const excluded: RoutingExclusion[] = [];
+  const eligible = listAgents().filter((agent) => {
+    const reason = violation(agent);
+    if (reason) excluded.push({ agentId: agent.agentId, reason });
+    return !reason;
+  });
+  if (eligible.length === 0) return { error: "No registered agent can meet the job's constraints", excluded };
+
+  const mode: RoutingMode = request.mode;
+  const { profile, scored } = scoreCandidates(objective, eligible, mode === "thompson");
+  const best = scored.reduce((a, b) => (b.score > a.score ? b : a));
+  const unsampled = scored.filter((c) => c.sampleSize === 0);
+
+  let chosen: Scored;
+  let reason: string;
+  if (mode !== "aqi" && unsampled.length > 0) {
+    chosen = pickRandom(unsampled);
+    reason = "cold start — no scored receipts yet";
+  } else if (mode === "thompson") {
+    for (const c of scored) {
+      c.sampled = Math.round(Math.min(100, Math.max(0, c.score + c.sd * gaussian())) * 10) / 10;
+    }
+    chosen = scored.reduce((a, b) => (b.sampled! > a.sampled! ? b : a));
+    reason = "highest sampled AQI";
+  } else if (mode === "epsilon_greedy" && Math.random() < request.epsilon) {
+    chosen = pickRandom(scored);
+    reason = `random pick (epsilon ${request.epsilon})`;
+  } else {
+    chosen = best;
+    reason = "highest AQI";
+  }
+
+  return {
+    mode,
+    ...base,
+    profile,
+    agentId:  chosen.agentId,
+    explored: chosen.agentId !== best.agentId,
+    reason,
+    ...(mode === "epsilon_greedy" && { epsilon: request.epsilon }),
+    chosen:   candidate(chosen),
+    alternatives: scored
+      .filter((c) => c !== chosen)
+      .sort((a, b) => b.score - a.score)
+      .map(candidate),
+    ...(excluded.length > 0 && { excluded }),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * lobbies.ts — admin-opened Arena lobbies.
+ *
+ * POST /arena/admin/open creates a battle in status "lobby": the audience can
+ * bet on it before any job runs.  Up to MAX_OPEN_LOBBIES may be open at once,
+ * each with its own `lobby` settings (title, betting close time, auto-start
+ * time).  Lifecycle:
+ *
+ *   lobby     – bets are taken until `bettingClosesAt` (lib/paperBets.ts);
+ *               "betting_closed" is emitted when the window ends
+ *   running   – an admin ran it, or its start time came: `autoStartAt`, else
+ *               `bettingClosesAt`.  Starting closes betting too.
+ *   cancelled – an admin closed it without running, or a restart interrupted
+ *               it mid-run; paper bets are voided and "battle_cancelled" is
+ *               emitted
+ *
+ * Lobbies are ordinary battle records, so they persist with the battles;
+ * open ones ("lobby" / "running") are never pruned.
+ * Timers are in-memory; resumeLobbies re-arms them at startup.
+ */
+
+import { setTimeout as delay } from "node:timers/promises";
+import type { BattleDecision, BattleRecord, BattleStatus } from "@agent-aqi/shared";
+import { addBattle, cancelBattle, emitEvent, getBattle, getBattlesByStatus, startBattle } from "../store";
+import { checkCapacity } from "./jobQueue";
+import { voidPaperBets } from "./paperBets";
+import { runBattle } from "./battleRunner";
+
+/** Most lobbies that may be open (not yet run or cancelled) at once. */
+export const MAX_OPEN_LOBBIES = 10;
+
+/** Furthest ahead a lobby's betting close / auto-start time may be set. */
+export const MAX_LOBBY_WAIT_MS = 24 * 60 * 60 * 1000;
+
+/** Betting-close and auto-start timers per open lobby. */
+const timers = new Map<string, NodeJS.Timeout[]>();
+
+// ─── Lookups ──────────────────────────────────────────────────────────────────
+
+/** Battles opened as lobbies in any of `statuses`, newest first. */
+export function listLobbies(statuses: BattleStatus[]): BattleRecord[] {
+  return getBattlesByStatus(statuses).filter((b) => b.lobby !== undefined);
+}
+
+/** The most recently opened lobby, whatever its status (GET /arena/current). */
+export function getLatestLobby(): BattleRecord | undefined {
+  return listLobbies(["lobby", "running", "complete", "cancelled"])[0];
+}
+
+export function countOpenLobbies(): number {
+  return listLobbies(["lobby"]).length;
+}
+
+// ─── Lifecycle ────────────────────────────────────────────────────────────────
+
+function clearTimers(battleId: string): void {
+  for (const t of timers.get(battleId) ?? []) clearTimeout(t);
+  timers.delete(battleId);
+}
+
+function after(at: number, fn: () => void): NodeJS.Timeout {
+  return setTimeout(fn, Math.max(0, at - Date.now()));
+}
+
+function armTimers(battle: BattleRecord): void {
+  const { battleId, lobby } = battle;
+  clearTimers(battleId);
+  const armed: NodeJS.Timeout[] = [];
+  if (lobby?.bettingClosesAt !== undefined) {
+    armed.push(after(lobby.bettingClosesAt, () => announceBettingClosed(battleId)));
+  }
+  const startAt = lobby?.autoStartAt ?? lobby?.bettingClosesAt;
+  if (startAt !== undefined) armed.push(after(startAt, () => void autoStart(battleId)));
+  if (armed.length > 0) timers.set(battleId, armed);
+}
+
+function announceBettingClosed(battleId: string): void {
+  emitEvent("betting_closed", { battleId });
+}
+
+/** Timer callback: wait out a full job queue, then run the lobby if still open. */
+async function autoStart(battleId: string): Promise<void> {
+  for (;;) {
+    const battle = getBattle(battleId);
+    if (!battle || battle.status !== "lobby") return;
+    const full = checkCapacity(battle.agentIds);
+    if (!full) {
+      console.log(`[Arena] lobby auto-start battle=${battleId}`);
+      await runLobby(battle);
+      return;
+    }
+    await delay(full.retryAfterSec * 1000);
+  }
+}
+
+/** Store a new lobby battle, arm its timers and announce it. */
+export function openLobby(battle: BattleRecord): BattleRecord {
+  addBattle(battle);
+  armTimers(battle);
+  emitEvent("battle_open", {
+    battleId:   battle.battleId,
+    battleType: battle.battleType,
+    agentIds:   battle.agentIds,
+    rounds:     battle.rounds ?? 1,
+    ...battle.lobby,
+  });
+  return battle;
+}
+
+/**
+ * Run an open lobby's jobs, then decide and settle it.  Betting closes now if
+ * its window was still open.  Callers check capacity first.
+ */
+export async function runLobby(battle: BattleRecord): Promise<BattleDecision | undefined> {
+  const { battleId, lobby } = battle;
+  clearTimers(battleId);
+  startBattle(battleId);
+  if (lobby?.bettingClosesAt === undefined || lobby.bettingClosesAt > Date.now()) announceBettingClosed(battleId);
+  return runBattle(battle);
+}
+
+/** Close an open lobby without running it; its paper bets are voided. */
+export function cancelLobby(battle: BattleRecord): BattleRecord {
+  const { battleId } = battle;
+  clearTimers(battleId);
+  cancelBattle(battleId);
+  const voided = voidPaperBets(battleId);
+  emitEvent("battle_cancelled", { battleId, voidedBets: voided.length });
+  console.log(`[Arena] lobby cancelled battle=${battleId} voided=${voided.length} bets`);
+  return getBattle(battleId) ?? battle;
+}
+
+/** Re-arm the timers of lobbies still open at startup; overdue ones fire at once. */
+export function resumeLobbies(): void {
+  for (const battle of listLobbies(["lobby"])) armTimers(battle);
+}
@@ -1,5 +1,5 @@
 /**
- * Paper Betting — in-memory store + business logic.
+ * Paper Betting — persistence + business logic.
  *
  * No wallet required. Users pick a nickname, wager fake ETH on an agent,
  * and the winner-takes-pool formula distributes the losers' stakes among winners.
@@ -11,20 +11,19 @@
  *   payout      = amountEth + (amountEth / winnersPool) * losersPool   (winners only)
  *   pnlEth      = payout - amountEth
  *   roiPct      = (pnlEth / amountEth) * 100
+ *
+ * Bets are only taken while the battle is an open lobby and before its
+ * `bettingClosesAt`.  A tie refunds every stake; a cancelled lobby voids them.
  */
 
 import { v4 as uuidv4 } from "uuid";
-import type { AgentId, PaperBet, PaperBetResult, PaperLeaderboardEntry } from "@agent-aqi/shared";
-import { emitEvent } from "../store";
-
-// ─── In-memory stores ─────────────────────────────────────────────────────────
-
-export const paperBets:    PaperBet[]       = [];
-export const paperResults: PaperBetResult[] = [];
+import type { AgentId, BattleRecord, PaperBet, PaperBetResult, PaperLeaderboardEntry } from "@agent-aqi/shared";
+import { emitEvent, getBattle } from "../store";
+import { storage } from "../storage";
 
 // ─── Per-nickname stats ───────────────────────────────────────────────────────
 
-interface NicknameStats {
+export interface NicknameStats {
   nickname:       string;
   totalPnl:       number;
   totalBets:      number;
@@ -35,32 +34,42 @@ interface NicknameStats {
   currentStreak:  number; // positive = win streak, negative = loss streak
 }
 
-const nicknameStats = new Map<string, NicknameStats>();
-
 function getOrCreate(nickname: string): NicknameStats {
-  if (!nicknameStats.has(nickname)) {
-    nicknameStats.set(nickname, {
-      nickname,
-      totalPnl:      0,
-      totalBets:     0,
-      wins:          0,
-      totalWagered:  0,
-      biggestWin:    0,
-      biggestLoss:   0,
-      currentStreak: 0,
-    });
-  }
-  return nicknameStats.get(nickname)!;
+  return storage.getPaperStats(nickname) ?? {
+    nickname,
+    totalPnl:      0,
+    totalBets:     0,
+    wins:          0,
+    totalWagered:  0,
+    biggestWin:    0,
+    biggestLoss:   0,
+    currentStreak: 0,
+  };
 }
 
 // ─── Place a bet ──────────────────────────────────────────────────────────────
 
+/** Why `battle` takes no more bets, or null while its betting window is open. */
+export function bettingClosedReason(battle: BattleRecord, now = Date.now()): string | null {
+  if (battle.status !== "lobby") return `Betting is closed — the battle is ${battle.status}`;
+  const closesAt = battle.lobby?.bettingClosesAt;
+  if (closesAt !== undefined && now >= closesAt) {
+    return `Betting closed at ${new Date(closesAt).toISOString()}`;
+  }
+  return null;
+}
+
+/** Record a bet, unless the battle's betting window is closed. */
 export function placeBet(
-  battleId:  string,
+  battle:    BattleRecord,
   nickname:  string,
   agentId:   AgentId,
   amountEth: number,
-): PaperBet {
+): PaperBet | { error: string } {
+  const closed = bettingClosedReason(battle);
+  if (closed) return { error: closed };
+
+  const { battleId } = battle;
   const bet: PaperBet = {
     id:        uuidv4(),
     battleId,
@@ -69,7 +78,7 @@ export function placeBet(
     amountEth,
     placedAt:  Date.now(),
   };
-  paperBets.push(bet);
+  storage.insertPaperBet(bet);
 
   emitEvent("paperbet_placed", {
     betId:     bet.id,
@@ -91,11 +100,11 @@ export function placeBet(
 // ─── Query helpers ────────────────────────────────────────────────────────────
 
 export function getBetsForBattle(battleId: string): PaperBet[] {
-  return paperBets.filter((b) => b.battleId === battleId);
+  return storage.listPaperBets(battleId);
 }
 
 export function getResultsForBattle(battleId: string): PaperBetResult[] {
-  return paperResults.filter((r) => r.battleId === battleId);
+  return storage.listPaperResults(battleId);
 }
 
 export function getPoolSummary(battleId: string): Record<string, { count: number; total: number }> {
@@ -151,7 +160,7 @@ export function resolvePaperBets(
     };
   });
 
-  paperResults.push(...results);
+  storage.insertPaperResults(results);
 
   // Update per-nickname stats
   for (const res of results) {
@@ -169,6 +178,7 @@ export function resolvePaperBets(
       if (loss > stats.biggestLoss) stats.biggestLoss = loss;
       stats.currentStreak = stats.currentStreak <= 0 ? stats.currentStreak - 1 : -1;
     }
+    storage.savePaperStats(stats);
   }
 
   emitEvent("paperbet_resolved", {
@@ -191,12 +201,67 @@ export function resolvePaperBets(
   return results;
 }
 
+/** Return every stake: `refunded` on a tie, `voided` when the lobby was cancelled. */
+function returnStakes(battleId: string, reason: "refunded" | "voided"): PaperBetResult[] {
+  const existing = getResultsForBattle(battleId);
+  if (existing.length > 0) return existing;
+
+  const bets = getBetsForBattle(battleId);
+  if (bets.length === 0) return [];
+
+  const results: PaperBetResult[] = bets.map((bet) => ({
+    betId:     bet.id,
+    battleId,
+    nickname:  bet.nickname,
+    agentId:   bet.agentId,
+    amountEth: bet.amountEth,
+    pnlEth:    0,
+    roiPct:    0,
+    won:       false,
+    [reason]:  true,
+  }));
+
+  storage.insertPaperResults(results);
+
+  const totalPool = bets.reduce((s, b) => s + b.amountEth, 0);
+  emitEvent("paperbet_resolved", {
+    battleId,
+    winnerAgentId: null,
+    [reason]:      true,
+    totalPool,
+    results: results.map((r) => ({
+      nickname: r.nickname,
+      agentId:  r.agentId,
+      pnlEth:   r.pnlEth,
+      roiPct:   r.roiPct,
+      won:      r.won,
+    })),
+  });
+
+  console.log(`[PaperBets] battle=${battleId} ${reason} ${results.length} bets pool=${r3(totalPool)}Ξ`);
+
+  return results;
+}
+
+/**
+ * Settle a battle that ended without a winner (tie): every stake is returned.
+ * Refunds do not count towards nickname stats.  Idempotent like resolvePaperBets.
+ */
+export function refundPaperBets(battleId: string): PaperBetResult[] {
+  return returnStakes(battleId, "refunded");
+}
+
+/** Settle a cancelled lobby: every stake is returned and no stats change. */
+export function voidPaperBets(battleId: string): PaperBetResult[] {
+  return returnStakes(battleId, "voided");
+}
+
 // ─── Global leaderboard ───────────────────────────────────────────────────────
 
 export function getLeaderboard(): PaperLeaderboardEntry[] {
   const entries: PaperLeaderboardEntry[] = [];
 
-  for (const stats of nicknameStats.values()) {
+  for (const stats of storage.listPaperStats()) {
     entries.push({
       nickname:    stats.nickname,
       totalPnl:    stats.totalPnl,
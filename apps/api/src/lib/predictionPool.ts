@@ -14,10 +14,11 @@
  *   CHAIN_ID                    Numeric chain id (default: 84532 = Base Sepolia)
  *   ADMIN_PRIVATE_KEY           0x-prefixed or raw hex key for resolveBattle txs
  *
- * Agent ↔ index mapping (mirrors the contract):
+ * Agent ↔ index mapping (mirrors the contract; read from AgentDefinition.predictionIndex):
  *   safe  → 0 (SafeGuard)
  *   fast  → 1 (SpeedRunner)
  *   cheap → 2 (GasOptimizer)
+ * Custom registry agents have no contract slot and cannot be resolved on-chain.
  *
  * Battle ID mapping:
  *   off-chain UUID string  →  keccak256(utf8Bytes(uuid))  →  BigInt
@@ -34,20 +35,18 @@ import {
 import { privateKeyToAccount } from "viem/accounts";
 import { baseSepolia, base } from "viem/chains";
 import type { AgentId } from "@agent-aqi/shared";
+import { getAgent, listPredictionAgents } from "./agentRegistry";
 
 // ─── Agent ↔ index ────────────────────────────────────────────────────────────
 
-export const AGENT_INDEX: Record<AgentId, number> = {
-  safe:  0,
-  fast:  1,
-  cheap: 2,
-};
+/** Contract outcome slot for an agent, or undefined if it has none. */
+export function agentIndex(agentId: AgentId): number | undefined {
+  return getAgent(agentId)?.predictionIndex;
+}
 
-export const INDEX_AGENT: Record<number, AgentId> = {
-  0: "safe",
-  1: "fast",
-  2: "cheap",
-};
+export function indexAgent(index: number): AgentId | undefined {
+  return listPredictionAgents().find((a) => a.predictionIndex === index)?.agentId;
+}
 
 // ─── Minimal contract ABI ─────────────────────────────────────────────────────
 
@@ -146,11 +145,8 @@ function getContractAddress(): `0x${string}` {
 
 // ─── Read helpers ─────────────────────────────────────────────────────────────
 
-export interface BattleTotals {
-  safe:  bigint;
-  fast:  bigint;
-  cheap: bigint;
-}
+/** ETH pot per agent, keyed by agentId (only agents with a contract slot). */
+export type BattleTotals = Record<AgentId, bigint>;
 
 /**
  * Read the ETH pot totals for each agent from the contract.
@@ -165,8 +161,12 @@ export async function fetchBattleTotals(uuid: string): Promise<BattleTotals | nu
       functionName: "getBattleTotals",
       args:         [battleUuidToOnChainId(uuid)],
     });
-    const [total0, total1, total2] = result as [bigint, bigint, bigint];
-    return { safe: total0, fast: total1, cheap: total2 };
+    const slots  = result as readonly bigint[];
+    const totals: BattleTotals = {};
+    for (const agent of listPredictionAgents()) {
+      totals[agent.agentId] = slots[agent.predictionIndex!] ?? 0n;
+    }
+    return totals;
   } catch (err) {
     console.error("[Prediction] fetchBattleTotals error:", err);
     return null;
@@ -195,7 +195,7 @@ export async function fetchBattleInfo(uuid: string): Promise<OnChainBattleInfo |
     return {
       exists,
       resolved,
-      winnerAgentId: resolved ? (INDEX_AGENT[winnerIdx] ?? null) : null,
+      winnerAgentId: resolved ? (indexAgent(winnerIdx) ?? null) : null,
     };
   } catch (err) {
     console.error("[Prediction] fetchBattleInfo error:", err);
@@ -230,7 +230,7 @@ export async function fetchUserPrediction(
     if (amount === 0n) return null; // no prediction placed
     return {
       agentId,
-      agentName: INDEX_AGENT[agentId] ?? "safe",
+      agentName: indexAgent(agentId) ?? "safe",
       amountWei: amount,
       withdrawn,
     };
@@ -252,7 +252,8 @@ export interface ResolveResult {
  * - Uses ADMIN_PRIVATE_KEY to sign the transaction.
  * - Returns the tx hash immediately after submission (does NOT wait for receipt).
  * - Confirmation is logged asynchronously (best-effort).
- * - Returns null when the feature is disabled or ADMIN_PRIVATE_KEY is missing.
+ * - Returns null when the feature is disabled, ADMIN_PRIVATE_KEY is missing,
+ *   or the winner has no outcome slot in the contract (custom agents).
  */
 export async function resolvePredictionBattle(
   uuid:   string,
@@ -260,6 +261,12 @@ export async function resolvePredictionBattle(
 ): Promise<ResolveResult | null> {
   if (!canAutoResolve()) return null;
 
+  const winnerIdx = agentIndex(winner);
+  if (winnerIdx === undefined) {
+    console.warn(`[Prediction] agent=${winner} has no contract slot — skipping resolveBattle`);
+    return null;
+  }
+
   const adminKey = process.env["ADMIN_PRIVATE_KEY"]!;
   const keyHex: `0x${string}` = adminKey.startsWith("0x")
     ? (adminKey as `0x${string}`)
@@ -276,7 +283,6 @@ export async function resolvePredictionBattle(
   });
 
   const onChainId  = battleUuidToOnChainId(uuid);
-  const winnerIdx  = AGENT_INDEX[winner];
 
   const txHash = await walletClient.writeContract({
     address:      getContractAddress(),
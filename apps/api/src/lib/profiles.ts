@@ -1,10 +1,12 @@
 /**
- * profiles.ts — In-memory wallet profile store (hackathon grade).
+ * profiles.ts — Wallet profile store (hackathon grade).
  *
  * Keyed by lowercase Ethereum address.
- * Survives as long as the API process is running.
+ * Persisted through the configured storage driver (memory by default).
  */
 
+import { storage } from "../storage";
+
 export interface Profile {
   address:   string;
   nickname?: string;
@@ -13,20 +15,16 @@ export interface Profile {
   lastSeenAt: number;
 }
 
-const profiles = new Map<string, Profile>();
-
 /** Get or create a profile, bumping lastSeenAt. */
 export function getOrCreateProfile(address: string): Profile {
   const addr = address.toLowerCase();
-  if (!profiles.has(addr)) {
-    profiles.set(addr, {
-      address:    addr,
-      createdAt:  Date.now(),
-      lastSeenAt: Date.now(),
-    });
-  }
-  const p = profiles.get(addr)!;
+  const p = storage.getProfile(addr) ?? {
+    address:    addr,
+    createdAt:  Date.now(),
+    lastSeenAt: Date.now(),
+  };
   p.lastSeenAt = Date.now();
+  storage.saveProfile(p);
   return p;
 }
 
@@ -43,10 +41,11 @@ export function updateProfile(
   if (updates.color !== undefined) {
     profile.color = updates.color;
   }
+  storage.saveProfile(profile);
   return profile;
 }
 
 /** Lightweight lookup for nickname enrichment — returns undefined if no profile. */
 export function lookupNickname(address: string): string | undefined {
-  return profiles.get(address.toLowerCase())?.nickname;
+  return storage.getProfile(address)?.nickname;
 }
@@ -0,0 +1,97 @@
+/**
+ * receiptQuery.ts — parse GET /receipts query params.
+ *
+ *   agentId=safe         one agent
+ *   status=failed        fulfilled | failed | timed_out
+ *   jobType=swap         swap | paid_call
+ *   battleId=<uuid>      receipts from one Arena battle
+ *   from=…  to=…         completedAt range, unix ms or ISO 8601 (`to` is exclusive)
+ *   flag=high_slippage   receipts carrying this safety flag
+ *   limit=50             page size (1-200)
+ *   cursor=…             `nextCursor` from the previous page
+ *
+ * Cursors are opaque to clients: base64url of the storage position.
+ */
+
+import type { JobStatus, JobType } from "@agent-aqi/shared";
+import type { ReceiptQuery } from "../storage/types";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT     = 200;
+
+const STATUSES:  JobStatus[] = ["fulfilled", "failed", "timed_out"];
+const JOB_TYPES: JobType[]   = ["swap", "paid_call"];
+
+function single(v: unknown): string | undefined {
+  return typeof v === "string" && v !== "" ? v : undefined;
+}
+
+/** Unix ms ("1700000000000") or an ISO 8601 date; undefined if unparseable. */
+function parseTime(raw: string): number | undefined {
+  const ms = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  return Number.isFinite(ms) ? ms : undefined;
+}
+
+export function encodeCursor(position: number): string {
+  return Buffer.from(String(position)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): number | undefined {
+  const n = Number(Buffer.from(cursor, "base64url").toString());
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+export function parseReceiptQuery(
+  query: Record<string, unknown>,
+): { query: ReceiptQuery } | { error: string } {
+  const q: ReceiptQuery = { limit: DEFAULT_LIMIT };
+
+  const agentId  = single(query["agentId"]);
+  const battleId = single(query["battleId"]);
+  const flag     = single(query["flag"]);
+  if (agentId)  q.agentId  = agentId;
+  if (battleId) q.battleId = battleId;
+  if (flag)     q.flag     = flag;
+
+  const status = single(query["status"]);
+  if (status !== undefined) {
+    if (!STATUSES.includes(status as JobStatus)) {
+      return { error: `status must be one of: ${STATUSES.join(", ")}` };
+    }
+    q.status = status as JobStatus;
+  }
+
+  const jobType = single(query["jobType"]);
+  if (jobType !== undefined) {
+    if (!JOB_TYPES.includes(jobType as JobType)) {
+      return { error: `jobType must be one of: ${JOB_TYPES.join(", ")}` };
+    }
+    q.jobType = jobType as JobType;
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const raw = single(query[key]);
+    if (raw === undefined) continue;
+    const ms = parseTime(raw);
+    if (ms === undefined) return { error: `${key} must be unix ms or an ISO 8601 date` };
+    q[key] = ms;
+  }
+
+  const limit = single(query["limit"]);
+  if (limit !== undefined) {
+    const n = Number(limit);
+    if (!Number.isInteger(n) || n < 1 || n > MAX_LIMIT) {
+      return { error: `limit must be an integer between 1 and ${MAX_LIMIT}` };
+    }
+    q.limit = n;
+  }
+
+  const cursor = single(query["cursor"]);
+  if (cursor !== undefined) {
+    const before = decodeCursor(cursor);
+    if (before === undefined) return { error: "cursor is invalid" };
+    q.before = before;
+  }
+
+  return { query: q };
+}
@@ -3,27 +3,39 @@
  *
  * Extracted so it can be called both from POST /jobs (HTTP handler)
  * and from POST /arena/battle (parallel multi-agent orchestration)
- * without duplicating logic.
+ * without duplicating logic.  Both go through lib/jobQueue.ts, which emits
+ * `queued` on enqueue and calls runJob once the job gets a slot.
  *
  * The caller pre-generates `jobId` so it can be returned to the HTTP client
  * before this async function resolves.
  */
 
+import { randomSeed } from "@agent-aqi/shared";
 import type {
   AgentId,
   AgentEconomics,
   AgentPolicy,
+  JobConstraints,
   JobType,
+  MarketScenario,
   Receipt,
+  RoutingDecision,
   SwapParams,
   SwapQuote,
   SwapTxRequest,
   OnChainEvidence,
+  OutcomeMetrics,
+  PaidCallEvidence,
+  PaidCallParams,
 } from "@agent-aqi/shared";
-import { runAgent, AGENT_META, AGENT_POLICY } from "../agents";
-import { addReceipt, emitEvent } from "../store";
+import { defaultConstraints, runAgent, runRemoteAgent, timedOutOutcome } from "../agents";
+import { getAgent } from "./agentRegistry";
+import { addReceipt, emitEvent, setJobState } from "../store";
 import { getSwapQuote, buildSwapTx } from "../integrations/uniswap";
+import { DEFAULT_RETRY_POLICY, classifyError, jobFailure, withRetry } from "./failures";
+import { effectiveSlippageBps, paymentBudgetUsd } from "./constraints";
 import { sendTx } from "../integrations/base";
+import { callPaidEndpoint, defaultPaidCall } from "../integrations/x402";
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -33,9 +45,21 @@ export interface RunJobParams {
   agentId:     AgentId;
   jobType:     JobType;
   swapParams?: SwapParams;
+  /** paid_call jobs: the endpoint to call (default: integrations/x402.defaultPaidCall) */
+  paidCall?:   PaidCallParams;
   mode:        "sim" | "quote" | "real";
   /** When set, all emitted SSE events include this `battleId` in their payload. */
   battleId?:   string;
+  /** Sim PRNG seed; a random one is used (and recorded on the receipt) when omitted. */
+  seed?:       number;
+  /** Sim market scenario (default: calm).  Ignored for remote agents. */
+  scenario?:   MarketScenario;
+  /** Aborted by DELETE /jobs/:id (see jobQueue.cancelJob). */
+  signal?:     AbortSignal;
+  /** How POST /jobs picked the agent (lib/jobRouter.ts); recorded on the receipt. */
+  routing?:    RoutingDecision;
+  /** The job's constraints (lib/constraints.ts); the agent's defaults when omitted. */
+  constraints?: JobConstraints;
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -45,28 +69,37 @@ function explorerUrl(txHash: string, chainId: number): string {
   return `${base}/tx/${txHash}`;
 }
 
-// ─── Core executor ────────────────────────────────────────────────────────────
-
 /**
- * Execute one job for one agent — full pipeline:
- *   queued → running → [uniswap quote] → [buildSwapTx] → [sendTx] → agent sim → fulfilled/failed
- *
- * All SSE events include `battleId` when provided.
- * Throws on unrecoverable error (caller should catch; failed SSE is also emitted).
+ * Outcome of a paid call that got a 2xx.  It spends no gas and has no
+ * slippage; a payment the endpoint took without confirming settlement is
+ * flagged.
  */
-export async function runJob(params: RunJobParams): Promise<Receipt> {
-  const { jobId, agentId, jobType, swapParams, mode, battleId } = params;
+function paidCallOutcome(evidence: PaidCallEvidence): OutcomeMetrics {
+  const unsettled = evidence.payment && !evidence.payment.transaction;
+  return {
+    status:      "fulfilled",
+    latencyMs:   evidence.latencyMs,
+    gasUsedUsd:  0,
+    slippageBps: 0,
+    safetyFlags: unsettled ? ["unsettled_payment"] : [],
+  };
+}
 
-  // Extra fields included in every SSE payload for this job
+// ─── Queued ───────────────────────────────────────────────────────────────────
+
+/** Record the job as waiting and emit `queued` (called by the job queue). */
+export function announceQueued(params: RunJobParams, position: number): void {
+  const { jobId, agentId, jobType, swapParams, mode, battleId } = params;
   const bx = battleId ? { battleId } : {};
 
-  // ── queued ─────────────────────────────────────────────────────────────────
+  setJobState(jobId, { agentId, jobType, status: "queued", ...bx });
   emitEvent("queued", {
     jobId,
     agentId,
-    agentName: AGENT_META[agentId].displayName,
+    agentName: getAgent(agentId)?.displayName ?? agentId,
     jobType,
     mode,
+    position,
     ...bx,
     ...(swapParams && {
       inputToken:  swapParams.inputToken,
@@ -75,12 +108,77 @@ export async function runJob(params: RunJobParams): Promise<Receipt> {
       chainId:     swapParams.chainId,
     }),
   });
+}
+
+// ─── Cancelled ────────────────────────────────────────────────────────────────
+
+/** Record the job as cancelled and emit `cancelled`.  No receipt is stored. */
+export function announceCancelled(params: RunJobParams): void {
+  const { jobId, agentId, battleId } = params;
+  const bx = battleId ? { battleId } : {};
+
+  setJobState(jobId, { status: "cancelled", completedAt: Date.now() });
+  emitEvent("cancelled", { jobId, agentId, ...bx });
+}
+
+// ─── Core executor ────────────────────────────────────────────────────────────
+
+/**
+ * Execute one job for one agent — full pipeline:
+ *   running → [uniswap quote] → [buildSwapTx] → [sendTx] → agent sim → fulfilled/failed/timed_out
+ *
+ * paid_call jobs replace all of it with one x402 call (integrations/x402.ts):
+ * the endpoint is called, its 402 challenge paid within the job's
+ * maxPaymentUsd, and the exchange recorded on the receipt as `paidCall`.
+ * Paid calls are never retried — the endpoint may already have charged.
+ *
+ * The job's constraints.deadlineMs is enforced from the moment the job
+ * starts running: every phase is aborted once it passes, and the job is
+ * recorded as "timed_out".  Aborting `params.signal` cancels the job instead —
+ * `cancelled` is emitted, no receipt is stored and runJob rejects.
+ *
+ * Remote agents skip the Uniswap/Base/x402 phases — they execute on their own
+ * and report a signed outcome (see integrations/remoteAgent.ts).
+ *
+ * Uniswap calls are retried under the agent's RetryPolicy (`retrying` is
+ * emitted before each retry).  Any failure that survives them still stores a
+ * receipt, with a JobFailure saying what broke and whose fault it was (see
+ * lib/failures.ts).
+ *
+ * All SSE events include `battleId` when provided.  The job's state is also
+ * tracked for GET /jobs/:id until its receipt is stored.
+ * Only rejects for an unknown agent or a cancelled job.
+ */
+export async function runJob(params: RunJobParams): Promise<Receipt> {
+  const { jobId, agentId, jobType, swapParams, paidCall, mode, battleId, seed, scenario, routing, signal: cancel } = params;
+
+  // Extra fields included in every SSE payload for this job
+  const bx = battleId ? { battleId } : {};
+
+  // Jobs reach here straight from the queue, so make sure they are tracked
+  setJobState(jobId, { agentId, jobType, ...bx });
+
+  const agent = getAgent(agentId);
+  if (!agent) {
+    const error = `Unknown agentId "${agentId}"`;
+    setJobState(jobId, { status: "failed", completedAt: Date.now(), error });
+    emitEvent("failed", { jobId, agentId, error, ...bx });
+    throw new Error(error);
+  }
 
   // ── running ────────────────────────────────────────────────────────────────
+  setJobState(jobId, { status: "running" });
   emitEvent("running", { jobId, agentId, mode, ...bx });
 
-  // Look up the per-agent routing policy (used in quote / real mode)
-  const policy: AgentPolicy = AGENT_POLICY[agentId];
+  const constraints = params.constraints ?? defaultConstraints(jobType, agentId);
+  const startedAt  = Date.now();
+  const deadlineMs = constraints.deadlineMs;
+  const deadline   = AbortSignal.timeout(deadlineMs);
+  const signal     = cancel ? AbortSignal.any([cancel, deadline]) : deadline;
+
+  // Look up the per-agent routing policy (used in quote / real mode); the
+  // job's maxSlippageBps can only tighten its slippage tolerance
+  const policy: AgentPolicy = { ...agent.policy, slippageBps: effectiveSlippageBps(agent, constraints) };
   // Convert basis points → percent for the Uniswap API (50 bps = 0.5 %)
   const slippagePct = policy.slippageBps / 100;
 
@@ -88,100 +186,175 @@ export async function runJob(params: RunJobParams): Promise<Receipt> {
   let swapTxRequest: SwapTxRequest  | undefined;
   let onChain:       OnChainEvidence | undefined;
   let economics:     AgentEconomics | undefined;
+  let paid:          PaidCallEvidence | undefined;
+
+  const isRemote = agent.kind === "remote";
+  const retryPolicy = agent.retryPolicy ?? DEFAULT_RETRY_POLICY;
+  let phase   = "agent";
+  let retries = 0;
+
+  /** Run one Uniswap call under the agent's retry policy, emitting `retrying`. */
+  const retrying = <T>(call: () => Promise<T>): Promise<T> =>
+    withRetry(phase, retryPolicy, signal, call, (attempt, failure, delayMs) => {
+      retries++;
+      emitEvent("retrying", {
+        jobId, agentId, phase, attempt, delayMs,
+        kind:  failure.kind,
+        error: failure.message,
+        ...bx,
+      });
+    });
 
   try {
-    if ((mode === "quote" || mode === "real") && swapParams) {
+    if (jobType === "paid_call" && !isRemote) {
+      // ── x402 paid call (in every mode — it is a real HTTP call) ───────────
+      phase = "x402_call";
+      paid = await callPaidEndpoint(paidCall ?? defaultPaidCall(), paymentBudgetUsd(constraints), signal);
+      cancel?.throwIfAborted();
+
+      return finish({
+        jobId,
+        agentId,
+        submittedAt: startedAt,
+        completedAt: Date.now(),
+        constraints,
+        outcome:     paidCallOutcome(paid),
+      });
+    }
+
+    if ((mode === "quote" || mode === "real") && swapParams && !isRemote) {
       // ── Phase 2.1: price quote (with per-agent slippage tolerance) ────────
-      try {
-        const quoteWithMeta = await getSwapQuote(swapParams, slippagePct);
-        quoteResult = quoteWithMeta; // SwapQuoteWithMeta is a superset of SwapQuote
-        economics = {
-          quotedOut:    quoteWithMeta.quotedOut,
-          hopCount:     quoteWithMeta.hopCount,
-        };
-      } catch (quoteErr) {
-        emitEvent("failed", { jobId, agentId, error: String(quoteErr), phase: "uniswap_quote", ...bx });
-        throw quoteErr;
-      }
+      phase = "uniswap_quote";
+      const quoteWithMeta = await retrying(() => getSwapQuote(swapParams, slippagePct, signal));
+      quoteResult = quoteWithMeta; // SwapQuoteWithMeta is a superset of SwapQuote
+      economics = {
+        quotedOut:    quoteWithMeta.quotedOut,
+        hopCount:     quoteWithMeta.hopCount,
+      };
 
       // ── Phase 2.2: build unsigned tx payload ──────────────────────────────
-      try {
-        swapTxRequest = await buildSwapTx(swapParams, quoteResult.rawQuote);
-        // Enrich economics with the gas estimate from the /swap response
-        if (economics && swapTxRequest.gas) {
-          economics = { ...economics, gasEstimate: swapTxRequest.gas };
-        }
-      } catch (txErr) {
-        emitEvent("failed", { jobId, agentId, error: String(txErr), phase: "uniswap_tx_build", ...bx });
-        throw txErr;
+      phase = "uniswap_tx_build";
+      const rawQuote = quoteResult.rawQuote;
+      swapTxRequest = await retrying(() => buildSwapTx(swapParams, rawQuote, signal));
+      // Enrich economics with the gas estimate from the /swap response
+      if (economics && swapTxRequest.gas) {
+        economics = { ...economics, gasEstimate: swapTxRequest.gas };
       }
 
-      // ── Phase 2.3: sign + broadcast (real mode only) ──────────────────────
+      // ── Phase 2.3: sign + broadcast (real mode only, never retried) ───────
       if (mode === "real") {
-        try {
-          const result = await sendTx(swapTxRequest);
-
+        // Once broadcast the tx may be mined whatever happens to the job, so
+        // its hash is kept (as "pending") even if the deadline passes next
+        phase = "base_send_tx";
+        const { chainId } = swapTxRequest;
+        const result = await sendTx(swapTxRequest, signal, (txHash) => {
+          phase   = "base_confirm_tx";
+          onChain = { txHash, chainId, status: "pending" };
           emitEvent("tx_submitted", {
             jobId,
             agentId,
-            txHash:      result.txHash,
-            explorerUrl: explorerUrl(result.txHash, swapTxRequest.chainId),
+            txHash,
+            explorerUrl: explorerUrl(txHash, chainId),
             ...bx,
           });
+        });
 
-          onChain = {
-            txHash:      result.txHash,
-            blockNumber: Number(result.blockNumber),
-            chainId:     result.chainId,
-            gasUsed:     result.gasUsed,
-            status:      result.status,
-          };
+        onChain = {
+          txHash:      result.txHash,
+          blockNumber: Number(result.blockNumber),
+          chainId:     result.chainId,
+          gasUsed:     result.gasUsed,
+          status:      result.status,
+        };
 
-          emitEvent("tx_confirmed", {
-            jobId,
-            agentId,
-            txHash:      result.txHash,
-            status:      result.status,
-            gasUsed:     result.gasUsed,
-            blockNumber: result.blockNumber,
-            explorerUrl: explorerUrl(result.txHash, swapTxRequest.chainId),
-            ...bx,
-          });
-        } catch (sendErr) {
-          const phase = String(sendErr).includes("waitForTransactionReceipt")
-            ? "base_confirm_tx"
-            : "base_send_tx";
-          emitEvent("failed", { jobId, agentId, error: String(sendErr), phase, ...bx });
-          throw sendErr;
-        }
+        emitEvent("tx_confirmed", {
+          jobId,
+          agentId,
+          txHash:      result.txHash,
+          status:      result.status,
+          gasUsed:     result.gasUsed,
+          blockNumber: result.blockNumber,
+          explorerUrl: explorerUrl(result.txHash, swapTxRequest.chainId),
+          ...bx,
+        });
       }
     }
 
-    // ── Agent simulation (outcome metrics) ────────────────────────────────────
-    const receipt = await runAgent(agentId, jobType);
+    // ── Agent simulation / remote call (outcome metrics) ──────────────────────
+    // Both model the deadline themselves (simulated latency / request timeout),
+    // so they only listen for cancellation.
+    phase = "agent";
+    const receipt = isRemote
+      ? await runRemoteAgent(agent, jobId, constraints, swapParams, paidCall, cancel)
+      : await runAgent(agentId, constraints, seed ?? randomSeed(), scenario, cancel);
+    cancel?.throwIfAborted();
+
+    // A reverted swap fails the job whatever the agent reported
+    if (onChain?.status === "reverted") {
+      receipt.outcome.status = "failed";
+      receipt.failure = jobFailure("reverted", "base_confirm_tx", `tx ${onChain.txHash} reverted`);
+    }
+
+    return finish(receipt);
+  } catch (err) {
+    if (cancel?.aborted) {
+      announceCancelled(params);
+      throw err;
+    }
+    // Aborted mid-pipeline (Uniswap / Base) at the deadline, or any other
+    // pipeline error — record what we had so far
+    const failure = deadline.aborted
+      ? jobFailure("timeout", phase, `deadline of ${deadlineMs} ms passed during ${phase}`)
+      : classifyError(err, phase);
+    const outcome = deadline.aborted
+      ? timedOutOutcome(deadlineMs)
+      : { status: "failed" as const, latencyMs: Date.now() - startedAt,
+          gasUsedUsd: 0, slippageBps: 0, safetyFlags: [] };
+    console.warn(`[runJob] job=${jobId} agent=${agentId} ${failure.kind} in ${phase}: ${failure.message}`);
 
+    return finish({
+      jobId,
+      agentId,
+      submittedAt: startedAt,
+      completedAt: Date.now(),
+      constraints,
+      outcome,
+      failure,
+    });
+  }
+
+  /** Attach pipeline evidence, store the receipt and emit its final status. */
+  function finish(receipt: Receipt): Receipt {
     // Overwrite the UUID that runAgent generated with the pre-agreed jobId
     (receipt as { jobId: string }).jobId = jobId;
 
     // Attach optional fields
-    if (battleId)    (receipt as { battleId?: string }).battleId = battleId;
+    if (battleId)      (receipt as { battleId?: string }).battleId = battleId;
     if (swapParams)    receipt.swapParams    = swapParams;
+    if (paid)          receipt.paidCall      = paid;
     if (quoteResult)   receipt.quoteResult   = quoteResult;
     if (swapTxRequest) receipt.swapTxRequest = swapTxRequest;
     if (onChain)       receipt.onChain       = onChain;
+    if (routing)       receipt.routing       = routing;
 
     // Always attach the routing policy so the UI can show "Policy Decisions"
     receipt.policy = policy;
     if (economics)   receipt.economics = economics;
+    if (retries > 0) receipt.retries   = retries;
 
-    if (mode !== "sim") {
+    if (mode !== "sim" && jobType === "swap" && !isRemote && receipt.outcome.status !== "timed_out") {
       // Use the agent's actual policy slippage (not a fixed 50 bps)
       receipt.outcome.slippageBps = policy.slippageBps;
     }
 
     addReceipt(receipt);
+    setJobState(jobId, {
+      status:      receipt.outcome.status,
+      completedAt: receipt.completedAt,
+      ...(receipt.failure && { error: receipt.failure.message }),
+    });
 
-    // ── fulfilled / failed ────────────────────────────────────────────────────
+    // ── fulfilled / failed / timed_out ──────────────────────────────────────
     emitEvent(receipt.outcome.status, {
       jobId,
       agentId:     receipt.agentId,
@@ -190,6 +363,14 @@ export async function runJob(params: RunJobParams): Promise<Receipt> {
       gasUsedUsd:  receipt.outcome.gasUsedUsd,
       slippageBps: receipt.outcome.slippageBps,
       safetyFlags: receipt.outcome.safetyFlags,
+      ...(receipt.scenario && { scenario: receipt.scenario }),
+      ...(receipt.failure && {
+        phase:        receipt.failure.phase,
+        failureKind:  receipt.failure.kind,
+        failureFault: receipt.failure.fault,
+        error:        receipt.failure.message,
+      }),
+      ...(receipt.retries && { retries: receipt.retries }),
       // Policy decisions (always present)
       policy: receipt.policy,
       ...(receipt.quoteResult && {
@@ -208,13 +389,19 @@ export async function runJob(params: RunJobParams): Promise<Receipt> {
         txHash:        receipt.onChain.txHash,
         onChainStatus: receipt.onChain.status,
       }),
+      ...(receipt.paidCall && {
+        httpStatus:   receipt.paidCall.httpStatus,
+        responseHash: receipt.paidCall.responseHash,
+        paidUsd:      receipt.paidCall.payment?.amountUsd ?? 0,
+        paymentTx:    receipt.paidCall.payment?.transaction,
+      }),
+      ...(receipt.remote && {
+        remoteVerified: receipt.remote.verified,
+        remoteError:    receipt.remote.error,
+      }),
       ...bx,
     });
 
     return receipt;
-  } catch (err) {
-    // Generic catch for unexpected errors not already emitted above
-    emitEvent("failed", { jobId, agentId, error: String(err), ...bx });
-    throw err;
   }
 }
@@ -0,0 +1,110 @@
+/**
+ * scenarios.ts — market scenarios for sim mode.
+ *
+ * A scenario reshapes an agent's SimProfile before the simulator draws from
+ * it.  Each scenario has a base effect, and agents react differently
+ * depending on their routing preference:
+ *
+ *   congested  – fastest pays up for priority (gas ↑↑, latency barely moves);
+ *                cheapest waits for cheap blocks (latency ↑↑, gas barely moves)
+ *   volatile   – fastest's wide tolerance lets slippage through; safest's tight
+ *                tolerance reverts instead
+ *   mev_heavy  – safest routes through a private relay and is rarely hit;
+ *                cheapest's long public routes are sandwiched the most
+ *   chain_halt – nobody escapes
+ *
+ * Scenarios never touch remote agents — those report their own outcomes.
+ */
+
+import { MARKET_SCENARIOS } from "@agent-aqi/shared";
+import type { AgentPolicy, MarketScenario, SimProfile } from "@agent-aqi/shared";
+
+export const DEFAULT_SCENARIO: MarketScenario = "calm";
+
+interface ScenarioEffect {
+  /** Multipliers applied to both ends of the range */
+  latency:  number;
+  gas:      number;
+  slippage: number;
+  /** Multiplier on the probability of fulfilment */
+  success:  number;
+  /** Added to flagProbability (result clamped to 0-1) */
+  flagBoost: number;
+  /** Flags that become possible under this scenario */
+  flags:    string[];
+}
+
+const NEUTRAL: ScenarioEffect = {
+  latency: 1, gas: 1, slippage: 1, success: 1, flagBoost: 0, flags: [],
+};
+
+type Preference = AgentPolicy["preference"];
+
+const EFFECTS: Record<MarketScenario, {
+  base:          ScenarioEffect;
+  byPreference?: Partial<Record<Preference, Partial<ScenarioEffect>>>;
+}> = {
+  calm: { base: NEUTRAL },
+  congested: {
+    base: { ...NEUTRAL, latency: 2.5, gas: 3, success: 0.9, flagBoost: 0.15, flags: ["network_congestion"] },
+    byPreference: {
+      fastest:  { latency: 1.3, gas: 5 },
+      cheapest: { latency: 4, gas: 1.4 },
+    },
+  },
+  volatile: {
+    base: { ...NEUTRAL, latency: 1.2, slippage: 3, success: 0.85, flagBoost: 0.25, flags: ["price_impact_warning"] },
+    byPreference: {
+      safest:  { slippage: 1.5, success: 0.75 },
+      fastest: { slippage: 4.5, success: 0.95 },
+    },
+  },
+  mev_heavy: {
+    base: { ...NEUTRAL, gas: 1.3, slippage: 2, flagBoost: 0.35, flags: ["sandwich_detected"] },
+    byPreference: {
+      safest:   { slippage: 1.1, flagBoost: 0.05 },
+      cheapest: { slippage: 2.5, flagBoost: 0.5 },
+    },
+  },
+  chain_halt: {
+    base: { ...NEUTRAL, latency: 5, success: 0.05, flagBoost: 0.6, flags: ["chain_halted"] },
+  },
+};
+
+export function isMarketScenario(v: unknown): v is MarketScenario {
+  return typeof v === "string" && (MARKET_SCENARIOS as string[]).includes(v);
+}
+
+/**
+ * Validate an optional `scenario` field from a request body.
+ * Missing → DEFAULT_SCENARIO.
+ */
+export function parseScenario(raw: unknown): { scenario: MarketScenario } | { error: string } {
+  if (raw === undefined) return { scenario: DEFAULT_SCENARIO };
+  if (!isMarketScenario(raw)) return { error: `scenario must be one of: ${MARKET_SCENARIOS.join(", ")}` };
+  return { scenario: raw };
+}
+
+function scale([min, max]: [number, number], factor: number): [number, number] {
+  return [min * factor, max * factor];
+}
+
+/** The agent's sim profile as it behaves under `scenario`. */
+export function applyScenario(
+  profile:    SimProfile,
+  scenario:   MarketScenario,
+  preference: Preference,
+): SimProfile {
+  if (scenario === "calm") return profile;
+  const { base, byPreference } = EFFECTS[scenario];
+  const e: ScenarioEffect = { ...base, ...byPreference?.[preference] };
+
+  return {
+    successRate:     Math.min(1, Math.max(0, profile.successRate * e.success)),
+    latencyMs:       scale(profile.latencyMs, e.latency),
+    gasUsedUsd:      scale(profile.gasUsedUsd, e.gas),
+    slippageBps:     scale(profile.slippageBps, e.slippage),
+    flagProbability: Math.min(1, Math.max(0, profile.flagProbability + e.flagBoost)),
+    possibleFlags:   [...new Set([...profile.possibleFlags, ...e.flags])],
+  };
+}
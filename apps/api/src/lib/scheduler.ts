@@ -0,0 +1,113 @@
+/**
+ * scheduler.ts — recurring batches ("every 5 minutes run a swap for each agent").
+ *
+ * A JobSchedule holds a BatchSpec and an interval.  A timer ticks every
+ * SCHEDULER_TICK_MS and starts the batch of every enabled schedule that is
+ * due.  A schedule whose previous batch is still running skips that run
+ * rather than piling up work.  Schedules are persisted through the storage
+ * driver; next-run times are kept, so a restart resumes where it left off
+ * (runs missed while the server was down are not caught up — the next one
+ * happens on the first tick).
+ *
+ * Managed via /schedules (routes/schedules.ts).
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import type { BatchRecord, BatchSpec, JobSchedule } from "@agent-aqi/shared";
+import { storage } from "../storage";
+import { getBatch, startBatch } from "./batches";
+
+/** Shortest interval a schedule may run at. */
+export const MIN_SCHEDULE_INTERVAL_MS = 60_000;
+
+const TICK_MS = 5_000;
+
+let timer: NodeJS.Timeout | undefined;
+
+// ─── Lookups + mutations ──────────────────────────────────────────────────────
+
+export function listSchedules(): JobSchedule[] {
+  return storage.listSchedules();
+}
+
+export function getSchedule(scheduleId: string): JobSchedule | undefined {
+  return storage.listSchedules().find((s) => s.scheduleId === scheduleId);
+}
+
+export function createSchedule(name: string, everyMs: number, batch: BatchSpec, enabled: boolean): JobSchedule {
+  const now = Date.now();
+  const schedule: JobSchedule = {
+    scheduleId: uuidv4(),
+    name,
+    everyMs,
+    batch,
+    enabled,
+    createdAt:  now,
+    nextRunAt:  now + everyMs,
+  };
+  storage.saveSchedule(schedule);
+  return schedule;
+}
+
+/** Enable or pause a schedule.  Re-enabling restarts its interval from now. */
+export function setScheduleEnabled(scheduleId: string, enabled: boolean): JobSchedule | undefined {
+  const schedule = getSchedule(scheduleId);
+  if (!schedule) return undefined;
+  if (enabled && !schedule.enabled) schedule.nextRunAt = Date.now() + schedule.everyMs;
+  schedule.enabled = enabled;
+  storage.saveSchedule(schedule);
+  return schedule;
+}
+
+export function removeSchedule(scheduleId: string): boolean {
+  if (!getSchedule(scheduleId)) return false;
+  storage.deleteSchedule(scheduleId);
+  return true;
+}
+
+// ─── Running ──────────────────────────────────────────────────────────────────
+
+/** The schedule's previous batch, when it has not finished yet. */
+export function activeBatch(schedule: JobSchedule): BatchRecord | undefined {
+  const batch = schedule.lastBatchId ? getBatch(schedule.lastBatchId) : undefined;
+  return batch && batch.status !== "completed" ? batch : undefined;
+}
+
+/** Start the schedule's batch now and push its next run one interval out. */
+export function runSchedule(schedule: JobSchedule, now = Date.now()): BatchRecord {
+  const batch = startBatch(schedule.batch, schedule.scheduleId);
+  schedule.lastRunAt   = now;
+  schedule.lastBatchId = batch.batchId;
+  schedule.nextRunAt   = now + schedule.everyMs;
+  storage.saveSchedule(schedule);
+  return batch;
+}
+
+/** Run every enabled schedule that is due. Returns the batches started. */
+export function runDueSchedules(now = Date.now()): BatchRecord[] {
+  const started: BatchRecord[] = [];
+  for (const schedule of listSchedules()) {
+    if (!schedule.enabled || schedule.nextRunAt > now) continue;
+    if (activeBatch(schedule)) {
+      console.warn(`[scheduler] "${schedule.name}" skipped — batch ${schedule.lastBatchId} still running`);
+      schedule.nextRunAt = now + schedule.everyMs;
+      storage.saveSchedule(schedule);
+      continue;
+    }
+    started.push(runSchedule(schedule, now));
+  }
+  return started;
+}
+
+/** Start the scheduler timer (idempotent). */
+export function startScheduler(): void {
+  if (timer) return;
+  timer = setInterval(() => {
+    try {
+      runDueSchedules();
+    } catch (err) {
+      console.error("[scheduler] tick failed:", err);
+    }
+  }, TICK_MS);
+  timer.unref();
+}
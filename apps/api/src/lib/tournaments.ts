@@ -0,0 +1,517 @@
+/**
+ * tournaments.ts — Arena tournaments (brackets, round robin) and seasons.
+ *
+ * A tournament is a list of TournamentMatches, built up front:
+ *   single_elimination – seeded bracket padded to a power of two; missing
+ *                        seeds are byes
+ *   double_elimination – the same winners bracket, a losers bracket fed by its
+ *                        losers, and a grand final (replayed once when the
+ *                        losers-bracket champion wins the first)
+ *   round_robin        – everyone meets everyone once (circle method rounds)
+ *
+ * Each match slot is either seeded or filled from an earlier match's winner /
+ * loser.  advanceTournament fills what it can, settles byes and starts every
+ * match whose two agents are known; each match is a normal two-agent battle
+ * (lib/battleRunner.ts) seeded from the tournament seed, linked back with
+ * `tournamentId` / `matchId`.  A tied elimination match is rematched up to
+ * MAX_REMATCHES times and then goes to the higher seed; a tied round-robin
+ * match is a draw.  Progress is emitted as "tournament_update" SSE events and
+ * "tournament_complete" at the end.
+ *
+ * Tournaments and seasons are persisted through the storage driver;
+ * resumeTournaments restarts the matches that were running at shutdown (their
+ * old battles are cancelled first, see cancelInterruptedBattles).
+ */
+
+import { setTimeout as delay } from "node:timers/promises";
+import { v4 as uuidv4 } from "uuid";
+import { deriveSeed } from "@agent-aqi/shared";
+import type {
+  AgentId,
+  BattleType,
+  MarketScenario,
+  Season,
+  SeasonStanding,
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentMatchSource,
+  TournamentStanding,
+} from "@agent-aqi/shared";
+import { storage } from "../storage";
+import { emitEvent } from "../store";
+import { checkCapacity } from "./jobQueue";
+import { addRunningBattle, runBattle } from "./battleRunner";
+
+export const TOURNAMENT_FORMATS: TournamentFormat[] = ["single_elimination", "double_elimination", "round_robin"];
+
+export const MIN_TOURNAMENT_AGENTS = 2;
+export const MAX_TOURNAMENT_AGENTS = 16;
+
+/** Extra battles a tied elimination match gets before the higher seed advances. */
+const MAX_REMATCHES = 2;
+
+const WIN_POINTS  = 3;
+const DRAW_POINTS = 1;
+
+const DONE: TournamentMatch["status"][] = ["complete", "bye", "skipped"];
+
+// ─── Bracket construction ─────────────────────────────────────────────────────
+
+function newMatch(
+  matchId: string,
+  bracket: TournamentMatch["bracket"],
+  round:   number,
+  sources: TournamentMatch["sources"],
+  agentIds: TournamentMatch["agentIds"] = [null, null],
+): TournamentMatch {
+  return { matchId, bracket, round, agentIds, sources, status: "pending", battleIds: [] };
+}
+
+const winnerOf = (matchId: string): TournamentMatchSource => ({ matchId, result: "winner" });
+const loserOf  = (matchId: string): TournamentMatchSource => ({ matchId, result: "loser" });
+
+/** Bracket slot order of seed indexes, so seed 1 and 2 can only meet in the final. */
+function seedOrder(size: number): number[] {
+  let order = [0];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((s) => [s, n - 1 - s]);
+  }
+  return order;
+}
+
+/** Winners bracket W1..Wk; returns its matches and k. */
+function winnersBracket(agentIds: AgentId[]): { matches: TournamentMatch[]; rounds: number } {
+  let size = 2;
+  while (size < agentIds.length) size *= 2;
+  const rounds = Math.log2(size);
+  const order  = seedOrder(size);
+  const matches: TournamentMatch[] = [];
+
+  for (let i = 0; i < size / 2; i++) {
+    const agents: TournamentMatch["agentIds"] = [agentIds[order[2 * i]!] ?? null, agentIds[order[2 * i + 1]!] ?? null];
+    matches.push(newMatch(`W1-${i + 1}`, "winners", 1, [null, null], agents));
+  }
+  for (let r = 2; r <= rounds; r++) {
+    for (let i = 0; i < size / 2 ** r; i++) {
+      matches.push(newMatch(`W${r}-${i + 1}`, "winners", r, [
+        winnerOf(`W${r - 1}-${2 * i + 1}`),
+        winnerOf(`W${r - 1}-${2 * i + 2}`),
+      ]));
+    }
+  }
+  return { matches, rounds };
+}
+
+/**
+ * Losers bracket L1..L(2k-2) plus grand final.  Odd rounds pair up the
+ * survivors (L1: the W1 losers); even rounds L(2m) meet them with the losers
+ * dropping out of W(m+1), in reverse order to delay rematches.
+ */
+function doubleElimination(agentIds: AgentId[]): TournamentMatch[] {
+  const { matches, rounds: k } = winnersBracket(agentIds);
+  const size = 2 ** k;
+
+  for (let j = 1; j <= 2 * k - 2; j++) {
+    const m = Math.floor(j / 2);
+    if (j === 1) {
+      for (let i = 0; i < size / 4; i++) {
+        matches.push(newMatch(`L1-${i + 1}`, "losers", 1, [loserOf(`W1-${2 * i + 1}`), loserOf(`W1-${2 * i + 2}`)]));
+      }
+    } else if (j % 2 === 0) {
+      const count = size / 2 ** (m + 1);
+      for (let i = 0; i < count; i++) {
+        matches.push(newMatch(`L${j}-${i + 1}`, "losers", j, [winnerOf(`L${j - 1}-${i + 1}`), loserOf(`W${m + 1}-${count - i}`)]));
+      }
+    } else {
+      const count = size / 2 ** (m + 2);
+      for (let i = 0; i < count; i++) {
+        matches.push(newMatch(`L${j}-${i + 1}`, "losers", j, [winnerOf(`L${j - 1}-${2 * i + 1}`), winnerOf(`L${j - 1}-${2 * i + 2}`)]));
+      }
+    }
+  }
+
+  // With two agents there is no losers bracket: the W1 loser goes straight to the final
+  const losersChampion = k >= 2 ? winnerOf(`L${2 * k - 2}-1`) : loserOf("W1-1");
+  matches.push(newMatch("GF1", "final", 1, [winnerOf(`W${k}-1`), losersChampion]));
+  matches.push(newMatch("GF2", "final", 2, [winnerOf("GF1"), loserOf("GF1")]));
+  return matches;
+}
+
+/** Circle method: n-1 rounds (n rounded up to even), each agent once per round. */
+function roundRobin(agentIds: AgentId[]): TournamentMatch[] {
+  const ring: (AgentId | null)[] = agentIds.length % 2 === 0 ? [...agentIds] : [...agentIds, null];
+  const n = ring.length;
+  const matches: TournamentMatch[] = [];
+
+  for (let r = 1; r < n; r++) {
+    let k = 0;
+    for (let i = 0; i < n / 2; i++) {
+      const [a, b] = [ring[i], ring[n - 1 - i]];
+      if (a && b) matches.push(newMatch(`R${r}-${++k}`, "round_robin", r, [null, null], [a, b]));
+    }
+    ring.splice(1, 0, ring.pop()!);
+  }
+  return matches;
+}
+
+function buildMatches(format: TournamentFormat, agentIds: AgentId[]): TournamentMatch[] {
+  switch (format) {
+    case "single_elimination": return winnersBracket(agentIds).matches;
+    case "double_elimination": return doubleElimination(agentIds);
+    case "round_robin":        return roundRobin(agentIds);
+  }
+}
+
+// ─── Standings ────────────────────────────────────────────────────────────────
+
+function emptyStanding(agentId: AgentId): TournamentStanding {
+  return { agentId, played: 0, wins: 0, draws: 0, losses: 0, points: 0, rank: 0 };
+}
+
+/**
+ * Table from the decided matches.  Round robin ranks by points, then wins,
+ * then seed.  Elimination formats rank the champion first, then by how late
+ * each agent was knocked out, then wins, then seed.
+ */
+function computeStandings(t: Tournament): TournamentStanding[] {
+  const rows = new Map(t.agentIds.map((id) => [id, emptyStanding(id)]));
+  /** Index of the match each agent last lost — later means it went further */
+  const lastLoss = new Map<AgentId, number>();
+
+  t.matches.forEach((m, idx) => {
+    if (m.status !== "complete") return;
+    for (const id of m.agentIds) if (id) rows.get(id)!.played++;
+    if (m.draw) {
+      for (const id of m.agentIds) if (id) rows.get(id)!.draws++;
+      return;
+    }
+    if (m.winnerAgentId) rows.get(m.winnerAgentId)!.wins++;
+    if (m.loserAgentId) {
+      rows.get(m.loserAgentId)!.losses++;
+      lastLoss.set(m.loserAgentId, idx);
+    }
+  });
+
+  const livesLeft = t.format === "double_elimination" ? 2 : 1;
+  const seed = (id: AgentId) => t.agentIds.indexOf(id);
+  const standings = [...rows.values()].map((row) => {
+    row.points = row.wins * WIN_POINTS + row.draws * DRAW_POINTS;
+    if (t.format !== "round_robin" && row.agentId !== t.championAgentId) {
+      row.eliminated = row.losses >= livesLeft || t.status === "complete";
+    }
+    return row;
+  });
+
+  standings.sort((a, b) => {
+    if (t.format === "round_robin") {
+      return b.points - a.points || b.wins - a.wins || seed(a.agentId) - seed(b.agentId);
+    }
+    if (a.agentId === t.championAgentId) return -1;
+    if (b.agentId === t.championAgentId) return 1;
+    const reach = (s: TournamentStanding) => (s.eliminated ? lastLoss.get(s.agentId) ?? -1 : Infinity);
+    return reach(b) - reach(a) || b.wins - a.wins || seed(a.agentId) - seed(b.agentId);
+  });
+  standings.forEach((row, i) => { row.rank = i + 1; });
+  return standings;
+}
+
+function champion(t: Tournament): AgentId | undefined {
+  switch (t.format) {
+    case "round_robin":
+      return computeStandings(t)[0]?.agentId;
+    case "single_elimination":
+      return t.matches[t.matches.length - 1]?.winnerAgentId;
+    case "double_elimination": {
+      const final = t.matches.find((m) => m.matchId === "GF2" && m.status !== "skipped")
+        ?? t.matches.find((m) => m.matchId === "GF1");
+      return final?.winnerAgentId;
+    }
+  }
+}
+
+// ─── Lookups + mutations ──────────────────────────────────────────────────────
+
+export function listTournaments(): Tournament[] {
+  return storage.listTournaments();
+}
+
+export function getTournament(tournamentId: string): Tournament | undefined {
+  return storage.getTournament(tournamentId);
+}
+
+export function listSeasons(): Season[] {
+  return storage.listSeasons();
+}
+
+export function getSeason(seasonId: string): Season | undefined {
+  return storage.listSeasons().find((s) => s.seasonId === seasonId);
+}
+
+export function createSeason(name: string): Season {
+  const season: Season = { seasonId: uuidv4(), name, status: "active", createdAt: Date.now() };
+  storage.saveSeason(season);
+  return season;
+}
+
+/** End a season; its table is frozen from then on (no new tournaments join). */
+export function endSeason(season: Season): Season {
+  season.status  = "ended";
+  season.endedAt = Date.now();
+  storage.saveSeason(season);
+  return season;
+}
+
+/** A season's table: every tournament in it, added up.  Ranked by points, titles, wins. */
+export function seasonStandings(seasonId: string): SeasonStanding[] {
+  const rows = new Map<AgentId, SeasonStanding>();
+  for (const t of listTournaments()) {
+    if (t.seasonId !== seasonId) continue;
+    for (const s of t.standings) {
+      const row = rows.get(s.agentId) ?? {
+        agentId: s.agentId, played: 0, wins: 0, draws: 0, losses: 0, points: 0, rank: 0, tournaments: 0, titles: 0,
+      };
+      row.played += s.played;
+      row.wins   += s.wins;
+      row.draws  += s.draws;
+      row.losses += s.losses;
+      row.points += s.points;
+      row.tournaments++;
+      if (t.championAgentId === s.agentId) row.titles++;
+      rows.set(s.agentId, row);
+    }
+  }
+  const table = [...rows.values()].sort((a, b) =>
+    b.points - a.points || b.titles - a.titles || b.wins - a.wins || a.agentId.localeCompare(b.agentId),
+  );
+  table.forEach((row, i) => { row.rank = i + 1; });
+  return table;
+}
+
+// ─── Running ──────────────────────────────────────────────────────────────────
+
+function announce(t: Tournament, match?: TournamentMatch): void {
+  emitEvent("tournament_update", {
+    tournamentId: t.tournamentId,
+    name:         t.name,
+    status:       t.status,
+    ...(match && {
+      matchId:       match.matchId,
+      matchStatus:   match.status,
+      agentIds:      match.agentIds,
+      winnerAgentId: match.winnerAgentId,
+      battleId:      match.battleIds[match.battleIds.length - 1],
+    }),
+  });
+}
+
+function findMatch(t: Tournament, matchId: string): TournamentMatch {
+  const match = t.matches.find((m) => m.matchId === matchId);
+  if (!match) throw new Error(`Tournament ${t.tournamentId} has no match ${matchId}`);
+  return match;
+}
+
+/** The agent a slot holds: an id, "empty" (nobody is coming) or "waiting". */
+function resolveSlot(t: Tournament, m: TournamentMatch, i: 0 | 1): AgentId | "empty" | "waiting" {
+  const seeded = m.agentIds[i];
+  if (seeded) return seeded;
+  const source = m.sources[i];
+  if (!source) return "empty";
+  const from = findMatch(t, source.matchId);
+  if (!DONE.includes(from.status)) return "waiting";
+  return (source.result === "winner" ? from.winnerAgentId : from.loserAgentId) ?? "empty";
+}
+
+/**
+ * Fill every slot that can be filled, settle byes and the bracket reset, and
+ * start the matches that are ready.  Completes the tournament once every
+ * match is done.
+ */
+export function advanceTournament(tournamentId: string): void {
+  const t = storage.getTournament(tournamentId);
+  if (!t || t.status !== "running") return;
+
+  const ready: TournamentMatch[] = [];
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const m of t.matches) {
+      if (m.status !== "pending" || ready.includes(m)) continue;
+
+      // The grand-final reset is only played when the losers-bracket champion won GF1
+      if (m.matchId === "GF2") {
+        const gf1 = findMatch(t, "GF1");
+        if (!DONE.includes(gf1.status)) continue;
+        if (gf1.status !== "complete" || gf1.winnerAgentId === gf1.agentIds[0]) {
+          m.status = "skipped";
+          changed  = true;
+          continue;
+        }
+      }
+
+      const slots = [resolveSlot(t, m, 0), resolveSlot(t, m, 1)];
+      if (slots.includes("waiting")) continue;
+      const agents = slots.filter((s): s is AgentId => s !== "empty");
+      m.agentIds = [agents[0] ?? null, agents[1] ?? null];
+
+      if (agents.length === 2) {
+        ready.push(m);
+      } else {
+        m.status = "bye";
+        if (agents[0]) m.winnerAgentId = agents[0];
+        changed = true;
+      }
+    }
+  }
+
+  if (t.matches.every((m) => DONE.includes(m.status))) {
+    t.status          = "complete";
+    t.completedAt     = Date.now();
+    t.championAgentId = champion(t);
+  }
+  for (const m of ready) m.status = "running";
+  t.standings = computeStandings(t);
+  storage.saveTournament(t);
+
+  if (t.status === "complete") {
+    emitEvent("tournament_complete", {
+      tournamentId:    t.tournamentId,
+      name:            t.name,
+      ...(t.seasonId && { seasonId: t.seasonId }),
+      championAgentId: t.championAgentId,
+      standings:       t.standings,
+    });
+    console.log(`[Tournament] ${t.name} complete — champion ${t.championAgentId ?? "none"}`);
+    return;
+  }
+
+  for (const m of ready) {
+    playMatch(t.tournamentId, m.matchId).catch((err: unknown) => {
+      console.error(`[Tournament] match ${m.matchId} of ${t.tournamentId} failed — settling it by seed:`, err);
+      forfeitMatch(t.tournamentId, m.matchId);
+    });
+  }
+}
+
+/**
+ * Record a match's result: `winner`, else a draw (round robin) or the higher
+ * seed (elimination).  Saves and announces the tournament.
+ */
+function settleMatch(t: Tournament, m: TournamentMatch, winner: AgentId | null): void {
+  const agents = m.agentIds as [AgentId, AgentId];
+  if (winner) {
+    m.winnerAgentId = winner;
+    m.loserAgentId  = agents.find((id) => id !== winner);
+  } else if (t.format === "round_robin") {
+    m.draw = true;
+  } else {
+    const [high, low] = [...agents].sort((a, b) => t.agentIds.indexOf(a) - t.agentIds.indexOf(b));
+    m.winnerAgentId = high;
+    m.loserAgentId  = low;
+    m.decidedBySeed = true;
+  }
+  m.status = "complete";
+  t.standings = computeStandings(t);
+  storage.saveTournament(t);
+  announce(t, m);
+}
+
+/** Settle a match whose play failed as if it had no winner, so the tournament moves on. */
+function forfeitMatch(tournamentId: string, matchId: string): void {
+  const t = storage.getTournament(tournamentId);
+  const m = t?.matches.find((x) => x.matchId === matchId);
+  if (!t || !m || m.status !== "running") return;
+  settleMatch(t, m, null);
+  advanceTournament(tournamentId);
+}
+
+/**
+ * Play one match to a result: battle, rematch on a tie, then the higher seed
+ * (elimination) or a draw (round robin).  Waits out a full job queue first.
+ * If it rejects, advanceTournament settles the match the same way.
+ */
+async function playMatch(tournamentId: string, matchId: string): Promise<void> {
+  for (let attempt = 0; ; attempt++) {
+    const before = storage.getTournament(tournamentId);
+    if (!before) return;
+    const agents = findMatch(before, matchId).agentIds as [AgentId, AgentId];
+
+    for (let full = checkCapacity(agents); full; full = checkCapacity(agents)) {
+      await delay(full.retryAfterSec * 1000);
+    }
+
+    // Read after the wait: other matches may have saved the tournament meanwhile
+    const t = storage.getTournament(tournamentId);
+    if (!t) return;
+    const m = findMatch(t, matchId);
+    const battle = addRunningBattle(
+      t.battleType, agents, deriveSeed(t.seed, `${matchId}:${attempt}`), t.scenario, { tournamentId, matchId },
+    );
+    m.battleIds.push(battle.battleId);
+    storage.saveTournament(t);
+    announce(t, m);
+
+    const decision = await runBattle(battle);
+
+    // Re-read: other matches may have saved the tournament in the meantime
+    const latest = storage.getTournament(tournamentId)!;
+    const match  = findMatch(latest, matchId);
+    match.battleIds = m.battleIds;
+    const winner = decision?.winnerAgentId ?? null;
+
+    if (!winner && latest.format !== "round_robin" && attempt < MAX_REMATCHES) {
+      storage.saveTournament(latest);
+      continue;
+    }
+
+    settleMatch(latest, match, winner);
+    advanceTournament(tournamentId);
+    return;
+  }
+}
+
+/** Create a tournament and start its first matches. */
+export function startTournament(spec: {
+  name:       string;
+  format:     TournamentFormat;
+  battleType: BattleType;
+  agentIds:   AgentId[];
+  seed:       number;
+  scenario:   MarketScenario;
+  seasonId?:  string;
+}): Tournament {
+  const t: Tournament = {
+    tournamentId: uuidv4(),
+    name:         spec.name,
+    format:       spec.format,
+    battleType:   spec.battleType,
+    agentIds:     spec.agentIds,
+    ...(spec.seasonId && { seasonId: spec.seasonId }),
+    seed:         spec.seed,
+    scenario:     spec.scenario,
+    status:       "running",
+    matches:      buildMatches(spec.format, spec.agentIds),
+    standings:    [],
+    createdAt:    Date.now(),
+  };
+  t.standings = computeStandings(t);
+  storage.saveTournament(t);
+  announce(t);
+  console.log(`[Tournament] ${t.name} started — ${t.format}, ${t.agentIds.length} agents, ${t.matches.length} matches`);
+
+  advanceTournament(t.tournamentId);
+  return storage.getTournament(t.tournamentId) ?? t;
+}
+
+/**
+ * Restart tournaments interrupted by a shutdown: a match that was running
+ * lost its battle, so it is played again.
+ */
+export function resumeTournaments(): void {
+  for (const t of listTournaments()) {
+    if (t.status !== "running") continue;
+    for (const m of t.matches) if (m.status === "running") m.status = "pending";
+    storage.saveTournament(t);
+    advanceTournament(t.tournamentId);
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * weightProfiles.ts — named AQI weight profiles.
+ *
+ * The built-ins (balanced / safest / fastest / cheapest) come from
+ * @agent-aqi/shared and are always present.  Custom profiles are saved via
+ * POST /aqi/profiles (admin) and persisted through the storage driver.
+ */
+
+import { BUILTIN_WEIGHT_PROFILES } from "@agent-aqi/shared";
+import type { AQIWeights, WeightProfile } from "@agent-aqi/shared";
+import { storage } from "../storage";
+
+const WEIGHT_KEYS: (keyof AQIWeights)[] = ["reliability", "safety", "speed", "economics", "feedback"];
+const PROFILE_NAME_RE = /^[a-z0-9][a-z0-9_-]{1,31}$/;
+
+/** Allowed drift from 1.0 when checking that weights sum to one. */
+const SUM_TOLERANCE = 0.001;
+
+// ─── Lookups ──────────────────────────────────────────────────────────────────
+
+/** Built-ins first, then custom profiles in creation order. */
+export function listWeightProfiles(): WeightProfile[] {
+  return [...BUILTIN_WEIGHT_PROFILES, ...storage.listWeightProfiles()];
+}
+
+export function getWeightProfile(name: string): WeightProfile | undefined {
+  return listWeightProfiles().find((p) => p.name === name);
+}
+
+export function isBuiltinWeightProfile(name: string): boolean {
+  return BUILTIN_WEIGHT_PROFILES.some((p) => p.name === name);
+}
+
+// ─── Mutations ────────────────────────────────────────────────────────────────
+
+export function saveWeightProfile(profile: WeightProfile): WeightProfile {
+  storage.saveWeightProfile(profile);
+  console.log(`[WeightProfiles] saved profile=${profile.name}`);
+  return profile;
+}
+
+/** Remove a custom profile. Returns false if it was not saved. */
+export function removeWeightProfile(name: string): boolean {
+  if (isBuiltinWeightProfile(name) || !getWeightProfile(name)) return false;
+  storage.deleteWeightProfile(name);
+  console.log(`[WeightProfiles] removed profile=${name}`);
+  return true;
+}
+
+// ─── Validation ───────────────────────────────────────────────────────────────
+
+/**
+ * Validate a custom profile from a request body.
+ * `existing` is passed on update so createdAt is preserved.
+ */
+export function parseWeightProfile(
+  body:      Record<string, unknown>,
+  existing?: WeightProfile,
+): { profile: WeightProfile } | { error: string } {
+  const { name, description } = body;
+
+  if (typeof name !== "string" || !PROFILE_NAME_RE.test(name)) {
+    return { error: "name must be 2-32 chars of lowercase letters, digits, '-' or '_'" };
+  }
+  if (isBuiltinWeightProfile(name)) {
+    return { error: `"${name}" is a built-in profile and cannot be redefined` };
+  }
+  if (description !== undefined && (typeof description !== "string" || description.length > 280)) {
+    return { error: "description must be a string (max 280 chars)" };
+  }
+
+  const raw = body["weights"];
+  if (typeof raw !== "object" || raw === null) return { error: "weights is required" };
+  const w = raw as Record<string, unknown>;
+
+  const weights = {} as AQIWeights;
+  for (const key of WEIGHT_KEYS) {
+    const v = w[key];
+    if (typeof v !== "number" || !Number.isFinite(v) || v < 0 || v > 1) {
+      return { error: `weights.${key} must be a number between 0 and 1` };
+    }
+    weights[key] = v;
+  }
+  const sum = WEIGHT_KEYS.reduce((s, k) => s + weights[k], 0);
+  if (Math.abs(sum - 1) > SUM_TOLERANCE) {
+    return { error: `weights must sum to 1 (got ${Math.round(sum * 1000) / 1000})` };
+  }
+
+  return {
+    profile: {
+      name,
+      description: (description as string | undefined) ?? "",
+      weights,
+      builtin:     false,
+      createdAt:   existing?.createdAt ?? Date.now(),
+    },
+  };
+}
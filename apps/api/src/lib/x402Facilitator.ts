@@ -0,0 +1,76 @@
+/**
+ * x402Facilitator.ts — mock x402 facilitator for the demo paywall.
+ *
+ * A real facilitator verifies an X-PAYMENT payload and settles it on-chain
+ * (transferWithAuthorization on the asset).  This one does the verification
+ * for real — scheme, network, recipient, amount, validity window, nonce reuse
+ * and the EIP-712 signature — but settles nothing: the "transaction" it
+ * returns is a hash of the signature, so receipts carry a stable id for the
+ * payment.  Used nonces are held in memory.
+ */
+
+import { keccak256, verifyTypedData } from "viem";
+import type { X402PaymentRequirements } from "@agent-aqi/shared";
+import {
+  TRANSFER_WITH_AUTHORIZATION_TYPES,
+  X402_CHAIN_IDS,
+  assetDomain,
+} from "../integrations/x402";
+import type { X402PaymentPayload, X402SettlementResponse } from "../integrations/x402";
+
+/** Nonces already settled, per payer (lower-cased "payer:nonce"). */
+const usedNonces = new Set<string>();
+
+function nonceKey(payment: X402PaymentPayload): string {
+  const { from, nonce } = payment.payload.authorization;
+  return `${from}:${nonce}`.toLowerCase();
+}
+
+/** Why `payment` does not satisfy `req`, or null when it does. */
+export async function verifyPayment(
+  payment: X402PaymentPayload,
+  req:     X402PaymentRequirements,
+): Promise<string | null> {
+  const auth = payment.payload?.authorization;
+  if (!auth || typeof payment.payload.signature !== "string") return "malformed payment payload";
+  if (payment.scheme !== req.scheme || payment.network !== req.network) return "scheme or network mismatch";
+  if (!(req.network in X402_CHAIN_IDS)) return `unsupported network "${req.network}"`;
+  if (String(auth.to).toLowerCase() !== req.payTo.toLowerCase()) return "payment recipient mismatch";
+
+  let value: bigint, validAfter: bigint, validBefore: bigint;
+  try {
+    [value, validAfter, validBefore] = [BigInt(auth.value), BigInt(auth.validAfter), BigInt(auth.validBefore)];
+  } catch {
+    return "malformed authorization amounts";
+  }
+  if (value < BigInt(req.maxAmountRequired)) return "payment amount below the price";
+  const now = BigInt(Math.floor(Date.now() / 1000));
+  if (validAfter > now || validBefore <= now) return "authorization is outside its validity window";
+  if (usedNonces.has(nonceKey(payment))) return "authorization nonce already used";
+
+  const valid = await verifyTypedData({
+    address:     auth.from,
+    domain:      assetDomain(req),
+    types:       TRANSFER_WITH_AUTHORIZATION_TYPES,
+    primaryType: "TransferWithAuthorization",
+    message:     { ...auth, value, validAfter, validBefore },
+    signature:   payment.payload.signature,
+  }).catch(() => false);
+  return valid ? null : "invalid signature";
+}
+
+/**
+ * "Settle" a verified payment: burn its nonce and return a mock tx id.
+ * Fails when the same authorization was settled since it was verified.
+ */
+export function settlePayment(payment: X402PaymentPayload): X402SettlementResponse {
+  const key = nonceKey(payment);
+  const success = !usedNonces.has(key);
+  usedNonces.add(key);
+  return {
+    success,
+    ...(success && { transaction: keccak256(payment.payload.signature) }),
+    network:     payment.network,
+    payer:       payment.payload.authorization.from,
+  };
+}
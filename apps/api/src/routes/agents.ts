@@ -1,65 +1,197 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
-import { computeAQI } from "@agent-aqi/shared";
-import type { AgentId, AgentSummary } from "@agent-aqi/shared";
-import { AGENT_META } from "../agents";
-import { receipts, getReceiptsByAgent } from "../store";
+import { computeAQI, explainAQI } from "@agent-aqi/shared";
+import type { AgentDefinition, AgentSummary, AQIOptions, WeightProfile } from "@agent-aqi/shared";
+import { getReceiptsByAgent } from "../store";
+import { requireAdmin } from "../lib/auth";
+import { parseAQIQuery, parseDuration } from "../lib/aqiQuery";
+import { getAQIHistory } from "../lib/aqiSnapshots";
+import {
+  getAgent,
+  isBuiltinAgent,
+  listAgents,
+  parseAgentDefinition,
+  registerAgent,
+  removeAgent,
+} from "../lib/agentRegistry";
 
 const router = Router();
 
-const ALL_AGENTS: AgentId[] = ["safe", "fast", "cheap"];
+interface AQIScope {
+  options: AQIOptions;
+  /** True when ?window / ?lastN / ?halfLife narrowed the receipts */
+  scoped:  boolean;
+  profile: WeightProfile;
+}
+
+/**
+ * Scores use `scope.profile`.  When scoped, `aqi` covers only that slice and
+ * the all-time score is returned alongside it as `aqiAllTime` — without the
+ * bootstrap interval, so each agent is resampled once per request.
+ */
+function summarize(agent: AgentDefinition, scope: AQIScope): AgentSummary {
+  const agentReceipts = getReceiptsByAgent(agent.agentId);
+  const aqi = computeAQI(agentReceipts, scope.profile, scope.options);
+  const fulfilled = agentReceipts.filter(
+    (r) => r.outcome.status === "fulfilled",
+  ).length;
+  return {
+    agentId:      agent.agentId,
+    displayName:  agent.displayName,
+    description:  agent.description,
+    aqi,
+    ...(scope.scoped && {
+      aqiAllTime: computeAQI(agentReceipts, scope.profile, {
+        minSamples:       scope.options.minSamples,
+        bootstrapSamples: 0,
+      }),
+    }),
+    totalJobs:    agentReceipts.length,
+    successRate:  agentReceipts.length
+      ? Math.round((fulfilled / agentReceipts.length) * 1000) / 10
+      : 0,
+  };
+}
+
+const RANK_MODES = ["score", "lower"] as const;
+type RankMode = (typeof RANK_MODES)[number];
 
 // GET /agents — leaderboard
-router.get("/", (_req: Request, res: Response) => {
-  const summaries: AgentSummary[] = ALL_AGENTS.map((agentId) => {
-    const agentReceipts = getReceiptsByAgent(agentId);
-    const aqi = computeAQI(agentReceipts);
-    const meta = AGENT_META[agentId];
-    const fulfilled = agentReceipts.filter(
-      (r) => r.outcome.status === "fulfilled",
-    ).length;
-    return {
-      agentId,
-      displayName:  meta.displayName,
-      description:  meta.description,
-      aqi,
-      totalJobs:    agentReceipts.length,
-      successRate:  agentReceipts.length
-        ? Math.round((fulfilled / agentReceipts.length) * 1000) / 10
-        : 0,
-    };
-  });
+//   ?window=24h|7d|all, ?lastN=, ?halfLife=, ?minSamples=
+//   ?profile=balanced (default) | safest | fastest | cheapest | <custom>
+//   ?rank=score (default) | lower — sort by the composite's lower 95 % bound,
+//   so an agent with two lucky jobs cannot outrank a proven one
+router.get("/", (req: Request, res: Response) => {
+  const aqiQuery = parseAQIQuery(req.query);
+  if ("error" in aqiQuery) {
+    res.status(400).json({ error: aqiQuery.error });
+    return;
+  }
+  const rank = (req.query["rank"] ?? "score") as RankMode;
+  if (!RANK_MODES.includes(rank)) {
+    res.status(400).json({ error: `rank must be one of: ${RANK_MODES.join(", ")}` });
+    return;
+  }
 
-  // Sort by AQI descending
-  summaries.sort((a, b) => b.aqi.score - a.aqi.score);
+  const summaries: AgentSummary[] = listAgents().map((a) => summarize(a, aqiQuery));
+
+  // Sort by AQI (or its lower confidence bound) descending
+  const key = (s: AgentSummary) => (rank === "lower" ? s.aqi.confidence.score.lower : s.aqi.score);
+  summaries.sort((a, b) => key(b) - key(a) || b.aqi.score - a.aqi.score);
   res.json(summaries);
 });
 
-// GET /agents/:id — detail
-router.get("/:id", (req: Request, res: Response) => {
-  const agentId = req.params["id"] as AgentId;
-  if (!ALL_AGENTS.includes(agentId)) {
+// GET /agents/registry — full definitions of every registered agent
+router.get("/registry", (_req: Request, res: Response) => {
+  res.json(listAgents());
+});
+
+// POST /agents — admin: register (201) or update (200) a custom agent
+router.post("/", requireAdmin, (req: Request, res: Response) => {
+  const body     = req.body as Record<string, unknown>;
+  const existing = typeof body["agentId"] === "string" ? getAgent(body["agentId"]) : undefined;
+
+  const parsed = parseAgentDefinition(body, existing);
+  if ("error" in parsed) {
+    res.status(isBuiltinAgent(String(body["agentId"])) ? 409 : 400).json({ error: parsed.error });
+    return;
+  }
+
+  const agent = registerAgent(parsed.definition);
+  res.status(existing ? 200 : 201).json(agent);
+});
+
+// DELETE /agents/:id — admin: remove a custom agent (receipts are kept)
+router.delete("/:id", requireAdmin, (req: Request, res: Response) => {
+  const agentId = req.params["id"] ?? "";
+  if (isBuiltinAgent(agentId)) {
+    res.status(409).json({ error: `"${agentId}" is a built-in agent and cannot be removed` });
+    return;
+  }
+  if (!removeAgent(agentId)) {
     res.status(404).json({ error: "Agent not found" });
     return;
   }
+  res.status(204).end();
+});
 
-  const agentReceipts = getReceiptsByAgent(agentId);
-  const aqi = computeAQI(agentReceipts);
-  const meta = AGENT_META[agentId];
-  const fulfilled = agentReceipts.filter(
-    (r) => r.outcome.status === "fulfilled",
-  ).length;
+// GET /agents/:id/explain — per-receipt AQI breakdown
+//   Same AQI query params as the leaderboard; ?limit= caps the receipts
+//   returned (default 50, newest), while `aqi` still covers the full selection.
+router.get("/:id/explain", (req: Request, res: Response) => {
+  const agent = getAgent(req.params["id"] ?? "");
+  if (!agent) {
+    res.status(404).json({ error: "Agent not found" });
+    return;
+  }
+  const aqiQuery = parseAQIQuery(req.query);
+  if ("error" in aqiQuery) {
+    res.status(400).json({ error: aqiQuery.error });
+    return;
+  }
+  const limit = Number(req.query["limit"] ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    res.status(400).json({ error: "limit must be an integer between 1 and 500" });
+    return;
+  }
 
+  const explanation = explainAQI(getReceiptsByAgent(agent.agentId), aqiQuery.profile, aqiQuery.options);
   res.json({
-    agentId,
-    displayName:  meta.displayName,
-    description:  meta.description,
-    aqi,
-    totalJobs:    agentReceipts.length,
-    successRate:  agentReceipts.length
-      ? Math.round((fulfilled / agentReceipts.length) * 1000) / 10
-      : 0,
-    receipts: agentReceipts.slice(-50), // last 50
+    agentId:  agent.agentId,
+    ...explanation,
+    receipts: explanation.receipts.slice(-limit),
+  });
+});
+
+// GET /agents/:id/history — AQI time series from periodic snapshots
+//   ?interval=1h (bucket size, default 1h) ?range=7d (lookback, default 7d)
+router.get("/:id/history", (req: Request, res: Response) => {
+  const agent = getAgent(req.params["id"] ?? "");
+  if (!agent) {
+    res.status(404).json({ error: "Agent not found" });
+    return;
+  }
+  const interval   = typeof req.query["interval"] === "string" ? req.query["interval"] : "1h";
+  const range      = typeof req.query["range"]    === "string" ? req.query["range"]    : "7d";
+  const intervalMs = parseDuration(interval);
+  const rangeMs    = parseDuration(range);
+  if (intervalMs === undefined || intervalMs < 60_000) {
+    res.status(400).json({ error: "interval must be a duration of at least 1m (e.g. 15m, 1h, 1d)" });
+    return;
+  }
+  if (rangeMs === undefined || rangeMs < intervalMs) {
+    res.status(400).json({ error: "range must be a duration no shorter than interval (e.g. 24h, 7d)" });
+    return;
+  }
+  if (rangeMs / intervalMs > 2000) {
+    res.status(400).json({ error: "range / interval must not exceed 2000 points" });
+    return;
+  }
+
+  res.json({
+    agentId: agent.agentId,
+    interval,
+    range,
+    points:  getAQIHistory(agent.agentId, intervalMs, rangeMs),
+  });
+});
+
+// GET /agents/:id — detail (same AQI query params as the leaderboard)
+router.get("/:id", (req: Request, res: Response) => {
+  const agent = getAgent(req.params["id"] ?? "");
+  if (!agent) {
+    res.status(404).json({ error: "Agent not found" });
+    return;
+  }
+  const aqiQuery = parseAQIQuery(req.query);
+  if ("error" in aqiQuery) {
+    res.status(400).json({ error: aqiQuery.error });
+    return;
+  }
+
+  res.json({
+    ...summarize(agent, aqiQuery),
+    receipts: getReceiptsByAgent(agent.agentId).slice(-50), // last 50
   });
 });
 
@@ -0,0 +1,59 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { requireAdmin } from "../lib/auth";
+import {
+  getWeightProfile,
+  isBuiltinWeightProfile,
+  listWeightProfiles,
+  parseWeightProfile,
+  removeWeightProfile,
+  saveWeightProfile,
+} from "../lib/weightProfiles";
+
+const router = Router();
+
+// GET /aqi/profiles — built-in + custom weight profiles
+router.get("/profiles", (_req: Request, res: Response) => {
+  res.json(listWeightProfiles());
+});
+
+// GET /aqi/profiles/:name
+router.get("/profiles/:name", (req: Request, res: Response) => {
+  const profile = getWeightProfile(req.params["name"] ?? "");
+  if (!profile) {
+    res.status(404).json({ error: "Profile not found" });
+    return;
+  }
+  res.json(profile);
+});
+
+// POST /aqi/profiles — admin: create (201) or update (200) a custom profile
+router.post("/profiles", requireAdmin, (req: Request, res: Response) => {
+  const body     = req.body as Record<string, unknown>;
+  const existing = typeof body["name"] === "string" ? getWeightProfile(body["name"]) : undefined;
+
+  const parsed = parseWeightProfile(body, existing);
+  if ("error" in parsed) {
+    res.status(isBuiltinWeightProfile(String(body["name"])) ? 409 : 400).json({ error: parsed.error });
+    return;
+  }
+
+  const profile = saveWeightProfile(parsed.profile);
+  res.status(existing ? 200 : 201).json(profile);
+});
+
+// DELETE /aqi/profiles/:name — admin: remove a custom profile
+router.delete("/profiles/:name", requireAdmin, (req: Request, res: Response) => {
+  const name = req.params["name"] ?? "";
+  if (isBuiltinWeightProfile(name)) {
+    res.status(409).json({ error: `"${name}" is a built-in profile and cannot be removed` });
+    return;
+  }
+  if (!removeWeightProfile(name)) {
+    res.status(404).json({ error: "Profile not found" });
+    return;
+  }
+  res.status(204).end();
+});
+
+export default router;
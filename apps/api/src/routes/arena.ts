@@ -1,189 +1,290 @@
 /**
  * Arena Battle orchestration
  *
- * POST /arena/battle       — create + start a multi-agent battle
- * GET  /arena/battle/:id   — poll battle status + scoreboard
+ * POST /arena/battle            — create + start a multi-agent battle
+ * POST /arena/battle/:id/replay — re-run a battle from its recorded seed
+ * GET  /arena/battle/:id        — poll battle status + scoreboard
  *
  * Battle types:
  *   speed       – lowest latencyMs wins
  *   gas         – lowest gasUsedUsd wins
  *   reliability – best success rate in last 10 historical receipts wins
  *   slippage    – lowest slippageBps wins (meaningful when quoteResult present)
+ *
+ * Jobs are run and battles settled by lib/battleRunner.ts, which tournaments
+ * (routes/tournaments.ts) share.
+ *
+ * Admins can add composite battle types (GET / POST / DELETE
+ * /arena/battle-types): disqualification rules plus weighted score terms,
+ * defined in lib/battleTypes.ts and judged by lib/battleDecision.ts.
+ *
+ * Tie-breakers and tie handling live in lib/battleDecision.ts.  A battle that
+ * is still tied after every tie-breaker has no winner: paper bets are refunded
+ * and the prediction pool is left unresolved.
+ *
+ * Every battle records a `seed` (random unless the caller passes one).  Each
+ * agent's sim job is seeded with deriveSeed(seed, agentId), so a replay
+ * reproduces every scorecard exactly.  Reliability decisions also read the
+ * agents' receipt history, which a replay cannot rewind.
+ *
+ * Battles also take a market `scenario` (calm by default, see
+ * lib/scenarios.ts) that every agent's sim job runs under; replays keep it.
+ *
+ * POST /arena/battle and /arena/admin/open take `rounds` (1–25, default 1):
+ * a best-of-N series runs each agent that many times and decides on the
+ * aggregated rounds with significance tests (lib/battleStats.ts).
+ *
+ * POST /arena/battle honours an Idempotency-Key header (lib/idempotency.ts).
+ *
+ * Lobbies (lib/lobbies.ts): an admin opens any number of betting lobbies with
+ * POST /arena/admin/open, lists them with GET /arena/lobbies, and runs or
+ * cancels each by id (POST /arena/admin/run, /arena/admin/cancel).  Bets close
+ * at `bettingClosesAt` or when the lobby runs; a lobby runs by itself at
+ * `autoStartAt` (else when betting closes).
  */
 
 import { Router } from "express";
-import type { Request, Response, NextFunction } from "express";
+import type { Request, Response } from "express";
 import { v4 as uuidv4 } from "uuid";
-import type { AgentId, BattleType, SwapParams } from "@agent-aqi/shared";
-import {
-  addBattle,
-  getBattle,
-  getRecentBattles,
-  updateBattleScorecard,
-  startBattle,
-  finalizeBattle,
-  getReceiptsByAgent,
-  emitEvent,
-  setCurrentBattleId,
-  getCurrentBattleId,
-} from "../store";
-import { runJob } from "../lib/runJob";
+import { isValidSeed, randomSeed } from "@agent-aqi/shared";
+import type { AgentId, BattleLobbySettings, BattleRecord, BattleStatus, BattleType, SwapParams } from "@agent-aqi/shared";
+import { getBattle, getRecentBattles } from "../store";
+import { checkCapacity } from "../lib/jobQueue";
+import type { QueueRejection } from "../lib/jobQueue";
 import { parseSwapParams } from "./jobs";
-import { canAutoResolve, resolvePredictionBattle } from "../lib/predictionPool";
-import { resolvePaperBets } from "../lib/paperBets";
+import { addRunningBattle, runBattle, withCustomType } from "../lib/battleRunner";
+import {
+  BUILTIN_BATTLE_TYPES,
+  getCustomBattleType,
+  isBattleType,
+  isBuiltinBattleType,
+  listBattleTypeNames,
+  listCustomBattleTypes,
+  parseCustomBattleType,
+  removeBattleType,
+  saveBattleType,
+} from "../lib/battleTypes";
+import { MAX_BATTLE_ROUNDS } from "../lib/battleStats";
+import { DEFAULT_SCENARIO, parseScenario } from "../lib/scenarios";
+import { idempotent } from "../lib/idempotency";
+import { requireAdmin } from "../lib/auth";
+import {
+  MAX_LOBBY_WAIT_MS,
+  MAX_OPEN_LOBBIES,
+  cancelLobby,
+  countOpenLobbies,
+  getLatestLobby,
+  listLobbies,
+  openLobby,
+  runLobby,
+} from "../lib/lobbies";
+import { BUILTIN_AGENT_IDS, isRegisteredAgent, listAgentIds } from "../lib/agentRegistry";
 
 const router = Router();
 
-const VALID_AGENTS: AgentId[]    = ["safe", "fast", "cheap"];
-const VALID_TYPES:  BattleType[] = ["speed", "gas", "reliability", "slippage"];
+const SEED_ERROR = "seed must be an integer between 0 and 4294967295";
 
-// ─── Admin auth middleware ────────────────────────────────────────────────────
+const BATTLE_STATUSES: BattleStatus[] = ["lobby", "running", "complete", "cancelled"];
 
-function requireAdmin(req: Request, res: Response, next: NextFunction): void {
-  const expected = process.env["ADMIN_TOKEN"];
-  if (!expected) {
-    res.status(503).json({ error: "ADMIN_TOKEN not configured on server" });
-    return;
-  }
-  const provided = req.headers["x-admin-token"] as string | undefined;
-  if (!provided || provided !== expected) {
-    res.status(403).json({ error: "Forbidden — invalid admin token" });
-    return;
+// ─── Shared helpers ───────────────────────────────────────────────────────────
+
+/** Send a 429 / 503 when the job queue cannot take one job per agent. */
+function rejectIfQueueFull(res: Response, agentIds: AgentId[]): boolean {
+  const rejection: QueueRejection | null = checkCapacity(agentIds);
+  if (!rejection) return false;
+  res.setHeader("Retry-After", String(rejection.retryAfterSec));
+  res.status(rejection.status).json({ error: rejection.error });
+  return true;
+}
+
+/** Best-of-N series length; 1 when omitted. */
+function parseRounds(raw: unknown): { rounds: number } | { error: string } {
+  if (raw === undefined) return { rounds: 1 };
+  if (!Number.isInteger(raw) || (raw as number) < 1 || (raw as number) > MAX_BATTLE_ROUNDS) {
+    return { error: `rounds must be an integer between 1 and ${MAX_BATTLE_ROUNDS}` };
   }
-  next();
+  return { rounds: raw as number };
 }
 
-// ─── Shared job runner (used by both POST /battle and POST /admin/run) ────────
-
-async function runBattleJobs(battleId: string, agentIds: AgentId[]): Promise<void> {
-  const mode = (process.env["EXECUTION_MODE"] ?? "sim") as "sim" | "quote" | "real";
-
-  const jobPromises = agentIds.map(async (agentId) => {
-    const jobId = uuidv4();
-    updateBattleScorecard(battleId, agentId, { jobId, status: "running" });
-    try {
-      const receipt = await runJob({ jobId, agentId, jobType: "swap", mode, battleId });
-      updateBattleScorecard(battleId, agentId, {
-        jobId,
-        status:      receipt.outcome.status,
-        latencyMs:   receipt.outcome.latencyMs,
-        gasUsedUsd:  receipt.outcome.gasUsedUsd,
-        slippageBps: receipt.outcome.slippageBps,
-        quotedOut:   receipt.quoteResult?.quotedOut,
-      });
-    } catch {
-      updateBattleScorecard(battleId, agentId, { status: "failed" });
+/** A battle's contenders: 2–3 distinct registered agent ids. */
+function parseBattleAgentIds(raw: unknown): { agentIds: AgentId[] } | { error: string } {
+  if (!Array.isArray(raw) || raw.length < 2 || raw.length > 3) {
+    return { error: "agentIds must be an array of 2–3 agent ids" };
+  }
+  for (const id of raw) {
+    if (!isRegisteredAgent(id)) {
+      return { error: `Unknown agentId "${String(id)}". Valid: ${listAgentIds().join(", ")}` };
     }
-  });
+  }
+  if (new Set(raw).size !== raw.length) return { error: "agentIds must not repeat an agent" };
+  return { agentIds: raw as AgentId[] };
+}
 
-  await Promise.allSettled(jobPromises);
+// ─── Lobbies ──────────────────────────────────────────────────────────────────
+// Admin-opened battles the audience bets on before any job runs; several can be
+// open at once (lib/lobbies.ts).
+
+/** A future epoch-ms time no more than MAX_LOBBY_WAIT_MS away, or undefined. */
+function parseLobbyTime(raw: unknown, field: string): { at?: number } | { error: string } {
+  if (raw === undefined) return {};
+  const now = Date.now();
+  if (!Number.isInteger(raw) || (raw as number) <= now || (raw as number) > now + MAX_LOBBY_WAIT_MS) {
+    return { error: `${field} must be an epoch-ms time in the next ${MAX_LOBBY_WAIT_MS / 3_600_000} hours` };
+  }
+  return { at: raw as number };
+}
+
+function parseLobbySettings(body: Record<string, unknown>): { lobby: BattleLobbySettings } | { error: string } {
+  const title = body["title"];
+  if (title !== undefined && (typeof title !== "string" || title.trim().length === 0 || title.length > 80)) {
+    return { error: "title must be a non-empty string (max 80 chars)" };
+  }
+  const closes = parseLobbyTime(body["bettingClosesAt"], "bettingClosesAt");
+  if ("error" in closes) return closes;
+  const start = parseLobbyTime(body["autoStartAt"], "autoStartAt");
+  if ("error" in start) return start;
+  if (closes.at !== undefined && start.at !== undefined && start.at < closes.at) {
+    return { error: "autoStartAt must not be before bettingClosesAt" };
+  }
+  return {
+    lobby: {
+      ...(typeof title === "string" && { title: title.trim() }),
+      ...(closes.at !== undefined && { bettingClosesAt: closes.at }),
+      ...(start.at  !== undefined && { autoStartAt:     start.at }),
+    },
+  };
 }
 
-// ─── POST /arena/admin/open ────────────────────────────────────────────────────
-// Admin-only: create a lobby battle (no jobs run yet). Audience can place bets.
+/** Resolve `battleId` to an open lobby, or send the 404 / 409. */
+function openLobbyOr404(res: Response, battleId: string): BattleRecord | undefined {
+  const battle = getBattle(battleId);
+  if (!battle?.lobby) {
+    res.status(404).json({ error: "Lobby not found" });
+    return undefined;
+  }
+  if (battle.status !== "lobby") {
+    res.status(409).json({ error: `Lobby is already "${battle.status}"` });
+    return undefined;
+  }
+  return battle;
+}
 
+// GET /arena/lobbies — newest first; open and running ones unless ?status= is given
+router.get("/lobbies", (req: Request, res: Response) => {
+  const status = req.query["status"];
+  if (status !== undefined && !BATTLE_STATUSES.includes(status as BattleStatus)) {
+    res.status(400).json({ error: `status must be one of: ${BATTLE_STATUSES.join(", ")}` });
+    return;
+  }
+  res.json(listLobbies(status ? [status as BattleStatus] : ["lobby", "running"]));
+});
+
+// POST /arena/admin/open — admin:
+//   { battleType, agentIds?, seed?, scenario?, rounds?, title?, bettingClosesAt?, autoStartAt? }
 router.post("/admin/open", requireAdmin, (req: Request, res: Response) => {
   const body       = req.body as Record<string, unknown>;
   const battleType = body["battleType"] as string | undefined;
-  const rawIds     = (body["agentIds"] as string[] | undefined) ?? ["safe", "fast", "cheap"];
 
-  if (!battleType || !VALID_TYPES.includes(battleType as BattleType)) {
-    res.status(400).json({ error: `battleType must be one of: ${VALID_TYPES.join(", ")}` });
+  if (!isBattleType(battleType)) {
+    res.status(400).json({ error: `battleType must be one of: ${listBattleTypeNames().join(", ")}` });
     return;
   }
-  for (const id of rawIds) {
-    if (!VALID_AGENTS.includes(id as AgentId)) {
-      res.status(400).json({ error: `Unknown agentId "${id}"` });
-      return;
-    }
+  const parsedIds = parseBattleAgentIds(body["agentIds"] ?? BUILTIN_AGENT_IDS);
+  if ("error" in parsedIds) {
+    res.status(400).json({ error: parsedIds.error });
+    return;
+  }
+
+  if (body["seed"] !== undefined && !isValidSeed(body["seed"])) {
+    res.status(400).json({ error: SEED_ERROR });
+    return;
+  }
+  const parsedScenario = parseScenario(body["scenario"]);
+  if ("error" in parsedScenario) {
+    res.status(400).json({ error: parsedScenario.error });
+    return;
+  }
+  const parsedRounds = parseRounds(body["rounds"]);
+  if ("error" in parsedRounds) {
+    res.status(400).json({ error: parsedRounds.error });
+    return;
+  }
+  const { rounds } = parsedRounds;
+  const parsedLobby = parseLobbySettings(body);
+  if ("error" in parsedLobby) {
+    res.status(400).json({ error: parsedLobby.error });
+    return;
   }
 
-  const battleId = uuidv4();
-  const ids      = rawIds as AgentId[];
-  const type     = battleType as BattleType;
+  if (countOpenLobbies() >= MAX_OPEN_LOBBIES) {
+    res.status(409).json({ error: `At most ${MAX_OPEN_LOBBIES} lobbies can be open — run or cancel one first` });
+    return;
+  }
+
+  const ids  = parsedIds.agentIds;
+  const type = battleType as BattleType;
 
-  addBattle({
-    battleId,
+  const battle = openLobby({
+    battleId:   uuidv4(),
     createdAt:  Date.now(),
     battleType: type,
     agentIds:   ids,
     scorecards: ids.map((id) => ({ agentId: id, status: "pending" as const })),
     status:     "lobby",
+    ...withCustomType(type),
+    seed:       (body["seed"] as number | undefined) ?? randomSeed(),
+    scenario:   parsedScenario.scenario,
+    ...(rounds > 1 && { rounds }),
+    lobby:      parsedLobby.lobby,
   });
 
-  setCurrentBattleId(battleId);
-
-  emitEvent("battle_open", { battleId, battleType: type, agentIds: ids });
-
-  console.log(`[Arena] lobby opened battle=${battleId} type=${type}`);
-  res.status(201).json({ battleId, battleType: type, agentIds: ids, status: "lobby" });
+  console.log(`[Arena] lobby opened battle=${battle.battleId} type=${type} rounds=${rounds}`);
+  res.status(201).json({
+    battleId: battle.battleId, battleType: type, agentIds: ids, rounds, status: "lobby", lobby: battle.lobby,
+  });
 });
 
-// ─── POST /arena/admin/run ────────────────────────────────────────────────────
-// Admin-only: fire the jobs for the current lobby battle.
-
+// POST /arena/admin/run — admin: { battleId? }; defaults to the newest open lobby
 router.post("/admin/run", requireAdmin, async (req: Request, res: Response) => {
-  const battleId = getCurrentBattleId();
-  if (!battleId) {
-    res.status(404).json({ error: "No active lobby — open one first with POST /arena/admin/open" });
+  const requested = (req.body as Record<string, unknown>)["battleId"];
+  if (requested !== undefined && typeof requested !== "string") {
+    res.status(400).json({ error: "battleId must be a string" });
     return;
   }
-
-  const battle = getBattle(battleId);
-  if (!battle) {
-    res.status(404).json({ error: "Battle record missing" });
-    return;
-  }
-  if (battle.status !== "lobby") {
-    res.status(409).json({ error: `Battle is already "${battle.status}" — open a new one` });
+  const battleId = requested ?? listLobbies(["lobby"])[0]?.battleId;
+  if (!battleId) {
+    res.status(404).json({ error: "No open lobby — open one first with POST /arena/admin/open" });
     return;
   }
 
-  startBattle(battleId);
+  const battle = openLobbyOr404(res, battleId);
+  if (!battle) return;
+
+  if (rejectIfQueueFull(res, battle.agentIds)) return;
 
   // Respond immediately — jobs run async
   res.status(202).json({ battleId, battleType: battle.battleType, status: "running" });
 
-  await runBattleJobs(battleId, battle.agentIds);
-
-  const winner = determineWinner(battleId, battle.battleType);
-  finalizeBattle(battleId, winner);
-
-  emitEvent("battle_complete", {
-    battleId,
-    battleType:    battle.battleType,
-    winnerAgentId: winner ?? null,
-    scorecards:    getBattle(battleId)?.scorecards ?? [],
-  });
-
-  console.log(`[Arena] admin/run battle=${battleId} winner=${winner ?? "none"}`);
-
-  if (winner) {
-    try { resolvePaperBets(battleId, winner); } catch (e) {
-      console.error(`[PaperBets] resolve failed:`, e);
-    }
-  }
+  await runLobby(battle);
+});
 
-  if (winner && canAutoResolve()) {
-    resolvePredictionBattle(battleId, winner)
-      .then((result) => {
-        if (!result) return;
-        const b = getBattle(battleId);
-        if (b) b.resolveTxHash = result.txHash;
-        emitEvent("prediction_resolved", { battleId, winnerAgentId: winner, resolveTxHash: result.txHash });
-      })
-      .catch((e: unknown) => console.error(`[Prediction] resolve failed:`, e));
+// POST /arena/admin/cancel — admin: { battleId }; paper bets are voided
+router.post("/admin/cancel", requireAdmin, (req: Request, res: Response) => {
+  const battleId = (req.body as Record<string, unknown>)["battleId"];
+  if (typeof battleId !== "string" || !battleId) {
+    res.status(400).json({ error: "battleId is required" });
+    return;
   }
+  const battle = openLobbyOr404(res, battleId);
+  if (!battle) return;
+  res.json(cancelLobby(battle));
 });
 
 // ─── GET /arena/current ───────────────────────────────────────────────────────
-// Returns the currently live battle (lobby / running / just-completed).
+// Returns the most recently opened lobby (lobby / running / complete / cancelled).
 
 router.get("/current", (_req: Request, res: Response) => {
-  const battleId = getCurrentBattleId();
-  if (!battleId) { res.json({ battle: null }); return; }
-  const battle = getBattle(battleId);
-  res.json({ battle: battle ?? null });
+  res.json({ battle: getLatestLobby() ?? null });
 });
 
 // ─── x402 payment gate ────────────────────────────────────────────────────────
@@ -228,47 +329,9 @@ function checkX402(req: Request): X402Body | null {
   };
 }
 
-// ─── Winner determination ─────────────────────────────────────────────────────
-
-function determineWinner(battleId: string, battleType: BattleType): AgentId | undefined {
-  const battle = getBattle(battleId);
-  if (!battle) return undefined;
-
-  const cards = battle.scorecards;
-
-  if (battleType === "reliability") {
-    let best: { agentId: AgentId; rate: number } | null = null;
-    for (const card of cards) {
-      const hist  = getReceiptsByAgent(card.agentId).slice(-10);
-      const rate  = hist.length
-        ? hist.filter((r) => r.outcome.status === "fulfilled").length / hist.length
-        : 0;
-      if (!best || rate > best.rate) best = { agentId: card.agentId, rate };
-    }
-    return best?.agentId;
-  }
-
-  const fulfilled = cards.filter((c) => c.status === "fulfilled");
-  const pool      = fulfilled.length > 0 ? fulfilled : cards; // fallback to all if none succeeded
-
-  if (battleType === "speed") {
-    return [...pool].sort((a, b) => (a.latencyMs ?? Infinity) - (b.latencyMs ?? Infinity))[0]?.agentId;
-  }
-  if (battleType === "gas") {
-    return [...pool].sort((a, b) => (a.gasUsedUsd ?? Infinity) - (b.gasUsedUsd ?? Infinity))[0]?.agentId;
-  }
-  if (battleType === "slippage") {
-    const withSlip = pool.filter((c) => c.slippageBps !== undefined);
-    const src      = withSlip.length > 0 ? withSlip : pool;
-    return [...src].sort((a, b) => (a.slippageBps ?? Infinity) - (b.slippageBps ?? Infinity))[0]?.agentId;
-  }
-
-  return undefined;
-}
-
 // ─── POST /arena/battle ───────────────────────────────────────────────────────
 
-router.post("/battle", async (req: Request, res: Response) => {
+router.post("/battle", idempotent("battle"), async (req: Request, res: Response) => {
   // ── x402 gate ──────────────────────────────────────────────────────────────
   const gate = checkX402(req);
   if (gate) {
@@ -282,23 +345,18 @@ router.post("/battle", async (req: Request, res: Response) => {
   const rawSwap    = body["swapParams"] as Record<string, unknown> | undefined;
 
   // ── Validation ─────────────────────────────────────────────────────────────
-  if (!battleType || !VALID_TYPES.includes(battleType as BattleType)) {
-    res.status(400).json({ error: `battleType must be one of: ${VALID_TYPES.join(", ")}` });
+  if (!isBattleType(battleType)) {
+    res.status(400).json({ error: `battleType must be one of: ${listBattleTypeNames().join(", ")}` });
     return;
   }
-  if (!Array.isArray(rawIds) || rawIds.length < 2 || rawIds.length > 3) {
-    res.status(400).json({ error: "agentIds must be an array of 2–3 agent ids" });
+  const parsedIds = parseBattleAgentIds(rawIds);
+  if ("error" in parsedIds) {
+    res.status(400).json({ error: parsedIds.error });
     return;
   }
-  for (const id of rawIds as string[]) {
-    if (!VALID_AGENTS.includes(id as AgentId)) {
-      res.status(400).json({ error: `Unknown agentId "${id}". Valid: ${VALID_AGENTS.join(", ")}` });
-      return;
-    }
-  }
 
   const mode = (process.env["EXECUTION_MODE"] ?? "sim") as "sim" | "quote" | "real"; // for response only
-  const ids  = rawIds as AgentId[];
+  const ids  = parsedIds.agentIds;
   const type = battleType as BattleType;
 
   // ── Parse swapParams (optional) ─────────────────────────────────────────────
@@ -312,63 +370,124 @@ router.post("/battle", async (req: Request, res: Response) => {
     swapParams = parsed.params;
   }
 
-  // ── Create battle record ────────────────────────────────────────────────────
-  const battleId = uuidv4();
+  if (body["seed"] !== undefined && !isValidSeed(body["seed"])) {
+    res.status(400).json({ error: SEED_ERROR });
+    return;
+  }
+  const seed = (body["seed"] as number | undefined) ?? randomSeed();
 
-  addBattle({
-    battleId,
-    createdAt:  Date.now(),
-    battleType: type,
-    agentIds:   ids,
-    scorecards: ids.map((id) => ({ agentId: id, status: "pending" as const })),
-    status:     "running",
-  });
+  const parsedScenario = parseScenario(body["scenario"]);
+  if ("error" in parsedScenario) {
+    res.status(400).json({ error: parsedScenario.error });
+    return;
+  }
+  const { scenario } = parsedScenario;
+
+  const parsedRounds = parseRounds(body["rounds"]);
+  if ("error" in parsedRounds) {
+    res.status(400).json({ error: parsedRounds.error });
+    return;
+  }
+  const { rounds } = parsedRounds;
+
+  if (rejectIfQueueFull(res, ids)) return;
+
+  // ── Create battle record ────────────────────────────────────────────────────
+  const battle = addRunningBattle(type, ids, seed, scenario, rounds > 1 ? { rounds } : {});
+  const { battleId } = battle;
 
   // Respond immediately — battle runs async
-  res.status(202).json({ battleId, agentIds: ids, battleType: type, mode });
+  res.status(202).json({ battleId, agentIds: ids, battleType: type, mode, seed, scenario, rounds });
 
-  // ── Fire all agent jobs in parallel ────────────────────────────────────────
-  await runBattleJobs(battleId, ids);
+  // ── Fire all agent jobs in parallel, then decide + settle ──────────────────
+  await runBattle(battle);
+});
 
-  // ── Determine winner + finalize ─────────────────────────────────────────────
-  const winner = determineWinner(battleId, type);
-  finalizeBattle(battleId, winner);
+// ─── POST /arena/battle/:battleId/replay ──────────────────────────────────────
+// Start a new battle with the same type, agents and seed as an earlier one.
 
-  emitEvent("battle_complete", {
-    battleId,
-    battleType: type,
-    winnerAgentId: winner ?? null,
-    scorecards:    getBattle(battleId)?.scorecards ?? [],
+router.post("/battle/:battleId/replay", async (req: Request, res: Response) => {
+  const gate = checkX402(req);
+  if (gate) {
+    res.status(402).json(gate);
+    return;
+  }
+
+  const source = getBattle(req.params["battleId"] ?? "");
+  if (!source) {
+    res.status(404).json({ error: "Battle not found" });
+    return;
+  }
+  if (source.seed === undefined) {
+    res.status(409).json({ error: "Battle predates seeded simulation and cannot be replayed" });
+    return;
+  }
+  const missing = source.agentIds.find((id) => !isRegisteredAgent(id));
+  if (missing) {
+    res.status(409).json({ error: `Agent "${missing}" is no longer registered` });
+    return;
+  }
+
+  if (rejectIfQueueFull(res, source.agentIds)) return;
+
+  const mode     = (process.env["EXECUTION_MODE"] ?? "sim") as "sim" | "quote" | "real";
+  const { battleType, agentIds, seed, rounds } = source;
+  const scenario = source.scenario ?? DEFAULT_SCENARIO;
+  const battle   = addRunningBattle(battleType, agentIds, seed, scenario, {
+    replayOf: source.battleId,
+    ...(rounds && { rounds }),
   });
+  const { battleId } = battle;
 
-  console.log(`[Arena] battle=${battleId} type=${type} winner=${winner ?? "none"}`);
+  res.status(202).json({
+    battleId, agentIds, battleType, mode, seed, scenario, rounds: rounds ?? 1, replayOf: source.battleId,
+  });
 
-  // ── Auto-resolve paper bets (synchronous, fire-and-forget style) ─────────────
-  if (winner) {
-    try {
-      resolvePaperBets(battleId, winner);
-    } catch (err: unknown) {
-      console.error(`[PaperBets] auto-resolve failed battle=${battleId}:`, err);
-    }
+  await runBattle(battle);
+});
+
+// ─── Battle types ─────────────────────────────────────────────────────────────
+// Built-in names plus admin-defined composite types (lib/battleTypes.ts).
+
+router.get("/battle-types", (_req: Request, res: Response) => {
+  res.json({ builtin: BUILTIN_BATTLE_TYPES, custom: listCustomBattleTypes() });
+});
+
+router.get("/battle-types/:name", (req: Request, res: Response) => {
+  const type = getCustomBattleType(req.params["name"] ?? "");
+  if (!type) {
+    res.status(404).json({ error: "Battle type not found" });
+    return;
   }
+  res.json(type);
+});
 
-  // ── Auto-resolve prediction pool (fire-and-forget) ──────────────────────────
-  if (winner && canAutoResolve()) {
-    resolvePredictionBattle(battleId, winner)
-      .then((result) => {
-        if (!result) return;
-        const b = getBattle(battleId);
-        if (b) b.resolveTxHash = result.txHash;
-        emitEvent("prediction_resolved", {
-          battleId,
-          winnerAgentId: winner,
-          resolveTxHash: result.txHash,
-        });
-      })
-      .catch((err: unknown) => {
-        console.error(`[Prediction] auto-resolve failed battle=${battleId}:`, err);
-      });
+// POST /arena/battle-types — admin: create (201) or update (200)
+//   { name, label?, description?, weights, aqiProfile?, disqualify? }
+router.post("/battle-types", requireAdmin, (req: Request, res: Response) => {
+  const body     = req.body as Record<string, unknown>;
+  const existing = typeof body["name"] === "string" ? getCustomBattleType(body["name"]) : undefined;
+
+  const parsed = parseCustomBattleType(body, existing);
+  if ("error" in parsed) {
+    res.status(isBuiltinBattleType(String(body["name"])) ? 409 : 400).json({ error: parsed.error });
+    return;
+  }
+  res.status(existing ? 200 : 201).json(saveBattleType(parsed.type));
+});
+
+// DELETE /arena/battle-types/:name — admin; battles already run keep their copy
+router.delete("/battle-types/:name", requireAdmin, (req: Request, res: Response) => {
+  const name = req.params["name"] ?? "";
+  if (isBuiltinBattleType(name)) {
+    res.status(409).json({ error: `"${name}" is a built-in battle type and cannot be removed` });
+    return;
+  }
+  if (!removeBattleType(name)) {
+    res.status(404).json({ error: "Battle type not found" });
+    return;
   }
+  res.status(204).end();
 });
 
 // ─── GET /arena/recent ────────────────────────────────────────────────────────
@@ -1,20 +1,32 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
 import { v4 as uuidv4 } from "uuid";
-import type { AgentId, JobType, Objective, SwapParams } from "@agent-aqi/shared";
-import { BASE_SEPOLIA_CHAIN_ID } from "@agent-aqi/shared";
-import { AGENT_META } from "../agents";
-import { runJob } from "../lib/runJob";
+import type { AgentDefinition, AgentId, BatchSpec, JobType, Objective, PaidCallParams, SwapParams } from "@agent-aqi/shared";
+import { BASE_SEPOLIA_CHAIN_ID, isValidSeed, randomSeed } from "@agent-aqi/shared";
+import { cancelJob, enqueueJob } from "../lib/jobQueue";
+import { getJob } from "../store";
+import { idempotent } from "../lib/idempotency";
+import { parseRoutingRequest, routeJob } from "../lib/jobRouter";
+import { getBatch, startBatch } from "../lib/batches";
+import { getAgent, isRegisteredAgent } from "../lib/agentRegistry";
+import { constraintViolation, parseConstraintOverrides, resolveConstraints } from "../lib/constraints";
+import { parseScenario } from "../lib/scenarios";
+import { isAdmin, requireAdmin } from "../lib/auth";
+import { isAllowedPaidCallUrl } from "../integrations/x402";
 
 const router = Router();
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
-const OBJECTIVE_TO_AGENT: Record<Objective, AgentId> = {
-  safest:   "safe",
-  fastest:  "fast",
-  cheapest: "cheap",
-};
+const JOB_TYPES: JobType[] = ["swap", "paid_call"];
+
+/** Most jobs one batch may contain (BATCH_MAX_JOBS, default 200). */
+const BATCH_MAX_JOBS = (() => {
+  const n = Number(process.env["BATCH_MAX_JOBS"]);
+  return Number.isInteger(n) && n > 0 ? n : 200;
+})();
+
+const MAX_STAGGER_MS = 60_000;
 
 /** Minimal Ethereum address check: 0x-prefixed 42-char hex string */
 export function isAddress(v: unknown): v is string {
@@ -53,9 +65,122 @@ export function parseSwapParams(
   };
 }
 
+/**
+ * Validate the `paidCall` object of a paid_call job: `{ url, method?, body? }`.
+ * Unless `admin`, the URL's host must be allowed (see isAllowedPaidCallUrl).
+ * Exported so the batch spec can reuse the same validation.
+ */
+export function parsePaidCallParams(raw: unknown, admin: boolean): { params: PaidCallParams } | { error: string } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return { error: "paidCall must be an object" };
+  }
+  const { url, method = "GET", body } = raw as Record<string, unknown>;
+
+  let parsed: URL | undefined;
+  try {
+    parsed = typeof url === "string" ? new URL(url) : undefined;
+  } catch {
+    parsed = undefined;
+  }
+  if (!parsed || (parsed.protocol !== "http:" && parsed.protocol !== "https:")) {
+    return { error: "paidCall.url must be an http(s) URL" };
+  }
+  if (!admin && !isAllowedPaidCallUrl(parsed)) {
+    return { error: `paidCall.url host "${parsed.host}" is not allowed — see PAID_CALL_ALLOWED_HOSTS` };
+  }
+  if (method !== "GET" && method !== "POST") {
+    return { error: "paidCall.method must be 'GET' or 'POST'" };
+  }
+  if (body !== undefined && method !== "POST") {
+    return { error: "paidCall.body is only allowed with method 'POST'" };
+  }
+
+  return {
+    params: { url: parsed.toString(), method, ...(body !== undefined && { body }) },
+  };
+}
+
+/**
+ * Validate a BatchSpec from a request body.  `swapParams` is required for
+ * swap jobs outside sim mode (same fields as POST /jobs, nested); `paidCall`
+ * is optional for paid_call jobs (any URL only when `admin`).
+ * Exported so the schedules route can reuse the same validation.
+ */
+export function parseBatchSpec(body: Record<string, unknown>, admin: boolean): { spec: BatchSpec } | { error: string } {
+  const rawIds = body["agentIds"];
+  if (!Array.isArray(rawIds) || rawIds.length === 0) {
+    return { error: "agentIds must be a non-empty array" };
+  }
+  const unknown = rawIds.find((id) => !isRegisteredAgent(id));
+  if (unknown !== undefined) {
+    return { error: `Unknown agentId "${String(unknown)}" — see GET /agents/registry` };
+  }
+  const agentIds = [...new Set(rawIds as AgentId[])];
+
+  const rawTypes = body["jobTypes"] ?? ["swap"];
+  if (!Array.isArray(rawTypes) || rawTypes.length === 0 || !rawTypes.every((t) => JOB_TYPES.includes(t as JobType))) {
+    return { error: "jobTypes must be a non-empty array of 'swap' | 'paid_call'" };
+  }
+  const jobTypes = [...new Set(rawTypes as JobType[])];
+
+  const count = body["count"] ?? 1;
+  if (typeof count !== "number" || !Number.isInteger(count) || count < 1) {
+    return { error: "count must be a positive integer" };
+  }
+  const total = count * agentIds.length * jobTypes.length;
+  if (total > BATCH_MAX_JOBS) {
+    return { error: `A batch may contain at most ${BATCH_MAX_JOBS} jobs (count × agentIds × jobTypes = ${total})` };
+  }
+
+  const staggerMs = body["staggerMs"] ?? 0;
+  if (typeof staggerMs !== "number" || !Number.isInteger(staggerMs) || staggerMs < 0 || staggerMs > MAX_STAGGER_MS) {
+    return { error: `staggerMs must be an integer between 0 and ${MAX_STAGGER_MS}` };
+  }
+
+  if (body["seed"] !== undefined && !isValidSeed(body["seed"])) {
+    return { error: "seed must be an integer between 0 and 4294967295" };
+  }
+  const seed = body["seed"] as number | undefined;
+
+  const parsedScenario = body["scenario"] === undefined ? undefined : parseScenario(body["scenario"]);
+  if (parsedScenario && "error" in parsedScenario) return parsedScenario;
+
+  let swapParams: SwapParams | undefined;
+  if (jobTypes.includes("swap") && (process.env["EXECUTION_MODE"] ?? "sim") !== "sim") {
+    const rawSwap = body["swapParams"];
+    if (typeof rawSwap !== "object" || rawSwap === null) {
+      return { error: "swapParams is required for swap jobs outside sim mode" };
+    }
+    const parsed = parseSwapParams(rawSwap as Record<string, unknown>);
+    if ("error" in parsed) return { error: `swapParams: ${parsed.error}` };
+    swapParams = parsed.params;
+  }
+
+  let paidCall: PaidCallParams | undefined;
+  if (body["paidCall"] !== undefined) {
+    if (!jobTypes.includes("paid_call")) return { error: "paidCall requires 'paid_call' in jobTypes" };
+    const parsed = parsePaidCallParams(body["paidCall"], admin);
+    if ("error" in parsed) return parsed;
+    paidCall = parsed.params;
+  }
+
+  return {
+    spec: {
+      agentIds,
+      jobTypes,
+      count,
+      staggerMs,
+      ...(parsedScenario && { scenario: parsedScenario.scenario }),
+      ...(seed !== undefined && { seed }),
+      ...(swapParams && { swapParams }),
+      ...(paidCall && { paidCall }),
+    },
+  };
+}
+
 // ─── Route ────────────────────────────────────────────────────────────────────
 
-router.post("/", async (req: Request, res: Response) => {
+router.post("/", idempotent("jobs"), async (req: Request, res: Response) => {
   const body = req.body as Record<string, unknown>;
   const jobType  = body["jobType"]  as JobType | undefined;
   const objective = body["objective"] as Objective | undefined;
@@ -65,13 +190,19 @@ router.post("/", async (req: Request, res: Response) => {
     res.status(400).json({ error: "jobType must be 'swap' or 'paid_call'" });
     return;
   }
-  if (!objective || !["safest", "fastest", "cheapest"].includes(objective)) {
+  const parsedRouting = parseRoutingRequest(body);
+  if ("error" in parsedRouting) {
+    res.status(400).json({ error: parsedRouting.error });
+    return;
+  }
+  // objective is optional only when the caller pins an agentId
+  const objectiveRequired = !parsedRouting.routing.agentId || objective !== undefined;
+  if (objectiveRequired && (!objective || !["safest", "fastest", "cheapest"].includes(objective))) {
     res.status(400).json({ error: "objective must be 'safest' | 'fastest' | 'cheapest'" });
     return;
   }
 
   const mode = (process.env["EXECUTION_MODE"] ?? "sim") as "sim" | "quote" | "real";
-  const agentId = OBJECTIVE_TO_AGENT[objective];
 
   // ── Validate swap params when needed ───────────────────────────────────────
   let swapParams: SwapParams | undefined;
@@ -84,15 +215,132 @@ router.post("/", async (req: Request, res: Response) => {
     swapParams = parsed.params;
   }
 
-  // ── Pre-generate jobId and respond immediately ─────────────────────────────
-  const jobId = uuidv4();
-  res.status(202).json({ jobId, agentId, mode });
+  // ── Paid-call endpoint (default: this server's x402 demo paywall) ──────────
+  let paidCall: PaidCallParams | undefined;
+  if (body["paidCall"] !== undefined) {
+    if (jobType !== "paid_call") {
+      res.status(400).json({ error: "paidCall is only allowed for paid_call jobs" });
+      return;
+    }
+    const parsed = parsePaidCallParams(body["paidCall"], isAdmin(req));
+    if ("error" in parsed) {
+      res.status(400).json({ error: parsed.error });
+      return;
+    }
+    paidCall = parsed.params;
+  }
+
+  // ── Optional sim seed (re-use a receipt's seed to reproduce its outcome) ────
+  if (body["seed"] !== undefined && !isValidSeed(body["seed"])) {
+    res.status(400).json({ error: "seed must be an integer between 0 and 4294967295" });
+    return;
+  }
+  const seed = (body["seed"] as number | undefined) ?? randomSeed();
+
+  const parsedScenario = parseScenario(body["scenario"]);
+  if ("error" in parsedScenario) {
+    res.status(400).json({ error: parsedScenario.error });
+    return;
+  }
+  const { scenario } = parsedScenario;
+
+  // ── Optional constraints (fields left out use the agent's defaults) ─────────
+  const parsedConstraints = parseConstraintOverrides(body["constraints"], jobType, objective);
+  if ("error" in parsedConstraints) {
+    res.status(400).json({ error: parsedConstraints.error });
+    return;
+  }
+  const { overrides } = parsedConstraints;
+  const constraintsFor = (agent: AgentDefinition) => resolveConstraints(agent, jobType, objective, overrides);
+
+  // ── Pick the agent (fixed table, AQI-driven, or pinned) ─────────────────────
+  // Agents that cannot meet the constraints are rejected up front (422)
+  const routing = routeJob(objective, parsedRouting.routing, (agent) =>
+    constraintViolation(agent, constraintsFor(agent), scenario),
+  );
+  if ("error" in routing) {
+    res.status(422).json(routing);
+    return;
+  }
+  const { agentId } = routing;
+  const constraints = constraintsFor(getAgent(agentId)!);
+
+  // ── Queue the job, or push back when the queue is full ──────────────────────
+  const jobId  = uuidv4();
+  const queued = enqueueJob({ jobId, agentId, jobType, swapParams, paidCall, mode, seed, scenario, routing, constraints });
+  if (!queued.ok) {
+    res.setHeader("Retry-After", String(queued.rejection.retryAfterSec));
+    res.status(queued.rejection.status).json({ error: queued.rejection.error });
+    return;
+  }
+
+  // ── Respond immediately; the job runs when the queue gives it a slot ────────
+  res.status(202).json({ jobId, agentId, mode, seed, scenario, constraints, routing });
 
-  // ── Execute job asynchronously (fire-and-forget from HTTP perspective) ──────
-  runJob({ jobId, agentId, jobType, swapParams, mode }).catch((_err) => {
-    // Errors are already surfaced as SSE "failed" events inside runJob
-    console.error(`[jobs] unhandled error for ${agentId} job ${jobId}:`, _err);
+  queued.done.catch((err) => {
+    // Errors are already surfaced as SSE "failed" events inside runJob;
+    // cancellations (DELETE /jobs/:id) as "cancelled"
+    if ((err as { name?: string }).name === "AbortError") return;
+    console.error(`[jobs] unhandled error for ${agentId} job ${jobId}:`, err);
   });
 });
 
+// POST /jobs/batch — admin: submit `count` jobs per agent × job type, staggered.
+// Progress arrives as batch_progress / batch_complete SSE events.
+router.post("/batch", requireAdmin, idempotent("batch"), (req: Request, res: Response) => {
+  const parsed = parseBatchSpec(req.body as Record<string, unknown>, isAdmin(req));
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  const batch = startBatch(parsed.spec);
+  res.status(202).json({ batchId: batch.batchId, total: batch.total, spec: batch.spec });
+});
+
+// GET /jobs/batch/:id — batch progress (in memory; 404 after a restart)
+router.get("/batch/:id", (req: Request, res: Response) => {
+  const batch = getBatch(req.params["id"] ?? "");
+  if (!batch) {
+    res.status(404).json({ error: "Batch not found" });
+    return;
+  }
+  res.json(batch);
+});
+
+// GET /jobs/:id — queued / running / fulfilled / failed / timed_out / cancelled,
+// plus the receipt once stored
+router.get("/:id", (req: Request, res: Response) => {
+  const job = getJob(req.params["id"] ?? "");
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+  res.json(job);
+});
+
+// DELETE /jobs/:id — admin: cancel a queued or running job.
+// 200 when it was still queued (cancelled now); 202 when it was running
+// (aborted — it turns "cancelled" once the in-flight call stops).
+router.delete("/:id", requireAdmin, (req: Request, res: Response) => {
+  const jobId = req.params["id"] ?? "";
+  const job   = getJob(jobId);
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+  if (job.battleId) {
+    res.status(409).json({ error: "Battle jobs cannot be cancelled individually" });
+    return;
+  }
+  if (job.status !== "queued" && job.status !== "running") {
+    res.status(409).json({ error: `Job is already ${job.status}` });
+    return;
+  }
+  if (!cancelJob(jobId)) {
+    res.status(409).json({ error: "Job is already being cancelled" });
+    return;
+  }
+  res.status(job.status === "queued" ? 200 : 202).json(getJob(jobId));
+});
+
 export default router;
@@ -1,16 +1,19 @@
 /**
  * Paper Betting routes
  *
- * POST /paperbets/place          — place a paper bet (no wallet required)
+ * POST /paperbets/place          — place a paper bet (no wallet required; open lobbies only)
  * GET  /paperbets/leaderboard    — global leaderboard sorted by total P/L
- * GET  /paperbets/:battleId      — bets + results + pool summary for a battle
+ * GET  /paperbets/:battleId      — bets + results + pool summary + betting window for a battle
  * POST /paperbets/resolve        — manually trigger resolution (admin / testing)
  */
 
 import { Router } from "express";
 import type { Request, Response } from "express";
 import type { AgentId } from "@agent-aqi/shared";
+import { isRegisteredAgent, listAgentIds } from "../lib/agentRegistry";
+import { getBattle } from "../store";
 import {
+  bettingClosedReason,
   placeBet,
   getBetsForBattle,
   getResultsForBattle,
@@ -21,7 +24,6 @@ import {
 
 const router = Router();
 
-const VALID_AGENTS: AgentId[] = ["safe", "fast", "cheap"];
 const MIN_BET = 0.001;
 const MAX_BET = 10.0;
 
@@ -38,8 +40,8 @@ router.post("/place", (req: Request, res: Response) => {
     res.status(400).json({ error: "nickname is required (max 40 chars)" });
     return;
   }
-  if (!VALID_AGENTS.includes(agentId as AgentId)) {
-    res.status(400).json({ error: `agentId must be one of: ${VALID_AGENTS.join(", ")}` });
+  if (!isRegisteredAgent(agentId)) {
+    res.status(400).json({ error: `agentId must be one of: ${listAgentIds().join(", ")}` });
     return;
   }
 
@@ -49,6 +51,12 @@ router.post("/place", (req: Request, res: Response) => {
     return;
   }
 
+  const battle = getBattle(battleId);
+  if (!battle) {
+    res.status(404).json({ error: "Battle not found" });
+    return;
+  }
+
   // Prevent duplicate bets from the same nickname on the same battle
   const existing = getBetsForBattle(battleId).find(
     (b) => b.nickname.toLowerCase() === nickname.trim().toLowerCase(),
@@ -58,7 +66,11 @@ router.post("/place", (req: Request, res: Response) => {
     return;
   }
 
-  const bet = placeBet(battleId, nickname.trim(), agentId as AgentId, amount);
+  const bet = placeBet(battle, nickname.trim(), agentId as AgentId, amount);
+  if ("error" in bet) {
+    res.status(409).json({ error: bet.error });
+    return;
+  }
   res.status(201).json(bet);
 });
 
@@ -79,8 +91,15 @@ router.get("/:battleId", (req: Request, res: Response) => {
   const results  = getResultsForBattle(battleId);
   const pool     = getPoolSummary(battleId);
   const resolved = results.length > 0;
-
-  res.json({ bets, results, pool, resolved });
+  const battle   = getBattle(battleId);
+  const closed   = battle ? bettingClosedReason(battle) : "Battle not found";
+
+  res.json({
+    bets, results, pool, resolved,
+    bettingOpen:     closed === null,
+    ...(closed && { bettingClosedReason: closed }),
+    ...(battle?.lobby?.bettingClosesAt !== undefined && { bettingClosesAt: battle.lobby.bettingClosesAt }),
+  });
 });
 
 // ─── POST /paperbets/resolve ──────────────────────────────────────────────────
@@ -94,8 +113,8 @@ router.post("/resolve", (req: Request, res: Response) => {
     res.status(400).json({ error: "battleId is required" });
     return;
   }
-  if (!VALID_AGENTS.includes(winnerAgentId as AgentId)) {
-    res.status(400).json({ error: `winnerAgentId must be one of: ${VALID_AGENTS.join(", ")}` });
+  if (!isRegisteredAgent(winnerAgentId)) {
+    res.status(400).json({ error: `winnerAgentId must be one of: ${listAgentIds().join(", ")}` });
     return;
   }
 
@@ -14,7 +14,7 @@ import type { Request, Response } from "express";
 import { requireAuth, type AuthRequest } from "../lib/auth";
 import { recordParticipant, getParticipants } from "../lib/participation";
 import { getOrCreateProfile } from "../lib/profiles";
-import { getCurrentBattleId } from "../store";
+import { getLatestLobby } from "../lib/lobbies";
 
 const router = Router();
 
@@ -77,10 +77,10 @@ router.post("/", requireAuth, (req: AuthRequest, res: Response): void => {
 });
 
 // ─── GET /participation/current ───────────────────────────────────────────────
-// Returns participants for the current live battle (must be before /:battleId).
+// Returns participants for the most recently opened lobby (must be before /:battleId).
 
 router.get("/current", (req: Request, res: Response): void => {
-  const battleId = getCurrentBattleId();
+  const battleId = getLatestLobby()?.battleId;
   if (!battleId) {
     res.json({ battleId: null, participants: [], total: 0 });
     return;
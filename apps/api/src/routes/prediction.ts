@@ -13,6 +13,7 @@
 import { Router } from "express";
 import type { Request, Response } from "express";
 import type { AgentId } from "@agent-aqi/shared";
+import { listPredictionAgents } from "../lib/agentRegistry";
 import {
   isPredictionEnabled,
   canAutoResolve,
@@ -22,12 +23,10 @@ import {
   fetchUserPrediction,
   resolvePredictionBattle,
 } from "../lib/predictionPool";
-import { emitEvent, getBattle } from "../store";
+import { emitEvent, getBattle, setBattleResolveTxHash } from "../store";
 
 const router = Router();
 
-const VALID_AGENTS: AgentId[] = ["safe", "fast", "cheap"];
-
 // ─── Auth helper ──────────────────────────────────────────────────────────────
 
 function checkAdminToken(req: Request): boolean {
@@ -37,6 +36,13 @@ function checkAdminToken(req: Request): boolean {
   return Boolean(provided) && provided === expected;
 }
 
+/** bigint totals → decimal strings, keyed by agentId */
+function serializeTotals(totals: Record<AgentId, bigint>): Record<AgentId, string> {
+  return Object.fromEntries(
+    Object.entries(totals).map(([agentId, wei]) => [agentId, wei.toString()]),
+  );
+}
+
 // ─── GET /prediction/:battleId ────────────────────────────────────────────────
 
 router.get("/:battleId", async (req: Request, res: Response): Promise<void> => {
@@ -56,7 +62,7 @@ router.get("/:battleId", async (req: Request, res: Response): Promise<void> => {
       userAddress ? fetchUserPrediction(battleId, userAddress) : Promise.resolve(null),
     ]);
 
-    // Pull cached resolveTxHash from in-memory battle record
+    // Pull cached resolveTxHash from the stored battle record
     const offChainBattle = getBattle(battleId);
 
     const response = {
@@ -65,15 +71,9 @@ router.get("/:battleId", async (req: Request, res: Response): Promise<void> => {
       contractAddress: process.env["PREDICTION_CONTRACT_ADDRESS"] ?? null,
       onChainId:       battleUuidToOnChainId(battleId).toString(),
 
-      totals: totals
-        ? {
-            safe:  totals.safe.toString(),
-            fast:  totals.fast.toString(),
-            cheap: totals.cheap.toString(),
-          }
-        : null,
+      totals: totals ? serializeTotals(totals) : null,
       totalWei: totals
-        ? (totals.safe + totals.fast + totals.cheap).toString()
+        ? Object.values(totals).reduce((a, b) => a + b, 0n).toString()
         : null,
 
       resolved:      battleInfo?.resolved      ?? false,
@@ -94,11 +94,7 @@ router.get("/:battleId", async (req: Request, res: Response): Promise<void> => {
     if (totals) {
       emitEvent("prediction_update", {
         battleId,
-        totals: {
-          safe:  totals.safe.toString(),
-          fast:  totals.fast.toString(),
-          cheap: totals.cheap.toString(),
-        },
+        totals: serializeTotals(totals),
       });
     }
 
@@ -135,9 +131,10 @@ router.post("/resolve", async (req: Request, res: Response): Promise<void> => {
     res.status(400).json({ error: "battleId is required" });
     return;
   }
-  if (!winnerInput || !VALID_AGENTS.includes(winnerInput as AgentId)) {
+  const validAgents = listPredictionAgents().map((a) => a.agentId);
+  if (!winnerInput || !validAgents.includes(winnerInput)) {
     res.status(400).json({
-      error: `winnerAgentId must be one of: ${VALID_AGENTS.join(", ")}`,
+      error: `winnerAgentId must be one of: ${validAgents.join(", ")}`,
     });
     return;
   }
@@ -152,9 +149,8 @@ router.post("/resolve", async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Persist txHash on the in-memory battle record so GET returns it immediately
-    const offChainBattle = getBattle(battleId);
-    if (offChainBattle) offChainBattle.resolveTxHash = result.txHash;
+    // Persist txHash on the battle record so GET returns it immediately
+    setBattleResolveTxHash(battleId, result.txHash);
 
     // Broadcast to all SSE clients
     emitEvent("prediction_resolved", {
@@ -0,0 +1,26 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import type { ReceiptPage } from "@agent-aqi/shared";
+import { queryReceipts } from "../store";
+import { encodeCursor, parseReceiptQuery } from "../lib/receiptQuery";
+
+const router = Router();
+
+// GET /receipts — filtered, newest first, cursor-paginated
+//   See lib/receiptQuery.ts for the accepted params.
+router.get("/", (req: Request, res: Response) => {
+  const parsed = parseReceiptQuery(req.query);
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+
+  const result = queryReceipts(parsed.query);
+  const page: ReceiptPage = {
+    receipts:   result.receipts,
+    nextCursor: result.next === null ? null : encodeCursor(result.next),
+  };
+  res.json(page);
+});
+
+export default router;
@@ -0,0 +1,117 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { isAdmin, requireAdmin } from "../lib/auth";
+import { parseDuration } from "../lib/aqiQuery";
+import {
+  MIN_SCHEDULE_INTERVAL_MS,
+  activeBatch,
+  createSchedule,
+  getSchedule,
+  listSchedules,
+  removeSchedule,
+  runSchedule,
+  setScheduleEnabled,
+} from "../lib/scheduler";
+import { parseBatchSpec } from "./jobs";
+
+const router = Router();
+
+// GET /schedules — every recurring batch
+router.get("/", (_req: Request, res: Response) => {
+  res.json(listSchedules());
+});
+
+// GET /schedules/:id
+router.get("/:id", (req: Request, res: Response) => {
+  const schedule = getSchedule(req.params["id"] ?? "");
+  if (!schedule) {
+    res.status(404).json({ error: "Schedule not found" });
+    return;
+  }
+  res.json(schedule);
+});
+
+// POST /schedules — admin: { name?, every: "5m" | ms, batch: BatchSpec, enabled? }
+router.post("/", requireAdmin, (req: Request, res: Response) => {
+  const body  = req.body as Record<string, unknown>;
+  const every = body["every"];
+  const everyMs =
+    typeof every === "number" ? every :
+    typeof every === "string" ? parseDuration(every) :
+    undefined;
+  if (everyMs === undefined || !(everyMs >= MIN_SCHEDULE_INTERVAL_MS)) {
+    res.status(400).json({ error: `every must be a duration ("5m", "1h") of at least ${MIN_SCHEDULE_INTERVAL_MS / 1000} s` });
+    return;
+  }
+
+  const name = body["name"] ?? "";
+  if (typeof name !== "string" || name.length > 64) {
+    res.status(400).json({ error: "name must be a string of at most 64 characters" });
+    return;
+  }
+  if (body["enabled"] !== undefined && typeof body["enabled"] !== "boolean") {
+    res.status(400).json({ error: "enabled must be a boolean" });
+    return;
+  }
+
+  const batch = body["batch"];
+  if (typeof batch !== "object" || batch === null) {
+    res.status(400).json({ error: "batch must be an object (same fields as POST /jobs/batch)" });
+    return;
+  }
+  const parsed = parseBatchSpec(batch as Record<string, unknown>, isAdmin(req));
+  if ("error" in parsed) {
+    res.status(400).json({ error: `batch: ${parsed.error}` });
+    return;
+  }
+
+  const schedule = createSchedule(
+    name.trim() || `every ${every}`,
+    Math.round(everyMs),
+    parsed.spec,
+    body["enabled"] !== false,
+  );
+  res.status(201).json(schedule);
+});
+
+// PATCH /schedules/:id — admin: { enabled } pauses or resumes a schedule
+router.patch("/:id", requireAdmin, (req: Request, res: Response) => {
+  const enabled = (req.body as Record<string, unknown>)["enabled"];
+  if (typeof enabled !== "boolean") {
+    res.status(400).json({ error: "enabled must be a boolean" });
+    return;
+  }
+  const schedule = setScheduleEnabled(req.params["id"] ?? "", enabled);
+  if (!schedule) {
+    res.status(404).json({ error: "Schedule not found" });
+    return;
+  }
+  res.json(schedule);
+});
+
+// POST /schedules/:id/run — admin: run the batch now (the interval restarts)
+router.post("/:id/run", requireAdmin, (req: Request, res: Response) => {
+  const schedule = getSchedule(req.params["id"] ?? "");
+  if (!schedule) {
+    res.status(404).json({ error: "Schedule not found" });
+    return;
+  }
+  const running = activeBatch(schedule);
+  if (running) {
+    res.status(409).json({ error: `Previous batch ${running.batchId} is still running` });
+    return;
+  }
+  const batch = runSchedule(schedule);
+  res.status(202).json({ batchId: batch.batchId, total: batch.total, schedule });
+});
+
+// DELETE /schedules/:id — admin: remove a schedule (a running batch finishes)
+router.delete("/:id", requireAdmin, (req: Request, res: Response) => {
+  if (!removeSchedule(req.params["id"] ?? "")) {
+    res.status(404).json({ error: "Schedule not found" });
+    return;
+  }
+  res.status(204).end();
+});
+
+export default router;
@@ -14,8 +14,10 @@
  *                             style_id is sent, letting Blockade Labs
  *                             choose the default).
  *
+ * Prompts come from each agent's `skyboxPrompt` in the agent registry.
+ *
  * Routes:
- *   GET  /skybox          – list status of all three agent skyboxes
+ *   GET  /skybox          – list status of every registered agent's skybox
  *   GET  /skybox/:agentId – status + URL for one agent's skybox
  *   POST /skybox/:agentId – trigger generation (idempotent if already running/done)
  *   GET  /skybox/styles   – proxy Blockade Labs style list (discovery helper)
@@ -23,19 +25,10 @@
 
 import { Router } from "express";
 import type { Request, Response } from "express";
+import { getAgent, isRegisteredAgent, listAgentIds, listAgents } from "../lib/agentRegistry";
 
 const router = Router();
 
-// ─── Agent prompts ────────────────────────────────────────────────────────────
-
-// Prompts must be plain scene descriptions — do NOT add "360°", "equirectangular",
-// or other format terms; the Blockade Labs model handles projection natively.
-const AGENT_PROMPTS: Record<string, string> = {
-  safe:  "Protective sci-fi fortress interior, glowing blue energy shields, golden ambient light, floating defensive crystals, serene sanctuary, cinematic",
-  fast:  "Neon cyberpunk highway at night, electric speed light trails, purple and gold storm sky, lightning, high velocity energy, cinematic",
-  cheap: "Futuristic eco greenhouse interior, lush green garden, solar technology panels, warm sunlight through glass, clean sustainable architecture, cinematic",
-};
-
 // ─── In-memory cache ──────────────────────────────────────────────────────────
 
 export type SkyboxStatus = "idle" | "pending" | "complete" | "error";
@@ -54,18 +47,18 @@ export interface SkyboxEntry {
   pollStatus?:    string;
 }
 
-/** One entry per agentId — initialised idle. */
-const cache: Record<string, SkyboxEntry> = {
-  safe:  { agentId: "safe",  status: "idle", prompt: AGENT_PROMPTS["safe"]!  },
-  fast:  { agentId: "fast",  status: "idle", prompt: AGENT_PROMPTS["fast"]!  },
-  cheap: { agentId: "cheap", status: "idle", prompt: AGENT_PROMPTS["cheap"]! },
-};
+/** One entry per agentId — created idle on first access. */
+const cache: Record<string, SkyboxEntry> = {};
 
-const VALID_AGENTS = ["safe", "fast", "cheap"] as const;
-type ValidAgent = typeof VALID_AGENTS[number];
-
-function isValidAgent(id: string): id is ValidAgent {
-  return (VALID_AGENTS as readonly string[]).includes(id);
+/**
+ * Return the cache entry for a registered agent, creating it if needed.
+ * An idle or failed entry picks up the agent's current registry prompt.
+ */
+function getEntry(agentId: string): SkyboxEntry {
+  const prompt = getAgent(agentId)?.skyboxPrompt ?? "";
+  const entry  = cache[agentId] ??= { agentId, status: "idle", prompt };
+  if (entry.status === "idle" || entry.status === "error") entry.prompt = prompt;
+  return entry;
 }
 
 // ─── Blockade Labs API helpers ────────────────────────────────────────────────
@@ -169,8 +162,7 @@ const POLL_INTERVAL_MS = 5_000;
 const POLL_TIMEOUT_MS  = 20 * 60_000; // 20 minutes
 
 async function generateSkybox(agentId: string): Promise<void> {
-  const entry = cache[agentId];
-  if (!entry) return;
+  const entry = getEntry(agentId);
 
   const apiKey = requireApiKey(); // throws if not set
   entry.status        = "pending";
@@ -280,17 +272,17 @@ router.get("/styles", async (_req: Request, res: Response) => {
 
 /** GET /skybox — list all agent skybox entries */
 router.get("/", (_req: Request, res: Response) => {
-  res.json(Object.values(cache));
+  res.json(listAgents().map((a) => getEntry(a.agentId)));
 });
 
 /** GET /skybox/:agentId — single agent entry */
 router.get("/:agentId", (req: Request, res: Response) => {
   const { agentId } = req.params;
-  if (!agentId || !isValidAgent(agentId)) {
-    res.status(400).json({ error: `Unknown agentId. Valid: ${VALID_AGENTS.join(", ")}` });
+  if (!isRegisteredAgent(agentId)) {
+    res.status(400).json({ error: `Unknown agentId. Valid: ${listAgentIds().join(", ")}` });
     return;
   }
-  res.json(cache[agentId]);
+  res.json(getEntry(agentId));
 });
 
 /**
@@ -300,8 +292,8 @@ router.get("/:agentId", (req: Request, res: Response) => {
  */
 router.post("/:agentId", (req: Request, res: Response) => {
   const { agentId } = req.params;
-  if (!agentId || !isValidAgent(agentId)) {
-    res.status(400).json({ error: `Unknown agentId. Valid: ${VALID_AGENTS.join(", ")}` });
+  if (!isRegisteredAgent(agentId)) {
+    res.status(400).json({ error: `Unknown agentId. Valid: ${listAgentIds().join(", ")}` });
     return;
   }
 
@@ -310,7 +302,7 @@ router.post("/:agentId", (req: Request, res: Response) => {
     return;
   }
 
-  const entry = cache[agentId]!;
+  const entry = getEntry(agentId);
 
   if (entry.status === "pending") {
     res.status(202).json({ ...entry, message: "Generation already in progress" });
@@ -18,7 +18,7 @@ import {
   emitEvent,
   findReceiptByTxHash,
   applyStreamConfirmation,
-  receipts,
+  getAllReceipts,
 } from "../store";
 
 const router = Router();
@@ -27,7 +27,7 @@ const router = Router();
 
 router.get("/", (_req: Request, res: Response) => {
   const events = getStreamEvents(100);
-  const verifiedCount = receipts.slice(-50).filter((r) => r.onChain?.verifiedBy === "quicknode").length;
+  const verifiedCount = getAllReceipts().slice(-50).filter((r) => r.onChain?.verifiedBy === "quicknode").length;
   res.json({ count: events.length, events, verifiedCount });
 });
 
@@ -89,7 +89,7 @@ router.post("/dev/emit", (req: Request, res: Response): void => {
 
   if (!targetReceipt && !body["txHash"]) {
     // Auto-pick a real receipt with onChain data for a more realistic demo
-    const withOnChain = receipts.filter((r) => r.onChain?.txHash);
+    const withOnChain = getAllReceipts().filter((r) => r.onChain?.txHash);
     if (withOnChain.length > 0) {
       const r = withOnChain[Math.floor(Math.random() * withOnChain.length)];
       effectiveTxHash = r.onChain!.txHash;
@@ -0,0 +1,191 @@
+/**
+ * Arena tournaments and seasons (mounted under /arena)
+ *
+ * GET  /arena/tournaments           — list (?seasonId=, ?status=running|complete)
+ * GET  /arena/tournaments/:id       — bracket / fixtures + standings
+ * POST /arena/tournaments           — admin: create + start a tournament
+ * GET  /arena/seasons               — list
+ * GET  /arena/seasons/:id           — season + combined standings + its tournaments
+ * POST /arena/seasons               — admin: open a season
+ * POST /arena/seasons/:id/end       — admin: end a season
+ *
+ * Scheduling, results and standings live in lib/tournaments.ts.
+ */
+
+import { Router } from "express";
+import type { Request, Response } from "express";
+import { isValidSeed, randomSeed } from "@agent-aqi/shared";
+import type { AgentId, TournamentFormat } from "@agent-aqi/shared";
+import { requireAdmin } from "../lib/auth";
+import { isRegisteredAgent, listAgentIds } from "../lib/agentRegistry";
+import { isBattleType, listBattleTypeNames } from "../lib/battleTypes";
+import { parseScenario } from "../lib/scenarios";
+import {
+  MAX_TOURNAMENT_AGENTS,
+  MIN_TOURNAMENT_AGENTS,
+  TOURNAMENT_FORMATS,
+  createSeason,
+  endSeason,
+  getSeason,
+  getTournament,
+  listSeasons,
+  listTournaments,
+  seasonStandings,
+  startTournament,
+} from "../lib/tournaments";
+
+const router = Router();
+
+const SEED_ERROR = "seed must be an integer between 0 and 4294967295";
+
+function parseName(raw: unknown): { name: string } | { error: string } {
+  const name = raw ?? "";
+  if (typeof name !== "string" || name.length > 64) {
+    return { error: "name must be a string of at most 64 characters" };
+  }
+  return { name: name.trim() };
+}
+
+// ─── Tournaments ──────────────────────────────────────────────────────────────
+
+router.get("/tournaments", (req: Request, res: Response) => {
+  const { seasonId, status } = req.query;
+  res.json(listTournaments().filter((t) =>
+    (seasonId === undefined || t.seasonId === seasonId) &&
+    (status   === undefined || t.status   === status),
+  ));
+});
+
+router.get("/tournaments/:id", (req: Request, res: Response) => {
+  const tournament = getTournament(req.params["id"] ?? "");
+  if (!tournament) {
+    res.status(404).json({ error: "Tournament not found" });
+    return;
+  }
+  res.json(tournament);
+});
+
+// POST /arena/tournaments — admin:
+//   { name?, format, battleType, agentIds (seed order), seasonId?, seed?, scenario? }
+router.post("/tournaments", requireAdmin, (req: Request, res: Response) => {
+  const body = req.body as Record<string, unknown>;
+
+  const format = body["format"];
+  if (!TOURNAMENT_FORMATS.includes(format as TournamentFormat)) {
+    res.status(400).json({ error: `format must be one of: ${TOURNAMENT_FORMATS.join(", ")}` });
+    return;
+  }
+  const battleType = body["battleType"];
+  if (!isBattleType(battleType)) {
+    res.status(400).json({ error: `battleType must be one of: ${listBattleTypeNames().join(", ")}` });
+    return;
+  }
+
+  const rawIds = body["agentIds"];
+  if (
+    !Array.isArray(rawIds) ||
+    rawIds.length < MIN_TOURNAMENT_AGENTS ||
+    rawIds.length > MAX_TOURNAMENT_AGENTS
+  ) {
+    res.status(400).json({ error: `agentIds must be an array of ${MIN_TOURNAMENT_AGENTS}–${MAX_TOURNAMENT_AGENTS} agent ids, in seed order` });
+    return;
+  }
+  for (const id of rawIds as unknown[]) {
+    if (typeof id !== "string" || !isRegisteredAgent(id)) {
+      res.status(400).json({ error: `Unknown agentId "${String(id)}". Valid: ${listAgentIds().join(", ")}` });
+      return;
+    }
+  }
+  if (new Set(rawIds).size !== rawIds.length) {
+    res.status(400).json({ error: "agentIds must not repeat an agent" });
+    return;
+  }
+
+  const parsedName = parseName(body["name"]);
+  if ("error" in parsedName) {
+    res.status(400).json({ error: parsedName.error });
+    return;
+  }
+
+  const seasonId = body["seasonId"];
+  if (seasonId !== undefined) {
+    const season = typeof seasonId === "string" ? getSeason(seasonId) : undefined;
+    if (!season) {
+      res.status(400).json({ error: `Unknown seasonId "${String(seasonId)}"` });
+      return;
+    }
+    if (season.status !== "active") {
+      res.status(409).json({ error: `Season "${season.name}" has ended` });
+      return;
+    }
+  }
+
+  if (body["seed"] !== undefined && !isValidSeed(body["seed"])) {
+    res.status(400).json({ error: SEED_ERROR });
+    return;
+  }
+  const parsedScenario = parseScenario(body["scenario"]);
+  if ("error" in parsedScenario) {
+    res.status(400).json({ error: parsedScenario.error });
+    return;
+  }
+
+  const tournament = startTournament({
+    name:       parsedName.name || `${String(battleType)} ${String(format).replace("_", " ")}`,
+    format:     format as TournamentFormat,
+    battleType,
+    agentIds:   rawIds as AgentId[],
+    seed:       (body["seed"] as number | undefined) ?? randomSeed(),
+    scenario:   parsedScenario.scenario,
+    ...(typeof seasonId === "string" && { seasonId }),
+  });
+  res.status(201).json(tournament);
+});
+
+// ─── Seasons ──────────────────────────────────────────────────────────────────
+
+router.get("/seasons", (_req: Request, res: Response) => {
+  res.json(listSeasons());
+});
+
+router.get("/seasons/:id", (req: Request, res: Response) => {
+  const season = getSeason(req.params["id"] ?? "");
+  if (!season) {
+    res.status(404).json({ error: "Season not found" });
+    return;
+  }
+  res.json({
+    ...season,
+    standings:   seasonStandings(season.seasonId),
+    tournaments: listTournaments().filter((t) => t.seasonId === season.seasonId),
+  });
+});
+
+// POST /arena/seasons — admin: { name }
+router.post("/seasons", requireAdmin, (req: Request, res: Response) => {
+  const parsed = parseName((req.body as Record<string, unknown>)["name"]);
+  if ("error" in parsed) {
+    res.status(400).json({ error: parsed.error });
+    return;
+  }
+  if (!parsed.name) {
+    res.status(400).json({ error: "name is required" });
+    return;
+  }
+  res.status(201).json(createSeason(parsed.name));
+});
+
+router.post("/seasons/:id/end", requireAdmin, (req: Request, res: Response) => {
+  const season = getSeason(req.params["id"] ?? "");
+  if (!season) {
+    res.status(404).json({ error: "Season not found" });
+    return;
+  }
+  if (season.status === "ended") {
+    res.status(409).json({ error: "Season has already ended" });
+    return;
+  }
+  res.json(endSeason(season));
+});
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router } from "express";
+import type { Request, Response } from "express";
+import type { X402PaymentRequirements } from "@agent-aqi/shared";
+import { X402_VERSION, decodeHeader, encodeHeader, usdToUnits } from "../integrations/x402";
+import type { X402PaymentPayload } from "../integrations/x402";
+import { settlePayment, verifyPayment } from "../lib/x402Facilitator";
+
+// ─── x402 demo paywall ────────────────────────────────────────────────────────
+//
+// GET | POST /x402/demo is the endpoint paid_call jobs call by default.  It
+// answers 402 with an "exact" payment requirement until the request carries
+// an X-PAYMENT header the mock facilitator (lib/x402Facilitator.ts) accepts,
+// then serves the call with the settlement in X-PAYMENT-RESPONSE.
+//
+//   X402_DEMO_PRICE_USD   – price per call in USDC (default: 0.001)
+//   X402_RECEIVER_ADDRESS – payTo address (default: the zero address)
+
+const router = Router();
+
+/** USDC on Base Sepolia */
+const DEMO_ASSET = "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+
+function demoRequirements(req: Request): X402PaymentRequirements {
+  const price = Number(process.env["X402_DEMO_PRICE_USD"]);
+  return {
+    scheme:            "exact",
+    network:           "base-sepolia",
+    maxAmountRequired: usdToUnits(Number.isFinite(price) && price > 0 ? price : 0.001),
+    resource:          `${req.protocol}://${req.get("host")}${req.originalUrl}`,
+    description:       "agent-aqi paid_call demo",
+    payTo:             process.env["X402_RECEIVER_ADDRESS"] || "0x0000000000000000000000000000000000000000",
+    asset:             DEMO_ASSET,
+    maxTimeoutSeconds: 60,
+    extra:             { name: "USDC", version: "2" },
+  };
+}
+
+async function demo(req: Request, res: Response): Promise<void> {
+  const requirements = demoRequirements(req);
+  const challenge = (error: string) =>
+    res.status(402).json({ x402Version: X402_VERSION, error, accepts: [requirements] });
+
+  const header = req.header("x-payment");
+  if (!header) {
+    challenge("X-PAYMENT header is required");
+    return;
+  }
+  const payment = decodeHeader<X402PaymentPayload>(header);
+  if (!payment) {
+    challenge("X-PAYMENT header is not base64 JSON");
+    return;
+  }
+  const invalid = await verifyPayment(payment, requirements);
+  if (invalid) {
+    challenge(invalid);
+    return;
+  }
+  const settlement = settlePayment(payment);
+  if (!settlement.success) {
+    challenge("authorization nonce already used");
+    return;
+  }
+
+  res.setHeader("X-PAYMENT-RESPONSE", encodeHeader(settlement));
+  res.json({
+    ok:       true,
+    resource: requirements.resource,
+    paidBy:   settlement.payer,
+    ...(req.method === "POST" && { echo: req.body as unknown }),
+    servedAt: Date.now(),
+  });
+}
+
+router.get("/demo", demo);
+router.post("/demo", demo);
+
+export default router;
@@ -0,0 +1,33 @@
+/**
+ * Storage driver selection.
+ *
+ * Environment variables:
+ *   STORAGE_DRIVER  memory | sqlite  (default: memory)
+ *   SQLITE_PATH     database file for the sqlite driver (default: ./data/agent-aqi.db,
+ *                   relative to the API's working directory)
+ *
+ * The driver is chosen once at startup; every helper in store.ts, lib/paperBets.ts
+ * and lib/profiles.ts goes through the exported `storage` instance.
+ */
+
+import type { Storage, StorageDriver } from "./types";
+import { createMemoryStorage } from "./memory";
+import { createSqliteStorage } from "./sqlite";
+
+export type { Storage, StorageDriver } from "./types";
+
+const DEFAULT_SQLITE_PATH = "./data/agent-aqi.db";
+
+function createStorage(): Storage {
+  const driver = (process.env["STORAGE_DRIVER"] ?? "memory") as StorageDriver;
+
+  if (driver === "sqlite") {
+    return createSqliteStorage(process.env["SQLITE_PATH"] || DEFAULT_SQLITE_PATH);
+  }
+  if (driver !== "memory") {
+    console.warn(`[storage] Unknown STORAGE_DRIVER "${driver}", falling back to memory`);
+  }
+  return createMemoryStorage();
+}
+
+export const storage: Storage = createStorage();
@@ -0,0 +1,293 @@
+/**
+ * In-memory storage driver.
+ *
+ * Everything lives in process-local arrays and Maps and is lost on restart —
+ * the original hackathon behaviour, kept as the default for zero-setup demos.
+ * Records are copied on the way in and out, so callers see the same
+ * semantics as with sqlite: a change only sticks once it is saved.
+ */
+
+import type {
+  AgentDefinition,
+  AQISnapshot,
+  BattleRecord,
+  CustomBattleType,
+  JobSchedule,
+  PaperBet,
+  PaperBetResult,
+  Receipt,
+  Season,
+  StreamEvent,
+  Tournament,
+  WeightProfile,
+} from "@agent-aqi/shared";
+import type { IdempotencyRecord } from "../lib/idempotency";
+import type { NicknameStats } from "../lib/paperBets";
+import type { Profile } from "../lib/profiles";
+import type { ReceiptQuery, Storage } from "./types";
+import { OPEN_BATTLE_STATUSES } from "./types";
+
+/** A detached copy of a stored record (or list of them). */
+function copy<T>(value: T): T {
+  return structuredClone(value);
+}
+
+function matchesQuery(r: Receipt, q: ReceiptQuery): boolean {
+  return (q.agentId  === undefined || r.agentId === q.agentId)
+      && (q.status   === undefined || r.outcome.status === q.status)
+      && (q.jobType  === undefined || r.constraints.jobType === q.jobType)
+      && (q.battleId === undefined || r.battleId === q.battleId)
+      && (q.from     === undefined || r.completedAt >= q.from)
+      && (q.to       === undefined || r.completedAt < q.to)
+      && (q.flag     === undefined || r.outcome.safetyFlags.includes(q.flag));
+}
+
+export function createMemoryStorage(): Storage {
+  const receipts:     Receipt[]        = [];
+  const battles:      BattleRecord[]   = [];
+  const streamEvents: StreamEvent[]    = [];
+  const paperBets:    PaperBet[]       = [];
+  const paperResults: PaperBetResult[] = [];
+  const paperStats = new Map<string, NicknameStats>();
+  const profiles   = new Map<string, Profile>();
+  const agents     = new Map<string, AgentDefinition>();
+  const weightProfiles = new Map<string, WeightProfile>();
+  const battleTypes    = new Map<string, CustomBattleType>();
+  let   snapshots: AQISnapshot[] = [];
+  const schedules   = new Map<string, JobSchedule>();
+  const tournaments = new Map<string, Tournament>();
+  const seasons     = new Map<string, Season>();
+  const idempotency = new Map<string, IdempotencyRecord>();
+
+  return {
+    driver: "memory",
+
+    // ── Receipts ──────────────────────────────────────────────────────────────
+
+    insertReceipt(receipt) {
+      receipts.push(copy(receipt));
+    },
+
+    updateReceipt(receipt) {
+      const idx = receipts.findIndex((r) => r.jobId === receipt.jobId);
+      if (idx !== -1) receipts[idx] = copy(receipt);
+    },
+
+    listReceipts() {
+      return copy(receipts);
+    },
+
+    listReceiptsByAgent(agentId) {
+      return copy(receipts.filter((r) => r.agentId === agentId));
+    },
+
+    findReceiptByTxHash(txHash) {
+      const lower = txHash.toLowerCase();
+      return copy(receipts.find((r) => r.onChain?.txHash?.toLowerCase() === lower));
+    },
+
+    getReceipt(jobId) {
+      return copy(receipts.find((r) => r.jobId === jobId));
+    },
+
+    // Positions are 1-based array indexes — receipts are never deleted
+    queryReceipts(query) {
+      const page: Receipt[] = [];
+      let i = Math.min(query.before ?? receipts.length + 1, receipts.length + 1) - 2;
+      for (; i >= 0 && page.length < query.limit; i--) {
+        if (matchesQuery(receipts[i]!, query)) page.push(receipts[i]!);
+      }
+      const more = receipts.slice(0, i + 1).some((r) => matchesQuery(r, query));
+      return { receipts: copy(page), next: more ? i + 2 : null };
+    },
+
+    // ── Battles ───────────────────────────────────────────────────────────────
+
+    saveBattle(battle) {
+      const idx = battles.findIndex((b) => b.battleId === battle.battleId);
+      if (idx !== -1) battles[idx] = copy(battle);
+      else battles.push(copy(battle));
+    },
+
+    getBattle(battleId) {
+      return copy(battles.find((b) => b.battleId === battleId));
+    },
+
+    listRecentBattles(limit) {
+      return copy([...battles].reverse().slice(0, limit));
+    },
+
+    listBattlesByStatus(statuses) {
+      return copy(battles.filter((b) => statuses.includes(b.status)).reverse());
+    },
+
+    pruneBattles(max) {
+      const cutoff = battles.length - max;
+      for (let i = cutoff - 1; i >= 0; i--) {
+        if (!OPEN_BATTLE_STATUSES.includes(battles[i]!.status)) battles.splice(i, 1);
+      }
+    },
+
+    // ── Stream events ─────────────────────────────────────────────────────────
+
+    insertStreamEvent(event) {
+      streamEvents.push(copy(event));
+    },
+
+    listStreamEvents(limit) {
+      return copy(streamEvents.slice(-limit));
+    },
+
+    pruneStreamEvents(max) {
+      if (streamEvents.length > max) streamEvents.splice(0, streamEvents.length - max);
+    },
+
+    // ── Paper bets ────────────────────────────────────────────────────────────
+
+    insertPaperBet(bet) {
+      paperBets.push(copy(bet));
+    },
+
+    listPaperBets(battleId) {
+      return copy(paperBets.filter((b) => b.battleId === battleId));
+    },
+
+    insertPaperResults(results) {
+      paperResults.push(...copy(results));
+    },
+
+    listPaperResults(battleId) {
+      return copy(paperResults.filter((r) => r.battleId === battleId));
+    },
+
+    getPaperStats(nickname) {
+      return copy(paperStats.get(nickname));
+    },
+
+    savePaperStats(stats) {
+      paperStats.set(stats.nickname, copy(stats));
+    },
+
+    listPaperStats() {
+      return copy([...paperStats.values()]);
+    },
+
+    // ── Profiles ──────────────────────────────────────────────────────────────
+
+    getProfile(address) {
+      return copy(profiles.get(address.toLowerCase()));
+    },
+
+    saveProfile(profile) {
+      profiles.set(profile.address.toLowerCase(), copy(profile));
+    },
+
+    // ── Agents ────────────────────────────────────────────────────────────────
+
+    listAgents() {
+      return copy([...agents.values()].sort((a, b) => a.createdAt - b.createdAt));
+    },
+
+    saveAgent(agent) {
+      agents.set(agent.agentId, copy(agent));
+    },
+
+    deleteAgent(agentId) {
+      agents.delete(agentId);
+    },
+
+    // ── Weight profiles ───────────────────────────────────────────────────────
+
+    listWeightProfiles() {
+      return copy([...weightProfiles.values()].sort((a, b) => a.createdAt - b.createdAt));
+    },
+
+    saveWeightProfile(profile) {
+      weightProfiles.set(profile.name, copy(profile));
+    },
+
+    deleteWeightProfile(name) {
+      weightProfiles.delete(name);
+    },
+
+    // ── Custom battle types ───────────────────────────────────────────────────
+
+    listBattleTypes() {
+      return copy([...battleTypes.values()].sort((a, b) => a.createdAt - b.createdAt));
+    },
+
+    saveBattleType(type) {
+      battleTypes.set(type.name, copy(type));
+    },
+
+    deleteBattleType(name) {
+      battleTypes.delete(name);
+    },
+
+    // ── AQI snapshots ─────────────────────────────────────────────────────────
+
+    insertAQISnapshots(batch) {
+      snapshots.push(...copy(batch));
+    },
+
+    listAQISnapshots(agentId, since) {
+      return copy(snapshots.filter((s) => s.agentId === agentId && s.takenAt >= since));
+    },
+
+    pruneAQISnapshots(before) {
+      snapshots = snapshots.filter((s) => s.takenAt >= before);
+    },
+
+    // ── Schedules ─────────────────────────────────────────────────────────────
+
+    listSchedules() {
+      return copy([...schedules.values()]);
+    },
+
+    saveSchedule(schedule) {
+      schedules.set(schedule.scheduleId, copy(schedule));
+    },
+
+    deleteSchedule(scheduleId) {
+      schedules.delete(scheduleId);
+    },
+
+    // ── Tournaments + seasons ─────────────────────────────────────────────────
+
+    listTournaments() {
+      return copy([...tournaments.values()].reverse());
+    },
+
+    getTournament(tournamentId) {
+      return copy(tournaments.get(tournamentId));
+    },
+
+    saveTournament(tournament) {
+      tournaments.set(tournament.tournamentId, copy(tournament));
+    },
+
+    listSeasons() {
+      return copy([...seasons.values()]);
+    },
+
+    saveSeason(season) {
+      seasons.set(season.seasonId, copy(season));
+    },
+
+    // ── Idempotency keys ──────────────────────────────────────────────────────
+
+    getIdempotencyRecord(scope, key) {
+      return copy(idempotency.get(`${scope}:${key}`));
+    },
+
+    saveIdempotencyRecord(record) {
+      idempotency.set(`${record.scope}:${record.key}`, copy(record));
+    },
+
+    pruneIdempotencyRecords(before) {
+      for (const [k, r] of idempotency) {
+        if (r.createdAt < before) idempotency.delete(k);
+      }
+    },
+  };
+}
@@ -0,0 +1,204 @@
+/**
+ * SQLite schema migrations.
+ *
+ * Each migration runs once, in order, inside a transaction.  The applied
+ * version is tracked with `PRAGMA user_version`, so adding a migration means
+ * appending an entry with the next version number — never edit one that has
+ * already shipped.
+ *
+ * Records are stored as JSON in a `data` column; the extra columns exist only
+ * so the lookups in storage/sqlite.ts can use an index.
+ */
+
+import type { Database } from "better-sqlite3";
+
+export interface Migration {
+  version: number;
+  name:    string;
+  sql:     string;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name:    "initial_schema",
+    sql: `
+      CREATE TABLE receipts (
+        seq          INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id       TEXT    NOT NULL UNIQUE,
+        agent_id     TEXT    NOT NULL,
+        battle_id    TEXT,
+        tx_hash      TEXT,
+        completed_at INTEGER NOT NULL,
+        data         TEXT    NOT NULL
+      );
+      CREATE INDEX idx_receipts_agent   ON receipts (agent_id, seq);
+      CREATE INDEX idx_receipts_tx_hash ON receipts (tx_hash);
+
+      CREATE TABLE battles (
+        seq        INTEGER PRIMARY KEY AUTOINCREMENT,
+        battle_id  TEXT    NOT NULL UNIQUE,
+        created_at INTEGER NOT NULL,
+        status     TEXT    NOT NULL,
+        data       TEXT    NOT NULL
+      );
+
+      CREATE TABLE stream_events (
+        seq      INTEGER PRIMARY KEY AUTOINCREMENT,
+        event_id TEXT    NOT NULL,
+        tx_hash  TEXT    NOT NULL,
+        data     TEXT    NOT NULL
+      );
+
+      CREATE TABLE paper_bets (
+        seq       INTEGER PRIMARY KEY AUTOINCREMENT,
+        bet_id    TEXT    NOT NULL UNIQUE,
+        battle_id TEXT    NOT NULL,
+        data      TEXT    NOT NULL
+      );
+      CREATE INDEX idx_paper_bets_battle ON paper_bets (battle_id, seq);
+
+      CREATE TABLE paper_results (
+        seq       INTEGER PRIMARY KEY AUTOINCREMENT,
+        bet_id    TEXT    NOT NULL UNIQUE,
+        battle_id TEXT    NOT NULL,
+        data      TEXT    NOT NULL
+      );
+      CREATE INDEX idx_paper_results_battle ON paper_results (battle_id, seq);
+
+      CREATE TABLE paper_stats (
+        nickname TEXT PRIMARY KEY,
+        data     TEXT NOT NULL
+      );
+
+      CREATE TABLE profiles (
+        address TEXT PRIMARY KEY,
+        data    TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name:    "agent_registry",
+    sql: `
+      CREATE TABLE agents (
+        agent_id   TEXT    PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        data       TEXT    NOT NULL
+      );
+    `,
+  },
+  {
+    version: 3,
+    name:    "weight_profiles",
+    sql: `
+      CREATE TABLE weight_profiles (
+        name       TEXT    PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        data       TEXT    NOT NULL
+      );
+    `,
+  },
+  {
+    version: 4,
+    name:    "aqi_snapshots",
+    sql: `
+      CREATE TABLE aqi_snapshots (
+        seq      INTEGER PRIMARY KEY AUTOINCREMENT,
+        agent_id TEXT    NOT NULL,
+        taken_at INTEGER NOT NULL,
+        data     TEXT    NOT NULL
+      );
+      CREATE INDEX idx_aqi_snapshots_agent ON aqi_snapshots (agent_id, taken_at);
+      CREATE INDEX idx_aqi_snapshots_taken ON aqi_snapshots (taken_at);
+    `,
+  },
+  {
+    version: 5,
+    name:    "receipt_query_indexes",
+    sql: `
+      CREATE INDEX idx_receipts_battle    ON receipts (battle_id, seq);
+      CREATE INDEX idx_receipts_completed ON receipts (completed_at);
+    `,
+  },
+  {
+    version: 6,
+    name:    "idempotency_keys",
+    sql: `
+      CREATE TABLE idempotency_keys (
+        scope      TEXT    NOT NULL,
+        key        TEXT    NOT NULL,
+        created_at INTEGER NOT NULL,
+        data       TEXT    NOT NULL,
+        PRIMARY KEY (scope, key)
+      );
+      CREATE INDEX idx_idempotency_keys_created ON idempotency_keys (created_at);
+    `,
+  },
+  {
+    version: 7,
+    name:    "job_schedules",
+    sql: `
+      CREATE TABLE job_schedules (
+        schedule_id TEXT    PRIMARY KEY,
+        created_at  INTEGER NOT NULL,
+        data        TEXT    NOT NULL
+      );
+    `,
+  },
+  {
+    version: 8,
+    name:    "tournaments",
+    sql: `
+      CREATE TABLE tournaments (
+        tournament_id TEXT    PRIMARY KEY,
+        created_at    INTEGER NOT NULL,
+        data          TEXT    NOT NULL
+      );
+      CREATE INDEX idx_tournaments_created ON tournaments (created_at);
+      CREATE TABLE seasons (
+        season_id  TEXT    PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        data       TEXT    NOT NULL
+      );
+    `,
+  },
+  {
+    version: 9,
+    name:    "battle_types",
+    sql: `
+      CREATE TABLE battle_types (
+        name       TEXT    PRIMARY KEY,
+        created_at INTEGER NOT NULL,
+        data       TEXT    NOT NULL
+      );
+    `,
+  },
+  {
+    version: 10,
+    name:    "battles_status_index",
+    sql: `
+      CREATE INDEX idx_battles_status ON battles (status, seq);
+    `,
+  },
+];
+
+/**
+ * Apply every migration newer than the database's current user_version.
+ * Returns the version the database ends up at.
+ */
+export function migrate(db: Database): number {
+  let current = db.pragma("user_version", { simple: true }) as number;
+
+  for (const m of MIGRATIONS) {
+    if (m.version <= current) continue;
+    db.transaction(() => {
+      db.exec(m.sql);
+      db.pragma(`user_version = ${m.version}`);
+    })();
+    console.log(`[storage] applied migration ${m.version} (${m.name})`);
+    current = m.version;
+  }
+
+  return current;
+}
@@ -0,0 +1,448 @@
+/**
+ * Embedded SQLite storage driver (better-sqlite3).
+ *
+ * better-sqlite3 is synchronous, which lets this driver satisfy the same
+ * synchronous Storage contract as the in-memory one.  The database file is
+ * created on first use and migrated to the latest schema on open.
+ */
+
+import fs   from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import type {
+  AgentDefinition,
+  AQISnapshot,
+  BattleRecord,
+  CustomBattleType,
+  JobSchedule,
+  PaperBet,
+  PaperBetResult,
+  Receipt,
+  Season,
+  StreamEvent,
+  Tournament,
+  WeightProfile,
+} from "@agent-aqi/shared";
+import type { IdempotencyRecord } from "../lib/idempotency";
+import type { NicknameStats } from "../lib/paperBets";
+import type { Profile } from "../lib/profiles";
+import type { ReceiptQuery, Storage } from "./types";
+import { OPEN_BATTLE_STATUSES } from "./types";
+import { migrate } from "./migrations";
+
+interface DataRow { data: string }
+
+function parseRows<T>(rows: unknown[]): T[] {
+  return (rows as DataRow[]).map((r) => JSON.parse(r.data) as T);
+}
+
+function parseRow<T>(row: unknown): T | undefined {
+  return row ? (JSON.parse((row as DataRow).data) as T) : undefined;
+}
+
+/** WHERE clause + params for queryReceipts.  Positions are receipt `seq` values. */
+function receiptWhere(q: ReceiptQuery): { sql: string; params: unknown[] } {
+  const clauses: string[] = [];
+  const params:  unknown[] = [];
+  const add = (clause: string, value: unknown) => {
+    clauses.push(clause);
+    params.push(value);
+  };
+
+  if (q.agentId  !== undefined) add(`agent_id = ?`, q.agentId);
+  if (q.battleId !== undefined) add(`battle_id = ?`, q.battleId);
+  if (q.from     !== undefined) add(`completed_at >= ?`, q.from);
+  if (q.to       !== undefined) add(`completed_at < ?`, q.to);
+  if (q.before   !== undefined) add(`seq < ?`, q.before);
+  if (q.status   !== undefined) add(`json_extract(data, '$.outcome.status') = ?`, q.status);
+  if (q.jobType  !== undefined) add(`json_extract(data, '$.constraints.jobType') = ?`, q.jobType);
+  if (q.flag     !== undefined) {
+    add(`EXISTS (SELECT 1 FROM json_each(data, '$.outcome.safetyFlags') WHERE value = ?)`, q.flag);
+  }
+
+  return { sql: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params };
+}
+
+export function createSqliteStorage(filename: string): Storage {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+
+  const version = migrate(db);
+  console.log(`[storage] sqlite ready file=${filename} schema=v${version}`);
+
+  // ── Prepared statements ───────────────────────────────────────────────────
+
+  const stmt = {
+    insertReceipt: db.prepare(
+      `INSERT INTO receipts (job_id, agent_id, battle_id, tx_hash, completed_at, data)
+       VALUES (@jobId, @agentId, @battleId, @txHash, @completedAt, @data)`,
+    ),
+    updateReceipt: db.prepare(
+      `UPDATE receipts
+          SET agent_id = @agentId, battle_id = @battleId, tx_hash = @txHash,
+              completed_at = @completedAt, data = @data
+        WHERE job_id = @jobId`,
+    ),
+    listReceipts:        db.prepare(`SELECT data FROM receipts ORDER BY seq`),
+    listReceiptsByAgent: db.prepare(`SELECT data FROM receipts WHERE agent_id = ? ORDER BY seq`),
+    receiptByTxHash:     db.prepare(`SELECT data FROM receipts WHERE tx_hash = ? ORDER BY seq LIMIT 1`),
+    getReceipt:          db.prepare(`SELECT data FROM receipts WHERE job_id = ?`),
+
+    upsertBattle: db.prepare(
+      `INSERT INTO battles (battle_id, created_at, status, data)
+       VALUES (@battleId, @createdAt, @status, @data)
+       ON CONFLICT (battle_id) DO UPDATE
+         SET created_at = excluded.created_at, status = excluded.status, data = excluded.data`,
+    ),
+    getBattle:     db.prepare(`SELECT data FROM battles WHERE battle_id = ?`),
+    recentBattles: db.prepare(`SELECT data FROM battles ORDER BY seq DESC LIMIT ?`),
+    battlesByStatus: db.prepare(
+      `SELECT data FROM battles WHERE status IN (SELECT value FROM json_each(?)) ORDER BY seq DESC`,
+    ),
+    pruneBattles:  db.prepare(
+      `DELETE FROM battles
+        WHERE status NOT IN (SELECT value FROM json_each(@open))
+          AND seq NOT IN (SELECT seq FROM battles ORDER BY seq DESC LIMIT @max)`,
+    ),
+
+    insertStreamEvent: db.prepare(
+      `INSERT INTO stream_events (event_id, tx_hash, data) VALUES (?, ?, ?)`,
+    ),
+    recentStreamEvents: db.prepare(
+      `SELECT data FROM (SELECT seq, data FROM stream_events ORDER BY seq DESC LIMIT ?) ORDER BY seq`,
+    ),
+    pruneStreamEvents: db.prepare(
+      `DELETE FROM stream_events WHERE seq NOT IN (SELECT seq FROM stream_events ORDER BY seq DESC LIMIT ?)`,
+    ),
+
+    insertPaperBet:    db.prepare(`INSERT INTO paper_bets (bet_id, battle_id, data) VALUES (?, ?, ?)`),
+    listPaperBets:     db.prepare(`SELECT data FROM paper_bets WHERE battle_id = ? ORDER BY seq`),
+    insertPaperResult: db.prepare(`INSERT INTO paper_results (bet_id, battle_id, data) VALUES (?, ?, ?)`),
+    listPaperResults:  db.prepare(`SELECT data FROM paper_results WHERE battle_id = ? ORDER BY seq`),
+    getPaperStats:     db.prepare(`SELECT data FROM paper_stats WHERE nickname = ?`),
+    upsertPaperStats:  db.prepare(
+      `INSERT INTO paper_stats (nickname, data) VALUES (?, ?)
+       ON CONFLICT (nickname) DO UPDATE SET data = excluded.data`,
+    ),
+    listPaperStats:    db.prepare(`SELECT data FROM paper_stats`),
+
+    getProfile:    db.prepare(`SELECT data FROM profiles WHERE address = ?`),
+    upsertProfile: db.prepare(
+      `INSERT INTO profiles (address, data) VALUES (?, ?)
+       ON CONFLICT (address) DO UPDATE SET data = excluded.data`,
+    ),
+
+    listAgents:  db.prepare(`SELECT data FROM agents ORDER BY created_at`),
+    upsertAgent: db.prepare(
+      `INSERT INTO agents (agent_id, created_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (agent_id) DO UPDATE SET data = excluded.data`,
+    ),
+    deleteAgent: db.prepare(`DELETE FROM agents WHERE agent_id = ?`),
+
+    listWeightProfiles:  db.prepare(`SELECT data FROM weight_profiles ORDER BY created_at`),
+    upsertWeightProfile: db.prepare(
+      `INSERT INTO weight_profiles (name, created_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (name) DO UPDATE SET data = excluded.data`,
+    ),
+    deleteWeightProfile: db.prepare(`DELETE FROM weight_profiles WHERE name = ?`),
+
+    listBattleTypes:  db.prepare(`SELECT data FROM battle_types ORDER BY created_at`),
+    upsertBattleType: db.prepare(
+      `INSERT INTO battle_types (name, created_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (name) DO UPDATE SET data = excluded.data`,
+    ),
+    deleteBattleType: db.prepare(`DELETE FROM battle_types WHERE name = ?`),
+
+    insertSnapshot: db.prepare(
+      `INSERT INTO aqi_snapshots (agent_id, taken_at, data) VALUES (?, ?, ?)`,
+    ),
+    listSnapshots:  db.prepare(
+      `SELECT data FROM aqi_snapshots WHERE agent_id = ? AND taken_at >= ? ORDER BY taken_at, seq`,
+    ),
+    pruneSnapshots: db.prepare(`DELETE FROM aqi_snapshots WHERE taken_at < ?`),
+
+    listSchedules:  db.prepare(`SELECT data FROM job_schedules ORDER BY created_at`),
+    upsertSchedule: db.prepare(
+      `INSERT INTO job_schedules (schedule_id, created_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (schedule_id) DO UPDATE SET data = excluded.data`,
+    ),
+    deleteSchedule: db.prepare(`DELETE FROM job_schedules WHERE schedule_id = ?`),
+
+    listTournaments:  db.prepare(`SELECT data FROM tournaments ORDER BY created_at DESC`),
+    getTournament:    db.prepare(`SELECT data FROM tournaments WHERE tournament_id = ?`),
+    upsertTournament: db.prepare(
+      `INSERT INTO tournaments (tournament_id, created_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (tournament_id) DO UPDATE SET data = excluded.data`,
+    ),
+    listSeasons:  db.prepare(`SELECT data FROM seasons ORDER BY created_at`),
+    upsertSeason: db.prepare(
+      `INSERT INTO seasons (season_id, created_at, data) VALUES (?, ?, ?)
+       ON CONFLICT (season_id) DO UPDATE SET data = excluded.data`,
+    ),
+
+    getIdempotency:    db.prepare(`SELECT data FROM idempotency_keys WHERE scope = ? AND key = ?`),
+    upsertIdempotency: db.prepare(
+      `INSERT INTO idempotency_keys (scope, key, created_at, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT (scope, key) DO UPDATE SET created_at = excluded.created_at, data = excluded.data`,
+    ),
+    pruneIdempotency:  db.prepare(`DELETE FROM idempotency_keys WHERE created_at < ?`),
+  };
+
+  function receiptParams(r: Receipt) {
+    return {
+      jobId:       r.jobId,
+      agentId:     r.agentId,
+      battleId:    r.battleId ?? null,
+      txHash:      r.onChain?.txHash?.toLowerCase() ?? null,
+      completedAt: r.completedAt,
+      data:        JSON.stringify(r),
+    };
+  }
+
+  const insertPaperResults = db.transaction((results: PaperBetResult[]) => {
+    for (const r of results) {
+      stmt.insertPaperResult.run(r.betId, r.battleId, JSON.stringify(r));
+    }
+  });
+
+  const insertSnapshots = db.transaction((snapshots: AQISnapshot[]) => {
+    for (const s of snapshots) {
+      stmt.insertSnapshot.run(s.agentId, s.takenAt, JSON.stringify(s));
+    }
+  });
+
+  return {
+    driver: "sqlite",
+
+    // ── Receipts ──────────────────────────────────────────────────────────────
+
+    insertReceipt(receipt) {
+      stmt.insertReceipt.run(receiptParams(receipt));
+    },
+
+    updateReceipt(receipt) {
+      stmt.updateReceipt.run(receiptParams(receipt));
+    },
+
+    listReceipts() {
+      return parseRows<Receipt>(stmt.listReceipts.all());
+    },
+
+    listReceiptsByAgent(agentId) {
+      return parseRows<Receipt>(stmt.listReceiptsByAgent.all(agentId));
+    },
+
+    findReceiptByTxHash(txHash) {
+      return parseRow<Receipt>(stmt.receiptByTxHash.get(txHash.toLowerCase()));
+    },
+
+    getReceipt(jobId) {
+      return parseRow<Receipt>(stmt.getReceipt.get(jobId));
+    },
+
+    // Filters vary per call, so this statement is prepared on demand.
+    // One extra row is fetched to tell whether another page exists.
+    queryReceipts(query) {
+      const { sql, params } = receiptWhere(query);
+      const rows = db
+        .prepare(`SELECT seq, data FROM receipts ${sql} ORDER BY seq DESC LIMIT ?`)
+        .all(...params, query.limit + 1) as (DataRow & { seq: number })[];
+      const page = rows.slice(0, query.limit);
+      return {
+        receipts: parseRows<Receipt>(page),
+        next:     rows.length > query.limit ? page[page.length - 1]!.seq : null,
+      };
+    },
+
+    // ── Battles ───────────────────────────────────────────────────────────────
+
+    saveBattle(battle) {
+      stmt.upsertBattle.run({
+        battleId:  battle.battleId,
+        createdAt: battle.createdAt,
+        status:    battle.status,
+        data:      JSON.stringify(battle),
+      });
+    },
+
+    getBattle(battleId) {
+      return parseRow<BattleRecord>(stmt.getBattle.get(battleId));
+    },
+
+    listRecentBattles(limit) {
+      return parseRows<BattleRecord>(stmt.recentBattles.all(limit));
+    },
+
+    listBattlesByStatus(statuses) {
+      return parseRows<BattleRecord>(stmt.battlesByStatus.all(JSON.stringify(statuses)));
+    },
+
+    pruneBattles(max) {
+      stmt.pruneBattles.run({ max, open: JSON.stringify(OPEN_BATTLE_STATUSES) });
+    },
+
+    // ── Stream events ─────────────────────────────────────────────────────────
+
+    insertStreamEvent(event) {
+      stmt.insertStreamEvent.run(event.id, event.txHash.toLowerCase(), JSON.stringify(event));
+    },
+
+    listStreamEvents(limit) {
+      return parseRows<StreamEvent>(stmt.recentStreamEvents.all(limit));
+    },
+
+    pruneStreamEvents(max) {
+      stmt.pruneStreamEvents.run(max);
+    },
+
+    // ── Paper bets ────────────────────────────────────────────────────────────
+
+    insertPaperBet(bet) {
+      stmt.insertPaperBet.run(bet.id, bet.battleId, JSON.stringify(bet));
+    },
+
+    listPaperBets(battleId) {
+      return parseRows<PaperBet>(stmt.listPaperBets.all(battleId));
+    },
+
+    insertPaperResults(results) {
+      insertPaperResults(results);
+    },
+
+    listPaperResults(battleId) {
+      return parseRows<PaperBetResult>(stmt.listPaperResults.all(battleId));
+    },
+
+    getPaperStats(nickname) {
+      return parseRow<NicknameStats>(stmt.getPaperStats.get(nickname));
+    },
+
+    savePaperStats(stats) {
+      stmt.upsertPaperStats.run(stats.nickname, JSON.stringify(stats));
+    },
+
+    listPaperStats() {
+      return parseRows<NicknameStats>(stmt.listPaperStats.all());
+    },
+
+    // ── Profiles ──────────────────────────────────────────────────────────────
+
+    getProfile(address) {
+      return parseRow<Profile>(stmt.getProfile.get(address.toLowerCase()));
+    },
+
+    saveProfile(profile) {
+      stmt.upsertProfile.run(profile.address.toLowerCase(), JSON.stringify(profile));
+    },
+
+    // ── Agents ────────────────────────────────────────────────────────────────
+
+    listAgents() {
+      return parseRows<AgentDefinition>(stmt.listAgents.all());
+    },
+
+    saveAgent(agent) {
+      stmt.upsertAgent.run(agent.agentId, agent.createdAt, JSON.stringify(agent));
+    },
+
+    deleteAgent(agentId) {
+      stmt.deleteAgent.run(agentId);
+    },
+
+    // ── Weight profiles ───────────────────────────────────────────────────────
+
+    listWeightProfiles() {
+      return parseRows<WeightProfile>(stmt.listWeightProfiles.all());
+    },
+
+    saveWeightProfile(profile) {
+      stmt.upsertWeightProfile.run(profile.name, profile.createdAt, JSON.stringify(profile));
+    },
+
+    deleteWeightProfile(name) {
+      stmt.deleteWeightProfile.run(name);
+    },
+
+    // ── Custom battle types ───────────────────────────────────────────────────
+
+    listBattleTypes() {
+      return parseRows<CustomBattleType>(stmt.listBattleTypes.all());
+    },
+
+    saveBattleType(type) {
+      stmt.upsertBattleType.run(type.name, type.createdAt, JSON.stringify(type));
+    },
+
+    deleteBattleType(name) {
+      stmt.deleteBattleType.run(name);
+    },
+
+    // ── AQI snapshots ─────────────────────────────────────────────────────────
+
+    insertAQISnapshots(snapshots) {
+      insertSnapshots(snapshots);
+    },
+
+    listAQISnapshots(agentId, since) {
+      return parseRows<AQISnapshot>(stmt.listSnapshots.all(agentId, since));
+    },
+
+    pruneAQISnapshots(before) {
+      stmt.pruneSnapshots.run(before);
+    },
+
+    // ── Schedules ─────────────────────────────────────────────────────────────
+
+    listSchedules() {
+      return parseRows<JobSchedule>(stmt.listSchedules.all());
+    },
+
+    saveSchedule(schedule) {
+      stmt.upsertSchedule.run(schedule.scheduleId, schedule.createdAt, JSON.stringify(schedule));
+    },
+
+    deleteSchedule(scheduleId) {
+      stmt.deleteSchedule.run(scheduleId);
+    },
+
+    // ── Tournaments + seasons ─────────────────────────────────────────────────
+
+    listTournaments() {
+      return parseRows<Tournament>(stmt.listTournaments.all());
+    },
+
+    getTournament(tournamentId) {
+      return parseRow<Tournament>(stmt.getTournament.get(tournamentId));
+    },
+
+    saveTournament(tournament) {
+      stmt.upsertTournament.run(tournament.tournamentId, tournament.createdAt, JSON.stringify(tournament));
+    },
+
+    listSeasons() {
+      return parseRows<Season>(stmt.listSeasons.all());
+    },
+
+    saveSeason(season) {
+      stmt.upsertSeason.run(season.seasonId, season.createdAt, JSON.stringify(season));
+    },
+
+    // ── Idempotency keys ──────────────────────────────────────────────────────
+
+    getIdempotencyRecord(scope, key) {
+      return parseRow<IdempotencyRecord>(stmt.getIdempotency.get(scope, key));
+    },
+
+    saveIdempotencyRecord(record) {
+      stmt.upsertIdempotency.run(record.scope, record.key, record.createdAt, JSON.stringify(record));
+    },
+
+    pruneIdempotencyRecords(before) {
+      stmt.pruneIdempotency.run(before);
+    },
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Storage contract shared by every persistence driver.
+ *
+ * All methods are synchronous so the helpers in store.ts (and the route
+ * handlers that call them) keep their existing call style.  Drivers return
+ * plain objects — callers that mutate a returned record must hand it back
+ * via the matching save/update method for the change to be persisted.
+ */
+
+import type {
+  AgentDefinition,
+  AgentId,
+  AQISnapshot,
+  BattleRecord,
+  BattleStatus,
+  CustomBattleType,
+  JobSchedule,
+  JobStatus,
+  JobType,
+  PaperBet,
+  PaperBetResult,
+  Receipt,
+  Season,
+  StreamEvent,
+  Tournament,
+  WeightProfile,
+} from "@agent-aqi/shared";
+import type { IdempotencyRecord, IdempotencyScope } from "../lib/idempotency";
+import type { NicknameStats } from "../lib/paperBets";
+import type { Profile } from "../lib/profiles";
+
+export type StorageDriver = "memory" | "sqlite";
+
+/** Battles pruneBattles never drops: lobbies still taking bets and battles mid-run. */
+export const OPEN_BATTLE_STATUSES: BattleStatus[] = ["lobby", "running"];
+
+/** Filters for Storage.queryReceipts.  Every field is optional and ANDed. */
+export interface ReceiptQuery {
+  agentId?:  AgentId;
+  status?:   JobStatus;
+  jobType?:  JobType;
+  battleId?: string;
+  /** completedAt >= from (unix ms) */
+  from?:     number;
+  /** completedAt < to (unix ms) */
+  to?:       number;
+  /** outcome.safetyFlags contains this flag */
+  flag?:     string;
+  /** Only receipts stored before this position (a previous page's `next`) */
+  before?:   number;
+  limit:     number;
+}
+
+export interface ReceiptQueryResult {
+  /** Newest first */
+  receipts: Receipt[];
+  /** Position to pass as `before` for the next page; null on the last page */
+  next:     number | null;
+}
+
+export interface Storage {
+  readonly driver: StorageDriver;
+
+  // ── Receipts (insertion order = chronological) ────────────────────────────
+  insertReceipt(receipt: Receipt): void;
+  /** Replace a stored receipt (matched by jobId). No-op if it does not exist. */
+  updateReceipt(receipt: Receipt): void;
+  listReceipts(): Receipt[];
+  listReceiptsByAgent(agentId: string): Receipt[];
+  /** Case-insensitive match on onChain.txHash. */
+  findReceiptByTxHash(txHash: string): Receipt | undefined;
+  getReceipt(jobId: string): Receipt | undefined;
+  queryReceipts(query: ReceiptQuery): ReceiptQueryResult;
+
+  // ── Battles ───────────────────────────────────────────────────────────────
+  /** Insert or replace a battle record (matched by battleId). */
+  saveBattle(battle: BattleRecord): void;
+  getBattle(battleId: string): BattleRecord | undefined;
+  /** The `limit` most-recently created battles, newest first. */
+  listRecentBattles(limit: number): BattleRecord[];
+  /** Battles in any of `statuses`, newest first.  Not bounded by pruning. */
+  listBattlesByStatus(statuses: BattleStatus[]): BattleRecord[];
+  /**
+   * Drop the oldest battles so that at most `max` remain, except open ones
+   * ("lobby" / "running"), which are never dropped.
+   */
+  pruneBattles(max: number): void;
+
+  // ── QuickNode stream events ───────────────────────────────────────────────
+  insertStreamEvent(event: StreamEvent): void;
+  /** The `limit` most recent stream events, newest last. */
+  listStreamEvents(limit: number): StreamEvent[];
+  /** Drop the oldest stream events so that at most `max` remain. */
+  pruneStreamEvents(max: number): void;
+
+  // ── Paper bets ────────────────────────────────────────────────────────────
+  insertPaperBet(bet: PaperBet): void;
+  listPaperBets(battleId: string): PaperBet[];
+  insertPaperResults(results: PaperBetResult[]): void;
+  listPaperResults(battleId: string): PaperBetResult[];
+  getPaperStats(nickname: string): NicknameStats | undefined;
+  savePaperStats(stats: NicknameStats): void;
+  listPaperStats(): NicknameStats[];
+
+  // ── Wallet profiles (keyed by lowercase address) ──────────────────────────
+  getProfile(address: string): Profile | undefined;
+  saveProfile(profile: Profile): void;
+
+  // ── Custom agent definitions (built-ins live in code) ─────────────────────
+  /** Registered custom agents, oldest first. */
+  listAgents(): AgentDefinition[];
+  /** Insert or replace an agent definition (matched by agentId). */
+  saveAgent(agent: AgentDefinition): void;
+  deleteAgent(agentId: string): void;
+
+  // ── Custom AQI weight profiles (built-ins live in @agent-aqi/shared) ──────
+  /** Saved custom profiles, oldest first. */
+  listWeightProfiles(): WeightProfile[];
+  /** Insert or replace a profile (matched by name). */
+  saveWeightProfile(profile: WeightProfile): void;
+  deleteWeightProfile(name: string): void;
+
+  // ── Custom battle types (built-ins live in lib/battleTypes.ts) ────────────
+  /** Saved custom battle types, oldest first. */
+  listBattleTypes(): CustomBattleType[];
+  /** Insert or replace a battle type (matched by name). */
+  saveBattleType(type: CustomBattleType): void;
+  deleteBattleType(name: string): void;
+
+  // ── AQI snapshots ─────────────────────────────────────────────────────────
+  insertAQISnapshots(snapshots: AQISnapshot[]): void;
+  /** Snapshots for one agent taken at or after `since`, oldest first. */
+  listAQISnapshots(agentId: string, since: number): AQISnapshot[];
+  /** Drop snapshots taken before `before`. */
+  pruneAQISnapshots(before: number): void;
+
+  // ── Recurring batch schedules ─────────────────────────────────────────────
+  /** Every schedule, oldest first. */
+  listSchedules(): JobSchedule[];
+  /** Insert or replace a schedule (matched by scheduleId). */
+  saveSchedule(schedule: JobSchedule): void;
+  deleteSchedule(scheduleId: string): void;
+
+  // ── Tournaments + seasons ─────────────────────────────────────────────────
+  /** Every tournament, newest first. */
+  listTournaments(): Tournament[];
+  getTournament(tournamentId: string): Tournament | undefined;
+  /** Insert or replace a tournament (matched by tournamentId). */
+  saveTournament(tournament: Tournament): void;
+  /** Every season, oldest first. */
+  listSeasons(): Season[];
+  /** Insert or replace a season (matched by seasonId). */
+  saveSeason(season: Season): void;
+
+  // ── Idempotency keys (POST /jobs, POST /arena/battle) ─────────────────────
+  getIdempotencyRecord(scope: IdempotencyScope, key: string): IdempotencyRecord | undefined;
+  /** Insert or replace a record (matched by scope + key). */
+  saveIdempotencyRecord(record: IdempotencyRecord): void;
+  /** Drop records created before `before`. */
+  pruneIdempotencyRecords(before: number): void;
+}
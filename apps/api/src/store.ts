@@ -1,20 +1,35 @@
 /**
- * In-memory store for receipts, SSE events, and QuickNode stream events.
+ * Store for receipts, battles, SSE events, and QuickNode stream events.
+ *
+ * Receipts, battles and stream events are persisted through the configured
+ * storage driver (see storage/index.ts).  SSE events, connected clients and
+ * in-flight job states are process-local and intentionally not persisted.
  */
 
-import type { AgentId, BattleRecord, BattleScorecard, Receipt, SSEEvent, StreamEvent } from "@agent-aqi/shared";
+import type {
+  AgentId,
+  BattleDecision,
+  BattleRecord,
+  BattleRound,
+  BattleScorecard,
+  BattleStatus,
+  JobRecord,
+  Receipt,
+  SSEEvent,
+  StreamEvent,
+} from "@agent-aqi/shared";
 import { v4 as uuidv4 } from "uuid";
 import type { Response } from "express";
+import { storage } from "./storage";
+import { jobFailure } from "./lib/failures";
+import { aggregateRounds } from "./lib/battleStats";
+import type { ReceiptQuery, ReceiptQueryResult } from "./storage/types";
 
 // ─── Data stores ──────────────────────────────────────────────────────────────
 
-export const receipts: Receipt[] = [];
-
 export const events: SSEEvent[] = [];
 
-/** Capped ring-buffer of normalised QuickNode stream events (max 5000). */
-export const streamEvents: StreamEvent[] = [];
-
+/** Stream events are kept as a capped ring-buffer (max 5000). */
 const MAX_STREAM_EVENTS = 5_000;
 
 // ─── SSE client registry ──────────────────────────────────────────────────────
@@ -53,41 +68,93 @@ export function emitEvent(
 }
 
 export function addReceipt(receipt: Receipt): void {
-  receipts.push(receipt);
+  storage.insertReceipt(receipt);
 }
 
-export function getReceiptsByAgent(agentId: string): Receipt[] {
-  return receipts.filter((r) => r.agentId === agentId);
+/** Persist changes made to a receipt previously returned by the store. */
+export function updateReceipt(receipt: Receipt): void {
+  storage.updateReceipt(receipt);
 }
 
-// ─── Battle store ─────────────────────────────────────────────────────────────
-
-export const battles: BattleRecord[] = [];
+/** All receipts, oldest first. */
+export function getAllReceipts(): Receipt[] {
+  return storage.listReceipts();
+}
 
-const MAX_BATTLES = 100;
+export function getReceiptsByAgent(agentId: string): Receipt[] {
+  return storage.listReceiptsByAgent(agentId);
+}
 
-// ─── Current battle (admin-controlled lobby) ──────────────────────────────────
+export function getReceipt(jobId: string): Receipt | undefined {
+  return storage.getReceipt(jobId);
+}
 
-/** The battleId that is currently "live" (lobby → running → complete). */
-let _currentBattleId: string | null = null;
+export function queryReceipts(query: ReceiptQuery): ReceiptQueryResult {
+  return storage.queryReceipts(query);
+}
 
-export function setCurrentBattleId(id: string | null): void {
-  _currentBattleId = id;
+// ─── Job state (queued / running / failed-without-receipt) ────────────────────
+
+/** Jobs tracked before they have a receipt; oldest evicted first. */
+const MAX_TRACKED_JOBS = 1_000;
+
+const jobs = new Map<string, JobRecord>();
+
+/** Record or advance a job's state.  `patch` is merged into the existing record. */
+export function setJobState(jobId: string, patch: Omit<Partial<JobRecord>, "jobId" | "receipt">): void {
+  const existing = jobs.get(jobId);
+  if (!existing) {
+    if (!patch.agentId || !patch.jobType) return;
+    jobs.set(jobId, {
+      jobId,
+      agentId:     patch.agentId,
+      jobType:     patch.jobType,
+      status:      patch.status ?? "queued",
+      submittedAt: patch.submittedAt ?? Date.now(),
+      ...patch,
+    });
+    if (jobs.size > MAX_TRACKED_JOBS) jobs.delete(jobs.keys().next().value!);
+    return;
+  }
+  Object.assign(existing, patch);
 }
 
-export function getCurrentBattleId(): string | null {
-  return _currentBattleId;
+/**
+ * A job's current state.  Once a receipt exists it is the source of truth;
+ * before that the process-local record is used.  Undefined for unknown ids
+ * (or in-flight jobs from before a restart).
+ */
+export function getJob(jobId: string): JobRecord | undefined {
+  const receipt = getReceipt(jobId);
+  if (receipt) {
+    return {
+      jobId,
+      agentId:     receipt.agentId,
+      jobType:     receipt.constraints.jobType,
+      status:      receipt.outcome.status,
+      submittedAt: receipt.submittedAt,
+      completedAt: receipt.completedAt,
+      ...(receipt.battleId && { battleId: receipt.battleId }),
+      ...(receipt.failure && { error: receipt.failure.message }),
+      receipt,
+    };
+  }
+  const tracked = jobs.get(jobId);
+  return tracked && { ...tracked };
 }
 
+// ─── Battle store ─────────────────────────────────────────────────────────────
+
+/** Finished battles kept; open ones (lobby / running) are never pruned. */
+const MAX_BATTLES = 100;
+
 export function addBattle(battle: BattleRecord): void {
-  battles.push(battle);
-  if (battles.length > MAX_BATTLES) {
-    battles.splice(0, battles.length - MAX_BATTLES);
-  }
+  storage.saveBattle(battle);
+  storage.pruneBattles(MAX_BATTLES);
 }
 
 export function getBattle(battleId: string): BattleRecord | undefined {
-  return battles.find((b) => b.battleId === battleId);
+  return storage.getBattle(battleId);
 }
 
 export function updateBattleScorecard(
@@ -98,7 +165,25 @@ export function updateBattleScorecard(
   const battle = getBattle(battleId);
   if (!battle) return;
   const card = battle.scorecards.find((s: BattleScorecard) => s.agentId === agentId);
-  if (card) Object.assign(card, patch);
+  if (!card) return;
+  Object.assign(card, patch);
+  storage.saveBattle(battle);
+}
+
+/**
+ * Store a finished round of a best-of-N battle and re-aggregate its
+ * scorecards from every round so far.
+ */
+export function recordBattleRound(battleId: string, round: BattleRound): BattleRecord | undefined {
+  const battle = getBattle(battleId);
+  if (!battle) return undefined;
+  battle.roundResults = [...(battle.roundResults ?? []), round];
+  const verified = new Set(battle.scorecards.filter((c) => c.verifiedByStream).map((c) => c.agentId));
+  battle.scorecards = aggregateRounds(battle.agentIds, battle.roundResults).map((c) =>
+    verified.has(c.agentId) ? { ...c, verifiedByStream: true } : c,
+  );
+  storage.saveBattle(battle);
+  return battle;
 }
 
 /** Transition a lobby battle to "running" (jobs about to execute). */
@@ -106,51 +191,70 @@ export function startBattle(battleId: string): void {
   const battle = getBattle(battleId);
   if (!battle) return;
   battle.status = "running";
+  storage.saveBattle(battle);
+}
+
+/** Close a battle that will not (or can no longer) run to completion. */
+export function cancelBattle(battleId: string): void {
+  const battle = getBattle(battleId);
+  if (!battle) return;
+  battle.status = "cancelled";
+  storage.saveBattle(battle);
 }
 
-export function finalizeBattle(battleId: string, winnerAgentId: AgentId | undefined): void {
+export function finalizeBattle(battleId: string, decision: BattleDecision): void {
   const battle = getBattle(battleId);
   if (!battle) return;
   battle.status         = "complete";
-  battle.winnerAgentId  = winnerAgentId;
+  battle.winnerAgentId  = decision.winnerAgentId ?? undefined;
+  battle.decision       = decision;
+  storage.saveBattle(battle);
+}
+
+/** Record the tx hash of the on-chain resolveBattle() call. */
+export function setBattleResolveTxHash(battleId: string, txHash: string): void {
+  const battle = getBattle(battleId);
+  if (!battle) return;
+  battle.resolveTxHash = txHash;
+  storage.saveBattle(battle);
 }
 
 /** Return the `limit` most-recent battles, newest first. */
 export function getRecentBattles(limit: number): BattleRecord[] {
-  return [...battles].reverse().slice(0, Math.max(1, limit));
+  return storage.listRecentBattles(Math.max(1, limit));
+}
+
+/** Battles in any of `statuses`, newest first — open ones are never pruned. */
+export function getBattlesByStatus(statuses: BattleStatus[]): BattleRecord[] {
+  return storage.listBattlesByStatus(statuses);
 }
 
 // ─── Stream event helpers ─────────────────────────────────────────────────────
 
 /** Append a normalised stream event; evict oldest if over capacity. */
 export function addStreamEvent(event: StreamEvent): void {
-  streamEvents.push(event);
-  if (streamEvents.length > MAX_STREAM_EVENTS) {
-    streamEvents.splice(0, streamEvents.length - MAX_STREAM_EVENTS);
-  }
+  storage.insertStreamEvent(event);
+  storage.pruneStreamEvents(MAX_STREAM_EVENTS);
 }
 
 /** Return the `limit` most recent stream events (newest last). */
 export function getStreamEvents(limit: number): StreamEvent[] {
-  return streamEvents.slice(-Math.max(1, limit));
+  return storage.listStreamEvents(Math.max(1, limit));
 }
 
 /**
  * Find the first receipt whose on-chain tx hash matches.
- * Returns the receipt object directly (mutations are reflected in the store).
+ * Mutations to the returned object must be saved with updateReceipt().
  */
 export function findReceiptByTxHash(txHash: string): Receipt | undefined {
-  const lower = txHash.toLowerCase();
-  return receipts.find(
-    (r) => r.onChain?.txHash?.toLowerCase() === lower,
-  );
+  return storage.findReceiptByTxHash(txHash);
 }
 
 /**
  * Update an existing receipt's on-chain evidence and outcome status
  * based on confirmed stream data.
  *
- * @param receipt - Must be a direct reference from the `receipts` array.
+ * @param receipt - A receipt returned by the store; the update is persisted here.
  * @param gasUsed - Gas units consumed (decimal string from stream).
  * @param evmStatus - "success" | "reverted" from the EVM.
  */
@@ -166,7 +270,14 @@ export function applyStreamConfirmation(
     receipt.onChain.confirmedAt = Date.now();
   }
   // Map EVM status → job status so AQI scoring reflects confirmed outcome
-  receipt.outcome.status = evmStatus === "success" ? "fulfilled" : "failed";
+  if (evmStatus === "success") {
+    receipt.outcome.status = "fulfilled";
+    delete receipt.failure;
+  } else {
+    receipt.outcome.status = "failed";
+    receipt.failure = jobFailure("reverted", "base_confirm_tx", "reverted (confirmed by stream)");
+  }
+  storage.updateReceipt(receipt);
 
   // Propagate verification to the battle scorecard when this receipt is part of a battle
   if (receipt.battleId) {
@@ -0,0 +1,95 @@
+/**
+ * Battle decisions: criterion order, ties, the no-winner cases and the
+ * series tests (Welch / two-proportion z).
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { BattleRecord, BattleScorecard, BattleType } from "@agent-aqi/shared";
+import { decideBattle } from "../src/lib/battleDecision";
+import { meansDiffer, proportionsDiffer } from "../src/lib/battleStats";
+
+function battle(battleType: BattleType, scorecards: BattleScorecard[], extra: Partial<BattleRecord> = {}): BattleRecord {
+  return {
+    battleId:   "b-test",
+    createdAt:  0,
+    battleType,
+    agentIds:   scorecards.map((c) => c.agentId),
+    scorecards,
+    status:     "complete",
+    ...extra,
+  };
+}
+
+function card(agentId: string, status: BattleScorecard["status"], latencyMs = 500, gasUsedUsd = 0.5): BattleScorecard {
+  return { agentId, status, latencyMs, gasUsedUsd, slippageBps: 30 };
+}
+
+test("a speed battle goes to the fastest agent that fulfilled", () => {
+  const d = decideBattle(battle("speed", [
+    card("safe",  "fulfilled", 900),
+    card("fast",  "fulfilled", 300),
+    card("cheap", "failed",    100),
+  ]));
+  assert.equal(d.winnerAgentId, "fast");
+  assert.equal(d.decidedBy, "latencyMs");
+  assert.deepEqual(d.steps.map((s) => s.criterion), ["fulfilled", "latencyMs"]);
+});
+
+test("the only agent that fulfilled wins on fulfilment", () => {
+  const d = decideBattle(battle("gas", [card("safe", "fulfilled", 900, 2), card("cheap", "failed", 100, 0.1)]));
+  assert.equal(d.winnerAgentId, "safe");
+  assert.equal(d.decidedBy, "fulfilled");
+});
+
+test("agents level on every criterion tie", () => {
+  const d = decideBattle(battle("speed", [card("safe", "fulfilled"), card("fast", "fulfilled")]));
+  assert.equal(d.winnerAgentId, null);
+  assert.equal(d.tie, true);
+  assert.deepEqual(d.tiedAgentIds, ["safe", "fast"]);
+});
+
+test("a battle nobody fulfilled has no winner and is not a tie", () => {
+  for (const type of ["speed", "gas", "slippage", "reliability"] as const) {
+    const d = decideBattle(battle(type, [card("safe", "failed", 900), card("fast", "timed_out", 300)]));
+    assert.equal(d.winnerAgentId, null, type);
+    assert.equal(d.tie, false, type);
+    assert.deepEqual(d.tiedAgentIds, [], type);
+    assert.equal(d.decidedBy, null, type);
+    assert.equal(d.summary, "No agent fulfilled its job", type);
+  }
+});
+
+test("a series only has a winner when a test separates the rounds", () => {
+  const rounds = (fast: number[], safe: number[]) => fast.map((ms, i) => ({
+    round:      i + 1,
+    scorecards: [card("fast", "fulfilled", ms), card("safe", "fulfilled", safe[i])],
+  }));
+  const series = (fast: number[], safe: number[]) => battle(
+    "speed",
+    [card("fast", "fulfilled"), card("safe", "fulfilled")],
+    { rounds: fast.length, roundResults: rounds(fast, safe) },
+  );
+
+  const clear = decideBattle(series([300, 310, 290, 305, 295], [900, 880, 920, 910, 890]));
+  assert.equal(clear.winnerAgentId, "fast");
+  assert.equal(clear.steps[1]?.test, "welch_t");
+
+  const noisy = decideBattle(series([300, 900, 350, 850, 400], [880, 320, 860, 380, 820]));
+  assert.equal(noisy.winnerAgentId, null);
+  assert.equal(noisy.tie, true);
+});
+
+test("meansDiffer is Welch's t-test at 95 %", () => {
+  assert.equal(meansDiffer([1, 2, 3, 2, 1], [9, 10, 11, 10, 9]), true);
+  assert.equal(meansDiffer([1, 5, 2, 6, 3], [2, 6, 1, 5, 4]), false);
+  assert.equal(meansDiffer([1], [100, 101]), false);
+  assert.equal(meansDiffer([2, 2, 2], [3, 3, 3]), true);
+});
+
+test("proportionsDiffer is a two-proportion z-test at 95 %", () => {
+  assert.equal(proportionsDiffer(19, 20, 5, 20), true);
+  assert.equal(proportionsDiffer(10, 20, 12, 20), false);
+  assert.equal(proportionsDiffer(0, 10, 0, 10), false);
+  assert.equal(proportionsDiffer(3, 0, 0, 10), false);
+});
@@ -0,0 +1,59 @@
+/**
+ * Paid-call budgets: the default payment, the server-side cap and the
+ * validation of caller overrides.  The cap is read from the environment when
+ * the module loads, so it is imported after X402_MAX_PAYMENT_USD is set.
+ */
+
+import { before, test } from "node:test";
+import assert from "node:assert/strict";
+import type { JobConstraints } from "@agent-aqi/shared";
+
+process.env["X402_MAX_PAYMENT_USD"] = "0.5";
+
+let constraints: typeof import("../src/lib/constraints");
+let registry:    typeof import("../src/lib/agentRegistry");
+
+before(async () => {
+  constraints = await import("../src/lib/constraints");
+  registry    = await import("../src/lib/agentRegistry");
+});
+
+function paidCall(maxPaymentUsd?: number): JobConstraints {
+  return {
+    jobType:        "paid_call",
+    objective:      "cheapest",
+    maxSlippageBps: 50,
+    maxGasUsd:      5,
+    deadlineMs:     5_000,
+    ...(maxPaymentUsd !== undefined && { maxPaymentUsd }),
+  };
+}
+
+test("the payment cap comes from X402_MAX_PAYMENT_USD", () => {
+  assert.equal(constraints.MAX_PAYMENT_USD, 0.5);
+});
+
+test("a paid call pays at most the cap and defaults to a small amount, not the gas budget", () => {
+  assert.equal(constraints.paymentBudgetUsd(paidCall(5)), 0.5);
+  assert.equal(constraints.paymentBudgetUsd(paidCall(0.2)), 0.2);
+  assert.equal(constraints.paymentBudgetUsd(paidCall()), constraints.DEFAULT_PAYMENT_USD);
+});
+
+test("only paid_call jobs get a default payment", () => {
+  const agent = registry.getAgent("cheap")!;
+  const paid  = constraints.resolveConstraints(agent, "paid_call", undefined, {});
+  const swap  = constraints.resolveConstraints(agent, "swap", undefined, {});
+  assert.equal(paid.maxPaymentUsd, constraints.DEFAULT_PAYMENT_USD);
+  assert.equal(swap.maxPaymentUsd, undefined);
+});
+
+test("a maxPaymentUsd override must be positive, within the cap and on a paid call", () => {
+  const parse = (raw: unknown, jobType: JobConstraints["jobType"] = "paid_call") =>
+    constraints.parseConstraintOverrides(raw, jobType, undefined);
+
+  assert.deepEqual(parse({ maxPaymentUsd: 0.25 }), { overrides: { maxPaymentUsd: 0.25 } });
+  for (const bad of [0, -1, 0.75, Number.NaN, "0.1"]) {
+    assert.ok("error" in parse({ maxPaymentUsd: bad }), `accepted ${String(bad)}`);
+  }
+  assert.ok("error" in parse({ maxPaymentUsd: 0.25 }, "swap"));
+});
@@ -0,0 +1,62 @@
+/**
+ * Seeded reproducibility: the PRNG, per-agent seed derivation, sim jobs and
+ * the AQI bootstrap all give the same answer for the same seed.
+ */
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { Receipt } from "@agent-aqi/shared";
+import { computeAQI, createRng, deriveSeed, isValidSeed, mulberry32 } from "@agent-aqi/shared";
+import { defaultConstraints, runAgent } from "../src/agents";
+
+function draws(rand: () => number, n: number): number[] {
+  return Array.from({ length: n }, () => rand());
+}
+
+/** The parts of a sim receipt that depend on the seed, not on the clock. */
+function simulated(r: Receipt) {
+  return { outcome: r.outcome, failure: r.failure, seed: r.seed, scenario: r.scenario };
+}
+
+test("mulberry32 repeats its sequence for a seed and stays in [0, 1)", () => {
+  const a = draws(mulberry32(42), 100);
+  assert.deepEqual(draws(mulberry32(42), 100), a);
+  assert.notDeepEqual(draws(mulberry32(43), 100), a);
+  assert.ok(a.every((x) => x >= 0 && x < 1));
+});
+
+test("createRng separates neighbouring seeds from the first draw", () => {
+  const firsts = [1, 2, 3, 4, 5, 6].map((seed) => draws(createRng(seed), 2));
+  assert.equal(new Set(firsts.map((d) => d[1])).size, firsts.length);
+  assert.deepEqual(draws(createRng(3), 2), firsts[2]);
+});
+
+test("deriveSeed gives each key its own valid, stable seed", () => {
+  const seeds = ["safe", "fast", "cheap"].map((id) => deriveSeed(1234, id));
+  assert.ok(seeds.every(isValidSeed));
+  assert.equal(new Set(seeds).size, 3);
+  assert.equal(deriveSeed(1234, "fast"), seeds[1]);
+  assert.notEqual(deriveSeed(1235, "fast"), seeds[1]);
+});
+
+test("a sim job re-run with its seed and scenario reproduces its outcome", async () => {
+  for (const agentId of ["safe", "fast", "cheap"]) {
+    const constraints = defaultConstraints("swap", agentId);
+    const seed        = deriveSeed(7, agentId);
+    const first  = await runAgent(agentId, constraints, seed, "volatile");
+    const replay = await runAgent(agentId, constraints, seed, "volatile");
+    assert.notEqual(replay.jobId, first.jobId);
+    assert.deepEqual(simulated(replay), simulated(first));
+  }
+});
+
+test("the AQI bootstrap interval is the same for the same receipts", async () => {
+  const constraints = defaultConstraints("swap", "fast");
+  const receipts: Receipt[] = [];
+  for (let seed = 1; seed <= 12; seed++) receipts.push(await runAgent("fast", constraints, seed));
+
+  const a = computeAQI(receipts, undefined, { bootstrapSamples: 200 });
+  const b = computeAQI([...receipts], undefined, { bootstrapSamples: 200 });
+  assert.deepEqual(b.confidence, a.confidence);
+  assert.ok(a.confidence.score.lower <= a.score && a.score <= a.confidence.score.upper);
+});
@@ -0,0 +1,86 @@
+/**
+ * Reference remote agent (agent-aqi/1)
+ * Port: 4500
+ *
+ * A minimal external agent for testing the remote agent protocol locally.
+ * It accepts a RemoteJobRequest on POST /job, "executes" it with a small
+ * randomised outcome, signs the outcome with its key and returns a
+ * RemoteJobResponse.
+ *
+ * Env vars:
+ *   PORT               listen port (default: 4500)
+ *   AGENT_SIGNER_KEY   0x-prefixed private key used to sign outcomes.
+ *                      A throwaway key is generated when unset — register the
+ *                      address printed at startup as the agent's signerAddress.
+ *   FAIL_RATE          probability (0-1) of reporting a failed outcome (default: 0.1)
+ */
+
+import express from "express";
+import type { Request, Response } from "express";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { REMOTE_AGENT_PROTOCOL, remoteEvidenceMessage } from "@agent-aqi/shared";
+import type { RemoteJobRequest, RemoteJobResponse, RemoteOutcome } from "@agent-aqi/shared";
+
+const PORT      = Number(process.env["PORT"] ?? 4500);
+const FAIL_RATE = Number(process.env["FAIL_RATE"] ?? 0.1);
+
+const signerKey = (process.env["AGENT_SIGNER_KEY"] as `0x${string}` | undefined) ?? generatePrivateKey();
+const account   = privateKeyToAccount(signerKey);
+
+function rnd(min: number, max: number): number {
+  return min + Math.random() * (max - min);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((res) => setTimeout(res, ms));
+}
+
+const app = express();
+app.use(express.json());
+
+app.get("/health", (_req: Request, res: Response) => {
+  res.json({ status: "ok", protocol: REMOTE_AGENT_PROTOCOL, signer: account.address });
+});
+
+app.post("/job", async (req: Request, res: Response) => {
+  const job = req.body as Partial<RemoteJobRequest>;
+  if (job.protocol !== REMOTE_AGENT_PROTOCOL || typeof job.jobId !== "string" || !job.constraints) {
+    res.status(400).json({ error: `expected an ${REMOTE_AGENT_PROTOCOL} job request` });
+    return;
+  }
+
+  // Pretend to route and execute, staying inside the caller's deadline
+  const budgetMs = Math.max(0, (job.deadline ?? Date.now()) - Date.now());
+  await sleep(Math.min(rnd(100, 600), budgetMs * 0.5));
+
+  const { maxSlippageBps, maxGasUsd } = job.constraints;
+  const outcome: RemoteOutcome = {
+    status:      Math.random() < FAIL_RATE ? "failed" : "fulfilled",
+    gasUsedUsd:  Math.round(rnd(0.2, 0.8) * maxGasUsd * 1000) / 1000,
+    slippageBps: Math.round(rnd(0.1, 0.7) * maxSlippageBps),
+    safetyFlags: [],
+  };
+
+  const signature = await account.signMessage({
+    message: remoteEvidenceMessage(job.jobId, outcome),
+  });
+
+  const response: RemoteJobResponse = {
+    jobId:    job.jobId,
+    outcome,
+    evidence: { signer: account.address, signature },
+  };
+
+  console.log(`[reference-agent] job=${job.jobId} type=${job.jobType} status=${outcome.status}`);
+  res.json(response);
+});
+
+app.listen(PORT, () => {
+  console.log(`\n  Reference agent  →  http://localhost:${PORT}/job`);
+  console.log(`  Protocol         →  ${REMOTE_AGENT_PROTOCOL}`);
+  console.log(`  Signer address   →  ${account.address}`);
+  if (!process.env["AGENT_SIGNER_KEY"]) {
+    console.log("  (throwaway key — set AGENT_SIGNER_KEY to keep the address stable)");
+  }
+  console.log();
+});
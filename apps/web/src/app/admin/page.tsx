@@ -6,14 +6,16 @@
  * Flow:
  *   1. Enter ADMIN_TOKEN → stored in localStorage.
  *   2. Choose battle type + matchup.
- *   3. "Open Lobby" → audience can start placing bets.
- *   4. "Run Battle" → jobs fire, winner determined.
+ *   3. "Open Lobby" → audience can start placing bets.  Several lobbies can be
+ *      open at once, each with an optional title and auto-start timer.
+ *   4. "Run" (or the auto-start timer) → jobs fire, winner determined.
+ *      "Cancel" closes a lobby without running it and voids its paper bets.
  *   5. Navigate to /agents (leaderboard) or battle detail to demo results.
  */
 
 import { useEffect, useState } from "react";
 import Link from "next/link";
-import type { BattleRecord, BattleType } from "@agent-aqi/shared";
+import type { BattleRecord, BattleType, CustomBattleType } from "@agent-aqi/shared";
 
 const API = process.env["NEXT_PUBLIC_API_URL"] ?? "http://localhost:4000";
 
@@ -31,6 +33,9 @@ const MATCHUPS: { ids: string[]; label: string }[] = [
   { ids: ["fast", "cheap"],         label: "⚡ vs ♻️" },
 ];
 
+/** Minutes from "Open Lobby" until betting closes / the lobby runs; 0 = never. */
+const TIMER_OPTIONS = [0, 1, 2, 5, 10];
+
 const AGENT_ICONS: Record<string, string> = { safe: "🛡️", fast: "⚡", cheap: "♻️" };
 const AGENT_NAMES: Record<string, string> = { safe: "SafeGuard", fast: "SpeedRunner", cheap: "GasOptimizer" };
 
@@ -39,9 +44,14 @@ export default function AdminPage() {
   const [savedToken,  setSavedToken]  = useState<string | null>(null);
   const [battleType,  setBattleType]  = useState<BattleType>("speed");
   const [matchupIdx,  setMatchupIdx]  = useState(0);
-  const [current,     setCurrent]     = useState<BattleRecord | null>(null);
+  const [rounds,      setRounds]      = useState(1);
+  const [customTypes, setCustomTypes] = useState<CustomBattleType[]>([]);
+  const [title,       setTitle]       = useState("");
+  const [closeMins,   setCloseMins]   = useState(0);
+  const [startMins,   setStartMins]   = useState(0);
+  const [lobbies,     setLobbies]     = useState<BattleRecord[]>([]);
   const [opening,     setOpening]     = useState(false);
-  const [running,     setRunning]     = useState(false);
+  const [busyId,      setBusyId]      = useState<string | null>(null);
   const [msg,         setMsg]         = useState<{ text: string; ok: boolean } | null>(null);
 
   // Load token from localStorage on mount
@@ -50,15 +60,20 @@ export default function AdminPage() {
     if (t) setSavedToken(t);
   }, []);
 
-  // Poll current battle
+  // Custom battle types, listed after the built-ins
+  useEffect(() => {
+    fetch(`${API}/arena/battle-types`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then((d: { custom: CustomBattleType[] } | null) => { if (d) setCustomTypes(d.custom); })
+      .catch(() => { /* ignore */ });
+  }, []);
+
+  // Poll open + running lobbies
   useEffect(() => {
     async function poll() {
       try {
-        const res = await fetch(`${API}/arena/current`);
-        if (res.ok) {
-          const d = (await res.json()) as { battle: BattleRecord | null };
-          setCurrent(d.battle);
-        }
+        const res = await fetch(`${API}/arena/lobbies`);
+        if (res.ok) setLobbies((await res.json()) as BattleRecord[]);
       } catch { /* ignore */ }
     }
     poll();
@@ -87,14 +102,21 @@ export default function AdminPage() {
     setMsg(null);
     try {
       const agentIds = MATCHUPS[matchupIdx]?.ids ?? ["safe", "fast", "cheap"];
+      const now      = Date.now();
       const res = await fetch(`${API}/arena/admin/open`, {
         method:  "POST",
         headers: { "Content-Type": "application/json", "x-admin-token": savedToken },
-        body:    JSON.stringify({ battleType, agentIds }),
+        body:    JSON.stringify({
+          battleType, agentIds, rounds,
+          ...(title.trim() && { title: title.trim() }),
+          ...(closeMins > 0 && { bettingClosesAt: now + closeMins * 60_000 }),
+          ...(startMins > 0 && { autoStartAt: now + startMins * 60_000 }),
+        }),
       });
       if (res.ok) {
         const d = (await res.json()) as { battleId: string };
         setMsg({ text: `Lobby open! Battle ID: ${d.battleId.slice(0, 8)}…`, ok: true });
+        setTitle("");
       } else {
         const e = (await res.json()) as { error: string };
         setMsg({ text: e.error ?? "Failed to open lobby", ok: false });
@@ -106,33 +128,36 @@ export default function AdminPage() {
     }
   }
 
-  async function runBattle() {
+  async function lobbyAction(battleId: string, action: "run" | "cancel") {
     if (!savedToken) return;
-    if (!current || current.status !== "lobby") return;
-    setRunning(true);
+    setBusyId(battleId);
     setMsg(null);
     try {
-      const res = await fetch(`${API}/arena/admin/run`, {
+      const res = await fetch(`${API}/arena/admin/${action}`, {
         method:  "POST",
         headers: { "Content-Type": "application/json", "x-admin-token": savedToken },
+        body:    JSON.stringify({ battleId }),
       });
       if (res.ok) {
-        setMsg({ text: "Battle started! Agents are running…", ok: true });
+        setMsg({
+          text: action === "run" ? "Battle started! Agents are running…" : "Lobby cancelled — paper bets voided.",
+          ok:   true,
+        });
       } else {
         const e = (await res.json()) as { error: string };
-        setMsg({ text: e.error ?? "Failed to run battle", ok: false });
+        setMsg({ text: e.error ?? `Failed to ${action} lobby`, ok: false });
       }
     } catch {
       setMsg({ text: "Network error", ok: false });
     } finally {
-      setRunning(false);
+      setBusyId(null);
     }
   }
 
-  const statusColor =
-    current?.status === "lobby"    ? "var(--yellow)" :
-    current?.status === "running"  ? "var(--accent)"  :
-    current?.status === "complete" ? "var(--green)"   : "var(--muted)";
+  const statusColor = (status: BattleRecord["status"]) =>
+    status === "lobby"    ? "var(--yellow)" :
+    status === "running"  ? "var(--accent)"  :
+    status === "complete" ? "var(--green)"   : "var(--muted)";
 
   return (
     <div style={{
@@ -195,86 +220,94 @@ export default function AdminPage() {
         </div>
       )}
 
-      {/* Current battle status */}
+      {/* Open + running lobbies */}
       <div className="card" style={{ marginBottom: "1.5rem" }}>
-        <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: current ? 12 : 0 }}>
-          <h3 style={{ marginBottom: 0, fontSize: 13 }}>Current Battle</h3>
-          {current && (
-            <span style={{
-              marginLeft: "auto", fontSize: 10, fontWeight: 700,
-              color: statusColor, textTransform: "uppercase", letterSpacing: "0.05em",
-            }}>
-              ● {current.status}
-            </span>
+        <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: lobbies.length ? 12 : 0 }}>
+          <h3 style={{ marginBottom: 0, fontSize: 13 }}>Lobbies</h3>
+          {lobbies.length > 0 && (
+            <span className="muted" style={{ marginLeft: "auto", fontSize: 11 }}>{lobbies.length} live</span>
           )}
         </div>
 
-        {!current ? (
-          <p className="muted" style={{ fontSize: 12 }}>No active battle — open a lobby below.</p>
+        {lobbies.length === 0 ? (
+          <p className="muted" style={{ fontSize: 12 }}>No live lobbies — open one below.</p>
         ) : (
-          <>
-            <div style={{ display: "flex", gap: 8, marginBottom: 10 }}>
-              {current.agentIds.map((id) => (
-                <span key={id} style={{
-                  fontSize: 11, fontWeight: 600,
-                  background: "var(--bg)", border: "1px solid var(--border)",
-                  borderRadius: "var(--radius)", padding: "3px 10px",
-                }}>
-                  {AGENT_ICONS[id] ?? "🤖"} {AGENT_NAMES[id] ?? id}
-                </span>
-              ))}
-            </div>
+          <div style={{ display: "flex", flexDirection: "column", gap: 10 }}>
+            {lobbies.map((b) => (
+              <div key={b.battleId} style={{
+                background: "var(--bg)", border: "1px solid var(--border)",
+                borderRadius: "var(--radius)", padding: "0.7rem 0.85rem",
+              }}>
+                <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 6 }}>
+                  <strong style={{ fontSize: 12, color: "var(--text-hi)" }}>
+                    {b.lobby?.title ?? b.customType?.label ?? b.battleType}
+                  </strong>
+                  <span style={{
+                    marginLeft: "auto", fontSize: 10, fontWeight: 700,
+                    color: statusColor(b.status), textTransform: "uppercase", letterSpacing: "0.05em",
+                  }}>
+                    ● {b.status}
+                  </span>
+                </div>
 
-            <div style={{ fontSize: 11, color: "var(--muted)", marginBottom: 10 }}>
-              Type: <strong style={{ color: "var(--text)" }}>{current.battleType}</strong>
-              {" · "}ID: <code style={{ color: "var(--accent)" }}>{current.battleId.slice(0, 8)}…</code>
-              {current.winnerAgentId && (
-                <span style={{ color: "var(--green)", marginLeft: 8 }}>
-                  🏆 {AGENT_ICONS[current.winnerAgentId]} wins
-                </span>
-              )}
-            </div>
+                <div style={{ fontSize: 11, color: "var(--muted)", marginBottom: 8 }}>
+                  {b.agentIds.map((id) => AGENT_ICONS[id] ?? id).join(" vs ")}
+                  {" · "}{b.battleType}
+                  {b.rounds && b.rounds > 1 && <> · best of {b.rounds}</>}
+                  {" · "}<code style={{ color: "var(--accent)" }}>{b.battleId.slice(0, 8)}…</code>
+                  {b.lobby?.bettingClosesAt && (
+                    <> · bets close {new Date(b.lobby.bettingClosesAt).toLocaleTimeString()}</>
+                  )}
+                  {b.status === "lobby" && b.lobby?.autoStartAt && (
+                    <> · auto-start {new Date(b.lobby.autoStartAt).toLocaleTimeString()}</>
+                  )}
+                </div>
 
-            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-              {/* Run Battle — only when in lobby */}
-              {current.status === "lobby" && (
-                <button
-                  className="btn btn-primary"
-                  style={{ fontSize: 13, padding: "0.6rem 1.5rem" }}
-                  onClick={() => void runBattle()}
-                  disabled={running || !savedToken}
-                >
-                  {running ? "Starting…" : "▶ Run Battle"}
-                </button>
-              )}
-
-              {current.status === "running" && (
-                <span style={{ fontSize: 12, color: "var(--yellow)", alignSelf: "center" }}>
-                  ⏳ Agents executing…
-                </span>
-              )}
-
-              <Link
-                href={`/arena/battle/${current.battleId}`}
-                className="btn btn-ghost"
-                style={{ fontSize: 12 }}
-                target="_blank"
-              >
-                👁 View Battle →
-              </Link>
-
-              {current.status === "complete" && (
-                <Link href="/agents" className="btn btn-ghost" style={{ fontSize: 12 }}>
-                  📊 Show Leaderboard →
-                </Link>
-              )}
-            </div>
-          </>
+                <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+                  {b.status === "lobby" && (
+                    <>
+                      <button
+                        className="btn btn-primary"
+                        style={{ fontSize: 12, padding: "0.4rem 1rem" }}
+                        onClick={() => void lobbyAction(b.battleId, "run")}
+                        disabled={busyId === b.battleId || !savedToken}
+                      >
+                        ▶ Run
+                      </button>
+                      <button
+                        className="btn btn-ghost"
+                        style={{ fontSize: 12 }}
+                        onClick={() => void lobbyAction(b.battleId, "cancel")}
+                        disabled={busyId === b.battleId || !savedToken}
+                      >
+                        ✕ Cancel
+                      </button>
+                    </>
+                  )}
+
+                  {b.status === "running" && (
+                    <span style={{ fontSize: 12, color: "var(--yellow)", alignSelf: "center" }}>
+                      ⏳ Agents executing…
+                    </span>
+                  )}
+
+                  <Link
+                    href={`/arena/battle/${b.battleId}`}
+                    className="btn btn-ghost"
+                    style={{ fontSize: 12 }}
+                    target="_blank"
+                  >
+                    👁 View Battle →
+                  </Link>
+                </div>
+              </div>
+            ))}
+          </div>
         )}
       </div>
 
-      {/* Lobby builder — only show when no active lobby/running battle */}
-      {(!current || current.status === "complete") && savedToken && (
+      {/* Lobby builder */}
+      {savedToken && (
         <div className="card" style={{ marginBottom: "1.5rem" }}>
           <h3 style={{ marginBottom: 14, fontSize: 13 }}>Open New Lobby</h3>
 
@@ -284,7 +317,7 @@ export default function AdminPage() {
               Battle type
             </div>
             <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
-              {BATTLE_TYPES.map((bt) => (
+              {[...BATTLE_TYPES, ...customTypes.map((t) => ({ id: t.name, emoji: "🧪", label: t.label }))].map((bt) => (
                 <button
                   key={bt.id}
                   onClick={() => setBattleType(bt.id)}
@@ -328,6 +361,75 @@ export default function AdminPage() {
             </div>
           </div>
 
+          {/* Rounds */}
+          <div style={{ marginBottom: 16 }}>
+            <div style={{ fontSize: 10, color: "var(--muted)", fontWeight: 600, textTransform: "uppercase", letterSpacing: "0.06em", marginBottom: 6 }}>
+              Rounds
+            </div>
+            <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+              {[1, 3, 5].map((n) => (
+                <button
+                  key={n}
+                  onClick={() => setRounds(n)}
+                  style={{
+                    padding: "0.4rem 0.85rem",
+                    borderRadius: "var(--radius)",
+                    border: `1px solid ${rounds === n ? "var(--accent)" : "var(--border)"}`,
+                    background: rounds === n ? "rgba(88,166,255,.12)" : "transparent",
+                    color: rounds === n ? "var(--accent)" : "var(--text)",
+                    cursor: "pointer", fontSize: 12,
+                  }}
+                >
+                  {n === 1 ? "Single run" : `Best of ${n}`}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Title */}
+          <div style={{ marginBottom: 14 }}>
+            <div style={{ fontSize: 10, color: "var(--muted)", fontWeight: 600, textTransform: "uppercase", letterSpacing: "0.06em", marginBottom: 6 }}>
+              Title (optional)
+            </div>
+            <input
+              value={title}
+              maxLength={80}
+              placeholder="e.g. Main stage — round 2"
+              onChange={(e) => setTitle(e.target.value)}
+              style={{ width: "100%", fontSize: 12, padding: "0.45rem 0.7rem" }}
+            />
+          </div>
+
+          {/* Betting close + auto-start timers */}
+          {([
+            ["Betting closes", closeMins, setCloseMins, "When run"],
+            ["Auto-start",     startMins, setStartMins, "Manual"],
+          ] as const).map(([label, value, set, never]) => (
+            <div key={label} style={{ marginBottom: 14 }}>
+              <div style={{ fontSize: 10, color: "var(--muted)", fontWeight: 600, textTransform: "uppercase", letterSpacing: "0.06em", marginBottom: 6 }}>
+                {label}
+              </div>
+              <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                {TIMER_OPTIONS.map((m) => (
+                  <button
+                    key={m}
+                    onClick={() => set(m)}
+                    style={{
+                      padding: "0.4rem 0.85rem",
+                      borderRadius: "var(--radius)",
+                      border: `1px solid ${value === m ? "var(--accent)" : "var(--border)"}`,
+                      background: value === m ? "rgba(88,166,255,.12)" : "transparent",
+                      color: value === m ? "var(--accent)" : "var(--text)",
+                      cursor: "pointer", fontSize: 12,
+                    }}
+                  >
+                    {m === 0 ? never : `In ${m} min`}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+
           <button
             className="btn btn-primary"
             style={{ fontSize: 14, padding: "0.7rem 2rem", width: "100%" }}
@@ -337,7 +439,7 @@ export default function AdminPage() {
             {opening ? "Opening…" : "🎰 Open Lobby"}
           </button>
           <p className="muted" style={{ fontSize: 11, marginTop: 8, textAlign: "center" }}>
-            Audience can bet as soon as the lobby is open. Run the battle when you're ready.
+            Audience can bet as soon as the lobby is open. Run it when you're ready, or let the timer start it.
           </p>
         </div>
       )}
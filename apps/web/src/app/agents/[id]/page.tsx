@@ -4,7 +4,7 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import Nav from "@/components/Nav";
 import ScoreBar from "@/components/ScoreBar";
-import type { AgentSummary, Receipt } from "@agent-aqi/shared";
+import type { AgentSummary, AQIExplanation, JobStatus, PaidCallEvidence, Receipt, ReceiptExplanation } from "@agent-aqi/shared";
 
 const API = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000";
 
@@ -34,7 +34,8 @@ function calldataPreview(data: string): string {
   );
 }
 
-function statusBadge(status: "fulfilled" | "failed") {
+function statusBadge(status: JobStatus) {
+  if (status === "timed_out") return <span className="badge badge-yellow">timed out</span>;
   return status === "fulfilled"
     ? <span className="badge badge-green">fulfilled</span>
     : <span className="badge badge-red">failed</span>;
@@ -177,7 +178,9 @@ function SwapDetailsPanel({ r }: { r: Receipt }) {
               </div>
             )}
             <KV label="Tx Hash"  value={addrShort(r.onChain.txHash)} mono />
-            <KV label="Block"    value={String(r.onChain.blockNumber)} />
+            {r.onChain.blockNumber !== undefined && (
+              <KV label="Block"  value={String(r.onChain.blockNumber)} />
+            )}
             <KV label="Chain"    value={String(r.onChain.chainId)} />
             {r.onChain.gasUsed !== undefined && (
               <KV label="Gas Used" value={r.onChain.gasUsed} />
@@ -262,24 +265,119 @@ function SwapDetailsPanel({ r }: { r: Receipt }) {
   );
 }
 
+// ─── Paid call panel ─────────────────────────────────────────────────────────
+
+function PaidCallPanel({ call }: { call: PaidCallEvidence }) {
+  const { payment } = call;
+
+  const sectionTitle = (label: string) => (
+    <div
+      style={{
+        color:          "var(--muted)",
+        fontWeight:     600,
+        fontSize:       10,
+        textTransform:  "uppercase",
+        letterSpacing:  "0.06em",
+        marginBottom:   6,
+        marginTop:      2,
+      }}
+    >
+      {label}
+    </div>
+  );
+
+  return (
+    <div className="detail-panel">
+      <div className="detail-grid">
+        <div>
+          {sectionTitle("Paid Call")}
+          <KV label="Request"  value={`${call.method} ${call.url}`} mono />
+          <KV label="Status"   value={`HTTP ${call.httpStatus} in ${call.latencyMs} ms`} />
+          <KV label="Req hash" value={addrShort(call.requestHash)}  mono />
+          <KV label="Res hash" value={addrShort(call.responseHash)} mono />
+        </div>
+        <div>
+          {sectionTitle("x402 Payment")}
+          {payment ? (
+            <>
+              <KV label="Paid"    value={`$${payment.amountUsd} (${payment.network})`} />
+              <KV label="Payer"   value={addrShort(payment.payer)} mono />
+              <KV label="Pay to"  value={addrShort(payment.payTo)} mono />
+              <KV label="Settled" value={payment.transaction ? addrShort(payment.transaction) : "not confirmed"} mono />
+            </>
+          ) : (
+            <KV label="Paid" value="nothing — no 402 challenge" />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ─── AQI explain panel ───────────────────────────────────────────────────────
+
+function ExplainPanel({ e }: { e: ReceiptExplanation }) {
+  const { safety, speed, economics, feedback } = e.components;
+
+  const line = (label: string, score: number | null, detail: string, points: number) => (
+    <div style={{ display: "grid", gridTemplateColumns: "80px 48px 1fr 64px", gap: 8, fontSize: 11, marginBottom: 4 }}>
+      <span className="muted">{label}</span>
+      <strong>{score === null ? "—" : score.toFixed(0)}</strong>
+      <span className="muted">{detail}</span>
+      <span style={{ textAlign: "right" }}>+{points.toFixed(2)} pts</span>
+    </div>
+  );
+
+  const flagDetail = safety.flags.length === 0
+    ? "no flags"
+    : safety.flags.map((f) => `${f.flag} −${f.points}`).join(", ");
+  const slipDetail = safety.excessSlippageBps > 0
+    ? `; ${safety.excessSlippageBps} bps over limit −${safety.slippagePenalty}`
+    : "";
+
+  return (
+    <div className="detail-panel">
+      <div
+        style={{
+          color: "var(--muted)", fontWeight: 600, fontSize: 10, textTransform: "uppercase",
+          letterSpacing: "0.06em", marginBottom: 6,
+        }}
+      >
+        AQI Contribution{e.weight !== 1 && ` (recency weight ${e.weight})`}
+      </div>
+      {line("Reliability", e.components.reliability, e.status, e.contribution.reliability)}
+      {line("Safety",      safety.score,    flagDetail + slipDetail, e.contribution.safety)}
+      {line("Speed",       speed.score,     speed.timedOut
+        ? `timed out at the ${speed.deadlineMs} ms deadline`
+        : `${speed.latencyMs} ms / ${speed.deadlineMs} ms deadline (×${speed.ratio})`, e.contribution.speed)}
+      {line("Economics",   economics.score, `$${economics.costUsd} ${economics.basis === "payment" ? "paid" : "gas"} / $${economics.budgetUsd} budget (×${economics.ratio})`, e.contribution.economics)}
+      {line("Feedback",    feedback,        feedback === null ? "not rated" : "user rating", e.contribution.feedback)}
+      <div style={{ fontSize: 11, textAlign: "right", marginTop: 4 }}>
+        Total <strong>+{e.contribution.total.toFixed(2)}</strong> pts
+      </div>
+    </div>
+  );
+}
+
 // ─── Receipt row (with expand toggle) ────────────────────────────────────────
 
 const COL_COUNT = 8; // Job ID | Status | Latency | Gas | Slip | Flags | Done | badge
 
-function ReceiptRow({ r }: { r: Receipt }) {
+function ReceiptRow({ r, explain }: { r: Receipt; explain?: ReceiptExplanation }) {
   const [open, setOpen] = useState(false);
-  const hasSwap = Boolean(r.swapParams);
+  const hasSwap    = Boolean(r.swapParams);
+  const expandable = hasSwap || Boolean(r.paidCall) || Boolean(explain);
 
   return (
     <>
       <tr
-        onClick={() => hasSwap && setOpen((v) => !v)}
-        style={{ cursor: hasSwap ? "pointer" : "default" }}
+        onClick={() => expandable && setOpen((v) => !v)}
+        style={{ cursor: expandable ? "pointer" : "default" }}
       >
         {/* Job ID + expand indicator */}
         <td className="font-mono muted" style={{ fontSize: 11 }}>
           {r.jobId.slice(0, 8)}…
-          {hasSwap && (
+          {expandable && (
             <span
               style={{
                 marginLeft: 4,
@@ -292,7 +390,16 @@ function ReceiptRow({ r }: { r: Receipt }) {
             </span>
           )}
         </td>
-        <td>{statusBadge(r.outcome.status)}</td>
+        <td title={r.failure && `${r.failure.phase}: ${r.failure.message}`}>
+          {statusBadge(r.outcome.status)}
+          {r.failure && (
+            <div className="muted" style={{ fontSize: 10, marginTop: 2 }}>
+              {r.failure.kind.replace(/_/g, " ")}
+              {r.failure.fault === "infrastructure" && " · infra"}
+              {r.retries ? ` · ${r.retries} retr${r.retries === 1 ? "y" : "ies"}` : ""}
+            </div>
+          )}
+        </td>
         <td>{r.outcome.latencyMs} ms</td>
         <td>${r.outcome.gasUsedUsd.toFixed(3)}</td>
         <td>{r.outcome.slippageBps} bps</td>
@@ -316,6 +423,10 @@ function ReceiptRow({ r }: { r: Receipt }) {
             <span className="badge badge-green" style={{ fontSize: 9, letterSpacing: "0.04em" }}>
               ✓ Verified by Streams
             </span>
+          ) : r.onChain?.status === "pending" ? (
+            <span className="badge badge-yellow" style={{ fontSize: 9, letterSpacing: "0.04em" }}>
+              tx pending
+            </span>
           ) : r.onChain ? (
             <span className="badge badge-green" style={{ fontSize: 9, letterSpacing: "0.04em" }}>
               on-chain
@@ -324,18 +435,24 @@ function ReceiptRow({ r }: { r: Receipt }) {
             <span className="badge badge-blue" style={{ fontSize: 9, letterSpacing: "0.04em" }}>
               swap
             </span>
+          ) : r.paidCall ? (
+            <span className="badge badge-blue" style={{ fontSize: 9, letterSpacing: "0.04em" }}>
+              {r.paidCall.payment ? `paid $${r.paidCall.payment.amountUsd}` : "call"}
+            </span>
           ) : null}
         </td>
       </tr>
 
-      {/* Expandable swap details */}
-      {open && hasSwap && (
+      {/* Expandable AQI breakdown + swap / paid call details */}
+      {open && expandable && (
         <tr>
           <td
             colSpan={COL_COUNT}
             style={{ padding: 0, borderBottom: "1px solid var(--border)" }}
           >
-            <SwapDetailsPanel r={r} />
+            {explain && <ExplainPanel e={explain} />}
+            {hasSwap && <SwapDetailsPanel r={r} />}
+            {r.paidCall && <PaidCallPanel call={r.paidCall} />}
           </td>
         </tr>
       )}
@@ -352,14 +469,22 @@ export default function AgentDetailPage({
 }) {
   const { id } = params;
   const [data, setData]       = useState<AgentDetail | null>(null);
+  const [explain, setExplain] = useState<Map<string, ReceiptExplanation>>(new Map());
   const [loading, setLoading] = useState(true);
   const [error, setError]     = useState<string | null>(null);
 
   async function load() {
     try {
-      const res = await fetch(`${API}/agents/${id}`);
+      const [res, explainRes] = await Promise.all([
+        fetch(`${API}/agents/${id}`),
+        fetch(`${API}/agents/${id}/explain`),
+      ]);
       if (!res.ok) throw new Error(`HTTP ${res.status}`);
       setData((await res.json()) as AgentDetail);
+      if (explainRes.ok) {
+        const body = (await explainRes.json()) as AQIExplanation;
+        setExplain(new Map(body.receipts.map((e) => [e.jobId, e])));
+      }
     } catch (e) {
       setError(String(e));
     } finally {
@@ -419,15 +544,15 @@ export default function AgentDetailPage({
         <div className="card mb-2">
           <h2>AQI Score Breakdown</h2>
           <p className="muted mb-2" style={{ fontSize: 12 }}>
-            Based on {aqi.sampleSize} job{aqi.sampleSize !== 1 ? "s" : ""}. Weights are fixed in{" "}
-            <code>packages/shared/src/scoring.ts</code>.
+            Based on {aqi.sampleSize} job{aqi.sampleSize !== 1 ? "s" : ""}, weighted by the{" "}
+            <code>{aqi.profile}</code> profile. Expand a receipt below to see what it contributed.
           </p>
           <div className="grid-2" style={{ gap: "0.5rem 2rem" }}>
-            <ScoreBar label="Reliability" value={aqi.components.reliability} weight={0.3} />
-            <ScoreBar label="Safety"      value={aqi.components.safety}      weight={0.25} />
-            <ScoreBar label="Speed"       value={aqi.components.speed}        weight={0.2} />
-            <ScoreBar label="Economics"   value={aqi.components.economics}    weight={0.15} />
-            <ScoreBar label="Feedback"    value={aqi.components.feedback}     weight={0.1} />
+            <ScoreBar label="Reliability" value={aqi.components.reliability} weight={aqi.weights.reliability} />
+            <ScoreBar label="Safety"      value={aqi.components.safety}      weight={aqi.weights.safety} />
+            <ScoreBar label="Speed"       value={aqi.components.speed}        weight={aqi.weights.speed} />
+            <ScoreBar label="Economics"   value={aqi.components.economics}    weight={aqi.weights.economics} />
+            <ScoreBar label="Feedback"    value={aqi.components.feedback}     weight={aqi.weights.feedback} />
           </div>
           <div className="flex items-center gap-2 mt-2" style={{ flexWrap: "wrap" }}>
             <span className="muted" style={{ fontSize: 12 }}>Total jobs:</span>
@@ -471,7 +596,7 @@ export default function AgentDetailPage({
                 <span className="badge badge-blue" style={{ fontSize: 9 }}>swap</span>
                 {" "}or{" "}
                 <span className="badge badge-green" style={{ fontSize: 9 }}>on-chain</span>
-                {" "}have Uniswap data — click to expand.{" "}
+                {" "}have Uniswap data. Click any row for its AQI breakdown.{" "}
                 <span className="badge badge-green" style={{ fontSize: 9 }}>✓ Verified by Streams</span>
                 {" "}means QuickNode confirmed the tx on-chain.
               </p>
@@ -490,7 +615,7 @@ export default function AgentDetailPage({
                 </thead>
                 <tbody>
                   {[...receipts].reverse().map((r) => (
-                    <ReceiptRow key={r.jobId} r={r} />
+                    <ReceiptRow key={r.jobId} r={r} explain={explain.get(r.jobId)} />
                   ))}
                 </tbody>
               </table>
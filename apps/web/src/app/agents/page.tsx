@@ -4,7 +4,8 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import Nav from "@/components/Nav";
 import ScoreBar from "@/components/ScoreBar";
-import type { AgentSummary } from "@agent-aqi/shared";
+import Sparkline from "@/components/Sparkline";
+import type { AgentSummary, AQISnapshot, MarketScenario, WeightProfile } from "@agent-aqi/shared";
 
 const API = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000";
 
@@ -16,6 +17,15 @@ function ringClass(score: number) {
 
 const RANK_CLASS = ["gold", "silver", "bronze"];
 
+const SCENARIOS: MarketScenario[] = ["calm", "congested", "volatile", "mev_heavy", "chain_halt"];
+
+// "Current form": last 24 h with a 6 h half-life, so a regression shows up fast
+type View = "form" | "all";
+const VIEW_PARAMS: Record<View, Record<string, string>> = {
+  form: { window: "24h", halfLife: "6h" },
+  all:  {},
+};
+
 const RANK_GLOW: Record<string, string> = {
   gold:   "0 0 18px rgba(240,192,64,.18)",
   silver: "0 0 12px rgba(168,178,192,.10)",
@@ -25,10 +35,16 @@ const RANK_GLOW: Record<string, string> = {
 export default function LeaderboardPage() {
   const [agents,  setAgents]  = useState<AgentSummary[]>([]);
   const [loading, setLoading] = useState(true);
+  const [view,    setView]    = useState<View>("all");
+  const [profile,  setProfile]  = useState("balanced");
+  const [profiles, setProfiles] = useState<WeightProfile[]>([]);
+  const [scenario, setScenario] = useState<MarketScenario | "">("");
+  const [history,  setHistory]  = useState<Record<string, number[]>>({});
 
   async function load() {
     try {
-      const res  = await fetch(`${API}/agents`);
+      const params = new URLSearchParams({ ...VIEW_PARAMS[view], profile, ...(scenario && { scenario }) });
+      const res  = await fetch(`${API}/agents?${params}`);
       const data = (await res.json()) as AgentSummary[];
       setAgents(data);
     } finally {
@@ -40,6 +56,32 @@ export default function LeaderboardPage() {
     load();
     const interval = setInterval(load, 3000);
     return () => clearInterval(interval);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view, profile, scenario]);
+
+  // Snapshots are taken every few minutes, so history only needs a slow poll
+  const agentIds = agents.map((a) => a.agentId).join(",");
+  useEffect(() => {
+    async function loadHistory() {
+      const entries = await Promise.all(
+        agentIds.split(",").filter(Boolean).map(async (id) => {
+          const res  = await fetch(`${API}/agents/${id}/history?interval=1h&range=7d`);
+          const body = res.ok ? ((await res.json()) as { points: AQISnapshot[] }) : { points: [] };
+          return [id, body.points.map((p) => p.score)] as const;
+        }),
+      );
+      setHistory(Object.fromEntries(entries));
+    }
+    loadHistory().catch(() => {});
+    const interval = setInterval(() => loadHistory().catch(() => {}), 60_000);
+    return () => clearInterval(interval);
+  }, [agentIds]);
+
+  useEffect(() => {
+    fetch(`${API}/aqi/profiles`)
+      .then((r) => r.json() as Promise<WeightProfile[]>)
+      .then(setProfiles)
+      .catch(() => {});
   }, []);
 
   const totalJobs = agents.reduce((s, a) => s + a.totalJobs, 0);
@@ -54,10 +96,41 @@ export default function LeaderboardPage() {
           <div>
             <h1>Agent Leaderboard</h1>
             <p className="muted" style={{ marginBottom: 0, fontSize: 13 }}>
-              Ranked by composite AQI score — updates every 3 s.
+              {view === "form"
+                ? "Ranked by AQI over the last 24 h, recent jobs weighted most — updates every 3 s."
+                : "Ranked by composite AQI score — updates every 3 s."}
             </p>
           </div>
-          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center" }}>
+            {profiles.length > 0 && (
+              <select
+                value={profile}
+                onChange={(e) => setProfile(e.target.value)}
+                title="AQI weight profile"
+                style={{ fontSize: 11, padding: "3px 8px" }}
+              >
+                {profiles.map((p) => (
+                  <option key={p.name} value={p.name}>{p.name}</option>
+                ))}
+              </select>
+            )}
+            <select
+              value={scenario}
+              onChange={(e) => setScenario(e.target.value as MarketScenario | "")}
+              title="Only count jobs simulated under this market scenario"
+              style={{ fontSize: 11, padding: "3px 8px" }}
+            >
+              <option value="">all markets</option>
+              {SCENARIOS.map((s) => (
+                <option key={s} value={s}>{s.replace("_", " ")}</option>
+              ))}
+            </select>
+            <button className={view === "form" ? "btn btn-primary" : "btn btn-ghost"} style={{ fontSize: 11, padding: "3px 12px" }} onClick={() => setView("form")}>
+              Current form
+            </button>
+            <button className={view === "all" ? "btn btn-primary" : "btn btn-ghost"} style={{ fontSize: 11, padding: "3px 12px" }} onClick={() => setView("all")}>
+              All-time
+            </button>
             <Link href="/arena" className="btn btn-primary" style={{ fontSize: 12 }}>
               ⚔️ New Battle
             </Link>
@@ -112,8 +185,20 @@ export default function LeaderboardPage() {
                 <span className={`rank-num ${rc}`}>#{i + 1}</span>
 
                 {/* AQI ring */}
-                <div className={ringClass(agent.aqi.score)}>
-                  {agent.aqi.score.toFixed(0)}
+                <div style={{ textAlign: "center", flexShrink: 0 }}>
+                  <div className={ringClass(agent.aqi.score)}>
+                    {agent.aqi.score.toFixed(0)}
+                  </div>
+                  {agent.aqi.sampleSize > 0 && (
+                    <div className="muted" style={{ fontSize: 10, marginTop: 4 }} title="95 % confidence interval">
+                      {agent.aqi.confidence.score.lower.toFixed(0)}–{agent.aqi.confidence.score.upper.toFixed(0)}
+                    </div>
+                  )}
+                  {agent.aqiAllTime && (
+                    <div className="muted" style={{ fontSize: 10, marginTop: 4 }}>
+                      all-time {agent.aqiAllTime.score.toFixed(0)}
+                    </div>
+                  )}
                 </div>
 
                 {/* Info */}
@@ -124,6 +209,11 @@ export default function LeaderboardPage() {
                     </strong>
                     <span className="badge badge-blue">{agent.agentId}</span>
                     {i === 0 && <span className="badge badge-green" style={{ fontSize: 9 }}>🏆 Leading</span>}
+                    {agent.aqi.provisional && (
+                      <span className="badge badge-yellow" style={{ fontSize: 9 }} title="Too few jobs for a reliable score">
+                        provisional
+                      </span>
+                    )}
                   </div>
                   <p className="muted" style={{ fontSize: 12, marginBottom: "0.75rem" }}>
                     {agent.description}
@@ -131,13 +221,19 @@ export default function LeaderboardPage() {
 
                   {/* Component bars */}
                   <div className="grid-2" style={{ gap: "0.5rem 2rem" }}>
-                    <ScoreBar label="Reliability" value={agent.aqi.components.reliability} weight={0.3}  />
-                    <ScoreBar label="Safety"      value={agent.aqi.components.safety}      weight={0.25} />
-                    <ScoreBar label="Speed"       value={agent.aqi.components.speed}        weight={0.2}  />
-                    <ScoreBar label="Economics"   value={agent.aqi.components.economics}    weight={0.15} />
+                    <ScoreBar label="Reliability" value={agent.aqi.components.reliability} weight={agent.aqi.weights.reliability} />
+                    <ScoreBar label="Safety"      value={agent.aqi.components.safety}      weight={agent.aqi.weights.safety} />
+                    <ScoreBar label="Speed"       value={agent.aqi.components.speed}        weight={agent.aqi.weights.speed} />
+                    <ScoreBar label="Economics"   value={agent.aqi.components.economics}    weight={agent.aqi.weights.economics} />
                   </div>
                 </div>
 
+                {/* 7-day AQI trend */}
+                <div style={{ flexShrink: 0 }} title="All-time AQI, hourly over the last 7 days">
+                  <div style={{ fontSize: 11, color: "var(--muted)", marginBottom: 4 }}>7D TREND</div>
+                  <Sparkline values={history[agent.agentId] ?? []} />
+                </div>
+
                 {/* Stats */}
                 <div style={{ textAlign: "right", flexShrink: 0 }}>
                   <div style={{ fontSize: 11, color: "var(--muted)" }}>JOBS</div>
@@ -2,10 +2,11 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import Nav from "@/components/Nav";
 import PaperBetPanel from "@/components/PaperBetPanel";
 import BattleLobby from "@/components/BattleLobby";
-import type { BattleRecord, BattleType, SSEEvent } from "@agent-aqi/shared";
+import type { BattleMetric, BattleRecord, BattleType, BuiltinBattleType, SSEEvent } from "@agent-aqi/shared";
 
 const API = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000";
 
@@ -14,13 +15,22 @@ const API = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000";
 const AGENT_ICONS: Record<string, string> = { safe: "🛡️", fast: "⚡", cheap: "♻️" };
 const AGENT_NAMES: Record<string, string> = { safe: "SafeGuard", fast: "SpeedRunner", cheap: "GasOptimizer" };
 
-const BATTLE_META: Record<BattleType, { emoji: string; label: string }> = {
+const BATTLE_META: Record<BuiltinBattleType, { emoji: string; label: string }> = {
   speed:       { emoji: "⚡", label: "Speed Race"        },
   gas:         { emoji: "💰", label: "Gas Saver"          },
   slippage:    { emoji: "💧", label: "Slippage Duel"      },
   reliability: { emoji: "✅", label: "Reliability Sprint" },
 };
 
+/** Built-in types use BATTLE_META; custom types carry their own label. */
+function battleMeta(battle: BattleRecord): { emoji: string; label: string } {
+  return BATTLE_META[battle.battleType as BuiltinBattleType]
+    ?? { emoji: "🧪", label: battle.customType?.label ?? battle.battleType };
+}
+
+/** Events that change a lobby's betting state; PaperBetPanel and BattleLobby refetch on them. */
+const LOBBY_EVENTS: SSEEvent["type"][] = ["betting_closed", "battle_cancelled", "paperbet_placed", "paperbet_resolved"];
+
 const CONFETTI_COLORS = ["#58a6ff","#3fb950","#f0c040","#f85149","#d29922","#bc8cff","#ff7b72"];
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
@@ -29,7 +39,8 @@ function barClass(status: string): string {
   switch (status) {
     case "running":   return "lane-bar s-running";
     case "fulfilled": return "lane-bar s-fulfilled";
-    case "failed":    return "lane-bar s-failed";
+    case "failed":
+    case "timed_out": return "lane-bar s-failed";
     default:          return "lane-bar s-pending";
   }
 }
@@ -37,7 +48,8 @@ function barClass(status: string): string {
 function statusColor(status: string): string {
   switch (status) {
     case "fulfilled": return "var(--green)";
-    case "failed":    return "var(--red)";
+    case "failed":
+    case "timed_out": return "var(--red)";
     case "running":   return "var(--yellow)";
     default:          return "var(--muted)";
   }
@@ -45,7 +57,7 @@ function statusColor(status: string): string {
 
 function eventRowClass(type: string): string {
   if (type === "fulfilled" || type === "battle_complete") return "event-row fulfilled";
-  if (type === "failed")  return "event-row failed";
+  if (type === "failed" || type === "timed_out") return "event-row failed";
   if (type === "running") return "event-row running";
   return "event-row queued";
 }
@@ -82,24 +94,35 @@ function Confetti() {
 
 // ─── Lane card (per agent) ────────────────────────────────────────────────────
 
+const SERIES_METRICS: { key: BattleMetric; label: string; fmt: (v: number) => string }[] = [
+  { key: "latencyMs",   label: "⏱", fmt: (v) => `${Math.round(v)} ms` },
+  { key: "gasUsedUsd",  label: "⛽", fmt: (v) => `$${v.toFixed(3)}` },
+  { key: "slippageBps", label: "〰", fmt: (v) => `${v.toFixed(1)} bps` },
+];
+
 type Scorecard = BattleRecord["scorecards"][number];
 
 function LaneCard({
-  card, isWinner, battleType,
+  card, isWinner, battleType, meta, score, disqualified,
 }: {
   card: Scorecard; isWinner: boolean; battleType: BattleType;
+  meta: { emoji: string; label: string };
+  /** Custom types: composite score from the decision, and the disqualification reason */
+  score?: number | null; disqualified?: string;
 }) {
   const icon   = AGENT_ICONS[card.agentId]  ?? "🤖";
   const name   = AGENT_NAMES[card.agentId]  ?? card.agentId;
   const sColor = statusColor(card.status);
-  const meta   = BATTLE_META[battleType];
 
   // Which metric is highlighted for this battle type
   const highlight: string | undefined =
+    card.status === "timed_out"  ? "⏱ timed out" :
     battleType === "speed"       ? (card.latencyMs  !== undefined ? `${card.latencyMs} ms`                  : undefined) :
     battleType === "gas"         ? (card.gasUsedUsd !== undefined ? `$${card.gasUsedUsd.toFixed(3)}`         : undefined) :
     battleType === "slippage"    ? (card.slippageBps !== undefined ? `${card.slippageBps} bps`               : undefined) :
-    /* reliability */              (card.status === "fulfilled"    ? "✓ success"                             : undefined);
+    battleType === "reliability" ? (card.status === "fulfilled"    ? "✓ success"                             : undefined) :
+    /* custom */                   (disqualified !== undefined     ? `✗ ${disqualified}`                     :
+                                    score != null                  ? `${score.toFixed(1)} pts`                        : undefined);
 
   return (
     <div
@@ -137,6 +160,7 @@ function LaneCard({
           </div>
           {card.status === "fulfilled" && <span style={{ marginLeft: "auto", fontSize: "1.2rem" }}>✅</span>}
           {card.status === "failed"    && <span style={{ marginLeft: "auto", fontSize: "1.2rem" }}>❌</span>}
+          {card.status === "timed_out" && <span style={{ marginLeft: "auto", fontSize: "1.2rem" }}>⏱️</span>}
         </div>
 
         {/* Progress bar */}
@@ -168,6 +192,24 @@ function LaneCard({
           {card.status === "running" && <div style={{ gridColumn: "1 / -1" }}>Running job…</div>}
         </div>
 
+        {/* Best-of-N series: per-metric spread */}
+        {card.stats && (
+          <div style={{ marginTop: 8, fontSize: 10, color: "var(--muted)" }}>
+            <div style={{ marginBottom: 2 }}>
+              fulfilled {card.fulfilledRounds ?? 0}/{card.roundsPlayed ?? 0} rounds
+            </div>
+            {SERIES_METRICS.map(({ key, label, fmt }) => {
+              const st = card.stats?.[key];
+              if (!st) return null;
+              return (
+                <div key={key} className="font-mono">
+                  {label} mean {fmt(st.mean)} · med {fmt(st.median)} · p95 {fmt(st.p95)}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
         {/* Stream verification badge */}
         {card.verifiedByStream && (
           <div style={{ marginTop: 8 }}>
@@ -188,12 +230,16 @@ function LaneCard({
 
 export default function BattlePage({ params }: { params: { battleId: string } }) {
   const { battleId } = params;
+  const router = useRouter();
 
   const [battle,       setBattle]       = useState<BattleRecord | null>(null);
   const [events,       setEvents]       = useState<SSEEvent[]>([]);
   const [showConfetti, setShowConfetti] = useState(false);
   const [copied,       setCopied]       = useState(false);
   const [loading,      setLoading]      = useState(true);
+  const [replaying,    setReplaying]    = useState(false);
+  const [replayError,  setReplayError]  = useState<string | null>(null);
+  const [refreshKey,   setRefreshKey]   = useState(0);
 
   const logRef = useRef<HTMLDivElement>(null);
   const esRef  = useRef<EventSource | null>(null);
@@ -215,7 +261,7 @@ export default function BattlePage({ params }: { params: { battleId: string } })
     poll();
     const id = setInterval(poll, 1500);
     return () => clearInterval(id);
-  }, [battleId]);
+  }, [battleId, refreshKey]);
 
   // ── SSE subscription ──────────────────────────────────────────────────────
 
@@ -230,6 +276,7 @@ export default function BattlePage({ params }: { params: { battleId: string } })
         const bid = ev.payload["battleId"] as string | undefined;
         if (!bid || bid !== battleId) return;
         setEvents((prev) => [...prev.slice(-79), ev]);
+        if (LOBBY_EVENTS.includes(ev.type)) setRefreshKey((k) => k + 1);
         if (ev.type === "battle_complete") {
           setShowConfetti(true);
           setTimeout(() => setShowConfetti(false), 4500);
@@ -247,9 +294,11 @@ export default function BattlePage({ params }: { params: { battleId: string } })
 
   // ── Derived values ────────────────────────────────────────────────────────
 
-  const isComplete = battle?.status === "complete";
+  const isComplete  = battle?.status === "complete";
+  const isCancelled = battle?.status === "cancelled";
   const winner     = battle?.winnerAgentId;
-  const meta       = battle ? BATTLE_META[battle.battleType] : null;
+  const meta       = battle ? battleMeta(battle) : null;
+  const scoreStep  = battle?.decision?.steps.find((s) => s.criterion === "score");
 
   function copyShareLink() {
     navigator.clipboard.writeText(window.location.href).then(() => {
@@ -258,6 +307,21 @@ export default function BattlePage({ params }: { params: { battleId: string } })
     });
   }
 
+  async function replayBattle() {
+    setReplaying(true);
+    setReplayError(null);
+    try {
+      const res = await fetch(`${API}/arena/battle/${battleId}/replay`, { method: "POST" });
+      const body = (await res.json()) as { battleId?: string; error?: string };
+      if (!res.ok || !body.battleId) throw new Error(body.error ?? `HTTP ${res.status}`);
+      router.push(`/arena/battle/${body.battleId}`);
+    } catch (e) {
+      setReplayError(String(e));
+    } finally {
+      setReplaying(false);
+    }
+  }
+
   // ── Render ────────────────────────────────────────────────────────────────
 
   if (loading) {
@@ -293,15 +357,42 @@ export default function BattlePage({ params }: { params: { battleId: string } })
           <Link href="/arena" className="muted" style={{ fontSize: 13 }}>← Arena</Link>
           <div style={{ flex: 1 }}>
             <h1 style={{ marginBottom: 2, fontSize: "1.4rem" }}>
-              {meta?.emoji} {meta?.label ?? battle.battleType}
+              {meta?.emoji} {battle.lobby?.title ?? meta?.label ?? battle.battleType}
             </h1>
             <div className="muted" style={{ fontSize: 11 }}>
               {battle.agentIds.map((id) => `${AGENT_ICONS[id] ?? ""} ${AGENT_NAMES[id] ?? id}`).join("  vs  ")}
               <span style={{ marginLeft: 8, opacity: 0.6 }}>{battleId.slice(0, 8)}…</span>
+              {battle.scenario && battle.scenario !== "calm" && (
+                <span className="badge badge-yellow" style={{ marginLeft: 8, fontSize: 10 }}>
+                  {battle.scenario.replace("_", " ")} market
+                </span>
+              )}
+              {battle.rounds && battle.rounds > 1 && (
+                <span className="badge badge-blue" style={{ marginLeft: 8, fontSize: 10 }}>
+                  best of {battle.rounds} · round {Math.min((battle.roundResults?.length ?? 0) + (isComplete ? 0 : 1), battle.rounds)}/{battle.rounds}
+                </span>
+              )}
+              {battle.seed !== undefined && (
+                <span style={{ marginLeft: 8, opacity: 0.6 }}>seed {battle.seed}</span>
+              )}
+              {battle.tournamentId && (
+                <Link href={`/arena/tournaments/${battle.tournamentId}`} style={{ marginLeft: 8 }}>
+                  tournament match {battle.matchId}
+                </Link>
+              )}
+              {battle.replayOf && (
+                <Link href={`/arena/battle/${battle.replayOf}`} style={{ marginLeft: 8 }}>
+                  replay of {battle.replayOf.slice(0, 8)}…
+                </Link>
+              )}
             </div>
           </div>
           {isComplete ? (
             <span className="badge badge-green">Complete</span>
+          ) : isCancelled ? (
+            <span className="badge badge-red">Cancelled</span>
+          ) : battle.status === "lobby" ? (
+            <span className="badge badge-yellow">Betting open</span>
           ) : (
             <span className="badge badge-yellow" style={{ animation: "pulse-slow 2s ease-in-out infinite" }}>Live ●</span>
           )}
@@ -320,15 +411,63 @@ export default function BattlePage({ params }: { params: { battleId: string } })
               card={card}
               isWinner={card.agentId === winner}
               battleType={battle.battleType}
+              meta={battleMeta(battle)}
+              score={scoreStep?.values[card.agentId]}
+              disqualified={battle.decision?.disqualified?.[card.agentId]}
             />
           ))}
         </div>
 
+        {/* ── Series rounds ───────────────────────────────────────────────── */}
+        {battle.roundResults && battle.roundResults.length > 0 && (
+          <div className="card" style={{ padding: "0.9rem 1rem" }}>
+            <div className="section-label">Rounds</div>
+            <table>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  {battle.agentIds.map((id) => <th key={id}>{AGENT_ICONS[id] ?? "🤖"} {AGENT_NAMES[id] ?? id}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {battle.roundResults.map((r) => (
+                  <tr key={r.round}>
+                    <td>{r.round}</td>
+                    {battle.agentIds.map((id) => {
+                      const c = r.scorecards.find((sc) => sc.agentId === id);
+                      return (
+                        <td key={id} className="font-mono" style={{ fontSize: 11, color: c ? statusColor(c.status) : undefined }}>
+                          {!c ? "—" : c.status !== "fulfilled" ? c.status : [
+                            c.latencyMs  !== undefined && `${c.latencyMs} ms`,
+                            c.gasUsedUsd !== undefined && `$${c.gasUsedUsd.toFixed(3)}`,
+                          ].filter(Boolean).join(" · ")}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
         {/* ── Paper bet panel ─────────────────────────────────────────────── */}
-        <PaperBetPanel battleId={battleId} />
+        <PaperBetPanel battleId={battleId} refreshKey={refreshKey} />
 
         {/* ── Battle lobby (participants) ──────────────────────────────────── */}
-        <BattleLobby battleId={battleId} />
+        <BattleLobby battleId={battleId} status={battle.status} refreshKey={refreshKey} />
+
+        {/* ── Cancelled banner ────────────────────────────────────────────── */}
+        {isCancelled && (
+          <div className="card" style={{ marginBottom: "1rem", textAlign: "center" }}>
+            <div style={{ fontSize: 16, fontWeight: 700, color: "var(--text-hi)", marginBottom: 4 }}>
+              Lobby cancelled
+            </div>
+            <div className="muted" style={{ fontSize: 12 }}>
+              The battle was called off before it ran. Paper bets were voided and every stake returned.
+            </div>
+          </div>
+        )}
 
         {/* ── Winner banner ───────────────────────────────────────────────── */}
         {isComplete && (
@@ -339,9 +478,23 @@ export default function BattlePage({ params }: { params: { battleId: string } })
                 <div style={{ fontSize: 22, fontWeight: 800, color: "var(--green)", marginBottom: 4 }}>
                   {AGENT_ICONS[winner]} {AGENT_NAMES[winner] ?? winner} wins!
                 </div>
-                <div className="muted" style={{ fontSize: 13, marginBottom: 12 }}>
+                <div className="muted" style={{ fontSize: 13, marginBottom: battle.decision ? 4 : 12 }}>
                   {meta?.label} battle · {battle.agentIds.length}-agent match
                 </div>
+                {battle.decision && (
+                  <div className="muted" style={{ fontSize: 12, marginBottom: 12 }}>
+                    {battle.decision.summary}
+                  </div>
+                )}
+              </>
+            ) : battle.decision?.tie ? (
+              <>
+                <div style={{ fontSize: 18, fontWeight: 700, color: "var(--yellow)", marginBottom: 4 }}>
+                  🤝 Tie — {battle.decision.tiedAgentIds.map((id) => AGENT_NAMES[id] ?? id).join(" vs ")}
+                </div>
+                <div className="muted" style={{ fontSize: 12, marginBottom: 12 }}>
+                  {battle.decision.summary}. Paper bets were refunded.
+                </div>
               </>
             ) : (
               <div style={{ fontSize: 16, fontWeight: 600, color: "var(--muted)", marginBottom: 12 }}>
@@ -355,6 +508,19 @@ export default function BattlePage({ params }: { params: { battleId: string } })
             >
               {copied ? "✓ Copied!" : "🔗 Share result"}
             </button>
+            {battle.seed !== undefined && (
+              <button
+                className="btn btn-ghost"
+                style={{ fontSize: 12, marginLeft: 8 }}
+                onClick={replayBattle}
+                disabled={replaying}
+              >
+                {replaying ? "Starting…" : "🔁 Replay from seed"}
+              </button>
+            )}
+            {replayError && (
+              <div style={{ color: "var(--red)", fontSize: 12, marginTop: 8 }}>{replayError}</div>
+            )}
           </div>
         )}
 
@@ -384,7 +550,7 @@ export default function BattlePage({ params }: { params: { battleId: string } })
                     <span className="event-type" style={{
                       width: 120,
                       color: ev.type === "fulfilled" || ev.type === "battle_complete" ? "var(--green)" :
-                             ev.type === "failed"  ? "var(--red)"    :
+                             ev.type === "failed" || ev.type === "timed_out" ? "var(--red)" :
                              ev.type === "running" ? "var(--yellow)" : "var(--muted)",
                     }}>
                       {ev.type.toUpperCase().replace(/_/g, " ")}
@@ -4,7 +4,7 @@ import { useCallback, useEffect, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import Nav from "@/components/Nav";
-import type { AgentSummary, BattleRecord, BattleType } from "@agent-aqi/shared";
+import type { AgentSummary, BattleRecord, BattleType, CustomBattleType, MarketScenario } from "@agent-aqi/shared";
 
 const API = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000";
 
@@ -31,6 +31,20 @@ const BATTLE_TYPES: { id: BattleType; emoji: string; label: string; desc: string
   { id: "reliability", emoji: "✅", label: "Reliability Sprint", desc: "Best success rate wins" },
 ];
 
+const SCENARIOS: { id: MarketScenario; label: string; desc: string }[] = [
+  { id: "calm",       label: "🌤 Calm",       desc: "Baseline conditions" },
+  { id: "congested",  label: "🚦 Congested",  desc: "Slow blocks, pricey gas" },
+  { id: "volatile",   label: "🌪 Volatile",   desc: "Prices move mid-swap" },
+  { id: "mev_heavy",  label: "🥪 MEV-heavy",  desc: "Sandwich bots everywhere" },
+  { id: "chain_halt", label: "🛑 Chain halt", desc: "Sequencer is down" },
+];
+
+const ROUND_OPTIONS: { rounds: number; label: string; desc: string }[] = [
+  { rounds: 1, label: "Single run", desc: "One job per agent" },
+  { rounds: 3, label: "Best of 3",  desc: "Winner must be significantly better over 3 runs" },
+  { rounds: 5, label: "Best of 5",  desc: "Winner must be significantly better over 5 runs" },
+];
+
 const MATCHUPS: { ids: string[]; label: string }[] = [
   { ids: ["safe", "fast"],          label: "🛡️ vs ⚡" },
   { ids: ["safe", "cheap"],         label: "🛡️ vs ♻️" },
@@ -167,9 +181,12 @@ export default function ArenaPage() {
   const [agents,        setAgents]        = useState<AgentSummary[]>([]);
   const [execMode,      setExecMode]      = useState("sim");
   const [recentBattles, setRecentBattles] = useState<BattleRecord[]>([]);
+  const [customTypes,   setCustomTypes]   = useState<CustomBattleType[]>([]);
 
   const [battleType, setBattleType] = useState<BattleType>("speed");
   const [matchupIdx, setMatchupIdx] = useState(3);
+  const [scenario,   setScenario]   = useState<MarketScenario>("calm");
+  const [rounds,     setRounds]     = useState(1);
   const [sliderVal,  setSliderVal]  = useState(30);
   const [demoMode,   setDemoMode]   = useState(true);
 
@@ -183,10 +200,11 @@ export default function ArenaPage() {
 
   const load = useCallback(async () => {
     try {
-      const [aRes, hRes, rRes] = await Promise.all([
+      const [aRes, hRes, rRes, tRes] = await Promise.all([
         fetch(`${API}/agents`),
         fetch(`${API}/health`),
         fetch(`${API}/arena/recent`),
+        fetch(`${API}/arena/battle-types`),
       ]);
       if (aRes.ok) setAgents((await aRes.json()) as AgentSummary[]);
       if (hRes.ok) {
@@ -194,6 +212,7 @@ export default function ArenaPage() {
         setExecMode(h.executionMode ?? "sim");
       }
       if (rRes.ok) setRecentBattles((await rRes.json()) as BattleRecord[]);
+      if (tRes.ok) setCustomTypes(((await tRes.json()) as { custom: CustomBattleType[] }).custom);
     } catch { /* network error */ }
   }, []);
 
@@ -203,6 +222,11 @@ export default function ArenaPage() {
     return () => clearInterval(id);
   }, [load]);
 
+  const battleTypes = [
+    ...BATTLE_TYPES,
+    ...customTypes.map((t) => ({ id: t.name, emoji: "🧪", label: t.label, desc: t.description || "Custom scoring" })),
+  ];
+
   // ── Start battle ─────────────────────────────────────────────────────────
 
   async function doStart(proof?: string) {
@@ -220,7 +244,7 @@ export default function ArenaPage() {
     try {
       const res = await fetch(`${API}/arena/battle`, {
         method: "POST", headers,
-        body: JSON.stringify({ battleType, agentIds, swapParams: swapP }),
+        body: JSON.stringify({ battleType, agentIds, scenario, rounds, swapParams: swapP }),
       });
       if (res.status === 402) {
         const b = (await res.json()) as { instructions?: string; receiver?: string; amount?: string };
@@ -302,7 +326,7 @@ export default function ArenaPage() {
           <div style={{ marginBottom: 14 }}>
             <div style={{ fontSize: 11, color: "var(--muted)", marginBottom: 6, textTransform: "uppercase", letterSpacing: "0.06em", fontWeight: 600 }}>Battle Type</div>
             <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
-              {BATTLE_TYPES.map((bt) => (
+              {battleTypes.map((bt) => (
                 <button
                   key={bt.id}
                   onClick={() => setBattleType(bt.id)}
@@ -334,6 +358,30 @@ export default function ArenaPage() {
             </div>
           </div>
 
+          {/* Market scenario (sim outcomes only) */}
+          <div style={{ marginBottom: 14 }}>
+            <div style={{ fontSize: 11, color: "var(--muted)", marginBottom: 6, textTransform: "uppercase", letterSpacing: "0.06em", fontWeight: 600 }}>Market</div>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              {SCENARIOS.map((s) => (
+                <button key={s.id} onClick={() => setScenario(s.id)} className={`matchup-btn${scenario === s.id ? " active" : ""}`} title={s.desc}>
+                  {s.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Rounds (best-of-N series) */}
+          <div style={{ marginBottom: 14 }}>
+            <div style={{ fontSize: 11, color: "var(--muted)", marginBottom: 6, textTransform: "uppercase", letterSpacing: "0.06em", fontWeight: 600 }}>Rounds</div>
+            <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+              {ROUND_OPTIONS.map((r) => (
+                <button key={r.rounds} onClick={() => setRounds(r.rounds)} className={`matchup-btn${rounds === r.rounds ? " active" : ""}`} title={r.desc}>
+                  {r.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
           {/* Execution + difficulty */}
           <div style={{ marginBottom: 16 }}>
             <div style={{ display: "flex", gap: 8, alignItems: "center", marginBottom: 10, flexWrap: "wrap" }}>
@@ -374,7 +422,9 @@ export default function ArenaPage() {
               {starting ? "Launching…" : "🥊 START BATTLE"}
             </button>
             <span className="muted" style={{ fontSize: 12 }}>
-              {MATCHUPS[matchupIdx]?.label ?? "All Three"} · {BATTLE_TYPES.find((b) => b.id === battleType)?.label}
+              {MATCHUPS[matchupIdx]?.label ?? "All Three"} · {battleTypes.find((b) => b.id === battleType)?.label}
+              {scenario !== "calm" && ` · ${SCENARIOS.find((s) => s.id === scenario)?.label}`}
+              {rounds > 1 && ` · best of ${rounds}`}
               {!demoMode && ` · ${sliderToEth(sliderVal)} ETH`}
             </span>
           </div>
@@ -419,14 +469,14 @@ export default function ArenaPage() {
           ) : (
             <div style={{ display: "flex", flexDirection: "column", gap: 4 }}>
               {recentBattles.map((b) => {
-                const bt = BATTLE_TYPES.find((t) => t.id === b.battleType);
+                const bt = battleTypes.find((t) => t.id === b.battleType);
                 return (
                   <Link key={b.battleId} href={`/arena/battle/${b.battleId}`} className="spectate-row">
                     <span style={{ fontSize: "1.2rem", flexShrink: 0 }}>{bt?.emoji ?? "⚔️"}</span>
                     <div style={{ flex: 1, minWidth: 0 }}>
                       <div style={{ fontSize: 12, fontWeight: 600, color: "var(--text-hi)" }}>
                         {b.agentIds.map((id) => AGENT_ICONS[id] ?? id).join(" vs ")}
-                        <span className="muted" style={{ fontWeight: 400, marginLeft: 6 }}>· {bt?.label}</span>
+                        <span className="muted" style={{ fontWeight: 400, marginLeft: 6 }}>· {bt?.label ?? b.customType?.label ?? b.battleType}</span>
                       </div>
                       <div style={{ fontSize: 10, color: "var(--muted)" }}>{timeAgo(b.createdAt)} · {b.battleId.slice(0, 8)}…</div>
                     </div>
@@ -434,6 +484,8 @@ export default function ArenaPage() {
                       <span className="badge badge-green" style={{ fontSize: 10, flexShrink: 0 }}>🏆 {AGENT_ICONS[b.winnerAgentId]} wins</span>
                     ) : b.status === "complete" ? (
                       <span className="badge badge-yellow" style={{ fontSize: 10, flexShrink: 0 }}>done</span>
+                    ) : b.status === "cancelled" ? (
+                      <span className="badge badge-red" style={{ fontSize: 10, flexShrink: 0 }}>cancelled</span>
                     ) : (
                       <span className="badge badge-yellow" style={{ fontSize: 10, flexShrink: 0, animation: "pulse-slow 2s infinite" }}>live ●</span>
                     )}
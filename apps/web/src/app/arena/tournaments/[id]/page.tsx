@@ -0,0 +1,236 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Nav from "@/components/Nav";
+import type { SSEEvent, Tournament, TournamentFormat, TournamentMatch } from "@agent-aqi/shared";
+
+const API = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000";
+
+// ─── Static metadata ──────────────────────────────────────────────────────────
+
+const AGENT_ICONS: Record<string, string> = { safe: "🛡️", fast: "⚡", cheap: "♻️" };
+const AGENT_NAMES: Record<string, string> = { safe: "SafeGuard", fast: "SpeedRunner", cheap: "GasOptimizer" };
+
+const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: "Single elimination",
+  double_elimination: "Double elimination",
+  round_robin:        "Round robin",
+};
+
+const BRACKET_LABELS: Record<TournamentMatch["bracket"], string> = {
+  winners:     "Winners bracket",
+  losers:      "Losers bracket",
+  final:       "Grand final",
+  round_robin: "Fixtures",
+};
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function agentLabel(id: string): string {
+  return `${AGENT_ICONS[id] ?? "🤖"} ${AGENT_NAMES[id] ?? id}`;
+}
+
+function roundLabel(m: TournamentMatch): string {
+  if (m.bracket === "final") return m.round === 1 ? "Final" : "Reset";
+  return `Round ${m.round}`;
+}
+
+/** Matches grouped by bracket, then round, in bracket order. */
+function columns(matches: TournamentMatch[]): { bracket: TournamentMatch["bracket"]; rounds: TournamentMatch[][] }[] {
+  const out: { bracket: TournamentMatch["bracket"]; rounds: TournamentMatch[][] }[] = [];
+  for (const m of matches) {
+    let group = out.find((g) => g.bracket === m.bracket);
+    if (!group) {
+      group = { bracket: m.bracket, rounds: [] };
+      out.push(group);
+    }
+    (group.rounds[m.round - 1] ??= []).push(m);
+  }
+  return out.map((g) => ({ ...g, rounds: g.rounds.filter(Boolean) }));
+}
+
+// ─── Match card ───────────────────────────────────────────────────────────────
+
+function MatchCard({ match }: { match: TournamentMatch }) {
+  const battleId = match.battleIds[match.battleIds.length - 1];
+  const faded    = match.status === "skipped";
+
+  const slot = (i: 0 | 1) => {
+    const id = match.agentIds[i];
+    const won = Boolean(id) && id === match.winnerAgentId;
+    return (
+      <div style={{
+        display: "flex", justifyContent: "space-between", gap: 6,
+        fontWeight: won ? 700 : 400,
+        color: won ? "var(--green)" : id ? "var(--text)" : "var(--muted)",
+      }}>
+        <span>{id ? agentLabel(id) : match.status === "bye" ? "bye" : "TBD"}</span>
+        {won && <span>✓</span>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="card" style={{ padding: "0.6rem 0.75rem", marginBottom: 8, fontSize: 12, opacity: faded ? 0.45 : 1 }}>
+      <div style={{ display: "flex", justifyContent: "space-between", marginBottom: 4 }}>
+        <span className="muted font-mono" style={{ fontSize: 10 }}>{match.matchId}</span>
+        {match.status === "running" && <span className="badge badge-yellow" style={{ fontSize: 9 }}>Live ●</span>}
+        {match.status === "skipped" && <span className="badge badge-blue" style={{ fontSize: 9 }}>not needed</span>}
+        {match.draw && <span className="badge badge-blue" style={{ fontSize: 9 }}>draw</span>}
+        {match.decidedBySeed && <span className="badge badge-blue" style={{ fontSize: 9 }}>by seed</span>}
+      </div>
+      {slot(0)}
+      {slot(1)}
+      {battleId && (
+        <Link href={`/arena/battle/${battleId}`} style={{ fontSize: 10, display: "inline-block", marginTop: 4 }}>
+          {match.battleIds.length > 1 ? `battle ${match.battleIds.length} →` : "battle →"}
+        </Link>
+      )}
+    </div>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function TournamentPage({ params }: { params: { id: string } }) {
+  const { id } = params;
+
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [loading,    setLoading]    = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`${API}/arena/tournaments/${id}`);
+      if (res.ok) setTournament((await res.json()) as Tournament);
+    } catch { /* ignore */ } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => { void load(); }, [load]);
+
+  // ── SSE: refetch on this tournament's updates ────────────────────────────
+
+  useEffect(() => {
+    const es = new EventSource(`${API}/events`);
+    es.onmessage = (e: MessageEvent) => {
+      try {
+        const ev = JSON.parse(e.data as string) as SSEEvent;
+        if (ev.payload["tournamentId"] === id) void load();
+      } catch { /* ignore */ }
+    };
+    return () => es.close();
+  }, [id, load]);
+
+  // ── Render ────────────────────────────────────────────────────────────────
+
+  if (loading) {
+    return (
+      <>
+        <Nav />
+        <main><p className="muted">Loading tournament…</p></main>
+      </>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <>
+        <Nav />
+        <main>
+          <p style={{ color: "var(--red)" }}>Tournament not found.</p>
+          <Link href="/arena/tournaments">← Tournaments</Link>
+        </main>
+      </>
+    );
+  }
+
+  const t = tournament;
+  const roundRobin = t.format === "round_robin";
+
+  return (
+    <>
+      <Nav />
+      <main style={{ maxWidth: 1100 }}>
+
+        {/* ── Header ─────────────────────────────────────────────────────── */}
+        <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: "1.25rem", flexWrap: "wrap" }}>
+          <Link href="/arena/tournaments" className="muted" style={{ fontSize: 13 }}>← Tournaments</Link>
+          <div style={{ flex: 1 }}>
+            <h1 style={{ marginBottom: 2, fontSize: "1.4rem" }}>{t.name}</h1>
+            <div className="muted" style={{ fontSize: 11 }}>
+              {FORMAT_LABELS[t.format]} · {t.battleType} battles · {t.agentIds.length} agents
+              {t.scenario !== "calm" && ` · ${t.scenario.replace("_", " ")} market`}
+              <span style={{ marginLeft: 8, opacity: 0.6 }}>seed {t.seed}</span>
+            </div>
+          </div>
+          {t.status === "complete" ? (
+            <span className="badge badge-green">Complete</span>
+          ) : (
+            <span className="badge badge-yellow" style={{ animation: "pulse-slow 2s ease-in-out infinite" }}>Live ●</span>
+          )}
+        </div>
+
+        {/* ── Champion ───────────────────────────────────────────────────── */}
+        {t.championAgentId && (
+          <div className="winner-banner" style={{ marginBottom: "1rem" }}>
+            <div style={{ fontSize: "2.2rem", marginBottom: 4 }}>🏆</div>
+            <div style={{ fontSize: 22, fontWeight: 800, color: "var(--green)" }}>
+              {agentLabel(t.championAgentId)} is champion
+            </div>
+          </div>
+        )}
+
+        {/* ── Bracket / fixtures ─────────────────────────────────────────── */}
+        {columns(t.matches).map((group) => (
+          <div key={group.bracket} style={{ marginBottom: "1rem" }}>
+            <div className="section-label">{BRACKET_LABELS[group.bracket]}</div>
+            <div style={{ display: "flex", gap: 12, overflowX: "auto" }}>
+              {group.rounds.map((round) => (
+                <div
+                  key={round[0]!.round}
+                  style={{ minWidth: 180, display: "flex", flexDirection: "column", justifyContent: "space-around" }}
+                >
+                  <div className="muted" style={{ fontSize: 10, marginBottom: 6 }}>{roundLabel(round[0]!)}</div>
+                  {round.map((m) => <MatchCard key={m.matchId} match={m} />)}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {/* ── Standings ──────────────────────────────────────────────────── */}
+        <div className="card">
+          <div className="section-label">Standings</div>
+          <table>
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Agent</th>
+                <th className="text-right">Played</th>
+                <th className="text-right">W-D-L</th>
+                {roundRobin ? <th className="text-right">Pts</th> : <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {t.standings.map((s) => (
+                <tr key={s.agentId} style={{ opacity: s.eliminated ? 0.55 : 1 }}>
+                  <td>{s.rank}</td>
+                  <td>{agentLabel(s.agentId)}</td>
+                  <td className="text-right font-mono">{s.played}</td>
+                  <td className="text-right font-mono">{s.wins}-{s.draws}-{s.losses}</td>
+                  {roundRobin ? (
+                    <td className="text-right font-mono">{s.points}</td>
+                  ) : (
+                    <td className="muted" style={{ fontSize: 11 }}>{s.eliminated ? "eliminated" : ""}</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </main>
+    </>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import Nav from "@/components/Nav";
+import type { Season, SeasonStanding, SSEEvent, Tournament, TournamentFormat } from "@agent-aqi/shared";
+
+const API = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000";
+
+const AGENT_ICONS: Record<string, string> = { safe: "🛡️", fast: "⚡", cheap: "♻️" };
+const AGENT_NAMES: Record<string, string> = { safe: "SafeGuard", fast: "SpeedRunner", cheap: "GasOptimizer" };
+
+const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  single_elimination: "Single elimination",
+  double_elimination: "Double elimination",
+  round_robin:        "Round robin",
+};
+
+function agentLabel(id: string): string {
+  return `${AGENT_ICONS[id] ?? "🤖"} ${AGENT_NAMES[id] ?? id}`;
+}
+
+type SeasonDetail = Season & { standings: SeasonStanding[] };
+
+// ─── Season table ─────────────────────────────────────────────────────────────
+
+function SeasonTable({ season }: { season: SeasonDetail }) {
+  return (
+    <div className="card">
+      <div style={{ display: "flex", alignItems: "center", gap: 8, marginBottom: 10 }}>
+        <h2 style={{ margin: 0, fontSize: "1.05rem" }}>{season.name}</h2>
+        <span className={`badge ${season.status === "active" ? "badge-green" : "badge-blue"}`}>{season.status}</span>
+      </div>
+      {season.standings.length === 0 ? (
+        <p className="muted" style={{ fontSize: 12 }}>No tournaments played this season yet.</p>
+      ) : (
+        <table>
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Agent</th>
+              <th className="text-right">Pts</th>
+              <th className="text-right">W-D-L</th>
+              <th className="text-right">Titles</th>
+              <th className="text-right">Events</th>
+            </tr>
+          </thead>
+          <tbody>
+            {season.standings.map((s) => (
+              <tr key={s.agentId}>
+                <td>{s.rank}</td>
+                <td>{agentLabel(s.agentId)}</td>
+                <td className="text-right font-mono">{s.points}</td>
+                <td className="text-right font-mono">{s.wins}-{s.draws}-{s.losses}</td>
+                <td className="text-right font-mono">{s.titles > 0 ? `🏆 ${s.titles}` : "—"}</td>
+                <td className="text-right font-mono">{s.tournaments}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export default function TournamentsPage() {
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  const [seasons,     setSeasons]     = useState<SeasonDetail[]>([]);
+  const [loading,     setLoading]     = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const [tRes, sRes] = await Promise.all([
+        fetch(`${API}/arena/tournaments`),
+        fetch(`${API}/arena/seasons`),
+      ]);
+      if (tRes.ok) setTournaments((await tRes.json()) as Tournament[]);
+      if (sRes.ok) {
+        const list = (await sRes.json()) as Season[];
+        const details = await Promise.all(
+          list.map(async (s) => {
+            const res = await fetch(`${API}/arena/seasons/${s.seasonId}`);
+            return res.ok ? ((await res.json()) as SeasonDetail) : { ...s, standings: [] };
+          }),
+        );
+        setSeasons(details.reverse());
+      }
+    } catch { /* ignore */ } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { void load(); }, [load]);
+
+  // Refetch whenever a tournament moves on
+  useEffect(() => {
+    const es = new EventSource(`${API}/events`);
+    es.onmessage = (e: MessageEvent) => {
+      try {
+        const ev = JSON.parse(e.data as string) as SSEEvent;
+        if (ev.type === "tournament_update" || ev.type === "tournament_complete") void load();
+      } catch { /* ignore */ }
+    };
+    return () => es.close();
+  }, [load]);
+
+  const seasonName = (id?: string) => seasons.find((s) => s.seasonId === id)?.name;
+
+  return (
+    <>
+      <Nav />
+      <main style={{ maxWidth: 900 }}>
+        <h1 style={{ marginBottom: 4 }}>🏟️ Tournaments</h1>
+        <p className="muted" style={{ fontSize: 13, marginBottom: "1.25rem" }}>
+          Brackets and round robins of Arena battles. Admins create them with POST /arena/tournaments.
+        </p>
+
+        {loading ? (
+          <p className="muted">Loading tournaments…</p>
+        ) : (
+          <>
+            <div className="card">
+              <div className="section-label">Tournaments</div>
+              {tournaments.length === 0 ? (
+                <p className="muted" style={{ fontSize: 12 }}>No tournaments yet.</p>
+              ) : (
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Name</th>
+                      <th>Format</th>
+                      <th>Type</th>
+                      <th>Agents</th>
+                      <th>Season</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {tournaments.map((t) => (
+                      <tr key={t.tournamentId}>
+                        <td><Link href={`/arena/tournaments/${t.tournamentId}`}>{t.name}</Link></td>
+                        <td>{FORMAT_LABELS[t.format]}</td>
+                        <td>{t.battleType}</td>
+                        <td className="font-mono">{t.agentIds.length}</td>
+                        <td className="muted">{seasonName(t.seasonId) ?? "—"}</td>
+                        <td>
+                          {t.status === "complete" ? (
+                            <span className="badge badge-green">
+                              🏆 {t.championAgentId ? AGENT_NAMES[t.championAgentId] ?? t.championAgentId : "complete"}
+                            </span>
+                          ) : (
+                            <span className="badge badge-yellow">Live ●</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            {seasons.map((s) => <SeasonTable key={s.seasonId} season={s} />)}
+          </>
+        )}
+      </main>
+    </>
+  );
+}
@@ -11,11 +11,15 @@
  *
  *  2. Participant list — last 20 signed-in predictors (newest first, polled every 3 s).
  *
+ * The header shows when predictions have closed (the battle left the lobby) or
+ * the lobby was cancelled.  `refreshKey` changes on betting SSE events seen by
+ * the page and forces an immediate refetch.
+ *
  * Copy rule: never say "bet" or "gamble" — always "prediction" / "refundable deposit".
  */
 
 import { useEffect, useState } from "react";
-import type { AgentSummary } from "@agent-aqi/shared";
+import type { AgentSummary, BattleStatus } from "@agent-aqi/shared";
 
 const API = process.env["NEXT_PUBLIC_API_URL"] ?? "http://localhost:4000";
 
@@ -136,7 +140,11 @@ function OddsBar({ pct, color, label }: { pct: number; color: string; label: str
 
 // ─── BattleLobby ─────────────────────────────────────────────────────────────
 
-export default function BattleLobby({ battleId }: { battleId: string }) {
+export default function BattleLobby({
+  battleId, status, refreshKey = 0,
+}: {
+  battleId: string; status?: BattleStatus; refreshKey?: number;
+}) {
   const [participants, setParticipants] = useState<Participant[]>([]);
   const [total,        setTotal]        = useState(0);
   const [predTotals,   setPredTotals]   = useState<PredTotals | null>(null);
@@ -177,7 +185,7 @@ export default function BattleLobby({ battleId }: { battleId: string }) {
     void poll();
     const id = setInterval(() => void poll(), 3000);
     return () => { cancelled = true; clearInterval(id); };
-  }, [battleId]);
+  }, [battleId, refreshKey]);
 
   // ── Derived ───────────────────────────────────────────────────────────────
 
@@ -206,6 +214,16 @@ export default function BattleLobby({ battleId }: { battleId: string }) {
       }}>
         <h3 style={{ marginBottom: 0, fontSize: 13 }}>👥 Battle Lobby</h3>
         <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          {status && status !== "lobby" && (
+            <span style={{
+              background: status === "cancelled" ? "rgba(248,81,73,.15)" : "rgba(255,255,255,.07)",
+              color:      status === "cancelled" ? "var(--red)" : "var(--muted)",
+              fontSize: 9, fontWeight: 700, padding: "2px 8px",
+              borderRadius: 99, letterSpacing: "0.06em", textTransform: "uppercase",
+            }}>
+              {status === "cancelled" ? "Cancelled · predictions voided" : "🔒 Predictions closed"}
+            </span>
+          )}
           {mispriced.size > 0 && (
             <span style={{
               background: "rgba(210,153,34,.18)", color: "#d29922",
@@ -40,6 +40,12 @@ function payloadStr(payload: Record<string, unknown>): string {
     parts.push(`flags=[${(payload["safetyFlags"] as string[]).join(",")}]`);
   }
 
+  // Batch progress
+  if (payload["batchId"]) {
+    const finished = Object.values(payload["finished"] as Record<string, number>).reduce((s, n) => s + n, 0);
+    parts.push(`batch=${String(payload["batchId"]).slice(0, 8)}…  ${finished}/${payload["total"]} done`);
+  }
+
   // Failure fields
   if (payload["phase"]) parts.push(`phase=${payload["phase"]}`);
   if (payload["error"]) parts.push(`err=${payload["error"]}`);
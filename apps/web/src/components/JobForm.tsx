@@ -1,10 +1,12 @@
 "use client";
 
 import { useState } from "react";
-import type { JobType, Objective } from "@agent-aqi/shared";
+import type { JobType, Objective, RoutingDecision } from "@agent-aqi/shared";
 
 const API = process.env.NEXT_PUBLIC_API_URL ?? "http://localhost:4000";
 
+type Routing = "fixed" | "aqi" | "epsilon_greedy" | "thompson";
+
 interface Props {
   onJobSubmitted?: (jobId: string, agentId: string) => void;
 }
@@ -12,8 +14,13 @@ interface Props {
 export default function JobForm({ onJobSubmitted }: Props) {
   const [jobType,   setJobType]   = useState<JobType>("swap");
   const [objective, setObjective] = useState<Objective>("safest");
+  const [routing,   setRouting]   = useState<Routing>("fixed");
+  const [deadlineMs,     setDeadlineMs]     = useState("");
+  const [maxSlippageBps, setMaxSlippageBps] = useState("");
+  const [maxPaymentUsd,  setMaxPaymentUsd]  = useState("");
+  const [paidCallUrl,    setPaidCallUrl]    = useState("");
   const [loading,   setLoading]   = useState(false);
-  const [last,      setLast]      = useState<{ jobId: string; agentId: string } | null>(null);
+  const [last,      setLast]      = useState<{ jobId: string; agentId: string; routing?: RoutingDecision } | null>(null);
   const [error,     setError]     = useState<string | null>(null);
 
   async function submit(e: React.FormEvent) {
@@ -24,10 +31,23 @@ export default function JobForm({ onJobSubmitted }: Props) {
       const res = await fetch(`${API}/jobs`, {
         method:  "POST",
         headers: { "Content-Type": "application/json" },
-        body:    JSON.stringify({ jobType, objective }),
+        body:    JSON.stringify({
+          jobType,
+          objective,
+          routing,
+          constraints: {
+            ...(deadlineMs     && { deadlineMs:     Number(deadlineMs) }),
+            ...(jobType === "swap"      && maxSlippageBps && { maxSlippageBps: Number(maxSlippageBps) }),
+            ...(jobType === "paid_call" && maxPaymentUsd  && { maxPaymentUsd:  Number(maxPaymentUsd) }),
+          },
+          ...(jobType === "paid_call" && paidCallUrl && { paidCall: { url: paidCallUrl } }),
+        }),
       });
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data = (await res.json()) as { jobId: string; agentId: string };
+      if (!res.ok) {
+        const body = (await res.json().catch(() => ({}))) as { error?: string };
+        throw new Error(body.error ?? `HTTP ${res.status}`);
+      }
+      const data = (await res.json()) as { jobId: string; agentId: string; routing?: RoutingDecision };
       setLast(data);
       onJobSubmitted?.(data.jobId, data.agentId);
     } catch (err) {
@@ -51,6 +71,20 @@ export default function JobForm({ onJobSubmitted }: Props) {
         </select>
       </div>
 
+      {jobType === "paid_call" && (
+        <div className="flex flex-col gap-1 mb-2">
+          <label className="muted" style={{ fontSize: 12, fontWeight: 600 }}>
+            ENDPOINT
+          </label>
+          <input
+            type="url"
+            placeholder="demo paywall (/x402/demo)"
+            value={paidCallUrl}
+            onChange={(e) => setPaidCallUrl(e.target.value)}
+          />
+        </div>
+      )}
+
       <div className="flex flex-col gap-1 mb-2">
         <label className="muted" style={{ fontSize: 12, fontWeight: 600 }}>
           OBJECTIVE
@@ -65,6 +99,61 @@ export default function JobForm({ onJobSubmitted }: Props) {
         </select>
       </div>
 
+      <div className="flex flex-col gap-1 mb-2">
+        <label className="muted" style={{ fontSize: 12, fontWeight: 600 }}>
+          ROUTING
+        </label>
+        <select value={routing} onChange={(e) => setRouting(e.target.value as Routing)}>
+          <option value="fixed">fixed — built-in agent for the objective</option>
+          <option value="aqi">aqi — best AQI under the objective</option>
+          <option value="epsilon_greedy">epsilon-greedy — best AQI, sometimes explore</option>
+          <option value="thompson">thompson — sample from each AQI interval</option>
+        </select>
+      </div>
+
+      <div className="flex gap-2 mb-2">
+        <div className="flex flex-col gap-1">
+          <label className="muted" style={{ fontSize: 12, fontWeight: 600 }}>
+            DEADLINE (MS)
+          </label>
+          <input
+            type="number"
+            min={100}
+            placeholder="agent default"
+            value={deadlineMs}
+            onChange={(e) => setDeadlineMs(e.target.value)}
+          />
+        </div>
+        {jobType === "swap" ? (
+          <div className="flex flex-col gap-1">
+            <label className="muted" style={{ fontSize: 12, fontWeight: 600 }}>
+              MAX SLIPPAGE (BPS)
+            </label>
+            <input
+              type="number"
+              min={1}
+              placeholder="agent default"
+              value={maxSlippageBps}
+              onChange={(e) => setMaxSlippageBps(e.target.value)}
+            />
+          </div>
+        ) : (
+          <div className="flex flex-col gap-1">
+            <label className="muted" style={{ fontSize: 12, fontWeight: 600 }}>
+              MAX PAYMENT (USD)
+            </label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              placeholder="agent gas budget"
+              value={maxPaymentUsd}
+              onChange={(e) => setMaxPaymentUsd(e.target.value)}
+            />
+          </div>
+        )}
+      </div>
+
       {error && (
         <p style={{ color: "var(--red)", fontSize: 12, marginBottom: "0.75rem" }}>
           {error}
@@ -75,6 +164,9 @@ export default function JobForm({ onJobSubmitted }: Props) {
         <p style={{ fontSize: 12, color: "var(--green)", marginBottom: "0.75rem" }}>
           Job queued: <strong>{last.jobId.slice(0, 8)}…</strong> → agent{" "}
           <strong>{last.agentId}</strong>
+          {last.routing && last.routing.mode !== "fixed" && (
+            <span className="muted"> ({last.routing.reason}{last.routing.explored ? ", exploring" : ""})</span>
+          )}
         </p>
       )}
 
@@ -72,10 +72,16 @@ export default function Nav() {
         {/* Nav links */}
         <Link
           href="/arena"
-          style={{ color: (path === "/arena" || (path.startsWith("/arena") && !path.startsWith("/arena/home"))) ? "var(--text-hi)" : undefined }}
+          style={{ color: (path === "/arena" || (path.startsWith("/arena") && !path.startsWith("/arena/home") && !path.startsWith("/arena/tournaments"))) ? "var(--text-hi)" : undefined }}
         >
           Arena
         </Link>
+        <Link
+          href="/arena/tournaments"
+          style={{ color: path.startsWith("/arena/tournaments") ? "var(--text-hi)" : undefined }}
+        >
+          Tournaments
+        </Link>
         <Link href="/" style={{ color: path === "/" ? "var(--text-hi)" : undefined }}>
           Run Job
         </Link>
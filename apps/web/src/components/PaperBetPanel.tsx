@@ -6,9 +6,13 @@
  * No wallet. No MetaMask. Just a nickname + fake ETH wager.
  *
  * State machine:
- *   "form"     – pick nickname / agent / amount → place bet
+ *   "form"     – pick nickname / agent / amount → place bet (only while the
+ *                lobby's betting window is open; otherwise a closed notice)
  *   "placed"   – waiting for battle to resolve; show live pool + lobby
- *   "resolved" – show P/L result, all results table, global mini-leaderboard
+ *   "resolved" – show P/L result, all results table, global mini-leaderboard;
+ *                a tie refunds and a cancelled lobby voids every stake
+ *
+ * `refreshKey` changes when the page sees a betting SSE event, forcing a refetch.
  *
  * Winner-takes-pool: losers' stakes are distributed proportionally among winners.
  */
@@ -82,6 +86,9 @@ interface BetData {
   results:  PaperBetResult[];
   pool:     Record<string, PoolEntry>;
   resolved: boolean;
+  bettingOpen:          boolean;
+  bettingClosedReason?: string;
+  bettingClosesAt?:     number;
 }
 
 // ─── Pool bar ─────────────────────────────────────────────────────────────────
@@ -117,7 +124,7 @@ function PoolBar({ agentId, entry, totalPool }: {
 
 // ─── PaperBetPanel ────────────────────────────────────────────────────────────
 
-export default function PaperBetPanel({ battleId }: { battleId: string }) {
+export default function PaperBetPanel({ battleId, refreshKey = 0 }: { battleId: string; refreshKey?: number }) {
   const [data,       setData]       = useState<BetData | null>(null);
   const [board,      setBoard]      = useState<PaperLeaderboardEntry[]>([]);
   const [phase,      setPhase]      = useState<"form" | "placed" | "resolved">("form");
@@ -163,7 +170,7 @@ export default function PaperBetPanel({ battleId }: { battleId: string }) {
       if (pollRef.current) clearInterval(pollRef.current);
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [battleId, phase, myBetId]);
+  }, [battleId, phase, myBetId, refreshKey]);
 
   // ── Load global leaderboard once resolved ─────────────────────────────────
 
@@ -216,6 +223,28 @@ export default function PaperBetPanel({ battleId }: { battleId: string }) {
   const totalPool = Object.values(pool).reduce((s, e) => s + e.total, 0);
   const myResult  = myBetId ? results.find((r) => r.betId === myBetId) : null;
 
+  // ── Render: betting closed before this visitor bet ────────────────────────
+
+  if (phase === "form" && data && !data.bettingOpen) {
+    const voided = results.some((r) => r.voided);
+    return (
+      <div className="card" style={{ marginBottom: "1rem" }}>
+        <h3 style={{ marginBottom: 4, fontSize: 14 }}>🔒 Betting closed</h3>
+        <div className="muted" style={{ fontSize: 11 }}>
+          {data.bettingClosedReason}
+          {voided && " · every bet was voided and its stake returned."}
+        </div>
+        {totalPool > 0 && (
+          <div style={{ marginTop: 12 }}>
+            {AGENTS.map((a) => pool[a] ? (
+              <PoolBar key={a} agentId={a} entry={pool[a]!} totalPool={totalPool} />
+            ) : null)}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   // ── Render: FORM phase ────────────────────────────────────────────────────
 
   if (phase === "form") {
@@ -235,6 +264,7 @@ export default function PaperBetPanel({ battleId }: { battleId: string }) {
           </div>
           <div className="muted" style={{ fontSize: 11 }}>
             No wallet needed. Pick an agent, wager fake ETH, winner takes the pool.
+            {data?.bettingClosesAt && ` Betting closes at ${new Date(data.bettingClosesAt).toLocaleTimeString()}.`}
           </div>
         </div>
 
@@ -474,9 +504,10 @@ export default function PaperBetPanel({ battleId }: { battleId: string }) {
 
   // ── Render: RESOLVED phase ────────────────────────────────────────────────
 
-  const won  = myResult?.won ?? false;
-  const pnl  = myResult?.pnlEth ?? 0;
-  const roi  = myResult?.roiPct ?? 0;
+  const won      = myResult?.won ?? false;
+  const pnl      = myResult?.pnlEth ?? 0;
+  const roi      = myResult?.roiPct ?? 0;
+  const returned = Boolean(myResult?.refunded || myResult?.voided);
 
   return (
     <>
@@ -485,7 +516,25 @@ export default function PaperBetPanel({ battleId }: { battleId: string }) {
       <div className="card" style={{ marginBottom: "1rem" }}>
 
         {/* My result banner */}
-        {myResult ? (
+        {myResult && returned ? (
+          <div style={{
+            background:   "var(--bg)",
+            border:       "2px solid var(--border)",
+            borderRadius: "var(--radius)",
+            padding:      "1rem 1.1rem",
+            marginBottom: 16,
+            textAlign:    "center",
+          }}>
+            <div style={{ fontSize: "2.5rem", marginBottom: 4 }}>↩️</div>
+            <div style={{ fontSize: 18, fontWeight: 800, color: "var(--text-hi)", marginBottom: 4 }}>
+              {myResult.voided ? "Bet voided" : "Bet refunded"}
+            </div>
+            <div style={{ fontSize: 13, color: "var(--muted)" }}>
+              {myResult.voided ? "The lobby was cancelled" : "The battle ended in a tie"} — your{" "}
+              {myResult.amountEth} Ξ stake was returned.
+            </div>
+          </div>
+        ) : myResult ? (
           <div style={{
             background:   won ? "rgba(63,185,80,.08)" : "rgba(248,81,73,.07)",
             border:       `2px solid ${won ? "var(--green)" : "var(--red)"}`,
@@ -554,7 +603,7 @@ export default function PaperBetPanel({ battleId }: { battleId: string }) {
                       fontSize: 11,
                     }}>
                       <span style={{ fontSize: "1rem", flexShrink: 0 }}>
-                        {r.won ? "🏆" : "💀"}
+                        {r.won ? "🏆" : r.refunded || r.voided ? "↩️" : "💀"}
                       </span>
                       <span style={{
                         background: `${hex}18`, border: `1px solid ${hex}55`,
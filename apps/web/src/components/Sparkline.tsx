@@ -0,0 +1,44 @@
+"use client";
+
+interface SparklineProps {
+  /** AQI values, oldest first (0-100) */
+  values: number[];
+  width?: number;
+  height?: number;
+}
+
+function lineColor(values: number[]) {
+  const last = values[values.length - 1] ?? 0;
+  if (last >= 75) return "var(--green)";
+  if (last >= 45) return "var(--yellow)";
+  return "var(--red)";
+}
+
+/**
+ * Minimal SVG line chart for AQI history.  The y-axis is fitted to the data
+ * (padded by 5 pts) so small movements near the top of the scale stay visible.
+ */
+export default function Sparkline({ values, width = 120, height = 32 }: SparklineProps) {
+  if (values.length < 2) {
+    return (
+      <span className="muted" style={{ fontSize: 10 }}>
+        {values.length === 0 ? "no history yet" : "collecting history…"}
+      </span>
+    );
+  }
+
+  const min  = Math.max(0,   Math.min(...values) - 5);
+  const max  = Math.min(100, Math.max(...values) + 5);
+  const span = max - min || 1;
+  const step = width / (values.length - 1);
+
+  const points = values
+    .map((v, i) => `${(i * step).toFixed(1)},${(height - ((v - min) / span) * height).toFixed(1)}`)
+    .join(" ");
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} style={{ display: "block" }}>
+      <polyline points={points} fill="none" stroke={lineColor(values)} strokeWidth={1.5} />
+    </svg>
+  );
+}
@@ -1,2 +1,4 @@
 export * from "./types";
 export * from "./scoring";
+export * from "./remote";
+export * from "./random";
@@ -0,0 +1,29 @@
+import type { OnChainEvidence, RemoteOutcome } from "./types";
+
+export const REMOTE_AGENT_PROTOCOL = "agent-aqi/1" as const;
+
+/**
+ * The exact message a remote agent signs (EIP-191 personal_sign) to vouch for
+ * its outcome, and for its on-chain proof when it reports one.  Fields are
+ * serialised in a fixed order so the agent and the server always produce the
+ * same bytes.
+ */
+export function remoteEvidenceMessage(jobId: string, outcome: RemoteOutcome, onChain?: OnChainEvidence): string {
+  const canonical = JSON.stringify({
+    status:      outcome.status,
+    gasUsedUsd:  outcome.gasUsedUsd,
+    slippageBps: outcome.slippageBps,
+    safetyFlags: outcome.safetyFlags,
+  });
+  const message = `${REMOTE_AGENT_PROTOCOL} receipt\njobId: ${jobId}\noutcome: ${canonical}`;
+  if (!onChain) return message;
+
+  const chain = JSON.stringify({
+    txHash:      onChain.txHash,
+    chainId:     onChain.chainId,
+    blockNumber: onChain.blockNumber,
+    gasUsed:     onChain.gasUsed,
+    status:      onChain.status,
+  });
+  return `${message}\nonChain: ${chain}`;
+}
@@ -1,114 +1,426 @@
-import type { Receipt, AQIResult, AQIComponents } from "./types";
+import type {
+  Receipt,
+  AQIResult,
+  AQIComponents,
+  AQIOptions,
+  AQIWeights,
+  AQIExplanation,
+  ConfidenceInterval,
+  EconomicsBreakdown,
+  ReceiptExplanation,
+  SafetyBreakdown,
+  SpeedBreakdown,
+  WeightProfile,
+} from "./types";
+import { mulberry32 } from "./random";
 
-// ─── Weights (must sum to 1.0) ────────────────────────────────────────────────
-const WEIGHTS = {
-  reliability: 0.30,
-  safety:      0.25,
-  speed:       0.20,
-  economics:   0.15,
-  feedback:    0.10,
-} as const;
+// ─── Weight profiles (each must sum to 1.0) ───────────────────────────────────
 
-// ─── Component scorers ────────────────────────────────────────────────────────
+export const BUILTIN_WEIGHT_PROFILES: WeightProfile[] = [
+  {
+    name:        "balanced",
+    description: "Default all-round weighting.",
+    weights:     { reliability: 0.30, safety: 0.25, speed: 0.20, economics: 0.15, feedback: 0.10 },
+    builtin:     true,
+    createdAt:   0,
+  },
+  {
+    name:        "safest",
+    description: "Safety and reliability first; speed and cost matter little.",
+    weights:     { reliability: 0.30, safety: 0.40, speed: 0.10, economics: 0.10, feedback: 0.10 },
+    builtin:     true,
+    createdAt:   0,
+  },
+  {
+    name:        "fastest",
+    description: "Latency against the deadline dominates.",
+    weights:     { reliability: 0.25, safety: 0.15, speed: 0.45, economics: 0.05, feedback: 0.10 },
+    builtin:     true,
+    createdAt:   0,
+  },
+  {
+    name:        "cheapest",
+    description: "Gas spend against budget dominates.",
+    weights:     { reliability: 0.25, safety: 0.15, speed: 0.10, economics: 0.40, feedback: 0.10 },
+    builtin:     true,
+    createdAt:   0,
+  },
+];
 
-/** 0-100: fraction of fulfilled receipts */
-function scoreReliability(receipts: Receipt[]): number {
-  if (receipts.length === 0) return 0;
-  const fulfilled = receipts.filter((r) => r.outcome.status === "fulfilled").length;
-  return (fulfilled / receipts.length) * 100;
+export const DEFAULT_WEIGHT_PROFILE: WeightProfile = BUILTIN_WEIGHT_PROFILES[0]!;
+
+// ─── Weighting ────────────────────────────────────────────────────────────────
+
+/** A receipt paired with its recency weight (1 when no decay is applied). */
+interface Weighted {
+  receipt: Receipt;
+  weight:  number;
 }
 
+/**
+ * Apply the scenario and fault filters and the lastN / maxAgeMs windows, then
+ * attach decay weights.
+ * Receipts are assumed to be in insertion order, which is chronological.
+ */
+function selectReceipts(receipts: Receipt[], options: AQIOptions): Weighted[] {
+  const now = options.now ?? Date.now();
+  let selected = receipts;
+
+  if (options.scenario !== undefined) {
+    selected = selected.filter((r) => r.scenario === options.scenario);
+  }
+  if ((options.faults ?? "agent") === "agent") {
+    selected = selected.filter((r) => r.failure?.fault !== "infrastructure");
+  }
+  if (options.maxAgeMs !== undefined) {
+    const cutoff = now - options.maxAgeMs;
+    selected = selected.filter((r) => r.completedAt >= cutoff);
+  }
+  if (options.lastN !== undefined) {
+    selected = selected.slice(-options.lastN);
+  }
+
+  const halfLife = options.halfLifeMs;
+  return selected.map((receipt) => ({
+    receipt,
+    weight: halfLife
+      ? Math.pow(0.5, Math.max(0, now - receipt.completedAt) / halfLife)
+      : 1,
+  }));
+}
+
+// ─── Component scorers (per receipt) ──────────────────────────────────────────
+
+/** 100 if fulfilled, else 0 — averaged, this is the success rate */
+function reliabilityOf(r: Receipt): number {
+  return r.outcome.status === "fulfilled" ? 100 : 0;
+}
+
+const FLAG_PENALTY     = 10;
+const FLAG_PENALTY_CAP = 50;
+
 /**
  * 0-100: penalise safety flags and excess slippage.
  * Each safety flag costs 10 pts (capped at 50).
  * Slippage over the constraint costs up to 30 pts.
  */
-function scoreSafety(receipts: Receipt[]): number {
-  if (receipts.length === 0) return 0;
-  const scores = receipts.map((r) => {
-    let score = 100;
-    // Flag penalty
-    score -= Math.min(r.outcome.safetyFlags.length * 10, 50);
-    // Slippage over constraint penalty
-    const excessBps = Math.max(
-      0,
-      r.outcome.slippageBps - r.constraints.maxSlippageBps,
-    );
-    score -= Math.min((excessBps / 100) * 15, 30);
-    return Math.max(0, score);
+function safetyBreakdown(r: Receipt): SafetyBreakdown {
+  // Flag penalty — flags past the cap cost nothing
+  let remaining = FLAG_PENALTY_CAP;
+  const flags = r.outcome.safetyFlags.map((flag) => {
+    const points = Math.min(FLAG_PENALTY, remaining);
+    remaining -= points;
+    return { flag, points };
   });
-  return scores.reduce((a, b) => a + b, 0) / scores.length;
+  const flagPenalty = FLAG_PENALTY_CAP - remaining;
+  // Slippage over constraint penalty
+  const excessSlippageBps = Math.max(
+    0,
+    r.outcome.slippageBps - r.constraints.maxSlippageBps,
+  );
+  const slippagePenalty = Math.min((excessSlippageBps / 100) * 15, 30);
+  return {
+    flags,
+    flagPenalty,
+    excessSlippageBps,
+    slippagePenalty,
+    score: Math.max(0, 100 - flagPenalty - slippagePenalty),
+  };
 }
 
 /**
  * 0-100: latency as a fraction of the deadline.
  * latencyMs <= deadlineMs → 100 pts, scaled linearly down to 0 at 3× deadline.
+ * A timed_out job scores 0: it was aborted, so its latency says nothing.
  */
-function scoreSpeed(receipts: Receipt[]): number {
-  if (receipts.length === 0) return 0;
-  const scores = receipts.map((r) => {
-    const ratio = r.outcome.latencyMs / r.constraints.deadlineMs;
-    if (ratio <= 1) return 100;
-    if (ratio >= 3) return 0;
-    return Math.max(0, 100 - ((ratio - 1) / 2) * 100);
-  });
-  return scores.reduce((a, b) => a + b, 0) / scores.length;
+function speedBreakdown(r: Receipt): SpeedBreakdown {
+  const ratio    = r.outcome.latencyMs / r.constraints.deadlineMs;
+  const timedOut = r.outcome.status === "timed_out";
+  const score =
+    timedOut    ? 0   :
+    ratio <= 1  ? 100 :
+    ratio >= 3  ? 0   :
+    Math.max(0, 100 - ((ratio - 1) / 2) * 100);
+  return { latencyMs: r.outcome.latencyMs, deadlineMs: r.constraints.deadlineMs, ratio, timedOut, score };
 }
 
 /**
- * 0-100: gas used vs the constraint budget.
- * gasUsedUsd <= maxGasUsd → 100, scales down to 0 at 2× budget.
+ * 0-100: cost vs the constraint budget.
+ * Swaps are costed on gas (vs maxGasUsd); paid_call jobs on the payment they
+ * made (vs maxPaymentUsd, default maxGasUsd) — a paid_call receipt without
+ * x402 evidence (remote agents) falls back to the gas the agent reported.
+ * cost <= budget → 100, scales down to 0 at 2× budget.
  */
-function scoreEconomics(receipts: Receipt[]): number {
-  if (receipts.length === 0) return 0;
-  const scores = receipts.map((r) => {
-    const ratio = r.outcome.gasUsedUsd / r.constraints.maxGasUsd;
-    if (ratio <= 1) return 100;
-    if (ratio >= 2) return 0;
-    return Math.max(0, 100 - (ratio - 1) * 100);
-  });
-  return scores.reduce((a, b) => a + b, 0) / scores.length;
+function economicsBreakdown(r: Receipt): EconomicsBreakdown {
+  const paid = r.constraints.jobType === "paid_call";
+  const costUsd =
+    !paid      ? r.outcome.gasUsedUsd :
+    r.paidCall ? r.paidCall.payment?.amountUsd ?? 0 :
+    r.outcome.gasUsedUsd;
+  const budgetUsd = paid ? r.constraints.maxPaymentUsd ?? r.constraints.maxGasUsd : r.constraints.maxGasUsd;
+  const ratio = costUsd / budgetUsd;
+  const score =
+    ratio <= 1 ? 100 :
+    ratio >= 2 ? 0   :
+    Math.max(0, 100 - (ratio - 1) * 100);
+  return { basis: paid ? "payment" : "gas", costUsd, budgetUsd, ratio, score };
+}
+
+/** Feedback score used when no receipt in the set has been rated */
+const NEUTRAL_FEEDBACK = 70;
+
+/** 0-100: user rating × 20, or null when the receipt was not rated */
+function feedbackOf(r: Receipt): number | null {
+  return r.userFeedback != null ? r.userFeedback.rating * 20 : null;
+}
+
+/** Per-receipt component scores, computed once so resampling stays cheap. */
+interface ScoredRow {
+  weight:      number;
+  reliability: number;
+  safety:      number;
+  speed:       number;
+  economics:   number;
+  feedback:    number | null;
+}
+
+function scoreRows(items: Weighted[]): ScoredRow[] {
+  return items.map(({ receipt, weight }) => ({
+    weight,
+    reliability: reliabilityOf(receipt),
+    safety:      safetyBreakdown(receipt).score,
+    speed:       speedBreakdown(receipt).score,
+    economics:   economicsBreakdown(receipt).score,
+    feedback:    feedbackOf(receipt),
+  }));
 }
 
 /**
- * 0-100: average user rating × 20.
- * Receipts without feedback are ignored; if none, defaults to 70 (neutral).
+ * Weighted component averages.  Unrated receipts are ignored for feedback;
+ * if none are rated, feedback defaults to 70 (neutral).
  */
-function scoreFeedback(receipts: Receipt[]): number {
-  const rated = receipts.filter((r) => r.userFeedback != null);
-  if (rated.length === 0) return 70;
-  const avg =
-    rated.reduce((a, r) => a + r.userFeedback!.rating, 0) / rated.length;
-  return avg * 20;
+function aggregate(rows: ScoredRow[]): AQIComponents {
+  let total = 0, rated = 0;
+  const sum = { reliability: 0, safety: 0, speed: 0, economics: 0, feedback: 0 };
+  for (const row of rows) {
+    total           += row.weight;
+    sum.reliability += row.weight * row.reliability;
+    sum.safety      += row.weight * row.safety;
+    sum.speed       += row.weight * row.speed;
+    sum.economics   += row.weight * row.economics;
+    if (row.feedback !== null) {
+      rated        += row.weight;
+      sum.feedback += row.weight * row.feedback;
+    }
+  }
+  const mean = (v: number) => (total > 0 ? v / total : 0);
+  return {
+    reliability: mean(sum.reliability),
+    safety:      mean(sum.safety),
+    speed:       mean(sum.speed),
+    economics:   mean(sum.economics),
+    feedback:    rated > 0 ? sum.feedback / rated : NEUTRAL_FEEDBACK,
+  };
 }
 
-// ─── Public API ───────────────────────────────────────────────────────────────
+function composite(c: AQIComponents, w: AQIWeights): number {
+  return (
+    c.reliability * w.reliability +
+    c.safety      * w.safety +
+    c.speed       * w.speed +
+    c.economics   * w.economics +
+    c.feedback    * w.feedback
+  );
+}
+
+// ─── Confidence intervals ─────────────────────────────────────────────────────
 
-export function computeAQI(receipts: Receipt[]): AQIResult {
-  const components: AQIComponents = {
-    reliability: scoreReliability(receipts),
-    safety:      scoreSafety(receipts),
-    speed:       scoreSpeed(receipts),
-    economics:   scoreEconomics(receipts),
-    feedback:    scoreFeedback(receipts),
+/** z for a two-sided 95 % interval */
+const Z_95 = 1.96;
+
+/** Below this many receipts a score is flagged provisional (see AQIOptions). */
+export const DEFAULT_MIN_SAMPLES = 10;
+
+const DEFAULT_BOOTSTRAP_SAMPLES = 200;
+
+function round1(v: number): number {
+  return Math.round(v * 10) / 10;
+}
+
+function round2(v: number): number {
+  return Math.round(v * 100) / 100;
+}
+
+/**
+ * Kish effective sample size — equals the row count when all weights are 1,
+ * and shrinks as time decay concentrates weight on a few recent receipts.
+ */
+function effectiveSampleSize(rows: ScoredRow[]): number {
+  let sum = 0, sumSq = 0;
+  for (const { weight } of rows) {
+    sum   += weight;
+    sumSq += weight * weight;
+  }
+  return sumSq > 0 ? (sum * sum) / sumSq : 0;
+}
+
+/** Wilson score interval for a success proportion, scaled to 0-100. */
+function wilsonInterval(successRate: number, n: number): ConfidenceInterval {
+  if (n <= 0) return { lower: 0, upper: 100 };
+  const p      = successRate / 100;
+  const z2     = Z_95 * Z_95;
+  const denom  = 1 + z2 / n;
+  const centre = (p + z2 / (2 * n)) / denom;
+  const margin = (Z_95 * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n))) / denom;
+  return {
+    lower: round1(Math.max(0, centre - margin) * 100),
+    upper: round1(Math.min(1, centre + margin) * 100),
   };
+}
 
-  const score =
-    components.reliability * WEIGHTS.reliability +
-    components.safety      * WEIGHTS.safety +
-    components.speed       * WEIGHTS.speed +
-    components.economics   * WEIGHTS.economics +
-    components.feedback    * WEIGHTS.feedback;
+/**
+ * Percentile bootstrap interval for the composite score.  Seeding from the
+ * input keeps the interval stable across leaderboard polls when nothing changed.
+ */
+function bootstrapInterval(
+  rows:       ScoredRow[],
+  weights:    AQIWeights,
+  iterations: number,
+  seed:       number,
+): ConfidenceInterval {
+  if (rows.length === 0 || iterations < 1) return { lower: 0, upper: 100 };
+  const rand    = mulberry32(seed);
+  const scores  = new Array<number>(iterations);
+  const resample = new Array<ScoredRow>(rows.length);
+  for (let i = 0; i < iterations; i++) {
+    for (let j = 0; j < rows.length; j++) {
+      resample[j] = rows[Math.floor(rand() * rows.length)]!;
+    }
+    scores[i] = composite(aggregate(resample), weights);
+  }
+  scores.sort((a, b) => a - b);
+  const at = (q: number) => scores[Math.min(iterations - 1, Math.floor(q * iterations))]!;
+  return { lower: round1(at(0.025)), upper: round1(at(0.975)) };
+}
+
+// ─── Public API ───────────────────────────────────────────────────────────────
+
+/**
+ * Composite 0-100 AQI under a weight profile (default: "balanced").  With no
+ * options every receipt counts equally ("all-time"); see AQIOptions for
+ * rolling windows and time decay.
+ *
+ * `confidence` carries 95 % intervals — Wilson for reliability, bootstrap for
+ * the composite — and `provisional` is set below `minSamples` receipts.
+ * A handful of identical receipts bootstraps to a zero-width interval, so the
+ * composite interval is widened to at least cover the score recomputed with
+ * reliability at its Wilson bounds.
+ */
+export function computeAQI(
+  receipts: Receipt[],
+  profile:  WeightProfile = DEFAULT_WEIGHT_PROFILE,
+  options:  AQIOptions    = {},
+): AQIResult {
+  const weights    = profile.weights;
+  const items      = selectReceipts(receipts, options);
+  const rows       = scoreRows(items);
+  const components = aggregate(rows);
+  const score      = composite(components, weights);
+
+  const minSamples = options.minSamples ?? DEFAULT_MIN_SAMPLES;
+  const seed       = items.length * 2654435761 + (items[items.length - 1]?.receipt.completedAt ?? 0);
+
+  const reliabilityCI = wilsonInterval(components.reliability, effectiveSampleSize(rows));
+  const bootstrapCI   = bootstrapInterval(rows, weights, options.bootstrapSamples ?? DEFAULT_BOOTSTRAP_SAMPLES, seed);
+  const scoreCI: ConfidenceInterval = rows.length === 0 ? bootstrapCI : {
+    lower: Math.min(bootstrapCI.lower, round1(composite({ ...components, reliability: reliabilityCI.lower }, weights))),
+    upper: Math.max(bootstrapCI.upper, round1(composite({ ...components, reliability: reliabilityCI.upper }, weights))),
+  };
 
   return {
-    score: Math.round(score * 10) / 10,
+    score: round1(score),
     components: {
-      reliability: Math.round(components.reliability * 10) / 10,
-      safety:      Math.round(components.safety      * 10) / 10,
-      speed:       Math.round(components.speed       * 10) / 10,
-      economics:   Math.round(components.economics   * 10) / 10,
-      feedback:    Math.round(components.feedback    * 10) / 10,
+      reliability: round1(components.reliability),
+      safety:      round1(components.safety),
+      speed:       round1(components.speed),
+      economics:   round1(components.economics),
+      feedback:    round1(components.feedback),
     },
-    sampleSize: receipts.length,
+    sampleSize:  items.length,
+    provisional: items.length < minSamples,
+    confidence: {
+      level:       0.95,
+      reliability: reliabilityCI,
+      score:       scoreCI,
+    },
+    profile: profile.name,
+    weights,
+  };
+}
+
+/**
+ * Per-receipt breakdown of the same score computeAQI returns: what each
+ * receipt scored on every component and why (flags, excess slippage,
+ * latency / gas ratios), plus how many composite points it contributed.
+ *
+ * Contributions sum to `aqi.score` (up to rounding), except when no receipt
+ * was rated — the neutral feedback default is then reported as
+ * `unattributed` rather than spread across receipts.
+ */
+export function explainAQI(
+  receipts: Receipt[],
+  profile:  WeightProfile = DEFAULT_WEIGHT_PROFILE,
+  options:  AQIOptions    = {},
+): AQIExplanation {
+  const w     = profile.weights;
+  const items = selectReceipts(receipts, options);
+  const total = items.reduce((s, i) => s + i.weight, 0);
+  const rated = items.reduce((s, i) => s + (i.receipt.userFeedback != null ? i.weight : 0), 0);
+
+  const explained: ReceiptExplanation[] = items.map(({ receipt, weight }) => {
+    const safety    = safetyBreakdown(receipt);
+    const speed     = speedBreakdown(receipt);
+    const economics = economicsBreakdown(receipt);
+    const feedback  = feedbackOf(receipt);
+    const share     = total > 0 ? weight / total : 0;
+
+    const contribution = {
+      reliability: share * reliabilityOf(receipt) * w.reliability,
+      safety:      share * safety.score           * w.safety,
+      speed:       share * speed.score            * w.speed,
+      economics:   share * economics.score        * w.economics,
+      feedback:    feedback !== null && rated > 0 ? (weight / rated) * feedback * w.feedback : 0,
+    };
+
+    return {
+      jobId:       receipt.jobId,
+      completedAt: receipt.completedAt,
+      status:      receipt.outcome.status,
+      weight:      round2(weight),
+      components: {
+        reliability: reliabilityOf(receipt),
+        safety:    { ...safety, slippagePenalty: round2(safety.slippagePenalty), score: round2(safety.score) },
+        speed:     { ...speed, ratio: round2(speed.ratio), score: round2(speed.score) },
+        economics: { ...economics, ratio: round2(economics.ratio), score: round2(economics.score) },
+        feedback,
+      },
+      contribution: {
+        reliability: round2(contribution.reliability),
+        safety:      round2(contribution.safety),
+        speed:       round2(contribution.speed),
+        economics:   round2(contribution.economics),
+        feedback:    round2(contribution.feedback),
+        total:       round2(
+          contribution.reliability + contribution.safety + contribution.speed +
+          contribution.economics + contribution.feedback,
+        ),
+      },
+    };
+  });
+
+  return {
+    aqi:          computeAQI(receipts, profile, options),
+    receipts:     explained,
+    unattributed: rated > 0 ? 0 : round2(NEUTRAL_FEEDBACK * w.feedback),
   };
 }
@@ -2,8 +2,12 @@
 
 export type JobType = "swap" | "paid_call";
 export type Objective = "safest" | "fastest" | "cheapest";
-export type AgentId = "safe" | "fast" | "cheap";
-export type JobStatus = "fulfilled" | "failed";
+/** Agents are registered at runtime (see AgentDefinition), so any id string is possible. */
+export type AgentId = string;
+/** The three agents that ship with the server. */
+export type BuiltinAgentId = "safe" | "fast" | "cheap";
+/** timed_out – the job was aborted at constraints.deadlineMs */
+export type JobStatus = "fulfilled" | "failed" | "timed_out";
 
 /**
  * Controls how the server executes jobs.
@@ -13,6 +17,18 @@ export type JobStatus = "fulfilled" | "failed";
  */
 export type ExecutionMode = "sim" | "quote" | "real";
 
+/**
+ * Market conditions applied to sim-mode outcome distributions.
+ *   calm       – the agents' baseline profiles (default)
+ *   congested  – slow blocks, expensive gas
+ *   volatile   – prices move during execution: slippage and reverts
+ *   mev_heavy  – searchers sandwich public-mempool swaps
+ *   chain_halt – the sequencer is down; almost nothing lands
+ */
+export type MarketScenario = "calm" | "congested" | "volatile" | "mev_heavy" | "chain_halt";
+
+export const MARKET_SCENARIOS: MarketScenario[] = ["calm", "congested", "volatile", "mev_heavy", "chain_halt"];
+
 // ─── Swap-specific input ──────────────────────────────────────────────────────
 
 /** Base Sepolia testnet – default chain for Phase 2 testing */
@@ -69,6 +85,68 @@ export interface SwapTxRequest {
   gas?: string;
 }
 
+// ─── Paid-call input + evidence ───────────────────────────────────────────────
+
+/**
+ * Parameters for a paid_call job: an HTTP request to an endpoint that may
+ * answer 402 with an x402 payment challenge.  When omitted, the job calls the
+ * server's own paywalled demo endpoint (GET /x402/demo).
+ */
+export interface PaidCallParams {
+  url: string;
+  method: "GET" | "POST";
+  /** JSON body, POST only */
+  body?: unknown;
+}
+
+/** One entry of an x402 402 response's `accepts` list ("exact" scheme). */
+export interface X402PaymentRequirements {
+  scheme: string;
+  /** e.g. "base-sepolia" */
+  network: string;
+  /** Price in the asset's smallest unit (USDC: 6 decimals) */
+  maxAmountRequired: string;
+  resource: string;
+  description?: string;
+  payTo: string;
+  /** ERC-20 (EIP-3009) token contract */
+  asset: string;
+  maxTimeoutSeconds: number;
+  /** EIP-712 domain name / version of the asset */
+  extra?: { name?: string; version?: string };
+}
+
+/** The payment a paid_call job made. */
+export interface PaymentEvidence {
+  scheme: string;
+  network: string;
+  asset: string;
+  payTo: string;
+  /** Address that signed the transfer authorization */
+  payer: string;
+  /** Amount authorised, in the asset's smallest unit */
+  amount: string;
+  amountUsd: number;
+  /** Settlement tx hash from the X-PAYMENT-RESPONSE header (absent when the endpoint sent none) */
+  transaction?: string;
+}
+
+/** What a paid_call job sent and got back. */
+export interface PaidCallEvidence {
+  url: string;
+  method: "GET" | "POST";
+  /** sha256 of "<METHOD> <url>\n<body>" */
+  requestHash: string;
+  /** sha256 of the final response body */
+  responseHash: string;
+  /** HTTP status of the final response */
+  httpStatus: number;
+  /** Whole exchange, challenge and paid retry included */
+  latencyMs: number;
+  /** Absent when the endpoint served the call without a 402 */
+  payment?: PaymentEvidence;
+}
+
 // ─── Constraints + Metrics ────────────────────────────────────────────────────
 
 /** Constraints provided by the caller when submitting a job */
@@ -77,7 +155,9 @@ export interface JobConstraints {
   objective: Objective;
   maxSlippageBps: number; // basis points, e.g. 50 = 0.5 %
   maxGasUsd: number;
-  deadlineMs: number; // max execution time in ms
+  deadlineMs: number; // max execution time in ms — jobs still running after it are timed_out
+  /** paid_call only: the most the agent pays per call, and the economics budget (default 0.01, capped by the server) */
+  maxPaymentUsd?: number;
 }
 
 /** Outcome metrics captured after execution */
@@ -89,15 +169,72 @@ export interface OutcomeMetrics {
   safetyFlags: string[]; // e.g. ["high_slippage", "unaudited_contract"]
 }
 
+// ─── Failures + retries ───────────────────────────────────────────────────────
+
+/**
+ * Why a job did not fulfil.
+ *   network           – transport error or 5xx (Uniswap, RPC, remote agent)
+ *   rate_limited      – an upstream API answered 429
+ *   bad_input         – the request was rejected as invalid (other 4xx)
+ *   quote_unavailable – Uniswap had no route, or returned a malformed quote
+ *   reverted          – the swap reverted on-chain (or failed in simulation)
+ *   timeout           – the job passed constraints.deadlineMs
+ *   protocol_error    – a remote agent broke agent-aqi/1 (bad response or signature)
+ *   payment_rejected  – a paid endpoint's price was over budget, or it refused the payment
+ *   unknown           – anything not classified above
+ */
+export type FailureKind =
+  | "network"
+  | "rate_limited"
+  | "bad_input"
+  | "quote_unavailable"
+  | "reverted"
+  | "timeout"
+  | "protocol_error"
+  | "payment_rejected"
+  | "unknown";
+
+/**
+ * Who a failure is attributed to.  Infrastructure faults (Uniswap, RPC, the
+ * caller's input) say nothing about the agent, so AQI leaves them out by default.
+ */
+export type FailureFault = "agent" | "infrastructure";
+
+/** Set on every receipt whose outcome is not fulfilled. */
+export interface JobFailure {
+  kind: FailureKind;
+  fault: FailureFault;
+  /** Pipeline phase that failed: "uniswap_quote", "uniswap_tx_build", "base_send_tx", "base_confirm_tx", "x402_call" or "agent" */
+  phase: string;
+  message: string;
+}
+
+/**
+ * How an agent retries failed Uniswap calls.  The delay before retry n is
+ * baseDelayMs × 2^(n-1), capped at maxDelayMs, and counts against the deadline.
+ */
+export interface RetryPolicy {
+  /** Attempts per call, including the first (1 = never retry) */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Only failures of these kinds are retried */
+  retryOn: FailureKind[];
+}
+
 /** Optional on-chain evidence (Phase 2.3 – real mode) */
 export interface OnChainEvidence {
   txHash: string;
-  blockNumber: number;
+  /** Absent while "pending" */
+  blockNumber?: number;
   chainId: number; // 8453 = Base mainnet, 84532 = Base Sepolia
-  /** Gas actually consumed by the transaction (from viem receipt.gasUsed) */
-  gasUsed: string;
-  /** Transaction execution result from the EVM */
-  status: "success" | "reverted";
+  /** Gas actually consumed by the transaction (from viem receipt.gasUsed); absent while "pending" */
+  gasUsed?: string;
+  /**
+   * Transaction execution result from the EVM, or "pending" when the tx was
+   * broadcast but the job's deadline passed before its receipt came back
+   */
+  status: "success" | "reverted" | "pending";
   /** Set to "quicknode" once a matching QuickNode Streams webhook confirms this tx */
   verifiedBy?: "quicknode";
   /** Unix ms timestamp when the stream confirmation was applied */
@@ -123,6 +260,60 @@ export interface AgentPolicy {
   preference: "safest" | "fastest" | "cheapest";
 }
 
+/**
+ * Sim-mode outcome distributions for one agent.
+ * Ranges are [min, max] and sampled uniformly.
+ */
+export interface SimProfile {
+  /** Probability of fulfillment (0-1) */
+  successRate: number;
+  latencyMs: [number, number];
+  gasUsedUsd: [number, number];
+  slippageBps: [number, number];
+  /** Probability of attaching a safety flag (0-1) */
+  flagProbability: number;
+  possibleFlags: string[];
+}
+
+/**
+ * How an agent executes jobs.
+ *   sim    – outcomes drawn from the agent's SimProfile (built-ins, sim benchmarks)
+ *   remote – jobs are POSTed to an external HTTP agent (see RemoteJobRequest)
+ */
+export type AgentKind = "sim" | "remote";
+
+/** Per-agent default constraints; `jobType` is filled in per job. */
+export type AgentConstraintDefaults = Omit<JobConstraints, "jobType">;
+
+/**
+ * Everything the server needs to run and display an agent.
+ * Built-ins are defined in code; custom agents are registered via the admin API.
+ */
+export interface AgentDefinition {
+  agentId: AgentId;
+  displayName: string;
+  description: string;
+  kind: AgentKind;
+  /** Required when kind === "sim" */
+  simProfile?: SimProfile;
+  /** Remote agents only — URL that receives RemoteJobRequest POSTs */
+  endpoint?: string;
+  /** Remote agents only — address that must sign every returned outcome */
+  signerAddress?: string;
+  /** Routing policy applied when requesting Uniswap quotes */
+  policy: AgentPolicy;
+  constraints: AgentConstraintDefaults;
+  /** How failed Uniswap calls are retried (default: 2 attempts on network / rate_limited) */
+  retryPolicy?: RetryPolicy;
+  /** Scene description sent to Blockade Labs for the agent's skybox */
+  skyboxPrompt: string;
+  /** Outcome slot in the EscrowPredictionPool contract (built-ins only: 0-2) */
+  predictionIndex?: number;
+  /** Built-in agents ship with the server and cannot be modified or removed */
+  builtin: boolean;
+  createdAt: number; // unix ms
+}
+
 /**
  * Economic metrics extracted from the Uniswap quote/swap response.
  * Complements OutcomeMetrics with raw Uniswap data points.
@@ -149,6 +340,8 @@ export interface Receipt {
   outcome: OutcomeMetrics;
   /** Set when jobType === "swap" and swap params were provided */
   swapParams?: SwapParams;
+  /** Set for paid_call jobs run by a built-in or sim agent — the x402 exchange */
+  paidCall?: PaidCallEvidence;
   /** Set when EXECUTION_MODE === "quote" — Uniswap price quote (no tx) */
   quoteResult?: SwapQuote;
   /**
@@ -166,6 +359,190 @@ export interface Receipt {
   policy?: AgentPolicy;
   /** Economic data extracted from the Uniswap quote/swap response */
   economics?: AgentEconomics;
+  /** Set when the job was executed by a remote agent */
+  remote?: RemoteAgentEvidence;
+  /** PRNG seed the simulator used; re-running the agent with it reproduces `outcome` */
+  seed?: number;
+  /** Market scenario the simulator applied (sim receipts only) */
+  scenario?: MarketScenario;
+  /** Why the job did not fulfil (absent when fulfilled) */
+  failure?: JobFailure;
+  /** Retries taken across all phases (absent when none) */
+  retries?: number;
+  /** How POST /jobs picked the agent (absent for battle jobs) */
+  routing?: RoutingDecision;
+}
+
+// ─── Job routing ──────────────────────────────────────────────────────────────
+
+/**
+ * How POST /jobs chose the agent.
+ *   fixed          – the built-in agent for the objective (default)
+ *   pinned         – the caller named an agentId
+ *   aqi            – highest AQI under the objective's weight profile
+ *   epsilon_greedy – like aqi, but a random candidate with probability epsilon
+ *   thompson       – highest score drawn from each agent's AQI confidence interval
+ */
+export type RoutingMode = "fixed" | "pinned" | "aqi" | "epsilon_greedy" | "thompson";
+
+/** One agent the router considered. */
+export interface RoutingCandidate {
+  agentId: AgentId;
+  /** AQI under the objective's weight profile */
+  score: number;
+  sampleSize: number;
+  /** The score Thompson sampling drew for this agent */
+  sampled?: number;
+}
+
+/** An agent the router ruled out because it cannot meet the job's constraints. */
+export interface RoutingExclusion {
+  agentId: AgentId;
+  reason: string;
+}
+
+/** Recorded on receipts of jobs submitted through POST /jobs. */
+export interface RoutingDecision {
+  mode: RoutingMode;
+  objective?: Objective;
+  /** Weight profile the candidates were scored with (AQI-driven modes only) */
+  profile?: string;
+  agentId: AgentId;
+  /** True when the router picked an agent other than the best-scoring one */
+  explored: boolean;
+  /** Why this agent was picked, e.g. "highest AQI" or "cold start" */
+  reason: string;
+  epsilon?: number;
+  /** The chosen agent's own scores (AQI-driven modes only) */
+  chosen?: RoutingCandidate;
+  /** Every other candidate, best score first */
+  alternatives: RoutingCandidate[];
+  /** Agents left out because they cannot meet the job's constraints */
+  excluded?: RoutingExclusion[];
+}
+
+// ─── Job status + receipt queries ─────────────────────────────────────────────
+
+/**
+ * Lifecycle of one job: queued → running → fulfilled | failed | timed_out.
+ * A cancelled job (DELETE /jobs/:id) never gets a receipt.
+ */
+export type JobState = "queued" | "running" | "cancelled" | JobStatus;
+
+/** GET /jobs/:id — the job's current state, with its receipt once it has one. */
+export interface JobRecord {
+  jobId: string;
+  agentId: AgentId;
+  jobType: JobType;
+  status: JobState;
+  submittedAt: number;
+  /** Set once the job reached fulfilled / failed */
+  completedAt?: number;
+  battleId?: string;
+  /** Why the job failed or was cancelled before an agent produced a receipt */
+  error?: string;
+  receipt?: Receipt;
+}
+
+/** GET /receipts — newest first; pass `nextCursor` back as `?cursor` for the next page. */
+export interface ReceiptPage {
+  receipts: Receipt[];
+  nextCursor: string | null;
+}
+
+// ─── Batches + schedules ──────────────────────────────────────────────────────
+
+/** What POST /jobs/batch submits, and what a JobSchedule runs on each tick. */
+export interface BatchSpec {
+  agentIds: AgentId[];
+  jobTypes: JobType[];
+  /** Jobs per agent and job type */
+  count: number;
+  /** Pause between consecutive submissions */
+  staggerMs: number;
+  scenario?: MarketScenario;
+  /** Parent seed; each job runs with deriveSeed(seed, "<agentId>:<jobType>:<n>") */
+  seed?: number;
+  /** Required for swap jobs outside sim mode */
+  swapParams?: SwapParams;
+  /** Endpoint for paid_call jobs (default: GET /x402/demo) */
+  paidCall?: PaidCallParams;
+}
+
+export type BatchStatus = "submitting" | "running" | "completed";
+
+/** GET /jobs/batch/:id — progress of one batch (held in memory, not persisted). */
+export interface BatchRecord {
+  batchId: string;
+  spec: BatchSpec;
+  /** Set when a schedule started the batch */
+  scheduleId?: string;
+  status: BatchStatus;
+  total: number;
+  submitted: number;
+  /** Finished jobs by final state */
+  finished: Partial<Record<JobState, number>>;
+  jobIds: string[];
+  createdAt: number;
+  completedAt?: number;
+}
+
+/** A batch that re-runs every `everyMs` (managed via /schedules). */
+export interface JobSchedule {
+  scheduleId: string;
+  name: string;
+  everyMs: number;
+  batch: BatchSpec;
+  enabled: boolean;
+  createdAt: number;
+  nextRunAt: number;
+  lastRunAt?: number;
+  lastBatchId?: string;
+}
+
+// ─── Remote agent protocol ────────────────────────────────────────────────────
+
+/**
+ * Body POSTed to a remote agent's endpoint.
+ * The agent must answer with a RemoteJobResponse before `deadline`.
+ */
+export interface RemoteJobRequest {
+  protocol: "agent-aqi/1";
+  jobId: string;
+  agentId: AgentId;
+  jobType: JobType;
+  constraints: JobConstraints;
+  swapParams?: SwapParams;
+  /** paid_call jobs: the endpoint to call */
+  paidCall?: PaidCallParams;
+  /** Unix ms after which the server aborts the call and records a failure */
+  deadline: number;
+}
+
+/** Outcome fields a remote agent reports; latency is measured by the server. */
+export type RemoteOutcome = Omit<OutcomeMetrics, "latencyMs">;
+
+export interface RemoteJobResponse {
+  jobId: string;
+  outcome: RemoteOutcome;
+  /** Optional on-chain proof when the agent broadcast a transaction; signed with the outcome */
+  onChain?: OnChainEvidence;
+  /** EIP-191 signature over remoteEvidenceMessage(jobId, outcome, onChain) */
+  evidence: {
+    signer: string;
+    signature: string;
+  };
+}
+
+/** What the server recorded about a remote agent call. */
+export interface RemoteAgentEvidence {
+  endpoint: string;
+  signer?: string;
+  signature?: string;
+  /** True when the signature recovered to the agent's registered signerAddress */
+  verified: boolean;
+  /** Why the response was rejected, if it was */
+  error?: string;
 }
 
 // ─── AQI scoring ──────────────────────────────────────────────────────────────
@@ -178,10 +555,136 @@ export interface AQIComponents {
   feedback: number;    // 0-100  (user ratings → 20*rating)
 }
 
+/** Component weights for the composite score; must sum to 1. */
+export type AQIWeights = Record<keyof AQIComponents, number>;
+
+/**
+ * A named set of AQI weights.  Built-ins (balanced + one per Objective) live
+ * in scoring.ts; custom profiles are saved via POST /aqi/profiles.
+ */
+export interface WeightProfile {
+  name: string;
+  description: string;
+  weights: AQIWeights;
+  builtin: boolean;
+  createdAt: number;
+}
+
+export interface ConfidenceInterval {
+  lower: number;       // 0-100
+  upper: number;       // 0-100
+}
+
+export interface AQIConfidence {
+  level: number;                   // e.g. 0.95
+  reliability: ConfidenceInterval; // Wilson interval on the success rate
+  score: ConfidenceInterval;       // bootstrap interval on the composite
+}
+
 export interface AQIResult {
   score: number;       // 0-100 weighted composite
   components: AQIComponents;
   sampleSize: number;
+  /** True when sampleSize is below the minimum sample threshold */
+  provisional: boolean;
+  confidence: AQIConfidence;
+  /** Name of the weight profile the score was computed with */
+  profile: string;
+  weights: AQIWeights;
+}
+
+/**
+ * Optional windowing / recency weighting for computeAQI.
+ * Windows are applied first, then decay weights the receipts that remain.
+ */
+export interface AQIOptions {
+  /** Keep only the N most recently completed receipts */
+  lastN?: number;
+  /** Keep only receipts completed within this many ms of `now` (e.g. 24h, 7d) */
+  maxAgeMs?: number;
+  /** Exponential decay: a receipt this old counts half as much as a fresh one */
+  halfLifeMs?: number;
+  /** Reference time for maxAgeMs / halfLifeMs (default: Date.now()) */
+  now?: number;
+  /** Scores from fewer receipts are flagged provisional (default: 10) */
+  minSamples?: number;
+  /** Bootstrap resamples for the composite interval (default: 200; 0 skips it) */
+  bootstrapSamples?: number;
+  /** Keep only receipts simulated under this market scenario */
+  scenario?: MarketScenario;
+  /**
+   * "agent" (default) leaves out receipts that failed through an
+   * infrastructure fault; "all" scores them like any other failure.
+   */
+  faults?: "agent" | "all";
+}
+
+/** Point-in-time all-time AQI for one agent, recorded by the API periodically. */
+export interface AQISnapshot {
+  agentId: AgentId;
+  takenAt: number;
+  score: number;
+  components: AQIComponents;
+  sampleSize: number;
+  /** Weight profile used (snapshots are always taken with "balanced") */
+  profile: string;
+}
+
+// ─── AQI explainability ───────────────────────────────────────────────────────
+
+export interface SafetyBreakdown {
+  /** Points each flag cost; flags past the 50-pt cap cost 0 */
+  flags: { flag: string; points: number }[];
+  flagPenalty: number;
+  excessSlippageBps: number;
+  slippagePenalty: number;
+  score: number;
+}
+
+export interface SpeedBreakdown {
+  latencyMs: number;
+  deadlineMs: number;
+  /** latencyMs / deadlineMs — 100 pts at ≤ 1, 0 at ≥ 3 */
+  ratio: number;
+  /** The job hit its hard deadline — scores 0 regardless of ratio */
+  timedOut: boolean;
+  score: number;
+}
+
+export interface EconomicsBreakdown {
+  /** What the cost is: swap gas, or the payment a paid_call made */
+  basis: "gas" | "payment";
+  costUsd: number;
+  budgetUsd: number;
+  /** costUsd / budgetUsd — 100 pts at ≤ 1, 0 at ≥ 2 */
+  ratio: number;
+  score: number;
+}
+
+export interface ReceiptExplanation {
+  jobId: string;
+  completedAt: number;
+  status: JobStatus;
+  /** Recency weight (1 unless a half-life was applied) */
+  weight: number;
+  components: {
+    reliability: number;
+    safety: SafetyBreakdown;
+    speed: SpeedBreakdown;
+    economics: EconomicsBreakdown;
+    /** null when the receipt has no user rating */
+    feedback: number | null;
+  };
+  /** Composite points this receipt added, per component and in total */
+  contribution: AQIComponents & { total: number };
+}
+
+export interface AQIExplanation {
+  aqi: AQIResult;
+  /** Oldest first, same selection computeAQI scored */
+  receipts: ReceiptExplanation[];
+  /** Composite points from the neutral feedback default when nothing was rated */
+  unattributed: number;
 }
 
 // ─── API shapes used by both frontend and backend ─────────────────────────────
@@ -190,7 +693,13 @@ export interface AgentSummary {
   agentId: AgentId;
   displayName: string;
   description: string;
+  /** Windowed / decayed when AQI query params are set, otherwise all-time */
   aqi: AQIResult;
+  /**
+   * Present only when `aqi` is windowed or decayed.  Scored without the
+   * bootstrap, so its composite interval is the uninformative 0-100.
+   */
+  aqiAllTime?: AQIResult;
   totalJobs: number;
   successRate: number;
 }
@@ -201,18 +710,28 @@ export interface SSEEvent {
   type:
     | "queued"
     | "running"
+    | "retrying"
     | "fulfilled"
     | "failed"
+    | "timed_out"
+    | "cancelled"
     | "tx_submitted"
     | "tx_confirmed"
     | "stream_event"
+    | "battle_round"
     | "battle_complete"
     | "prediction_update"
     | "prediction_resolved"
     | "paperbet_placed"
     | "paperbet_resolved"
     | "battle_open"
-    | "participation_update";
+    | "betting_closed"
+    | "battle_cancelled"
+    | "participation_update"
+    | "batch_progress"
+    | "batch_complete"
+    | "tournament_update"
+    | "tournament_complete";
   payload: Record<string, unknown>;
 }
 
@@ -238,6 +757,10 @@ export interface PaperBetResult {
   /** Return on investment as a percentage */
   roiPct:    number;
   won:       boolean;
+  /** True when the stake was returned because the battle had no winner */
+  refunded?: boolean;
+  /** True when the stake was returned because the lobby was cancelled */
+  voided?:   boolean;
 }
 
 export interface PaperLeaderboardEntry {
@@ -282,21 +805,124 @@ export interface StreamEvent {
 
 // ─── Arena Battle ─────────────────────────────────────────────────────────────
 
-export type BattleType   = "speed" | "gas" | "reliability" | "slippage";
-/** lobby = bets open, jobs not yet running; running = jobs executing; complete = done */
-export type BattleStatus = "lobby" | "running" | "complete";
+export type BuiltinBattleType = "speed" | "gas" | "reliability" | "slippage";
+/** A built-in battle type, or the name of an admin-defined CustomBattleType */
+export type BattleType   = BuiltinBattleType | (string & {});
+/**
+ * lobby = bets open, jobs not yet running; running = jobs executing; complete = done;
+ * cancelled = lobby closed by an admin without running
+ */
+export type BattleStatus = "lobby" | "running" | "complete" | "cancelled";
 
 /** Per-agent metrics captured once the agent's job finishes. */
+/**
+ * One agent's result in a battle.  In a best-of-N series (BattleRecord.rounds
+ * > 1) it aggregates every round so far: `status` is "fulfilled" if any round
+ * was, and latencyMs / gasUsedUsd / slippageBps are the means (see `stats`).
+ */
 export interface BattleScorecard {
   agentId:          AgentId;
   jobId?:           string;
-  status:           "pending" | "running" | "fulfilled" | "failed";
+  status:           "pending" | "running" | JobStatus;
   latencyMs?:       number;
   gasUsedUsd?:      number;
   slippageBps?:     number;
   quotedOut?:       string;
   /** True once a QuickNode Streams event has confirmed this agent's battle tx */
   verifiedByStream?: boolean;
+  /** Series only: rounds this agent has played and fulfilled */
+  roundsPlayed?:    number;
+  fulfilledRounds?: number;
+  /** Series only: per-metric summary over the rounds that reported the metric */
+  stats?:           Partial<Record<BattleMetric, MetricSummary>>;
+}
+
+export type BattleMetric = "latencyMs" | "gasUsedUsd" | "slippageBps";
+
+export interface MetricSummary {
+  /** Rounds with a value */
+  n:      number;
+  mean:   number;
+  median: number;
+  p95:    number;
+}
+
+/** One round of a best-of-N series: every agent's single-job scorecard. */
+export interface BattleRound {
+  round:      number;
+  scorecards: BattleScorecard[];
+}
+
+/** One ranking criterion applied while deciding a battle. */
+export interface BattleCriterionResult {
+  /** "fulfilled" | "successRate" | "latencyMs" | "gasUsedUsd" | "slippageBps" | "qualified" | "score" */
+  criterion:  string;
+  direction:  "higher" | "lower";
+  /** Per-agent value for every agent still in contention; null = no data (ranks last) */
+  values:     Record<AgentId, number | null>;
+  /** Agents still in contention after this criterion */
+  leaders:    AgentId[];
+  /**
+   * Set when a best-of-N series compared the rounds: `values` are per-round
+   * means and `leaders` are the best agent plus every agent not significantly
+   * worse (95 %) by this test.
+   */
+  test?:      "welch_t" | "two_proportion_z";
+}
+
+/**
+ * How a battle's winner was chosen.  Criteria are applied in order and each
+ * one narrows the field; a tie is declared when more than one agent survives
+ * every criterion.
+ */
+export interface BattleDecision {
+  winnerAgentId: AgentId | null;
+  tie:           boolean;
+  /** Agents still level after every criterion (empty unless tie) */
+  tiedAgentIds:  AgentId[];
+  /** Criterion that separated the winner from the rest (null on a tie) */
+  decidedBy:     string | null;
+  steps:         BattleCriterionResult[];
+  /** Human-readable one-liner, e.g. "fast wins on latencyMs: 312 vs 845" */
+  summary:       string;
+  /** Custom battle types: why each disqualified agent was ruled out */
+  disqualified?: Record<AgentId, string>;
+}
+
+/**
+ * What a custom battle type scores.  Each term is 0-100 per run, higher is
+ * better: the metrics score 100 × (best in the field) / (this run's value),
+ * "aqi" is the run's own AQI under the type's weight profile.
+ */
+export type BattleScoreTerm = "latencyMs" | "gasUsedUsd" | "slippageBps" | "aqi";
+
+/** Runs a custom battle type rules out before anything is scored. */
+export interface BattleDisqualification {
+  /** Disqualify a run whose job did not fulfil */
+  failedJobs:      boolean;
+  /** Disqualify a run carrying any of these safety flags ("*" = any flag) */
+  safetyFlags:     string[];
+  maxLatencyMs?:   number;
+  maxGasUsd?:      number;
+  maxSlippageBps?: number;
+}
+
+/**
+ * Admin-defined battle type: the qualifying agent with the highest weighted
+ * score wins, e.g. "cheapest that stays under 50 bps slippage" is
+ * `{ weights: { gasUsedUsd: 1 }, disqualify: { maxSlippageBps: 50, … } }`.
+ */
+export interface CustomBattleType {
+  /** Slug used as BattleRecord.battleType */
+  name:        string;
+  label:       string;
+  description: string;
+  /** Term weights; they sum to 1 */
+  weights:     Partial<Record<BattleScoreTerm, number>>;
+  /** Weight profile the "aqi" term scores runs with (default "balanced") */
+  aqiProfile?: string;
+  disqualify:  BattleDisqualification;
+  createdAt:   number;
 }
 
 export interface BattleRecord {
@@ -307,6 +933,132 @@ export interface BattleRecord {
   scorecards:      BattleScorecard[];
   status:          BattleStatus;
   winnerAgentId?:  AgentId;
+  /** Set when the battle completes; explains the winner or the tie */
+  decision?:       BattleDecision;
   /** Tx hash of the on-chain resolveBattle() call (set when PREDICTION_ENABLED) */
   resolveTxHash?:  string;
+  /** Battle seed; each agent's job seed is deriveSeed(seed, agentId) */
+  seed?:           number;
+  /** Set on a replay — the battle whose seed this one re-used */
+  replayOf?:       string;
+  /** Market scenario every agent's sim job ran under */
+  scenario?:       MarketScenario;
+  /** Definition of a custom battleType, as it was when the battle was created */
+  customType?:     CustomBattleType;
+  /** Best-of-N: jobs each agent runs (absent = 1) */
+  rounds?:         number;
+  /** Series only: per-round scorecards, in order */
+  roundResults?:   BattleRound[];
+  /** Set when the battle is a tournament match */
+  tournamentId?:   string;
+  matchId?:        string;
+  /** Set when the battle was opened as a lobby (POST /arena/admin/open) */
+  lobby?:          BattleLobbySettings;
+}
+
+/** Per-lobby settings; several lobbies can be open at once. */
+export interface BattleLobbySettings {
+  title?:           string;
+  /**
+   * Epoch ms at which betting closes.  Betting also closes when the lobby
+   * starts running; without `autoStartAt` the lobby runs at this time.
+   */
+  bettingClosesAt?: number;
+  /** Epoch ms at which the lobby runs without an admin starting it */
+  autoStartAt?:     number;
+}
+
+// ─── Tournaments ──────────────────────────────────────────────────────────────
+
+/**
+ *   single_elimination – one loss and you are out
+ *   double_elimination – two losses; a losers bracket feeds the grand final
+ *   round_robin        – everyone meets everyone once; standings decide
+ */
+export type TournamentFormat = "single_elimination" | "double_elimination" | "round_robin";
+
+export type TournamentStatus = "running" | "complete";
+
+/**
+ * pending  – waiting for an agent from an earlier match
+ * running  – its battle is under way
+ * complete – decided by a battle (or on seed after repeated ties)
+ * bye      – fewer than two agents reached it; the one present advances
+ * skipped  – never needed (the bracket-reset grand final)
+ */
+export type TournamentMatchStatus = "pending" | "running" | "complete" | "bye" | "skipped";
+
+/** Where a match slot's agent comes from. */
+export interface TournamentMatchSource {
+  matchId: string;
+  result:  "winner" | "loser";
+}
+
+export interface TournamentMatch {
+  /** "W1-1", "L2-1", "GF1", "R3-2" … */
+  matchId:        string;
+  bracket:        "winners" | "losers" | "final" | "round_robin";
+  round:          number;
+  /** The two slots; null until filled (or for an empty bye slot) */
+  agentIds:       [AgentId | null, AgentId | null];
+  /** Earlier matches the slots are filled from (null = seeded directly) */
+  sources:        [TournamentMatchSource | null, TournamentMatchSource | null];
+  status:         TournamentMatchStatus;
+  /** Every battle played for this match — rematches follow a tie */
+  battleIds:      string[];
+  winnerAgentId?: AgentId;
+  loserAgentId?:  AgentId;
+  /** Round robin only: the match was drawn */
+  draw?:          boolean;
+  /** Elimination only: still tied after every rematch, so the higher seed went through */
+  decidedBySeed?: boolean;
+}
+
+export interface TournamentStanding {
+  agentId: AgentId;
+  played:  number;
+  wins:    number;
+  draws:   number;
+  losses:  number;
+  /** 3 per win, 1 per draw */
+  points:  number;
+  /** Elimination formats: knocked out */
+  eliminated?: boolean;
+  /** 1 = champion / top of the table */
+  rank:    number;
+}
+
+export interface Tournament {
+  tournamentId:     string;
+  name:             string;
+  format:           TournamentFormat;
+  battleType:       BattleType;
+  /** In seed order (seed 1 first) */
+  agentIds:         AgentId[];
+  seasonId?:        string;
+  /** Match battle seeds derive from it */
+  seed:             number;
+  scenario:         MarketScenario;
+  status:           TournamentStatus;
+  matches:          TournamentMatch[];
+  standings:        TournamentStanding[];
+  championAgentId?: AgentId;
+  createdAt:        number;
+  completedAt?:     number;
+}
+
+/** A named run of tournaments whose results add up to one table. */
+export interface Season {
+  seasonId:   string;
+  name:       string;
+  status:     "active" | "ended";
+  createdAt:  number;
+  endedAt?:   number;
+}
+
+/** A season's table: its tournaments' standings added up. */
+export interface SeasonStanding extends Omit<TournamentStanding, "eliminated"> {
+  tournaments: number;
+  /** Tournaments won */
+  titles:      number;
 }